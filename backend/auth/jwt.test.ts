@@ -0,0 +1,35 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ErrCode } from 'encore.dev/api';
+import { generateStreamToken, generateToken, verifyStreamToken, verifyToken } from './jwt';
+
+describe('stream tokens', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('identify the user and expire within a minute', async () => {
+    vi.useFakeTimers({ now: new Date('2024-06-12T09:15:00Z') });
+
+    const { token, expiresAt } = await generateStreamToken('user-1');
+
+    expect(expiresAt).toEqual(new Date('2024-06-12T09:16:00Z'));
+    await expect(verifyStreamToken(token)).resolves.toEqual({ userId: 'user-1' });
+  });
+
+  it('are rejected once expired', async () => {
+    vi.useFakeTimers({ now: new Date('2024-06-12T09:15:00Z') });
+    const { token } = await generateStreamToken('user-1');
+
+    vi.setSystemTime(new Date('2024-06-12T09:16:01Z'));
+
+    await expect(verifyStreamToken(token)).rejects.toMatchObject({ code: ErrCode.Unauthenticated });
+  });
+
+  it('are not API tokens, and API tokens are not stream tokens', async () => {
+    const stream = await generateStreamToken('user-1');
+    const api = await generateToken('user-1', 'user@example.com', 'free');
+
+    await expect(verifyToken(stream.token)).rejects.toMatchObject({ code: ErrCode.Unauthenticated });
+    await expect(verifyStreamToken(api)).rejects.toMatchObject({ code: ErrCode.Unauthenticated });
+  });
+});
@@ -110,6 +110,56 @@ export async function verifyToken(token: string): Promise<JWTPayload> {
   }
 }
 
+/**
+ * Lifetime of an event stream token in seconds
+ */
+const STREAM_TOKEN_SECONDS = 60;
+
+const STREAM_AUDIENCE = 'kitemate-events';
+
+/**
+ * Generate a token that only opens the user's event stream
+ * 
+ * EventSource cannot set headers, so this token travels in the URL, where
+ * proxies and access logs may keep it. It has its own audience and expires
+ * within a minute, so a logged token is useless almost at once.
+ * 
+ * @param userId - User ID
+ * @returns Token and its expiry
+ */
+export async function generateStreamToken(userId: string): Promise<{ token: string; expiresAt: Date }> {
+  const now = Math.floor(Date.now() / 1000);
+
+  const token = await new SignJWT({ userId })
+    .setProtectedHeader({ alg: 'HS256', typ: 'JWT' })
+    .setIssuedAt(now)
+    .setExpirationTime(now + STREAM_TOKEN_SECONDS)
+    .setIssuer('kitemate')
+    .setAudience(STREAM_AUDIENCE)
+    .sign(getSecretKey());
+
+  return { token, expiresAt: new Date((now + STREAM_TOKEN_SECONDS) * 1000) };
+}
+
+/**
+ * Verify an event stream token
+ * 
+ * @param token - Token from generateStreamToken (API tokens are rejected)
+ * @returns User the stream belongs to
+ * @throws APIError if token is invalid or expired
+ */
+export async function verifyStreamToken(token: string): Promise<{ userId: string }> {
+  try {
+    const { payload } = await jwtVerify(token, getSecretKey(), {
+      issuer: 'kitemate',
+      audience: STREAM_AUDIENCE
+    });
+    return { userId: payload.userId as string };
+  } catch {
+    throw unauthenticated('Invalid or expired stream token. Request a new one.');
+  }
+}
+
 /**
  * Extract token from Authorization header
  * Supports: "Bearer <token>" format
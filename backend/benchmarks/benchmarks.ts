@@ -0,0 +1,110 @@
+/**
+ * Benchmark endpoints
+ *
+ * Why this exists:
+ * - Lists the benchmarks widgets and the performance endpoint can use
+ * - Serves raw closes for charts drawn outside the widget DSL
+ * - Refresh job that loads the CSVs in BENCHMARK_DATA_DIR
+ */
+
+import { api } from 'encore.dev/api';
+import { CronJob } from 'encore.dev/cron';
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { DB } from './db';
+import { env } from '../shared/env';
+import { invalidArgument, notFound } from '../shared/errors';
+import type { Benchmark, BenchmarkPrice } from '../shared/types';
+import { parseBenchmarkFile } from './parsers';
+import { getBenchmark, listBenchmarks, loadBenchmarkPrices, upsertBenchmark } from './store';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+interface ListBenchmarksResponse {
+  benchmarks: Benchmark[];
+}
+
+/**
+ * List available benchmarks
+ * GET /benchmarks
+ */
+export const list = api(
+  { expose: true, auth: true, method: 'GET', path: '/benchmarks' },
+  async (): Promise<ListBenchmarksResponse> => {
+    return { benchmarks: await listBenchmarks(DB) };
+  }
+);
+
+interface GetPricesRequest {
+  id: string;
+  from?: string;  // YYYY-MM-DD
+  to?: string;
+}
+
+interface GetPricesResponse {
+  benchmark: Benchmark;
+  prices: BenchmarkPrice[];
+}
+
+/**
+ * Daily closes of one benchmark
+ * GET /benchmarks/:id/prices?from=2024-01-01&to=2024-12-31
+ */
+export const prices = api(
+  { expose: true, auth: true, method: 'GET', path: '/benchmarks/:id/prices' },
+  async ({ id, from, to }: GetPricesRequest): Promise<GetPricesResponse> => {
+    for (const [name, value] of Object.entries({ from, to })) {
+      if (value !== undefined && !ISO_DATE.test(value)) {
+        throw invalidArgument(`'${name}' must be a YYYY-MM-DD date`, { [name]: value });
+      }
+    }
+
+    const benchmark = await getBenchmark(DB, id);
+    if (!benchmark) {
+      throw notFound('Benchmark not found', { id });
+    }
+
+    return { benchmark, prices: await loadBenchmarkPrices(DB, benchmark.id, from, to) };
+  }
+);
+
+interface RefreshBenchmarksResponse {
+  files: Array<{ file: string; id?: string; prices: number; skipped: number }>;
+}
+
+/**
+ * Load every CSV in BENCHMARK_DATA_DIR
+ * Unrecognized files are listed without an id and ignored
+ * Internal endpoint, triggered by cron
+ */
+export const refresh = api(
+  { expose: false, method: 'POST', path: '/benchmarks/refresh' },
+  async (): Promise<RefreshBenchmarksResponse> => {
+    let names: string[];
+    try {
+      names = (await readdir(env.BENCHMARK_DATA_DIR)).sort();
+    } catch (error) {
+      console.error('Benchmark data directory unreadable:', { dir: env.BENCHMARK_DATA_DIR, error });
+      return { files: [] };
+    }
+
+    const files: RefreshBenchmarksResponse['files'] = [];
+    for (const name of names.filter((file) => /\.csv$/i.test(file))) {
+      const parsed = parseBenchmarkFile(name, await readFile(join(env.BENCHMARK_DATA_DIR, name), 'utf8'));
+      if (!parsed || parsed.prices.length === 0) {
+        files.push({ file: name, prices: 0, skipped: parsed?.skipped ?? 0 });
+        continue;
+      }
+
+      files.push({ file: name, id: parsed.id, prices: await upsertBenchmark(DB, parsed, name), skipped: parsed.skipped });
+    }
+
+    return { files };
+  }
+);
+
+export const refreshBenchmarksJob = new CronJob('refresh-benchmarks', {
+  title: 'Load benchmark price histories',
+  schedule: '30 13 * * 1-5',  // 19:00 IST, after the exchanges publish closing levels
+  endpoint: refresh
+});
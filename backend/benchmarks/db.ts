@@ -0,0 +1,18 @@
+/**
+ * Benchmarks Database Connection
+ * 
+ * Why this exists:
+ * - Stores benchmark metadata and daily closes
+ * - Follows Encore pattern: one database per service
+ * - Other services read it through SQLDatabase.named('benchmarks')
+ */
+
+import { SQLDatabase } from 'encore.dev/storage/sqldb';
+
+/**
+ * Benchmarks service database
+ * Manages: benchmarks, benchmark_prices
+ */
+export const DB = new SQLDatabase('benchmarks', {
+  migrations: './migrations'
+});
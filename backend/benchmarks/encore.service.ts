@@ -0,0 +1,12 @@
+/**
+ * Benchmarks Service Definition
+ * 
+ * Why this exists:
+ * - Owns index price histories (NIFTY 50, SENSEX, custom series)
+ * - Portfolio and chat compare returns against them
+ * - Refreshes from local CSV exports on a schedule
+ */
+
+import { Service } from 'encore.dev/service';
+
+export default new Service('benchmarks');
@@ -0,0 +1,22 @@
+-- Create benchmarks
+-- One row per index, with its daily closes loaded from local CSV exports
+
+CREATE TABLE benchmarks (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  source_file TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE benchmark_prices (
+  benchmark_id TEXT NOT NULL REFERENCES benchmarks(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  close NUMERIC(14, 4) NOT NULL CHECK (close > 0),
+  PRIMARY KEY (benchmark_id, date)
+);
+
+-- Comments for documentation
+COMMENT ON TABLE benchmarks IS 'Indices and custom series portfolios are compared against';
+COMMENT ON COLUMN benchmarks.id IS 'Upper-case file name without extension, e.g. NIFTY50';
+COMMENT ON COLUMN benchmarks.source_file IS 'File in BENCHMARK_DATA_DIR the prices were last loaded from';
+COMMENT ON COLUMN benchmark_prices.date IS 'Trading day (IST)';
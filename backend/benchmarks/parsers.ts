@@ -0,0 +1,113 @@
+/**
+ * Parsers for benchmark price histories
+ *
+ * Why this exists:
+ * - Index histories come from exchange downloads, not a live feed
+ * - Any CSV with a date and a close column works, so a custom index or
+ *   a fund's NAV history can be dropped in next to NIFTY 50 and SENSEX
+ *
+ * Supported files (as downloaded), recognized by their header row:
+ * - NSE/niftyindices historical data: Date, Open, High, Low, Close, Shares Traded, ...
+ *   (dates like 01-JAN-2024 or 01 Jan 2024; newer exports use INDEX_NAME, HistoricalDate, ..., CLOSE)
+ * - BSE index archive: Date, Open, High, Low, Close (dates like 1-January-2024)
+ * - Custom: date, close (YYYY-MM-DD or DD-MM-YYYY)
+ *
+ * The benchmark id is the file name: NIFTY50.csv -> NIFTY50, nifty-next-50.csv -> NIFTYNEXT50.
+ */
+
+import type { BenchmarkPrice } from '../shared/types';
+import { parseCsv } from '../shared/csv';
+import { parseDateCell, parseNumberCell } from '../portfolio/csv-import';
+
+export const BENCHMARK_ID_PATTERN = /^[A-Z0-9]{1,32}$/;
+
+/**
+ * Display names for common ids; other files use the INDEX_NAME column or the file name
+ */
+const KNOWN_BENCHMARKS: Record<string, string> = {
+  NIFTY50: 'NIFTY 50',
+  NIFTYNEXT50: 'NIFTY NEXT 50',
+  NIFTY100: 'NIFTY 100',
+  NIFTY500: 'NIFTY 500',
+  NIFTYMIDCAP150: 'NIFTY MIDCAP 150',
+  NIFTYSMALLCAP250: 'NIFTY SMALLCAP 250',
+  NIFTYBANK: 'NIFTY BANK',
+  NIFTYIT: 'NIFTY IT',
+  SENSEX: 'BSE SENSEX',
+  BSE500: 'BSE 500'
+};
+
+const DATE_HEADERS = ['date', 'historicaldate', 'indexdate', 'tradedate'];
+const CLOSE_HEADERS = ['close', 'closeprice', 'closingprice', 'closingindexvalue', 'closeindexvalue', 'nav'];
+const NAME_HEADERS = ['indexname', 'index'];
+
+export interface ParsedBenchmarkFile {
+  id: string;
+  name: string;
+  prices: BenchmarkPrice[];  // Sorted by date, one per day
+  skipped: number;  // Rows without a valid date or close
+}
+
+/**
+ * Lowercase alphanumerics only, so 'Close ' and 'CLOSE' compare equal
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Benchmark id for a file name
+ * @returns undefined if nothing usable is left
+ */
+export function benchmarkIdFromFile(fileName: string): string | undefined {
+  const id = fileName.replace(/\.[^.]+$/, '').toUpperCase().replace(/[^A-Z0-9]/g, '');
+  return BENCHMARK_ID_PATTERN.test(id) ? id : undefined;
+}
+
+/**
+ * BSE writes full month names (1-January-2024); the date parser takes three letters
+ */
+function parseIndexDate(value: string | undefined): string | undefined {
+  return parseDateCell(value?.trim().replace(/^(\d{1,2}[- ])([A-Za-z]{3})[A-Za-z]*([- ]\d{4})$/, '$1$2$3'));
+}
+
+/**
+ * Parse a benchmark CSV
+ * @returns undefined if the file has no date and close columns
+ */
+export function parseBenchmarkFile(fileName: string, text: string): ParsedBenchmarkFile | undefined {
+  const id = benchmarkIdFromFile(fileName);
+  const [headerRow = [], ...rows] = parseCsv(text.replace(/^﻿/, ''));
+  const headers = headerRow.map(normalizeHeader);
+  const dateColumn = headers.findIndex((header) => DATE_HEADERS.includes(header));
+  const closeColumn = headers.findIndex((header) => CLOSE_HEADERS.includes(header));
+  const nameColumn = headers.findIndex((header) => NAME_HEADERS.includes(header));
+  if (!id || dateColumn === -1 || closeColumn === -1) {
+    return undefined;
+  }
+
+  const byDate = new Map<string, number>();
+  let skipped = 0;
+  let indexName: string | undefined;
+
+  for (const cells of rows) {
+    if (cells.every((cell) => cell.trim() === '')) continue;
+
+    const date = parseIndexDate(cells[dateColumn]);
+    const close = parseNumberCell(cells[closeColumn]);
+    if (!date || close === undefined || !Number.isFinite(close) || close <= 0) {
+      skipped++;
+      continue;
+    }
+
+    // Exports list newest first or oldest first; a repeated date keeps the last row
+    byDate.set(date, close);
+    indexName ??= nameColumn === -1 ? undefined : cells[nameColumn]?.trim() || undefined;
+  }
+
+  const prices = [...byDate]
+    .map(([date, close]) => ({ date, close }))
+    .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+
+  return { id, name: KNOWN_BENCHMARKS[id] ?? indexName ?? id, prices, skipped };
+}
@@ -0,0 +1,120 @@
+/**
+ * Benchmark persistence
+ *
+ * Why this exists:
+ * - Bulk upserts parsed price files on every refresh
+ * - Read queries shared by the benchmarks API, the portfolio performance
+ *   endpoint and the chat executor (which read the same database via
+ *   SQLDatabase.named('benchmarks'))
+ */
+
+import type { SQLDatabase } from 'encore.dev/storage/sqldb';
+import type { Benchmark, BenchmarkPrice } from '../shared/types';
+import type { ParsedBenchmarkFile } from './parsers';
+
+interface BenchmarkRow {
+  id: string;
+  name: string;
+  first_date: string | null;
+  last_date: string | null;
+  points: number;
+  updated_at: Date;
+}
+
+function toBenchmark(row: BenchmarkRow): Benchmark {
+  return {
+    id: row.id,
+    name: row.name,
+    firstDate: row.first_date ?? '',
+    lastDate: row.last_date ?? '',
+    points: Number(row.points),
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Rows per upsert statement (keeps each JSON payload small)
+ */
+const UPSERT_BATCH_SIZE = 2000;
+
+/**
+ * Insert or update a benchmark and its closes
+ * Dates missing from the file are kept, so a trimmed export never loses history
+ * @returns Number of prices written
+ */
+export async function upsertBenchmark(db: SQLDatabase, file: ParsedBenchmarkFile, sourceFile: string): Promise<number> {
+  await db.exec`
+    INSERT INTO benchmarks (id, name, source_file)
+    VALUES (${file.id}, ${file.name}, ${sourceFile})
+    ON CONFLICT (id) DO UPDATE SET
+      name = EXCLUDED.name,
+      source_file = EXCLUDED.source_file,
+      updated_at = NOW()
+  `;
+
+  for (let start = 0; start < file.prices.length; start += UPSERT_BATCH_SIZE) {
+    const batch = file.prices.slice(start, start + UPSERT_BATCH_SIZE);
+
+    await db.exec`
+      INSERT INTO benchmark_prices (benchmark_id, date, close)
+      SELECT ${file.id}, date, close
+      FROM jsonb_to_recordset(${JSON.stringify(batch)}::jsonb) AS x(date DATE, close NUMERIC)
+      ON CONFLICT (benchmark_id, date) DO UPDATE SET close = EXCLUDED.close
+    `;
+  }
+
+  return file.prices.length;
+}
+
+const BENCHMARK_SELECT = `
+  SELECT b.id, b.name, b.updated_at,
+    to_char(min(p.date), 'YYYY-MM-DD') AS first_date,
+    to_char(max(p.date), 'YYYY-MM-DD') AS last_date,
+    count(p.date)::int AS points
+  FROM benchmarks b
+  LEFT JOIN benchmark_prices p ON p.benchmark_id = b.id
+`;
+
+/**
+ * All benchmarks with their date coverage
+ */
+export async function listBenchmarks(db: SQLDatabase): Promise<Benchmark[]> {
+  const rows = await db.rawQueryAll<BenchmarkRow>(`${BENCHMARK_SELECT} GROUP BY b.id ORDER BY b.id`);
+  return rows.map(toBenchmark);
+}
+
+/**
+ * One benchmark by id (case-insensitive)
+ */
+export async function getBenchmark(db: SQLDatabase, id: string): Promise<Benchmark | null> {
+  const row = await db.rawQueryRow<BenchmarkRow>(
+    `${BENCHMARK_SELECT} WHERE b.id = upper($1) GROUP BY b.id`,
+    id
+  );
+  return row ? toBenchmark(row) : null;
+}
+
+/**
+ * Closes between two dates (inclusive), oldest first
+ * The last close before `from` is included so the first day can be carried forward
+ */
+export async function loadBenchmarkPrices(
+  db: SQLDatabase,
+  id: string,
+  from?: string,
+  to?: string
+): Promise<BenchmarkPrice[]> {
+  const rows = await db.queryAll<{ date: string; close: number }>`
+    SELECT to_char(date, 'YYYY-MM-DD') AS date, close::float8 AS close
+    FROM benchmark_prices
+    WHERE benchmark_id = upper(${id})
+      AND (${to ?? null}::date IS NULL OR date <= ${to ?? null}::date)
+      AND (${from ?? null}::date IS NULL OR date >= COALESCE(
+        (SELECT max(date) FROM benchmark_prices WHERE benchmark_id = upper(${id}) AND date <= ${from ?? null}::date),
+        ${from ?? null}::date
+      ))
+    ORDER BY date ASC
+  `;
+
+  return rows.map((row) => ({ date: row.date, close: Number(row.close) }));
+}
@@ -0,0 +1,104 @@
+/**
+ * DSL audit logging
+ *
+ * Why this exists:
+ * - Every DSL command is logged, including the ones that fail validation
+ * - The log is insert-only; an executed command is logged before it runs
+ * - The one exception is fact_check, written once after the explanation of
+ *   an executed command has been verified
+ */
+
+import { DB } from './db';
+import type { DSLAuditLog, DSLValidationError, FactCheckResult } from '../shared/types';
+
+/**
+ * Raw audit row as stored in PostgreSQL
+ */
+interface AuditRow {
+  id: number;
+  user_id: string;
+  widget_id: string | null;
+  dsl_command: DSLAuditLog['dslCommand'];
+  validation_result: DSLAuditLog['validationResult'];
+  validation_errors: DSLValidationError[] | null;
+  executed: boolean;
+  executed_at: Date | null;
+  fact_check: FactCheckResult | null;
+  created_at: Date;
+}
+
+function toAuditLog(row: AuditRow): DSLAuditLog {
+  return {
+    id: Number(row.id),
+    userId: row.user_id,
+    widgetId: row.widget_id ?? undefined,
+    dslCommand: row.dsl_command,
+    validationResult: row.validation_result,
+    validationErrors: row.validation_errors ?? undefined,
+    executed: row.executed,
+    executedAt: row.executed_at ?? undefined,
+    factCheck: row.fact_check ?? undefined,
+    createdAt: row.created_at
+  };
+}
+
+export interface DslAttempt {
+  userId: string;
+  widgetId?: string;
+  dslCommand: unknown;  // As submitted; may not be a WidgetConfig
+  errors: DSLValidationError[];
+  executed: boolean;  // Only valid commands may be executed
+}
+
+/**
+ * Log one DSL attempt
+ * @returns The audit log entry
+ */
+export async function recordDslAttempt(attempt: DslAttempt): Promise<DSLAuditLog> {
+  const valid = attempt.errors.length === 0;
+  const executed = valid && attempt.executed;
+
+  const row = await DB.queryRow<AuditRow>`
+    INSERT INTO dsl_audit_log (
+      user_id, widget_id, dsl_command, validation_result, validation_errors, executed, executed_at
+    )
+    VALUES (
+      ${attempt.userId},
+      ${attempt.widgetId ?? null},
+      ${JSON.stringify(attempt.dslCommand ?? null)}::jsonb,
+      ${valid ? 'valid' : 'invalid'},
+      ${valid ? null : JSON.stringify(attempt.errors)}::jsonb,
+      ${executed},
+      ${executed ? new Date() : null}
+    )
+    RETURNING *
+  `;
+
+  return toAuditLog(row!);
+}
+
+/**
+ * Attach the fact check of an executed command's explanation
+ * Write-once: an entry that is not executed or already checked is left as is
+ */
+export async function recordFactCheck(auditId: number, factCheck: FactCheckResult): Promise<void> {
+  await DB.exec`
+    UPDATE dsl_audit_log
+    SET fact_check = ${JSON.stringify(factCheck)}::jsonb
+    WHERE id = ${auditId} AND executed AND fact_check IS NULL
+  `;
+}
+
+/**
+ * A user's most recent DSL attempts, newest first
+ */
+export async function listDslAttempts(userId: string, limit: number): Promise<DSLAuditLog[]> {
+  const rows = await DB.queryAll<AuditRow>`
+    SELECT * FROM dsl_audit_log
+    WHERE user_id = ${userId}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${limit}
+  `;
+
+  return rows.map(toAuditLog);
+}
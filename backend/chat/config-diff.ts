@@ -0,0 +1,75 @@
+/**
+ * Widget config patches and diffs
+ *
+ * Why this exists:
+ * - Follow-up turns ("now make it a bar chart") change a config, they don't
+ *   replace it: the model answers with a JSON merge patch (RFC 7396)
+ * - The resulting change list is stored with the message and shown to the user
+ */
+
+import type { WidgetConfigChange } from '../shared/types';
+import type { JsonSchema } from './llm';
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Apply a JSON merge patch: objects merge recursively, null deletes, anything else replaces
+ */
+export function applyMergePatch<T>(target: T, patch: unknown): T {
+  if (!isObject(patch)) {
+    return structuredClone(patch) as T;
+  }
+
+  const result: Record<string, unknown> = isObject(target) ? { ...target } : {};
+  for (const [key, value] of Object.entries(patch)) {
+    if (value === null) {
+      delete result[key];
+    } else {
+      result[key] = applyMergePatch(result[key], value);
+    }
+  }
+  return result as T;
+}
+
+/**
+ * Leaf-level changes from one config to another, in key order
+ * Arrays are compared as whole values
+ */
+export function diffConfigs(before: unknown, after: unknown, path = ''): WidgetConfigChange[] {
+  // Added or removed objects are listed leaf by leaf too
+  const from = before === undefined && isObject(after) ? {} : before;
+  const to = after === undefined && isObject(before) ? {} : after;
+
+  if (isObject(from) && isObject(to)) {
+    const keys = [...new Set([...Object.keys(from), ...Object.keys(to)])].sort();
+    return keys.flatMap((key) => diffConfigs(from[key], to[key], path ? `${path}.${key}` : key));
+  }
+
+  if (JSON.stringify(before) === JSON.stringify(after)) {
+    return [];
+  }
+  return [{ path, from: before, to: after }];
+}
+
+/**
+ * Merge-patch schema for a JSON schema: nothing required, every property
+ * below the root nullable (null = remove)
+ */
+export function toMergePatchSchema(schema: JsonSchema, root = true): JsonSchema {
+  let patch = schema;
+
+  if (schema.type === 'object' && schema.properties) {
+    const { required: _required, ...rest } = schema;
+    patch = {
+      ...rest,
+      properties: Object.fromEntries(
+        Object.entries(schema.properties as Record<string, JsonSchema>)
+          .map(([key, property]) => [key, toMergePatchSchema(property, false)])
+      )
+    };
+  }
+
+  return root ? patch : { anyOf: [patch, { type: 'null' }] };
+}
@@ -0,0 +1,124 @@
+/**
+ * Conversation context under a token budget
+ *
+ * Why this exists:
+ * - Long sessions would otherwise resend every turn to the LLM
+ * - Recent turns are sent verbatim; older ones are folded into a short
+ *   running summary kept on the session
+ * - Summaries are built deterministically from the turns themselves (the
+ *   current widget config is always sent in full, so no detail is lost there)
+ */
+
+import type { ChatRole, WidgetConfig } from '../shared/types';
+import type { LlmMessage } from './llm';
+
+/**
+ * Turns always sent verbatim, whatever the budget (the last exchange)
+ */
+const MIN_RECENT_MESSAGES = 2;
+const SUMMARY_LINE_CHARS = 160;
+
+export interface ContextMessage {
+  id: number;
+  role: ChatRole;
+  content: string;
+}
+
+export interface ConversationContext {
+  history: LlmMessage[];
+  summary?: string;
+  summarizedThrough?: number;  // Last message ID folded into the summary
+  folded: number;  // Messages folded by this call
+}
+
+/**
+ * Rough token count (4 characters per token)
+ */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * One-line description of a widget config, used as the assistant's reply
+ */
+export function describeConfig(config: WidgetConfig): string {
+  const { query, visualization } = config;
+  const parts: string[] = [query.field];
+
+  if (query.operation === 'timeseries') {
+    parts.push(query.groupBy && query.groupBy !== 'date' ? `over time by ${query.groupBy}` : 'over time');
+    if (query.timeRange) parts.push(`from ${query.timeRange.from.slice(0, 10)} to ${query.timeRange.to.slice(0, 10)}`);
+  } else if (query.operation === 'aggregate') {
+    parts.push(query.groupBy ? `by ${query.groupBy}` : 'in total');
+  } else {
+    parts.push('per holding');
+  }
+
+  const filters = query.filters;
+  if (filters?.symbol?.length) parts.push(`for ${filters.symbol.join(', ')}`);
+  if (filters?.sector?.length) parts.push(`in ${filters.sector.join(', ')}`);
+  if (filters?.assetType?.length) parts.push(`(${filters.assetType.join(', ')} only)`);
+  if (filters?.minValue !== undefined) parts.push(`at least ${filters.minValue}`);
+  if (filters?.maxValue !== undefined) parts.push(`at most ${filters.maxValue}`);
+  if (query.sortBy || query.operation === 'sort') {
+    parts.push(`sorted by ${query.sortBy ?? 'value'} ${query.sortOrder === 'asc' ? 'ascending' : 'descending'}`);
+  }
+  if (query.limit) parts.push(`top ${query.limit}`);
+  if (visualization.chartType) parts.push(`as a ${visualization.chartType} chart`);
+
+  return `Showing ${parts.join(' ')}.`;
+}
+
+function summaryLine(message: ContextMessage): string {
+  const text = message.content.replace(/\s+/g, ' ').trim();
+  const clipped = text.length > SUMMARY_LINE_CHARS ? `${text.slice(0, SUMMARY_LINE_CHARS - 3)}...` : text;
+  return `- ${message.role === 'user' ? 'User' : 'Assistant'}: ${clipped}`;
+}
+
+/**
+ * Keep the newest messages that fit the budget and fold the rest into the summary
+ *
+ * @param summary - Summary already stored on the session
+ * @param messages - Messages after the summarized ones, oldest first
+ * @param budget - Approximate tokens for summary plus history
+ */
+export function buildConversationContext(
+  summary: string | undefined,
+  messages: ContextMessage[],
+  budget: number
+): ConversationContext {
+  // System notes are for the user, not the model
+  const turns = messages.filter((message) => message.role !== 'system');
+
+  let used = 0;
+  let keepFrom = turns.length;
+  while (keepFrom > 0) {
+    const cost = estimateTokens(turns[keepFrom - 1].content);
+    if (turns.length - keepFrom >= MIN_RECENT_MESSAGES && used + cost > budget / 2) break;
+    used += cost;
+    keepFrom -= 1;
+  }
+
+  // Providers expect the history to open with a user turn
+  while (keepFrom < turns.length && turns[keepFrom].role !== 'user') {
+    keepFrom += 1;
+  }
+
+  const folded = turns.slice(0, keepFrom);
+  const kept = turns.slice(keepFrom);
+
+  let lines = summary ? summary.split('\n') : [];
+  lines.push(...folded.map(summaryLine));
+
+  // The summary gets the other half of the budget; the oldest lines go first
+  while (lines.length > 0 && estimateTokens(lines.join('\n')) > budget / 2) {
+    lines = lines.slice(1);
+  }
+
+  return {
+    history: kept.map((message) => ({ role: message.role as LlmMessage['role'], content: message.content })),
+    summary: lines.length > 0 ? lines.join('\n') : undefined,
+    summarizedThrough: folded.length > 0 ? folded[folded.length - 1].id : undefined,
+    folded: folded.length
+  };
+}
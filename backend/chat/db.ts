@@ -0,0 +1,18 @@
+/**
+ * Chat Database Connection
+ * 
+ * Why this exists:
+ * - Stores the DSL audit trail for the NL -> DSL -> Data pipeline
+ * - Stores chat sessions and their message history
+ * - Follows Encore pattern: one database per service
+ */
+
+import { SQLDatabase } from 'encore.dev/storage/sqldb';
+
+/**
+ * Chat service database
+ * Manages: dsl_audit_log, chat_sessions, chat_messages
+ */
+export const DB = new SQLDatabase('chat', {
+  migrations: './migrations'
+});
@@ -0,0 +1,292 @@
+/**
+ * Widget DSL validation
+ *
+ * Why this exists:
+ * - LLM output (and hand-written configs) must be checked before execution
+ * - Shape checks alone let through configs that parse but mean nothing,
+ *   e.g. a pie chart of a timeseries or a sortBy naming a missing column
+ * - Errors are addressed by path (query.sortBy, visualization.chartType)
+ *   so the UI and the LLM repair loop can point at the offending field
+ */
+
+import { z } from 'zod';
+import type { DSLValidationError, WidgetConfig } from '../shared/types';
+import { CURRENT_DSL_VERSION, migrateWidgetConfig } from '../shared/dsl-migrations';
+import { BENCHMARK_ID_PATTERN } from '../benchmarks/parsers';
+import { MAX_QUERY_LIMIT, SORTABLE_COLUMNS, SUPPORTED_GROUP_BY, SUPPORTED_OPERATIONS, needsSnapshots } from './executor';
+
+const OPERATIONS = ['aggregate', 'filter', 'sort', 'timeseries'] as const;
+const FIELDS = [
+  'pnl',
+  'allocation',
+  'returns',
+  'holdings',
+  'performance',
+  'volatility',
+  'drawdown',
+  'concentration',
+  'correlation'
+] as const;
+const GROUP_BY = ['sector', 'assetType', 'symbol', 'date'] as const;
+const ASSET_TYPES = ['equity', 'mutual_fund', 'etf', 'bond'] as const;
+const CHART_TYPES = ['line', 'bar', 'pie', 'scatter', 'area'] as const;
+const FREQUENCIES = ['daily', 'hourly', 'live', 'manual'] as const;
+const HEX_COLOR = /^#([0-9a-f]{3}|[0-9a-f]{6})$/i;
+
+/**
+ * Columns a chart axis may plot (every QueryRow column)
+ */
+const AXIS_COLUMNS: readonly string[] = [...SORTABLE_COLUMNS, 'group', 'sector', 'assetType'];
+
+/**
+ * Fields that can be negative, so they cannot be slices of a pie
+ */
+const SIGNED_FIELDS = new Set<WidgetConfig['query']['field']>(['pnl', 'returns', 'performance', 'drawdown', 'correlation']);
+
+/**
+ * Fields whose rows add up to a whole, the only ones a pie can show
+ */
+const PART_OF_WHOLE_FIELDS = new Set<WidgetConfig['query']['field']>(['holdings', 'allocation']);
+
+/**
+ * Fields a benchmark comparison can plot (both mean cumulative return there)
+ */
+const BENCHMARK_FIELDS = new Set<WidgetConfig['query']['field']>(['returns', 'performance']);
+
+const isoDate = z.string().refine((value) => /^\d{4}-\d{2}-\d{2}/.test(value) && !Number.isNaN(Date.parse(value)), {
+  message: 'Must be an ISO 8601 date'
+});
+
+/**
+ * Zod schema for WidgetConfig
+ * Strict: unknown keys are rejected rather than silently dropped
+ */
+export const WidgetConfigSchema = z.object({
+  version: z.literal(CURRENT_DSL_VERSION),
+  query: z.object({
+    operation: z.enum(OPERATIONS),
+    field: z.enum(FIELDS),
+    filters: z.object({
+      symbol: z.array(z.string().min(1)).optional(),
+      sector: z.array(z.string().min(1)).optional(),
+      assetType: z.array(z.enum(ASSET_TYPES)).optional(),
+      minValue: z.number().finite().optional(),
+      maxValue: z.number().finite().optional()
+    }).strict().optional(),
+    timeRange: z.object({
+      from: isoDate,
+      to: isoDate
+    }).strict().optional(),
+    groupBy: z.enum(GROUP_BY).optional(),
+    sortBy: z.string().optional(),
+    sortOrder: z.enum(['asc', 'desc']).optional(),
+    limit: z.number().int().positive().max(MAX_QUERY_LIMIT).optional(),
+    benchmark: z.string().regex(BENCHMARK_ID_PATTERN, 'Benchmark ids are upper-case letters and digits (e.g. NIFTY50)').optional()
+  }).strict(),
+  visualization: z.object({
+    chartType: z.enum(CHART_TYPES).optional(),
+    xAxis: z.string().optional(),
+    yAxis: z.string().optional(),
+    colors: z.array(z.string().regex(HEX_COLOR, 'Colors must be hex (#rgb or #rrggbb)')).optional(),
+    showLegend: z.boolean().optional(),
+    showGrid: z.boolean().optional()
+  }).strict(),
+  refresh: z.object({
+    automatic: z.boolean(),
+    frequency: z.enum(FREQUENCIES).optional()
+  }).strict()
+}).strict().superRefine((config, ctx) => {
+  const { query, visualization, refresh } = config;
+  const issue = (path: Array<string | number>, message: string) =>
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path, message });
+
+  // Operation / field / groupBy / timeRange
+  if (!SUPPORTED_OPERATIONS[query.field].includes(query.operation)) {
+    issue(['query', 'field'], `'${query.field}' is not available for ${query.operation} ` +
+      `(use one of: ${SUPPORTED_OPERATIONS[query.field].join(', ')})`);
+  }
+  if (query.groupBy && !SUPPORTED_GROUP_BY[query.operation].includes(query.groupBy)) {
+    issue(['query', 'groupBy'], `groupBy '${query.groupBy}' is not supported for ${query.operation} ` +
+      `(use one of: ${SUPPORTED_GROUP_BY[query.operation].join(', ')})`);
+  }
+  if (query.groupBy === 'date' && !query.timeRange) {
+    issue(['query', 'timeRange'], "groupBy 'date' requires a timeRange");
+  }
+  if (query.timeRange && query.operation !== 'timeseries') {
+    issue(['query', 'timeRange'], 'timeRange only applies to the timeseries operation');
+  }
+  if (query.timeRange && query.timeRange.from.slice(0, 10) > query.timeRange.to.slice(0, 10)) {
+    issue(['query', 'timeRange', 'from'], 'timeRange.from must not be after timeRange.to');
+  }
+
+  // Benchmark comparison: one portfolio series against one index series
+  if (query.benchmark !== undefined) {
+    if (query.operation !== 'timeseries') {
+      issue(['query', 'benchmark'], 'benchmark only applies to the timeseries operation');
+    } else if (!query.timeRange) {
+      issue(['query', 'timeRange'], 'A benchmark comparison requires a timeRange');
+    }
+    if (query.groupBy && query.groupBy !== 'date') {
+      issue(['query', 'groupBy'], 'A benchmark comparison is grouped by date only');
+    }
+    if (!BENCHMARK_FIELDS.has(query.field)) {
+      issue(['query', 'field'], `A benchmark comparison plots returns or performance, not '${query.field}'`);
+    }
+  }
+
+  // Filters
+  const filters = query.filters;
+  if (filters?.minValue !== undefined && filters.maxValue !== undefined && filters.minValue > filters.maxValue) {
+    issue(['query', 'filters', 'minValue'], 'minValue must not be greater than maxValue');
+  }
+
+  // Columns named by the config must exist in the result rows
+  if (query.sortBy !== undefined && !(SORTABLE_COLUMNS as readonly string[]).includes(query.sortBy)) {
+    issue(['query', 'sortBy'], `Unknown sort column '${query.sortBy}' (use one of: ${SORTABLE_COLUMNS.join(', ')})`);
+  }
+  if (query.sortOrder && !query.sortBy && query.operation === 'filter') {
+    issue(['query', 'sortOrder'], 'sortOrder needs a sortBy for the filter operation');
+  }
+  for (const axis of ['xAxis', 'yAxis'] as const) {
+    const column = visualization[axis];
+    if (column !== undefined && !AXIS_COLUMNS.includes(column)) {
+      issue(['visualization', axis], `Unknown column '${column}' (use one of: ${AXIS_COLUMNS.join(', ')})`);
+    }
+  }
+
+  // Chart type must fit the data
+  if (visualization.chartType === 'pie') {
+    if (query.operation === 'timeseries') {
+      issue(['visualization', 'chartType'], 'A pie chart cannot show a timeseries (use line, area or bar)');
+    } else if (SIGNED_FIELDS.has(query.field)) {
+      issue(['visualization', 'chartType'], `A pie chart cannot show '${query.field}', which can be negative ` +
+        '(use holdings or allocation)');
+    } else if (!PART_OF_WHOLE_FIELDS.has(query.field)) {
+      issue(['visualization', 'chartType'], `A pie chart cannot show '${query.field}', which is not a share ` +
+        'of a whole (use holdings or allocation)');
+    }
+  }
+  if ((visualization.chartType === 'line' || visualization.chartType === 'area') && query.operation !== 'timeseries') {
+    issue(['visualization', 'chartType'], `A ${visualization.chartType} chart needs the timeseries operation`);
+  }
+
+  // Refresh schedule
+  if (refresh.automatic && (!refresh.frequency || refresh.frequency === 'manual')) {
+    issue(['refresh', 'frequency'], 'Automatic refresh needs a daily, hourly or live frequency');
+  }
+  if (!refresh.automatic && refresh.frequency && refresh.frequency !== 'manual') {
+    issue(['refresh', 'automatic'], `frequency '${refresh.frequency}' requires automatic refresh`);
+  }
+  // Live quotes move current holdings only; history comes from snapshots
+  if (refresh.frequency === 'live' && needsSnapshots(config)) {
+    issue(['refresh', 'frequency'], 'Live refresh only applies to current holdings, not ' +
+      `${query.operation === 'timeseries' ? 'timeseries' : `'${query.field}'`} (use hourly or daily)`);
+  }
+});
+
+/**
+ * JSON Schema for WidgetConfig, given to the LLM as its output tool/format
+ * Mirrors WidgetConfigSchema; the semantic rules are described, then enforced by validation
+ */
+export const WIDGET_CONFIG_JSON_SCHEMA = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['version', 'query', 'visualization', 'refresh'],
+  properties: {
+    version: { type: 'integer', enum: [CURRENT_DSL_VERSION] },
+    query: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['operation', 'field'],
+      properties: {
+        operation: { type: 'string', enum: OPERATIONS },
+        field: { type: 'string', enum: FIELDS },
+        filters: {
+          type: 'object',
+          additionalProperties: false,
+          properties: {
+            symbol: { type: 'array', items: { type: 'string' } },
+            sector: { type: 'array', items: { type: 'string' } },
+            assetType: { type: 'array', items: { type: 'string', enum: ASSET_TYPES } },
+            minValue: { type: 'number' },
+            maxValue: { type: 'number' }
+          }
+        },
+        timeRange: {
+          type: 'object',
+          additionalProperties: false,
+          required: ['from', 'to'],
+          properties: {
+            from: { type: 'string', description: 'YYYY-MM-DD' },
+            to: { type: 'string', description: 'YYYY-MM-DD' }
+          }
+        },
+        groupBy: { type: 'string', enum: GROUP_BY },
+        sortBy: { type: 'string', enum: SORTABLE_COLUMNS },
+        sortOrder: { type: 'string', enum: ['asc', 'desc'] },
+        limit: { type: 'integer', minimum: 1, maximum: MAX_QUERY_LIMIT },
+        benchmark: { type: 'string', pattern: BENCHMARK_ID_PATTERN.source, description: 'Benchmark id, e.g. NIFTY50' }
+      }
+    },
+    visualization: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        chartType: { type: 'string', enum: CHART_TYPES },
+        xAxis: { type: 'string', enum: AXIS_COLUMNS },
+        yAxis: { type: 'string', enum: AXIS_COLUMNS },
+        colors: { type: 'array', items: { type: 'string', pattern: HEX_COLOR.source } },
+        showLegend: { type: 'boolean' },
+        showGrid: { type: 'boolean' }
+      }
+    },
+    refresh: {
+      type: 'object',
+      additionalProperties: false,
+      required: ['automatic'],
+      properties: {
+        automatic: { type: 'boolean' },
+        frequency: { type: 'string', enum: FREQUENCIES }
+      }
+    }
+  }
+};
+
+export interface DSLValidationOutcome {
+  valid: boolean;
+  errors: DSLValidationError[];
+  config?: WidgetConfig;  // Parsed config, only when valid
+}
+
+/**
+ * Render a zod path as 'query.filters.symbol[0]' ('(root)' for the config itself)
+ */
+function formatPath(path: Array<string | number>): string {
+  const rendered = path.reduce<string>((out, part) =>
+    typeof part === 'number' ? `${out}[${part}]` : out ? `${out}.${part}` : part, '');
+  return rendered || '(root)';
+}
+
+/**
+ * Validate an untrusted widget config (shape and semantics)
+ * Older DSL versions are migrated first, so the errors refer to the latest version
+ */
+export function validateWidgetConfig(input: unknown): DSLValidationOutcome {
+  let migrated: WidgetConfig;
+  try {
+    migrated = migrateWidgetConfig(input).config;
+  } catch (error) {
+    return { valid: false, errors: [{ path: 'version', message: (error as Error).message }] };
+  }
+
+  const result = WidgetConfigSchema.safeParse(migrated);
+
+  if (!result.success) {
+    return {
+      valid: false,
+      errors: result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message }))
+    };
+  }
+
+  return { valid: true, errors: [], config: result.data as WidgetConfig };
+}
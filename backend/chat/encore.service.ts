@@ -0,0 +1,12 @@
+/**
+ * Chat Service Definition
+ *
+ * Why this exists:
+ * - Turns natural language portfolio questions into widget DSL
+ * - Executes validated DSL over normalized portfolio data (never raw SQL)
+ * - Keeps the NL -> DSL -> Data pipeline in one place
+ */
+
+import { Service } from 'encore.dev/service';
+
+export default new Service('chat');
@@ -0,0 +1,85 @@
+/**
+ * DSL validation and execution endpoints
+ *
+ * Why this exists:
+ * - Manual widget edits and chat both go through the same validator
+ * - Every attempt lands in dsl_audit_log before anything runs
+ * - Execution is the in-memory executor over the caller's own portfolio data
+ */
+
+import { api } from 'encore.dev/api';
+import { requireAuth } from '../shared/auth';
+import { invalidArgument } from '../shared/errors';
+import type { DSLValidationError, WidgetConfig } from '../shared/types';
+import { recordDslAttempt } from './audit';
+import { validateWidgetConfig } from './dsl';
+import { executeWidgetQuery, needsCloses, needsSnapshots, type QueryResult } from './executor';
+import { loadBenchmark, loadCloses, loadHoldings, loadSnapshots } from './portfolio-data';
+
+interface ValidateDslRequest {
+  dsl: WidgetConfig;
+  widgetId?: string;
+}
+
+interface ValidateDslResponse {
+  valid: boolean;
+  errors: DSLValidationError[];
+  auditId: number;
+}
+
+/**
+ * Validate a widget DSL command without executing it
+ * POST /chat/validate-dsl
+ */
+export const validateDsl = api(
+  { expose: true, auth: true, method: 'POST', path: '/chat/validate-dsl' },
+  async ({ dsl, widgetId }: ValidateDslRequest): Promise<ValidateDslResponse> => {
+    const { userId } = requireAuth();
+    const { valid, errors } = validateWidgetConfig(dsl);
+
+    const audit = await recordDslAttempt({ userId, widgetId, dslCommand: dsl, errors, executed: false });
+    return { valid, errors, auditId: audit.id };
+  }
+);
+
+interface ExecuteDslRequest {
+  dsl: WidgetConfig;
+  portfolioId?: number;  // Defaults to all portfolios merged
+  widgetId?: string;
+}
+
+interface ExecuteDslResponse {
+  data: QueryResult;
+  executedAt: Date;
+  auditId: number;
+}
+
+/**
+ * Validate, log and execute a widget DSL command
+ * POST /chat/execute-dsl
+ */
+export const executeDsl = api(
+  { expose: true, auth: true, method: 'POST', path: '/chat/execute-dsl' },
+  async ({ dsl, portfolioId, widgetId }: ExecuteDslRequest): Promise<ExecuteDslResponse> => {
+    const { userId } = requireAuth();
+    const { errors, config } = validateWidgetConfig(dsl);
+
+    const audit = await recordDslAttempt({ userId, widgetId, dslCommand: dsl, errors, executed: !!config });
+    if (!config) {
+      throw invalidArgument('DSL validation failed', { auditId: audit.id, errors });
+    }
+
+    const holdings = await loadHoldings(userId, portfolioId);
+    const snapshots = needsSnapshots(config)
+      ? await loadSnapshots(userId, portfolioId, config.query.timeRange?.to)
+      : [];
+    const closes = needsCloses(config) ? await loadCloses(snapshots, config.query.timeRange?.to) : undefined;
+    const benchmark = await loadBenchmark(config);
+
+    return {
+      data: executeWidgetQuery(config, { holdings }, snapshots, benchmark, closes),
+      executedAt: audit.executedAt!,
+      auditId: audit.id
+    };
+  }
+);
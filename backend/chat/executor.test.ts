@@ -0,0 +1,306 @@
+import { describe, expect, it } from 'vitest';
+import { ErrCode } from 'encore.dev/api';
+import type { NormalizedHolding, WidgetConfig } from '../shared/types';
+import {
+  MAX_QUERY_LIMIT,
+  SUPPORTED_GROUP_BY,
+  SUPPORTED_OPERATIONS,
+  executeWidgetQuery,
+  type QueryField,
+  type QueryGroupBy,
+  type DailyCloses,
+  type QueryOperation,
+  type SnapshotInput
+} from './executor';
+
+type Query = WidgetConfig['query'];
+
+function config(query: Partial<Query>): WidgetConfig {
+  return {
+    version: 2,
+    query: { operation: 'aggregate', field: 'holdings', ...query },
+    visualization: {},
+    refresh: { automatic: false }
+  };
+}
+
+function holding(
+  symbol: string,
+  quantity: number,
+  avgPrice: number,
+  currentPrice: number,
+  extra: Partial<NormalizedHolding> = {}
+): NormalizedHolding {
+  return {
+    symbol,
+    quantity,
+    avgPrice,
+    currentPrice,
+    unrealizedPnL: (currentPrice - avgPrice) * quantity,
+    assetType: 'equity',
+    ...extra
+  };
+}
+
+// Market value 51,000, invested 45,000, P&L 6,000
+const HOLDINGS = [
+  holding('INFY', 10, 1000, 1200, { sector: 'IT' }),
+  holding('TCS', 5, 3000, 2800, { sector: 'IT' }),
+  holding('NIFTYBEES', 100, 200, 250, { assetType: 'etf' })
+];
+
+const portfolio = { holdings: HOLDINGS };
+
+function values(query: Partial<Query>, snapshots: SnapshotInput[] = []): Array<[string, number]> {
+  return executeWidgetQuery(config(query), portfolio, snapshots).rows.map((row) => [row.key, row.value]);
+}
+
+describe('executeWidgetQuery support matrix', () => {
+  const operations: QueryOperation[] = ['filter', 'sort', 'aggregate', 'timeseries'];
+  const fields = Object.keys(SUPPORTED_OPERATIONS) as QueryField[];
+  const groupBys: QueryGroupBy[] = ['sector', 'assetType', 'symbol', 'date'];
+
+  const fieldCases = operations.flatMap((operation) =>
+    fields.map((field) => [operation, field, SUPPORTED_OPERATIONS[field].includes(operation)] as const)
+  );
+
+  it.each(fieldCases)('%s of %s is supported: %s', (operation, field, supported) => {
+    const run = () => executeWidgetQuery(config({ operation, field }), portfolio, []);
+
+    if (supported) {
+      expect(run().field).toBe(field);
+    } else {
+      expect(run).toThrow(expect.objectContaining({ code: ErrCode.InvalidArgument }));
+    }
+  });
+
+  const groupByCases = operations.flatMap((operation) =>
+    groupBys.map((groupBy) => [operation, groupBy, SUPPORTED_GROUP_BY[operation].includes(groupBy)] as const)
+  );
+
+  it.each(groupByCases)('%s grouped by %s is supported: %s', (operation, groupBy, supported) => {
+    const run = () => executeWidgetQuery(config({ operation, field: 'holdings', groupBy }), portfolio, []);
+
+    if (supported) {
+      expect(run().groupBy).toBe(groupBy);
+    } else {
+      expect(run).toThrow(`groupBy '${groupBy}' is not supported for ${operation}`);
+    }
+  });
+});
+
+describe('executeWidgetQuery values', () => {
+  it.each<[string, Partial<Query>, Array<[string, number]>]>([
+    ['total market value', { field: 'holdings' }, [['Total', 51000]]],
+    ['P&L by sector', { field: 'pnl', groupBy: 'sector' }, [['Unknown', 5000], ['IT', 1000]]],
+    ['allocation by asset type', { field: 'allocation', groupBy: 'assetType' }, [['equity', 50.98], ['etf', 49.02]]],
+    ['absolute return without history', { field: 'returns' }, [['Total', 13.33]]],
+    ['contribution by sector', { field: 'performance', groupBy: 'sector' }, [['Unknown', 11.11], ['IT', 2.22]]],
+    ['Herfindahl concentration', { field: 'concentration' }, [['Total', 37.1]]],
+    [
+      'holdings by symbol',
+      { field: 'holdings', groupBy: 'symbol' },
+      [['NIFTYBEES', 25000], ['TCS', 14000], ['INFY', 12000]]
+    ],
+    [
+      'holdings, largest first',
+      { operation: 'sort', field: 'holdings' },
+      [['NIFTYBEES', 25000], ['TCS', 14000], ['INFY', 12000]]
+    ],
+    ['returns, best first', { operation: 'sort', field: 'returns' }, [['NIFTYBEES', 25], ['INFY', 20], ['TCS', -6.67]]],
+    [
+      'top-N weight, ranked',
+      { operation: 'sort', field: 'concentration' },
+      [['NIFTYBEES', 49.02], ['TCS', 76.47], ['INFY', 100]]
+    ],
+    [
+      'P&L in portfolio order',
+      { operation: 'filter', field: 'pnl' },
+      [['INFY', 2000], ['TCS', -1000], ['NIFTYBEES', 5000]]
+    ],
+    [
+      'filtered by sector',
+      { operation: 'filter', field: 'pnl', filters: { sector: ['it'] } },
+      [['INFY', 2000], ['TCS', -1000]]
+    ],
+    [
+      'filtered by value',
+      { operation: 'filter', field: 'pnl', filters: { minValue: 0, maxValue: 4000 } },
+      [['INFY', 2000]]
+    ]
+  ])('%s', (_name, query, expected) => {
+    const result = executeWidgetQuery(config({ operation: 'aggregate', ...query }), portfolio, []);
+
+    expect(result.rows.map((row) => [row.key, row.value])).toEqual(expected);
+  });
+
+  it.each<[QueryField, string]>([
+    ['holdings', 'currency'],
+    ['pnl', 'currency'],
+    ['returns', 'percent'],
+    ['allocation', 'percent'],
+    ['concentration', 'percent'],
+    ['correlation', 'ratio']
+  ])('reports %s in %s', (field, unit) => {
+    expect(executeWidgetQuery(config({ operation: 'sort', field }), portfolio, []).unit).toBe(unit);
+  });
+
+  it('reports the totals behind a group row', () => {
+    const [row] = executeWidgetQuery(config({ field: 'pnl', filters: { sector: ['IT'] } }), portfolio, []).rows;
+
+    expect(row).toEqual({
+      key: 'Total',
+      value: 1000,
+      invested: 25000,
+      marketValue: 26000,
+      pnl: 1000,
+      returnPct: 4,
+      allocationPct: 50.98,
+      holdings: 2
+    });
+  });
+});
+
+describe('executeWidgetQuery timeseries', () => {
+  // 18:30Z is midnight in IST, so the last snapshot falls on 3 January
+  const snapshots: SnapshotInput[] = [
+    { portfolioId: 1, syncedAt: new Date('2024-01-01T04:00:00Z'), holdings: [holding('INFY', 10, 1000, 1100)] },
+    { portfolioId: 1, syncedAt: new Date('2024-01-01T10:00:00Z'), holdings: [holding('INFY', 10, 1000, 1200)] },
+    { portfolioId: 2, syncedAt: new Date('2024-01-02T10:00:00Z'), holdings: [holding('TCS', 5, 3000, 3000)] },
+    { portfolioId: 1, syncedAt: new Date('2024-01-02T18:30:00Z'), holdings: [holding('INFY', 10, 1000, 1500)] }
+  ];
+
+  it('uses the last snapshot of each IST day and carries other portfolios forward', () => {
+    expect(values({ operation: 'timeseries', field: 'holdings' }, snapshots)).toEqual([
+      ['2024-01-01', 12000],
+      ['2024-01-02', 27000],
+      ['2024-01-03', 30000]
+    ]);
+  });
+
+  it('groups each day by symbol', () => {
+    const result = executeWidgetQuery(
+      config({ operation: 'timeseries', field: 'holdings', groupBy: 'symbol' }),
+      portfolio,
+      snapshots
+    );
+
+    expect(result.rows.map((row) => [row.key, row.group, row.value])).toEqual([
+      ['2024-01-01', 'INFY', 12000],
+      ['2024-01-02', 'INFY', 12000],
+      ['2024-01-02', 'TCS', 15000],
+      ['2024-01-03', 'INFY', 15000],
+      ['2024-01-03', 'TCS', 15000]
+    ]);
+  });
+
+  it.each<[Query['field'], Array<[string, number]>]>([
+    ['performance', [['2024-01-01', 0], ['2024-01-02', 125], ['2024-01-03', 150]]],
+    // The TCS purchase on 2 January is money in, not return: only INFY's rise counts
+    ['returns', [['2024-01-01', 0], ['2024-01-02', 0], ['2024-01-03', 11.11]]],
+    ['drawdown', [['2024-01-01', 0], ['2024-01-02', 0], ['2024-01-03', 0]]]
+  ])('measures %s from the first day of the range', (field, expected) => {
+    expect(values({ operation: 'timeseries', field }, snapshots)).toEqual(expected);
+  });
+
+  it('keeps only days inside the time range', () => {
+    const timeRange = { from: '2024-01-02T00:00:00+05:30', to: '2024-01-02T23:59:59+05:30' };
+
+    expect(values({ operation: 'timeseries', field: 'holdings', timeRange }, snapshots)).toEqual([
+      ['2024-01-02', 27000]
+    ]);
+  });
+});
+
+describe('executeWidgetQuery risk from daily closes', () => {
+  const INFY = 'INE009A01021';
+  const snapshots: SnapshotInput[] = [
+    {
+      portfolioId: 1,
+      syncedAt: new Date('2024-01-01T10:00:00Z'),
+      holdings: [holding('INFY', 10, 1000, 1000, { isin: INFY })]
+    }
+  ];
+  const closes: DailyCloses = new Map([[INFY, [
+    { date: '2024-01-01', price: 1000 },
+    { date: '2024-01-02', price: 1100 },
+    { date: '2024-01-03', price: 990 },
+    { date: '2024-01-04', price: 1089 }
+  ]]]);
+
+  function risk(field: QueryField, withCloses?: DailyCloses): Array<[string, number]> {
+    return executeWidgetQuery(config({ operation: 'filter', field }), portfolio, snapshots, undefined, withCloses)
+      .rows.map((row) => [row.key, row.value]);
+  }
+
+  it('carries holdings forward and values them at each close', () => {
+    expect(risk('drawdown', closes)).toEqual([['INFY', -10]]);
+    expect(risk('volatility', closes)).toEqual([['INFY', 220.61]]);
+  });
+
+  it('leaves rows out when a single snapshot is all there is', () => {
+    expect(risk('drawdown')).toEqual([]);
+    expect(risk('volatility')).toEqual([]);
+  });
+
+  it('keeps a snapshot price that is newer than the last close', () => {
+    const later: SnapshotInput[] = [
+      ...snapshots,
+      {
+        portfolioId: 1,
+        syncedAt: new Date('2024-01-05T10:00:00Z'),
+        holdings: [holding('INFY', 10, 1000, 1200, { isin: INFY })]
+      }
+    ];
+    const result = executeWidgetQuery(
+      config({ operation: 'timeseries', field: 'holdings' }),
+      portfolio,
+      later,
+      undefined,
+      closes
+    );
+
+    expect(result.rows.map((row) => [row.key, row.value]).slice(-2)).toEqual([
+      ['2024-01-04', 10890],
+      ['2024-01-05', 12000]
+    ]);
+  });
+});
+
+describe('executeWidgetQuery sort and limit', () => {
+  it.each<[string, Partial<Query>, string[]]>([
+    ['by key', { sortBy: 'key' }, ['TCS', 'NIFTYBEES', 'INFY']],
+    ['by key, ascending', { sortBy: 'key', sortOrder: 'asc' }, ['INFY', 'NIFTYBEES', 'TCS']],
+    ['by invested', { sortBy: 'invested' }, ['NIFTYBEES', 'TCS', 'INFY']],
+    ['by P&L, ascending', { sortBy: 'pnl', sortOrder: 'asc' }, ['TCS', 'INFY', 'NIFTYBEES']],
+    ['value, ascending', { sortOrder: 'asc' }, ['INFY', 'TCS', 'NIFTYBEES']]
+  ])('sorts %s', (_name, query, keys) => {
+    const result = executeWidgetQuery(config({ operation: 'sort', field: 'holdings', ...query }), portfolio, []);
+
+    expect(result.rows.map((row) => row.key)).toEqual(keys);
+  });
+
+  it.each<[number | undefined, number]>([
+    [2, 2],
+    [2.9, 2],
+    [0, 0],
+    [-1, 0],
+    [MAX_QUERY_LIMIT + 1, 3],
+    [undefined, 3]
+  ])('limit %s returns %s rows and counts them all', (limit, returned) => {
+    const result = executeWidgetQuery(config({ operation: 'sort', field: 'holdings', limit }), portfolio, []);
+
+    expect(result.rows).toHaveLength(returned);
+    expect(result.totalRows).toBe(3);
+  });
+
+  it('applies the limit after sorting', () => {
+    expect(values({ operation: 'sort', field: 'pnl', limit: 1 })).toEqual([['NIFTYBEES', 5000]]);
+  });
+
+  it('rejects unknown sort columns', () => {
+    expect(() => executeWidgetQuery(config({ operation: 'sort', sortBy: 'sector' }), portfolio, [])).toThrow(
+      "Cannot sort by 'sector'"
+    );
+  });
+});
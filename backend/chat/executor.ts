@@ -0,0 +1,708 @@
+/**
+ * Widget DSL query executor
+ *
+ * Why this exists:
+ * - WidgetConfig.query is data, not code: it is interpreted here over
+ *   normalized holdings and snapshots, so LLM output never reaches SQL
+ * - Deterministic: the same config and data always give the same rows
+ * - Returns one typed row shape for every operation, ready for charting
+ *
+ * Fields (the `value` of every row):
+ * - holdings: market value (quantity x current price)
+ * - pnl: unrealized P&L
+ * - returns: annualized return (XIRR) for rows with at least a year of
+ *   snapshot history, otherwise P&L as a percentage of invested amount
+ *   (absolute return); for timeseries, time-weighted return since the first
+ *   point of the range
+ * - allocation: percentage of total portfolio market value
+ * - performance: contribution to portfolio return (P&L as a percentage of
+ *   total invested); for timeseries, change in market value since the first
+ *   point of the range
+ *
+ * Risk fields (see portfolio/risk.ts), from stored daily closes: the holdings
+ * of each snapshot are carried forward and revalued at every trading day's
+ * close (a holding without closes keeps its snapshot price). Holding and
+ * group rows without enough history are left out:
+ * - volatility: annualized volatility of the row's time-weighted value;
+ *   not available for timeseries
+ * - drawdown: largest fall from a peak in the row's time-weighted value; for
+ *   timeseries, the fall from the running peak on each day
+ * - concentration: Herfindahl index of holding weights within the group
+ *   (100% = one holding); holding rows, ranked by weight, carry the combined
+ *   weight of the largest holdings down to that one (top-N weight)
+ * - correlation: filter/sort only, one row per ordered pair of holdings (key
+ *   and group are the two symbols) with the correlation of their price
+ *   changes (-1 to 1, unit 'ratio')
+ *
+ * Operations:
+ * - filter: one row per holding, in portfolio order unless sortBy is set
+ * - sort: one row per holding, ordered by value (descending) by default
+ * - aggregate: one row per group, or a single 'Total' row without groupBy
+ * - timeseries: one row per IST day (and group) from snapshots, oldest first;
+ *   with daily closes, one per trading day, valued at the close as for risk
+ *
+ * Benchmark comparison (query.benchmark, timeseries only): two series per
+ * day, 'Portfolio' (time-weighted return since the first day, so money
+ * added or withdrawn does not count as gain) and the benchmark's change
+ * since the same day. The result carries XIRR, alpha, beta and tracking error.
+ */
+
+import type {
+  BenchmarkComparison,
+  BenchmarkPrice,
+  NormalizedHolding,
+  Portfolio,
+  PortfolioSnapshot,
+  WidgetConfig
+} from '../shared/types';
+import { invalidArgument } from '../shared/errors';
+import {
+  compareWithBenchmark,
+  groupReturns,
+  periodReturn,
+  valuationSeries,
+  type DatedHoldings,
+  type ValuationPoint
+} from '../portfolio/returns';
+import {
+  annualizedVolatility,
+  correlationMatrix,
+  herfindahl,
+  maxDrawdown,
+  wealthIndex,
+  type PricePoint
+} from '../portfolio/risk';
+
+type WidgetQuery = WidgetConfig['query'];
+export type QueryOperation = WidgetQuery['operation'];
+export type QueryField = WidgetQuery['field'];
+export type QueryGroupBy = NonNullable<WidgetQuery['groupBy']>;
+
+/**
+ * groupBy values each operation understands
+ */
+export const SUPPORTED_GROUP_BY: Record<QueryOperation, QueryGroupBy[]> = {
+  filter: ['symbol'],
+  sort: ['symbol'],
+  aggregate: ['sector', 'assetType', 'symbol'],
+  timeseries: ['date', 'sector', 'assetType', 'symbol']
+};
+
+const ALL_OPERATIONS: QueryOperation[] = ['filter', 'sort', 'aggregate', 'timeseries'];
+
+/**
+ * Operations each field can be computed for
+ */
+export const SUPPORTED_OPERATIONS: Record<QueryField, QueryOperation[]> = {
+  holdings: ALL_OPERATIONS,
+  pnl: ALL_OPERATIONS,
+  returns: ALL_OPERATIONS,
+  allocation: ALL_OPERATIONS,
+  performance: ALL_OPERATIONS,
+  volatility: ['filter', 'sort', 'aggregate'],
+  drawdown: ALL_OPERATIONS,
+  concentration: ALL_OPERATIONS,
+  correlation: ['filter', 'sort']
+};
+
+/**
+ * Row columns sortBy may refer to
+ */
+export const SORTABLE_COLUMNS = [
+  'key',
+  'value',
+  'invested',
+  'marketValue',
+  'pnl',
+  'returnPct',
+  'allocationPct',
+  'holdings'
+] as const;
+
+export type SortableColumn = (typeof SORTABLE_COLUMNS)[number];
+
+/**
+ * Largest result set a widget may ask for
+ */
+export const MAX_QUERY_LIMIT = 500;
+
+/**
+ * One result row
+ * key is the symbol, group name or date (YYYY-MM-DD, IST) depending on the operation
+ */
+export interface QueryRow {
+  key: string;
+  group?: string;  // Series name for grouped timeseries
+  value: number;  // Metric selected by query.field
+  invested: number;
+  marketValue: number;
+  pnl: number;
+  returnPct: number;
+  allocationPct: number;
+  holdings: number;  // Number of holdings behind this row
+  twrPct?: number;  // Field 'returns', non-timeseries: time-weighted return over the snapshot history
+  xirrPct?: number;  // Field 'returns', non-timeseries: annualized, with a year or more of history
+  sector?: string;  // Holding rows only
+  assetType?: NormalizedHolding['assetType'];  // Holding rows only
+}
+
+export interface QueryResult {
+  operation: QueryOperation;
+  field: QueryField;
+  groupBy?: QueryGroupBy;
+  unit: 'currency' | 'percent' | 'ratio';
+  rows: QueryRow[];
+  totalRows: number;  // Before limit
+  benchmark?: BenchmarkComparison;  // Benchmark queries with at least two comparable days
+}
+
+/**
+ * Snapshot fields the executor reads
+ */
+export type SnapshotInput = Pick<PortfolioSnapshot, 'portfolioId' | 'syncedAt' | 'holdings'>;
+
+/**
+ * Daily closes by ISIN (upper case), oldest first
+ */
+export type DailyCloses = Map<string, PricePoint[]>;
+
+/**
+ * Benchmark closes for a comparison query
+ */
+export interface BenchmarkInput {
+  id: string;
+  name: string;
+  prices: BenchmarkPrice[];  // Including the last close before the range
+  riskFreeRate?: number;  // Annual, decimal; for alpha
+}
+
+const UNIT: Record<QueryField, QueryResult['unit']> = {
+  holdings: 'currency',
+  pnl: 'currency',
+  returns: 'percent',
+  allocation: 'percent',
+  performance: 'percent',
+  volatility: 'percent',
+  drawdown: 'percent',
+  concentration: 'percent',
+  correlation: 'ratio'
+};
+
+/**
+ * Fields read from snapshot history even for current-holdings operations
+ */
+const HISTORY_FIELDS = new Set<QueryField>(['returns', 'volatility', 'drawdown', 'correlation']);
+
+/**
+ * Fields computed from daily closes rather than snapshot prices (timeseries
+ * read closes for every field)
+ */
+const RISK_FIELDS = new Set<QueryField>(['volatility', 'drawdown', 'correlation']);
+
+const UNKNOWN_SECTOR = 'Unknown';
+const TOTAL_KEY = 'Total';
+const PORTFOLIO_SERIES = 'Portfolio';
+
+/**
+ * IST is a fixed UTC+05:30 offset (no DST)
+ */
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+/**
+ * Calendar date (YYYY-MM-DD) in IST
+ */
+export function istDate(date: Date): string {
+  return new Date(date.getTime() + IST_OFFSET_MS).toISOString().slice(0, 10);
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+function percent(part: number, whole: number): number {
+  return whole === 0 ? 0 : (part / whole) * 100;
+}
+
+/**
+ * Running sums for a set of holdings
+ */
+interface Totals {
+  invested: number;
+  marketValue: number;
+  pnl: number;
+  holdings: number;
+}
+
+function sumHoldings(holdings: NormalizedHolding[]): Totals {
+  const totals: Totals = { invested: 0, marketValue: 0, pnl: 0, holdings: 0 };
+  for (const holding of holdings) {
+    totals.invested += holding.quantity * holding.avgPrice;
+    totals.marketValue += holding.quantity * holding.currentPrice;
+    totals.pnl += holding.unrealizedPnL;
+    totals.holdings += 1;
+  }
+  return totals;
+}
+
+/**
+ * Build a row from group totals, measured against the whole portfolio
+ */
+function toRow(key: string, totals: Totals, field: QueryField, portfolio: Totals): QueryRow {
+  const returnPct = percent(totals.pnl, totals.invested);
+  const allocationPct = percent(totals.marketValue, portfolio.marketValue);
+
+  // Risk fields are filled in by the caller, which has the history they need
+  const value: Partial<Record<QueryField, number>> = {
+    holdings: totals.marketValue,
+    pnl: totals.pnl,
+    returns: returnPct,
+    allocation: allocationPct,
+    performance: percent(totals.pnl, portfolio.invested)
+  };
+
+  return {
+    key,
+    value: round2(value[field] ?? 0),
+    invested: round2(totals.invested),
+    marketValue: round2(totals.marketValue),
+    pnl: round2(totals.pnl),
+    returnPct: round2(returnPct),
+    allocationPct: round2(allocationPct),
+    holdings: totals.holdings
+  };
+}
+
+/**
+ * Apply symbol/sector/assetType filters (case-insensitive, missing sector = 'Unknown')
+ */
+function filterHoldings(holdings: NormalizedHolding[], filters: WidgetQuery['filters']): NormalizedHolding[] {
+  if (!filters) {
+    return holdings;
+  }
+
+  const symbols = filters.symbol?.length ? new Set(filters.symbol.map((s) => s.toUpperCase())) : undefined;
+  const sectors = filters.sector?.length ? new Set(filters.sector.map((s) => s.toLowerCase())) : undefined;
+  const assetTypes = filters.assetType?.length ? new Set(filters.assetType) : undefined;
+
+  return holdings.filter((holding) =>
+    (!symbols || symbols.has(holding.symbol.toUpperCase())) &&
+    (!sectors || sectors.has((holding.sector || UNKNOWN_SECTOR).toLowerCase())) &&
+    (!assetTypes || assetTypes.has(holding.assetType))
+  );
+}
+
+/**
+ * minValue/maxValue bound each output row's value
+ */
+function withinRange(row: QueryRow, filters: WidgetQuery['filters']): boolean {
+  return (filters?.minValue === undefined || row.value >= filters.minValue) &&
+    (filters?.maxValue === undefined || row.value <= filters.maxValue);
+}
+
+function groupKey(holding: NormalizedHolding, groupBy: QueryGroupBy | undefined): string {
+  switch (groupBy) {
+    case 'sector':
+      return holding.sector || UNKNOWN_SECTOR;
+    case 'assetType':
+      return holding.assetType;
+    case 'symbol':
+      return holding.symbol.toUpperCase();
+    default:
+      return TOTAL_KEY;
+  }
+}
+
+/**
+ * Herfindahl index of holding weights, as a percentage
+ */
+function concentrationPct(holdings: NormalizedHolding[]): number {
+  return round2((herfindahl(holdings.map((holding) => holding.quantity * holding.currentPrice)) ?? 0) * 100);
+}
+
+/**
+ * Group holdings into rows, keeping first-seen group order
+ */
+function aggregateRows(
+  holdings: NormalizedHolding[],
+  groupBy: QueryGroupBy | undefined,
+  field: QueryField,
+  portfolio: Totals
+): QueryRow[] {
+  const groups = new Map<string, NormalizedHolding[]>();
+  for (const holding of holdings) {
+    const key = groupKey(holding, groupBy);
+    groups.set(key, [...(groups.get(key) ?? []), holding]);
+  }
+
+  return [...groups].map(([key, members]) => {
+    const row = toRow(key, sumHoldings(members), field, portfolio);
+    return field === 'concentration' ? { ...row, value: concentrationPct(members) } : row;
+  });
+}
+
+function holdingRows(holdings: NormalizedHolding[], field: QueryField, portfolio: Totals): QueryRow[] {
+  const rows = holdings.map((holding): QueryRow => ({
+    ...toRow(holding.symbol, sumHoldings([holding]), field, portfolio),
+    sector: holding.sector || UNKNOWN_SECTOR,
+    assetType: holding.assetType
+  }));
+  if (field !== 'concentration') {
+    return rows;
+  }
+
+  // Top-N weight: largest first, each row adding its own allocation
+  let cumulative = 0;
+  return [...rows]
+    .sort((a, b) => b.marketValue - a.marketValue)
+    .map((row) => {
+      cumulative += percent(row.marketValue, portfolio.marketValue);
+      return { ...row, value: round2(cumulative) };
+    });
+}
+
+/**
+ * Latest close on or before a date
+ */
+function closeOn(points: PricePoint[] | undefined, date: string): PricePoint | undefined {
+  let low = 0;
+  let high = points?.length ?? 0;
+  while (low < high) {
+    const mid = (low + high) >> 1;
+    if (points![mid].date <= date) low = mid + 1;
+    else high = mid;
+  }
+  return low > 0 ? points![low - 1] : undefined;
+}
+
+/**
+ * A holding at the close of a day, unless its snapshot is newer than the close
+ */
+function revalue(holding: NormalizedHolding, syncedOn: string, date: string, closes: DailyCloses): NormalizedHolding {
+  const close = holding.isin ? closeOn(closes.get(holding.isin.toUpperCase()), date) : undefined;
+  if (!close || close.date < syncedOn) {
+    return holding;
+  }
+  return {
+    ...holding,
+    currentPrice: close.price,
+    unrealizedPnL: holding.quantity * (close.price - holding.avgPrice)
+  };
+}
+
+/**
+ * Combined holdings per IST day
+ * Each portfolio's latest snapshot of the day is carried forward until its
+ * next one. With closes, every day that has a close (from the first snapshot
+ * on) is a day too, and holdings are valued at the close.
+ */
+function dailyHoldings(
+  snapshots: SnapshotInput[],
+  closes: DailyCloses = new Map()
+): Array<{ date: string; holdings: NormalizedHolding[] }> {
+  const ordered = [...snapshots].sort((a, b) => a.syncedAt.getTime() - b.syncedAt.getTime());
+  const latest = new Map<number, { syncedOn: string; holdings: NormalizedHolding[] }>();
+  const days: Array<{ date: string; holdings: NormalizedHolding[] }> = [];
+
+  const first = ordered.length > 0 ? istDate(ordered[0].syncedAt) : undefined;
+  const closeDays = [...new Set([...closes.values()].flat().map((point) => point.date))]
+    .filter((date) => first !== undefined && date >= first)
+    .sort();
+  let nextClose = 0;
+
+  const record = (date: string): void => {
+    const combined = [...latest.values()].flatMap(({ syncedOn, holdings }) =>
+      closes.size === 0 ? holdings : holdings.map((holding) => revalue(holding, syncedOn, date, closes))
+    );
+    if (days.length > 0 && days[days.length - 1].date === date) {
+      days[days.length - 1].holdings = combined;
+    } else {
+      days.push({ date, holdings: combined });
+    }
+  };
+
+  for (const snapshot of ordered) {
+    const date = istDate(snapshot.syncedAt);
+    while (nextClose < closeDays.length && closeDays[nextClose] < date) {
+      record(closeDays[nextClose++]);
+    }
+    latest.set(snapshot.portfolioId, { syncedOn: date, holdings: snapshot.holdings });
+    record(date);
+  }
+  while (nextClose < closeDays.length) {
+    record(closeDays[nextClose++]);
+  }
+
+  return days;
+}
+
+function timeseriesRows(query: WidgetQuery, snapshots: SnapshotInput[], closes: DailyCloses): QueryRow[] {
+  const from = query.timeRange?.from.slice(0, 10);
+  const to = query.timeRange?.to.slice(0, 10);
+  const groupBy = query.groupBy === 'date' ? undefined : query.groupBy;
+
+  const rows: QueryRow[] = [];
+  const firstValue = new Map<string, number>();
+  const previous = new Map<string, { point: ValuationPoint; growth: number; peak: number }>();
+
+  for (const day of dailyHoldings(snapshots, closes)) {
+    if ((from && day.date < from) || (to && day.date > to)) continue;
+
+    const portfolio = sumHoldings(day.holdings);
+    const groups = aggregateRows(filterHoldings(day.holdings, query.filters), groupBy, query.field, portfolio);
+
+    for (const group of groups) {
+      const row: QueryRow = { ...group, key: day.date, group: groupBy ? group.key : undefined };
+      if (query.field === 'performance') {
+        const base = firstValue.get(group.key) ?? group.marketValue;
+        firstValue.set(group.key, base);
+        row.value = round2(percent(group.marketValue - base, base));
+      } else if (query.field === 'returns' || query.field === 'drawdown') {
+        // Time-weighted, so buying more on the way does not count as return
+        const point = { date: day.date, value: group.marketValue, invested: group.invested };
+        const last = previous.get(group.key);
+        const growth = last ? last.growth * (1 + periodReturn(last.point, point)) : 1;
+        const peak = Math.max(last?.peak ?? growth, growth);
+        previous.set(group.key, { point, growth, peak });
+        row.value = round2(((query.field === 'returns' ? growth : growth / peak) - 1) * 100);
+      }
+      rows.push(row);
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Filtered holdings per IST day over the whole snapshot history
+ */
+function historyDays(query: WidgetQuery, snapshots: SnapshotInput[], closes?: DailyCloses): DatedHoldings[] {
+  return dailyHoldings(snapshots, closes).map((day) => ({
+    date: day.date,
+    holdings: filterHoldings(day.holdings, query.filters)
+  }));
+}
+
+/**
+ * Time-weighted and annualized returns per row from snapshot history
+ * Rows without a year of history keep the absolute return as their value
+ */
+function withReturns(
+  rows: QueryRow[],
+  query: WidgetQuery,
+  snapshots: SnapshotInput[],
+  groupBy: QueryGroupBy | undefined
+): QueryRow[] {
+  const returns = groupReturns(historyDays(query, snapshots), (holding) => groupKey(holding, groupBy));
+
+  return rows.map((row) => {
+    const summary = returns.get(groupBy === 'symbol' ? row.key.toUpperCase() : row.key);
+    if (!summary) {
+      return row;
+    }
+
+    const xirrPct = summary.xirr === undefined ? undefined : round2(summary.xirr * 100);
+    return { ...row, value: xirrPct ?? row.value, twrPct: round2(summary.twr * 100), xirrPct };
+  });
+}
+
+/**
+ * Volatility or drawdown per row from daily closes
+ */
+function withRisk(
+  rows: QueryRow[],
+  query: WidgetQuery,
+  snapshots: SnapshotInput[],
+  closes: DailyCloses,
+  groupBy: QueryGroupBy | undefined
+): QueryRow[] {
+  const series = valuationSeries(historyDays(query, snapshots, closes), (holding) => groupKey(holding, groupBy));
+
+  return rows.flatMap((row) => {
+    const points = series.get(groupBy === 'symbol' ? row.key.toUpperCase() : row.key);
+    const index = points ? wealthIndex(points) : [];
+    const value = query.field === 'volatility' ? annualizedVolatility(index) : maxDrawdown(index);
+    return value === undefined ? [] : [{ ...row, value: round2(value * 100) }];
+  });
+}
+
+/**
+ * Correlation of every pair of the given holdings, both orders
+ */
+function correlationRows(
+  holdings: NormalizedHolding[],
+  query: WidgetQuery,
+  snapshots: SnapshotInput[],
+  closes: DailyCloses,
+  portfolio: Totals
+): QueryRow[] {
+  const current = new Map(holdingRows(holdings, query.field, portfolio).map((row) => [row.key.toUpperCase(), row]));
+  const history = valuationSeries(historyDays(query, snapshots, closes), (holding) => groupKey(holding, 'symbol'));
+
+  const series = new Map<string, ReturnType<typeof wealthIndex>>();
+  for (const symbol of current.keys()) {
+    const points = history.get(symbol);
+    if (points) series.set(symbol, wealthIndex(points));
+  }
+
+  return correlationMatrix(series).map((pair) => ({
+    ...current.get(pair.a)!,
+    group: current.get(pair.b)!.key,
+    value: round2(pair.correlation)
+  }));
+}
+
+/**
+ * Portfolio vs benchmark rows; benchmark rows carry only value and returnPct
+ */
+function benchmarkRows(
+  query: WidgetQuery,
+  snapshots: SnapshotInput[],
+  closes: DailyCloses,
+  benchmark: BenchmarkInput
+): { rows: QueryRow[]; comparison?: BenchmarkComparison } {
+  const from = query.timeRange?.from.slice(0, 10);
+  const to = query.timeRange?.to.slice(0, 10);
+
+  const totals = new Map<string, Totals>();
+  for (const day of dailyHoldings(snapshots, closes)) {
+    if ((from && day.date < from) || (to && day.date > to)) continue;
+    totals.set(day.date, sumHoldings(filterHoldings(day.holdings, query.filters)));
+  }
+
+  const points = [...totals].map(([date, day]) => ({ date, value: day.marketValue, invested: day.invested }));
+  const result = compareWithBenchmark(points, benchmark.prices, benchmark.riskFreeRate);
+  if (!result) {
+    return { rows: [] };
+  }
+
+  const { series, ...stats } = result;
+  const rows = series.flatMap((point): QueryRow[] => {
+    const day = totals.get(point.date)!;
+    return [
+      { ...toRow(point.date, day, query.field, day), group: PORTFOLIO_SERIES, value: point.portfolio },
+      {
+        key: point.date,
+        group: benchmark.name,
+        value: point.benchmark,
+        invested: 0,
+        marketValue: 0,
+        pnl: 0,
+        returnPct: point.benchmark,
+        allocationPct: 0,
+        holdings: 0
+      }
+    ];
+  });
+
+  return { rows, comparison: { benchmarkId: benchmark.id, benchmarkName: benchmark.name, ...stats } };
+}
+
+/**
+ * Whether a query reads snapshot history (timeseries, returns and risk fields)
+ */
+export function needsSnapshots(config: WidgetConfig): boolean {
+  return config.query.operation === 'timeseries' || HISTORY_FIELDS.has(config.query.field);
+}
+
+/**
+ * Whether a query reads daily closes (timeseries and risk fields)
+ */
+export function needsCloses(config: WidgetConfig): boolean {
+  return config.query.operation === 'timeseries' || RISK_FIELDS.has(config.query.field);
+}
+
+function compareRows(a: QueryRow, b: QueryRow, column: SortableColumn): number {
+  if (column === 'key') {
+    return a.key < b.key ? -1 : a.key > b.key ? 1 : 0;
+  }
+  return a[column] - b[column];
+}
+
+/**
+ * Execute a validated widget query
+ * @param config - Widget config (only config.query is read)
+ * @param portfolio - Current holdings (a portfolio or consolidated view)
+ * @param snapshots - Snapshot history, required for timeseries, returns and risk fields
+ * @param benchmark - Benchmark closes, required when query.benchmark is set
+ * @param closes - Daily closes of the snapshot holdings, for timeseries and risk fields
+ * @throws invalidArgument for fields/groupBy/sortBy values the operation does not support
+ */
+export function executeWidgetQuery(
+  config: WidgetConfig,
+  portfolio: Pick<Portfolio, 'holdings'>,
+  snapshots: SnapshotInput[] = [],
+  benchmark?: BenchmarkInput,
+  closes: DailyCloses = new Map()
+): QueryResult {
+  const { query } = config;
+  const { operation, field, groupBy } = query;
+
+  if (!SUPPORTED_OPERATIONS[field].includes(operation)) {
+    throw invalidArgument(`field '${field}' is not supported for ${operation}`, {
+      supported: SUPPORTED_OPERATIONS[field]
+    });
+  }
+
+  if (groupBy && !SUPPORTED_GROUP_BY[operation].includes(groupBy)) {
+    throw invalidArgument(`groupBy '${groupBy}' is not supported for ${operation}`, {
+      supported: SUPPORTED_GROUP_BY[operation]
+    });
+  }
+
+  const sortBy = query.sortBy as SortableColumn | undefined;
+  if (sortBy !== undefined && !SORTABLE_COLUMNS.includes(sortBy)) {
+    throw invalidArgument(`Cannot sort by '${query.sortBy}'`, { sortable: SORTABLE_COLUMNS });
+  }
+
+  if (query.benchmark !== undefined && benchmark?.id !== query.benchmark.toUpperCase()) {
+    throw invalidArgument(`Prices for benchmark '${query.benchmark}' were not provided`);
+  }
+
+  let rows: QueryRow[];
+  let comparison: BenchmarkComparison | undefined;
+  if (operation === 'timeseries' && query.benchmark !== undefined) {
+    ({ rows, comparison } = benchmarkRows(query, snapshots, closes, benchmark!));
+  } else if (operation === 'timeseries') {
+    rows = timeseriesRows(query, snapshots, closes);
+  } else {
+    const totals = sumHoldings(portfolio.holdings);
+    const holdings = filterHoldings(portfolio.holdings, query.filters);
+    const rowGroupBy = operation === 'aggregate' ? groupBy : 'symbol';
+    rows = operation === 'aggregate'
+      ? aggregateRows(holdings, groupBy, field, totals)
+      : holdingRows(holdings, field, totals);
+
+    if (field === 'returns' && snapshots.length > 0) {
+      rows = withReturns(rows, query, snapshots, rowGroupBy);
+    } else if (field === 'volatility' || field === 'drawdown') {
+      rows = withRisk(rows, query, snapshots, closes, rowGroupBy);
+    } else if (field === 'correlation') {
+      rows = correlationRows(holdings, query, snapshots, closes, totals);
+    }
+  }
+
+  rows = rows.filter((row) => withinRange(row, query.filters));
+
+  // Array.prototype.sort is stable, so ties keep their input order
+  const defaultSort: SortableColumn | undefined =
+    operation === 'timeseries' ? 'key' : operation === 'filter' ? undefined : 'value';
+  const column = sortBy ?? defaultSort;
+  if (column) {
+    // Top-N weights grow down the ranking, so they read smallest first
+    const ascending = operation === 'timeseries' || (field === 'concentration' && column === 'value');
+    const direction = (query.sortOrder ?? (ascending ? 'asc' : 'desc')) === 'asc' ? 1 : -1;
+    rows = [...rows].sort((a, b) => direction * compareRows(a, b, column));
+  }
+
+  const limit = Math.min(Math.max(Math.floor(query.limit ?? MAX_QUERY_LIMIT), 0), MAX_QUERY_LIMIT);
+
+  return {
+    operation,
+    field,
+    groupBy,
+    unit: UNIT[field],
+    rows: rows.slice(0, limit),
+    totalRows: rows.length,
+    benchmark: comparison
+  };
+}
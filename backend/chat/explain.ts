@@ -0,0 +1,120 @@
+/**
+ * Grounded explanations for chat answers
+ *
+ * Why this exists:
+ * - Every answered turn gets a plain-language explanation next to the chart
+ * - The LLM writes it when it answered the question; rule-based answers,
+ *   an open circuit or a failed call get a template built from the data
+ * - Either way the text passes the numeric fact check before it is returned
+ */
+
+import type { FactCheckResult, NormalizedHolding, PortfolioSummary, WidgetConfig } from '../shared/types';
+import type { QueryResult } from './executor';
+import { factCheckExplanation } from './fact-check';
+import { formatNumber, formatValue } from './format';
+import type { LlmProvider } from './llm';
+import { generateExplanation } from './nlp';
+
+export interface ExplainInput {
+  question: string;
+  config: WidgetConfig;
+  result: QueryResult;
+  summary: PortfolioSummary;
+  holdings: NormalizedHolding[];
+  provider?: LlmProvider;  // Unset = template only
+}
+
+export interface Explanation {
+  explanation: string;
+  factCheck: FactCheckResult;
+  source: 'llm' | 'template';
+}
+
+/**
+ * What a single-row aggregate measures, for fields where 'Total' misleads
+ */
+const TOTAL_LABELS: Partial<Record<WidgetConfig['query']['field'], string>> = {
+  volatility: 'Annualized volatility',
+  drawdown: 'Largest drawdown',
+  concentration: 'Concentration (Herfindahl index, 100% = one holding)'
+};
+
+/**
+ * Template explanation: the figures are read straight from the result
+ */
+export function describeResult(result: QueryResult, summary: PortfolioSummary): string {
+  const { rows, unit } = result;
+  if (rows.length === 0) {
+    return 'No holdings match this query.';
+  }
+
+  if (result.benchmark) {
+    const comparison = result.benchmark;
+    const risk = comparison.beta === undefined
+      ? ''
+      : ` Beta is ${formatNumber(comparison.beta, 2)}, alpha ${formatValue(comparison.alpha!, 'percent')} a year ` +
+        `and tracking error ${formatValue(comparison.trackingError!, 'percent')}.`;
+    return `From ${comparison.from} to ${comparison.to} your portfolio returned ` +
+      `${formatValue(comparison.portfolioReturn, 'percent')} (time-weighted) against ` +
+      `${formatValue(comparison.benchmarkReturn, 'percent')} for ${comparison.benchmarkName}.${risk}`;
+  }
+
+  if (result.operation === 'timeseries') {
+    const first = rows[0];
+    const last = rows[rows.length - 1];
+    if (result.groupBy && result.groupBy !== 'date') {
+      return `Each ${result.groupBy} is shown from ${first.key} to ${last.key}.`;
+    }
+    if (result.field === 'returns') {
+      return `From ${first.key} to ${last.key}, the time-weighted return was ${formatValue(last.value, unit)}.`;
+    }
+    if (result.field === 'drawdown') {
+      const deepest = rows.reduce((low, row) => (row.value < low.value ? row : low), first);
+      return `From ${first.key} to ${last.key}, the deepest fall from a peak was ${formatValue(deepest.value, unit)} ` +
+        `on ${deepest.key}.`;
+    }
+    return `From ${first.key} to ${last.key}, the value went from ${formatValue(first.value, unit)} ` +
+      `to ${formatValue(last.value, unit)}.`;
+  }
+
+  if (result.operation === 'aggregate' && !result.groupBy) {
+    return `${TOTAL_LABELS[result.field] ?? 'Total'}: ${formatValue(rows[0].value, unit)} ` +
+      `across ${formatNumber(rows[0].holdings, 0)} holdings.`;
+  }
+
+  if (result.field === 'correlation') {
+    const lead = rows[0];
+    return `${lead.key} and ${lead.group} come first with a correlation of ${formatValue(lead.value, unit)} ` +
+      `(1 moves in step, 0 unrelated, -1 opposite).`;
+  }
+
+  const shown = rows.length < result.totalRows ? `${rows.length} of ${result.totalRows}` : `${rows.length}`;
+  const lead = rows[0];
+  const basis = result.field !== 'returns'
+    ? ''
+    : lead.xirrPct !== undefined ? ' a year (XIRR)' : ' since purchase';
+  return `${shown} ${rows.length === 1 ? 'row' : 'rows'}; ${lead.key} comes first at ${formatValue(lead.value, unit)}${basis}. ` +
+    `Your portfolio is worth ${formatValue(summary.totalValue, 'currency')} with a P&L of ` +
+    `${formatValue(summary.totalPnL, 'currency')}.`;
+}
+
+/**
+ * Explain an executed result and fact check the text
+ * An LLM failure falls back to the template rather than failing the turn
+ */
+export async function explainResult(input: ExplainInput): Promise<Explanation> {
+  let text = describeResult(input.result, input.summary);
+  let source: Explanation['source'] = 'template';
+
+  if (input.provider) {
+    try {
+      text = (await generateExplanation(input.provider, input.question, input.result, input.summary)).explanation;
+      source = 'llm';
+    } catch (error) {
+      console.warn('Explanation fell back to the template:', { message: error instanceof Error ? error.message : error });
+    }
+  }
+
+  const { explanation, factCheck } = factCheckExplanation(text, input);
+  return { explanation, factCheck, source };
+}
@@ -0,0 +1,443 @@
+/**
+ * Numeric fact checking for chat explanations
+ *
+ * Why this exists:
+ * - LLM explanations are free text and can invent numbers or holdings
+ * - Every number and symbol in an explanation is checked against the
+ *   executed DSL result, the portfolio summary and the holdings themselves
+ * - Wrong figures that can be attributed to one holding or group are
+ *   rewritten from the data; anything else is marked as unverified
+ *
+ * Matching rules:
+ * - A figure is correct if it equals a fact to the precision it was written
+ *   with ("₹1.2 lakh" matches 1,18,000-1,25,000), with 0.5% slack for rounding
+ * - Signs are ignored ("lost ₹500" states the magnitude of a -500 P&L)
+ * - '%' figures only match percentages; '₹', lakh, crore and k only match
+ *   amounts; bare numbers match anything, including counts
+ * - When a sentence names holdings or groups, only their facts (and
+ *   portfolio-wide ones) count for that sentence; otherwise only totals and
+ *   the plotted value of each result row do
+ * - Corrections prefer the metric the sentence talks about ("made" -> P&L)
+ * - Numbers the user wrote in the question, ISO dates and years are skipped
+ */
+
+import type {
+  FactCheckClaim,
+  FactCheckResult,
+  NormalizedHolding,
+  PortfolioSummary,
+  WidgetConfig
+} from '../shared/types';
+import type { QueryResult } from './executor';
+import { formatNumber } from './format';
+
+type FactUnit = 'currency' | 'percent' | 'count';
+
+/**
+ * Which sentences may quote a fact
+ * - portfolio: any sentence (totals, counts)
+ * - row: any sentence (the value each result row plots)
+ * - detail: only sentences naming its holding or group
+ */
+type FactScope = 'portfolio' | 'row' | 'detail';
+
+interface Fact {
+  source: string;  // e.g. 'TCS.pnl', 'summary.totalValue'
+  metric: string;  // e.g. 'pnl', 'marketValue'
+  keys: string[];  // Holdings/groups the fact belongs to; empty = portfolio-wide
+  value: number;
+  unit: FactUnit;
+  scope: FactScope;
+}
+
+export interface FactCheckInput {
+  question: string;
+  config: WidgetConfig;
+  result: QueryResult;
+  summary: PortfolioSummary;
+  holdings: NormalizedHolding[];
+}
+
+export interface FactCheckOutput {
+  explanation: string;  // With corrections applied and unverified claims marked
+  factCheck: FactCheckResult;
+}
+
+/**
+ * Relative slack for figures rounded upstream (round2, display rounding)
+ */
+const RELATIVE_SLACK = 0.005;
+
+/**
+ * Wrong figures are only rewritten when the closest fact is this near;
+ * further off, the model probably meant something the data does not hold
+ */
+const MAX_CORRECTION_DISTANCE = 0.5;
+
+/**
+ * Metric a row's value column holds, per query field
+ */
+const FIELD_METRICS: Record<WidgetConfig['query']['field'], string> = {
+  holdings: 'marketValue',
+  pnl: 'pnl',
+  returns: 'returnPct',
+  allocation: 'allocationPct',
+  performance: 'performance',
+  volatility: 'volatility',
+  drawdown: 'drawdown',
+  concentration: 'concentration',
+  correlation: 'correlation'
+};
+
+/**
+ * Words that say which figure a sentence is about, used to pick corrections
+ */
+const METRIC_HINTS: Array<[RegExp, string[]]> = [
+  [/\b(p&l|pnl|profit|gain|gained|made|lost|loss|loser|down by|up by)\b/i, ['pnl', 'change', 'marketValueChange']],
+  [/\b(worth|value|valued)\b/i, ['marketValue', 'sectorValue']],
+  [/\b(invested|cost|bought)\b/i, ['invested']],
+  [/\b(price|trading at|trades at)\b/i, ['currentPrice', 'avgPrice']],
+  [/\b(return|returns|up|down)\b/i, ['returnPct', 'changePct']],
+  [/\b(allocation|weight|share of)\b/i, ['allocationPct', 'sectorPct']],
+  [/\b(shares|units|quantity)\b/i, ['quantity']],
+  [/\b(volatility|volatile|swings?)\b/i, ['volatility']],
+  [/\b(drawdowns?|peak)\b/i, ['drawdown']],
+  [/\b(concentration|concentrated|herfindahl|hhi)\b/i, ['concentration']],
+  [/\b(correlation|correlated)\b/i, ['correlation']]
+];
+
+const UNVERIFIED_MARK = ' (unverified)';
+const UNKNOWN_SYMBOL_MARK = ' (not in your portfolio)';
+
+const MULTIPLIERS: Record<string, number> = {
+  k: 1e3,
+  lakh: 1e5,
+  lakhs: 1e5,
+  lac: 1e5,
+  lacs: 1e5,
+  crore: 1e7,
+  crores: 1e7,
+  cr: 1e7
+};
+
+/**
+ * Capitalized terms that are not holdings
+ */
+const KNOWN_TERMS = new Set([
+  'AMC', 'BSE', 'CAGR', 'CDSL', 'EPS', 'ETF', 'ETFS', 'INR', 'IPO', 'IST', 'LTCG', 'MTD', 'NAV', 'NIFTY',
+  'NSDL', 'NSE', 'P&L', 'PNL', 'ROI', 'SEBI', 'SENSEX', 'SIP', 'STCG', 'USD', 'XIRR', 'YTD'
+]);
+
+const NUMBER_PATTERN =
+  /(?<![\w.,])(₹\s?|rs\.?\s?|inr\s?)?([+-])?(\d{1,3}(?:,\d{2,3})+|\d+)(?:\.(\d+))?(\s?(?:%|percent\b|lakhs?\b|lacs?\b|crores?\b|cr\b|k\b))?/gi;
+const SYMBOL_PATTERN = /(?<![A-Za-z0-9&])[A-Z][A-Z0-9&-]{2,}(?![A-Za-z0-9&])/g;
+const ISO_DATE_PATTERN = /\b\d{4}-\d{2}-\d{2}\b/g;
+
+/**
+ * One number as written in the text
+ */
+interface NumberClaim {
+  start: number;
+  end: number;
+  text: string;
+  currency?: string;  // Prefix as written
+  sign?: string;
+  grouped: boolean;
+  decimals: number;
+  suffix?: string;  // Unit as written, including a leading space
+  multiplier: number;
+  value: number;  // Absolute value in rupees / percent / units
+  unit?: Exclude<FactUnit, 'count'>;  // Undefined for bare numbers
+}
+
+/**
+ * Ratios (correlations) are written as bare numbers
+ */
+function resultUnit(result: QueryResult): FactUnit {
+  return result.unit === 'ratio' ? 'count' : result.unit;
+}
+
+function pushFact(
+  facts: Fact[],
+  source: string,
+  keys: string[],
+  value: number,
+  unit: FactUnit,
+  scope: FactScope = keys.length ? 'detail' : 'portfolio',
+  metric: string = source.slice(source.lastIndexOf('.') + 1)
+): void {
+  if (Number.isFinite(value)) {
+    facts.push({ source, metric, keys, value, unit, scope });
+  }
+}
+
+/**
+ * Every figure the explanation may legitimately quote
+ */
+function buildFacts({ question, config, result, summary, holdings }: FactCheckInput): Fact[] {
+  const facts: Fact[] = [];
+
+  for (const row of result.rows) {
+    const keys = row.group ? [row.group] : [row.key];
+    const source = row.group ? `${row.key}/${row.group}` : row.key;
+    pushFact(facts, `${source}.value`, keys, row.value, resultUnit(result), 'row', FIELD_METRICS[result.field]);
+    pushFact(facts, `${source}.invested`, keys, row.invested, 'currency');
+    pushFact(facts, `${source}.marketValue`, keys, row.marketValue, 'currency');
+    pushFact(facts, `${source}.pnl`, keys, row.pnl, 'currency');
+    pushFact(facts, `${source}.returnPct`, keys, row.returnPct, 'percent');
+    pushFact(facts, `${source}.allocationPct`, keys, row.allocationPct, 'percent');
+    pushFact(facts, `${source}.holdings`, keys, row.holdings, 'count');
+    if (row.twrPct !== undefined) {
+      pushFact(facts, `${source}.twrPct`, keys, row.twrPct, 'percent', 'row', 'returnPct');
+    }
+    if (row.xirrPct !== undefined) {
+      pushFact(facts, `${source}.xirrPct`, keys, row.xirrPct, 'percent', 'row', 'returnPct');
+    }
+  }
+
+  // Timeseries: change of each series over the range
+  if (result.operation === 'timeseries') {
+    const series = new Map<string, typeof result.rows>();
+    for (const row of result.rows) {
+      const name = row.group ?? '';
+      series.set(name, [...(series.get(name) ?? []), row]);
+    }
+    for (const [name, rows] of series) {
+      const first = rows[0];
+      const last = rows[rows.length - 1];
+      const keys = name ? [name] : [];
+      const label = name || 'result';
+      pushFact(facts, `${label}.change`, keys, last.value - first.value, resultUnit(result), 'row');
+      pushFact(facts, `${label}.marketValueChange`, keys, last.marketValue - first.marketValue, 'currency');
+      if (first.marketValue !== 0) {
+        pushFact(facts, `${label}.changePct`, keys, ((last.marketValue - first.marketValue) / first.marketValue) * 100, 'percent');
+      }
+    }
+  }
+
+  // Benchmark comparison statistics; numbers in the index name ('NIFTY 50') are not claims
+  if (result.benchmark) {
+    const comparison = result.benchmark;
+    pushFact(facts, 'benchmark.portfolioReturn', [], comparison.portfolioReturn, 'percent');
+    pushFact(facts, 'benchmark.portfolioXirr', [], comparison.portfolioXirr ?? NaN, 'percent');
+    pushFact(facts, 'benchmark.benchmarkReturn', [], comparison.benchmarkReturn, 'percent');
+    pushFact(facts, 'benchmark.benchmarkAnnualized', [], comparison.benchmarkAnnualized ?? NaN, 'percent');
+    pushFact(facts, 'benchmark.excessReturn', [], comparison.excessReturn, 'percent');
+    pushFact(facts, 'benchmark.alpha', [], comparison.alpha ?? NaN, 'percent');
+    pushFact(facts, 'benchmark.beta', [], comparison.beta ?? NaN, 'count');
+    pushFact(facts, 'benchmark.trackingError', [], comparison.trackingError ?? NaN, 'percent');
+    pushFact(facts, 'benchmark.periods', [], comparison.periods, 'count');
+    for (const claim of extractNumbers(comparison.benchmarkName)) {
+      pushFact(facts, 'benchmark.name', [], claim.value, 'count');
+    }
+  }
+
+  pushFact(facts, 'result.rows', [], result.rows.length, 'count');
+  pushFact(facts, 'result.totalRows', [], result.totalRows, 'count');
+  if (result.operation !== 'timeseries') {
+    pushFact(facts, 'result.total', [], result.rows.reduce((sum, row) => sum + row.value, 0), resultUnit(result));
+  }
+  if (config.query.limit !== undefined) {
+    pushFact(facts, 'config.limit', [], config.query.limit, 'count');
+  }
+
+  pushFact(facts, 'summary.totalValue', [], summary.totalValue, 'currency');
+  pushFact(facts, 'summary.totalPnL', [], summary.totalPnL, 'currency');
+  pushFact(facts, 'summary.pnlPercentage', [], summary.pnlPercentage, 'percent');
+  pushFact(facts, 'summary.holdingsCount', [], summary.holdingsCount, 'count');
+  for (const [sector, value] of Object.entries(summary.sectorAllocation)) {
+    pushFact(facts, `${sector}.sectorValue`, [sector], value, 'currency');
+    if (summary.totalValue > 0) {
+      pushFact(facts, `${sector}.sectorPct`, [sector], (value / summary.totalValue) * 100, 'percent');
+    }
+  }
+
+  for (const holding of holdings) {
+    const keys = [holding.symbol];
+    const invested = holding.quantity * holding.avgPrice;
+    const marketValue = holding.quantity * holding.currentPrice;
+    pushFact(facts, `${holding.symbol}.quantity`, keys, holding.quantity, 'count');
+    pushFact(facts, `${holding.symbol}.avgPrice`, keys, holding.avgPrice, 'currency');
+    pushFact(facts, `${holding.symbol}.currentPrice`, keys, holding.currentPrice, 'currency');
+    pushFact(facts, `${holding.symbol}.invested`, keys, invested, 'currency');
+    pushFact(facts, `${holding.symbol}.marketValue`, keys, marketValue, 'currency');
+    pushFact(facts, `${holding.symbol}.pnl`, keys, holding.unrealizedPnL, 'currency');
+    if (invested !== 0) {
+      pushFact(facts, `${holding.symbol}.returnPct`, keys, (holding.unrealizedPnL / invested) * 100, 'percent');
+    }
+  }
+
+  // The user's own numbers ("top 5", "last 3 months") are not claims about the data
+  for (const claim of extractNumbers(question)) {
+    pushFact(facts, 'question', [], claim.value, claim.unit ?? 'count');
+  }
+
+  return facts;
+}
+
+/**
+ * Numbers in a text, skipping ISO dates and bare years
+ */
+function extractNumbers(text: string): NumberClaim[] {
+  const masked = text.replace(ISO_DATE_PATTERN, (date) => ' '.repeat(date.length));
+  const claims: NumberClaim[] = [];
+
+  for (const match of masked.matchAll(NUMBER_PATTERN)) {
+    const [whole, currency, sign, integer, fraction, suffix] = match;
+    const start = match.index!;
+    const end = start + whole.length;
+
+    // '5th', 'H1'-style tokens are not quantities
+    if (!suffix && /[A-Za-z]/.test(masked[end] ?? '')) continue;
+
+    const unitWord = suffix?.trim().toLowerCase();
+    const multiplier = unitWord && unitWord !== '%' && unitWord !== 'percent' ? MULTIPLIERS[unitWord] : 1;
+    const value = Number(`${integer.replace(/,/g, '')}${fraction ? `.${fraction}` : ''}`) * multiplier;
+
+    if (!currency && !suffix && !fraction && !integer.includes(',') && value >= 1900 && value <= 2100) continue;
+
+    claims.push({
+      start,
+      end,
+      text: text.slice(start, end),
+      currency,
+      sign,
+      grouped: integer.includes(','),
+      decimals: fraction?.length ?? 0,
+      suffix,
+      multiplier,
+      value,
+      unit: unitWord === '%' || unitWord === 'percent' ? 'percent' : currency || multiplier !== 1 ? 'currency' : undefined
+    });
+  }
+
+  return claims;
+}
+
+function compatible(claim: NumberClaim, fact: Fact): boolean {
+  return claim.unit === undefined || claim.unit === fact.unit;
+}
+
+function matches(claim: NumberClaim, fact: Fact): boolean {
+  const precision = 0.5 * Math.pow(10, -claim.decimals) * claim.multiplier;
+  const tolerance = Math.max(precision, Math.abs(fact.value) * RELATIVE_SLACK);
+  return Math.abs(claim.value - Math.abs(fact.value)) <= tolerance;
+}
+
+/**
+ * Rewrite a number in the style it was written in
+ */
+function formatLike(claim: NumberClaim, value: number): string {
+  const sign = claim.sign ? (value < 0 ? '-' : '+') : '';
+  const number = formatNumber(Math.abs(value) / claim.multiplier, claim.decimals, claim.grouped);
+  return `${claim.currency ?? ''}${sign}${number}${claim.suffix ?? ''}`;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Sentence boundaries as [start, end) offsets
+ */
+function sentences(text: string): Array<[number, number]> {
+  const bounds: Array<[number, number]> = [];
+  let start = 0;
+  for (const match of text.matchAll(/[.!?](?=\s|$)|\n/g)) {
+    const end = match.index! + 1;
+    bounds.push([start, end]);
+    start = end;
+  }
+  if (start < text.length) {
+    bounds.push([start, text.length]);
+  }
+  return bounds;
+}
+
+/**
+ * Holdings and groups a sentence names
+ */
+function keysIn(sentence: string, keys: string[]): string[] {
+  return keys.filter((key) =>
+    new RegExp(`(?<![A-Za-z0-9&])${escapeRegExp(key)}(?![A-Za-z0-9&])`, 'i').test(sentence)
+  );
+}
+
+/**
+ * Check an explanation against the data it explains
+ */
+export function factCheckExplanation(explanation: string, input: FactCheckInput): FactCheckOutput {
+  const facts = buildFacts(input);
+  const knownKeys = [...new Set(facts.flatMap((fact) => fact.keys))].filter((key) => key.length > 0);
+  const knownSymbols = new Set([
+    ...input.holdings.map((holding) => holding.symbol.toUpperCase()),
+    ...knownKeys.map((key) => key.toUpperCase()),
+    ...(input.result.benchmark
+      ? [input.result.benchmark.benchmarkId, ...input.result.benchmark.benchmarkName.toUpperCase().split(/\s+/)]
+      : []),
+    ...KNOWN_TERMS
+  ]);
+
+  const claims: FactCheckClaim[] = [];
+  const edits: Array<{ start: number; end: number; text: string }> = [];
+  const bounds = sentences(explanation);
+  const sentenceAt = (offset: number) => bounds.find(([start, end]) => offset >= start && offset < end) ?? [0, explanation.length];
+
+  for (const claim of extractNumbers(explanation)) {
+    const [from, to] = sentenceAt(claim.start);
+    const sentence = explanation.slice(from, to);
+    const named = keysIn(sentence, knownKeys);
+    const candidates = facts.filter((fact) => compatible(claim, fact) && (named.length === 0
+      ? fact.scope !== 'detail'
+      : fact.keys.length === 0 || fact.keys.some((key) => named.includes(key))));
+
+    const verified = candidates.find((fact) => matches(claim, fact));
+    if (verified) {
+      claims.push({ kind: 'number', text: claim.text, status: 'verified', source: verified.source });
+      continue;
+    }
+
+    // Attributable to exactly one holding or group: take that key's closest
+    // figure, of the metric the sentence talks about when it says
+    const keyed = named.length === 1 ? candidates.filter((fact) => fact.keys.includes(named[0])) : [];
+    const hinted = METRIC_HINTS.filter(([pattern]) => pattern.test(sentence)).flatMap(([, metrics]) => metrics);
+    const pool = hinted.length ? keyed.filter((fact) => hinted.includes(fact.metric)) : keyed;
+    const distance = (fact: Fact) => Math.abs(claim.value - Math.abs(fact.value)) / Math.max(Math.abs(fact.value), 1);
+    const closest = pool.sort((a, b) => distance(a) - distance(b))[0];
+
+    if (closest && distance(closest) <= MAX_CORRECTION_DISTANCE) {
+      const replacement = formatLike(claim, closest.value);
+      claims.push({ kind: 'number', text: claim.text, status: 'corrected', replacement, source: closest.source });
+      edits.push({ start: claim.start, end: claim.end, text: replacement });
+    } else {
+      claims.push({ kind: 'number', text: claim.text, status: 'flagged', reason: 'No matching figure in the data' });
+      edits.push({ start: claim.end, end: claim.end, text: UNVERIFIED_MARK });
+    }
+  }
+
+  for (const match of explanation.matchAll(SYMBOL_PATTERN)) {
+    const symbol = match[0];
+    if (knownSymbols.has(symbol.toUpperCase())) {
+      if (input.holdings.some((holding) => holding.symbol.toUpperCase() === symbol.toUpperCase())) {
+        claims.push({ kind: 'symbol', text: symbol, status: 'verified', source: symbol });
+      }
+      continue;
+    }
+
+    const end = match.index! + symbol.length;
+    claims.push({ kind: 'symbol', text: symbol, status: 'flagged', reason: 'Not a holding in this portfolio' });
+    edits.push({ start: end, end, text: UNKNOWN_SYMBOL_MARK });
+  }
+
+  // Apply from the end so earlier offsets stay valid
+  let text = explanation;
+  for (const edit of [...edits].sort((a, b) => b.start - a.start)) {
+    text = text.slice(0, edit.start) + edit.text + text.slice(edit.end);
+  }
+
+  const status = claims.some((claim) => claim.status === 'flagged')
+    ? 'flagged'
+    : claims.some((claim) => claim.status === 'corrected') ? 'corrected' : 'verified';
+
+  return { explanation: text, factCheck: { status, claims } };
+}
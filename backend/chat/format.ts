@@ -0,0 +1,41 @@
+/**
+ * Number formatting for chat answers
+ *
+ * Why this exists:
+ * - Explanations quote amounts the way Indian investors read them
+ *   (₹1,23,456.78, lakh/crore grouping)
+ * - The fact checker rewrites wrong figures in the same style
+ */
+
+/**
+ * Group the integer part Indian style: 1,23,45,678
+ */
+export function groupIndian(digits: string): string {
+  if (digits.length <= 3) {
+    return digits;
+  }
+  const head = digits.slice(0, -3).replace(/\B(?=(\d{2})+(?!\d))/g, ',');
+  return `${head},${digits.slice(-3)}`;
+}
+
+/**
+ * Format a number with fixed decimals and optional Indian grouping
+ */
+export function formatNumber(value: number, decimals: number, grouped: boolean = true): string {
+  const [integer, fraction] = Math.abs(value).toFixed(decimals).split('.');
+  const sign = value < 0 && Number(Math.abs(value).toFixed(decimals)) !== 0 ? '-' : '';
+  return `${sign}${grouped ? groupIndian(integer) : integer}${fraction ? `.${fraction}` : ''}`;
+}
+
+/**
+ * Format a QueryResult value for display
+ */
+export function formatValue(value: number, unit: 'currency' | 'percent' | 'ratio'): string {
+  if (unit === 'percent') {
+    return `${formatNumber(value, 2)}%`;
+  }
+  if (unit === 'ratio') {
+    return formatNumber(value, 2);
+  }
+  return value < 0 ? `-₹${formatNumber(-value, 2)}` : `₹${formatNumber(value, 2)}`;
+}
@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { redactPii, type PiiKind } from './guard';
+
+describe('redactPii', () => {
+  it.each<[string, string, PiiKind[]]>([
+    ['My PAN is ABCPE1234F', 'My PAN is [PAN]', ['pan']],
+    ['mail ravi.kumar@example.com', 'mail [EMAIL]', ['email']],
+    ['call +91 98765 43210 today', 'call [PHONE] today', ['phone']],
+    ['For Zerodha client ZX4821 show allocation', 'For Zerodha client [CLIENT_ID] show allocation', ['client_id']],
+    ['my client id is ab1234', 'my client id is [CLIENT_ID]', ['client_id']],
+    ['Kite user ID: ZQ9087.', 'Kite user ID: [CLIENT_ID].', ['client_id']],
+    ['login-id=XY9876', 'login-id=[CLIENT_ID]', ['client_id']]
+  ])('redacts %j', (text, redacted, found) => {
+    expect(redactPii(text)).toEqual({ text: redacted, found });
+  });
+
+  it.each([
+    'Show capital gains for FY2024',
+    'Compare FY2023 with FY2024',
+    'How much SGB2031 do I hold?',
+    'Returns of NIFTY50 since 2020',
+    'Sell 1500 shares at 2450.50'
+  ])('leaves %j alone', (text) => {
+    expect(redactPii(text)).toEqual({ text, found: [] });
+  });
+});
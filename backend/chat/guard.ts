@@ -0,0 +1,281 @@
+/**
+ * Input/output guardrails for the chat pipeline
+ *
+ * Why this exists:
+ * - Questions, imported holdings (symbols, sectors, CSV free text) and chat
+ *   history all end up in LLM prompts; any of them can carry injected
+ *   instructions or personal data
+ * - PAN, email, phone numbers and Zerodha client IDs are redacted from every
+ *   prompt before it leaves the backend (withGuardrails wraps the provider)
+ * - Questions that try to override the model's instructions are refused
+ *   before any LLM call
+ * - Untrusted data fields are reduced to plain identifiers; anything that
+ *   reads like an instruction is dropped
+ * - Model output that does not match the requested JSON schema (unknown
+ *   keys, wrong types, values outside an enum) is blocked, never executed
+ *
+ * What reaches a prompt: the question, earlier turns of the session, the
+ * current widget config, portfolio symbols and sector names, and executed
+ * result rows. Holding _metadata, user profiles and raw CSV rows never do.
+ */
+
+import {
+  LlmProviderError,
+  type JsonSchema,
+  type LlmProvider,
+  type StructuredOutput,
+  type StructuredOutputRequest
+} from './llm/types';
+
+export type PiiKind = 'pan' | 'email' | 'phone' | 'client_id';
+
+export interface Redaction {
+  text: string;
+  found: PiiKind[];  // One entry per redacted value
+}
+
+/**
+ * PII patterns, most specific first
+ * Zerodha client IDs are two or three letters followed by digits (AB1234, ABC123).
+ * That shape also fits FY2024 or SGB2031, so an ID is only redacted after
+ * words that introduce one ("client ZX4821", "user id: ab1234").
+ */
+const CLIENT_ID_CONTEXT = String.raw`\b(?:client|user|kite|zerodha|login|account)` +
+  String.raw`(?:[\s_-]*(?:id|code|no\.?|number))?\s*(?:(?:is|:|#|=|-)\s*)?`;
+
+const PII_PATTERNS: Array<[PiiKind, RegExp, string]> = [
+  ['email', /\b[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}\b/g, '[EMAIL]'],
+  ['pan', /\b[A-Za-z]{3}[PCHFATBLJGpchfatbljg][A-Za-z]\d{4}[A-Za-z]\b/g, '[PAN]'],
+  ['phone', /(?<![\w.,])(?:\+?91[\s-]?|0)?[6-9]\d{4}[\s-]?\d{5}(?![\w.,])/g, '[PHONE]'],
+  ['client_id', new RegExp(String.raw`(?<=${CLIENT_ID_CONTEXT})[A-Za-z]{2,3}\d{3,4}\b`, 'gi'), '[CLIENT_ID]']
+];
+
+/**
+ * Phrasings that try to take over the model's instructions
+ */
+const INJECTION_PATTERNS: RegExp[] = [
+  /\b(ignore|disregard|forget|override|bypass)\b.{0,30}\b(instructions?|prompts?|rules|guidelines|directions)\b/i,
+  /\b(ignore|disregard|forget)\s+(everything|all|the)\s+(above|before|previous)\b/i,
+  /\b(system|developer|hidden)\s+(prompt|message|instructions?|mode)\b/i,
+  /\byou\s+are\s+(now|no\s+longer)\b/i,
+  /\b(act|behave)\s+as\s+(an?\s+)?(different|new|unrestricted|unfiltered|jailbroken)\b|\bpretend\s+(to\s+be|you\s+are)\b/i,
+  /\b(reveal|print|show|repeat|leak|output)\b.{0,30}\b(prompt|instructions|api\s*key|secret|password|token)\b/i,
+  /<\/?\s*(system|assistant|user|tool|instructions?)\s*>|<\|[a-z_]+\|>/i,
+  /\b(drop|truncate|delete\s+from|alter)\s+table\b|;\s*--/i
+];
+
+const CONTROL_CHARACTERS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f\u200b-\u200f\u202a-\u202e\u2060-\u2064]/g;
+const IDENTIFIER_UNSAFE = /[^\p{L}\p{N} &.,'()/+-]/gu;
+
+const MAX_IDENTIFIER_LENGTH = 60;
+const MAX_PROMPT_STRING_LENGTH = 200;
+
+/**
+ * Largest structured output accepted from a model (serialized characters)
+ */
+const MAX_OUTPUT_CHARS = 20000;
+
+/**
+ * Replace personal data with placeholders
+ */
+export function redactPii(text: string): Redaction {
+  const found: PiiKind[] = [];
+  let redacted = text;
+  for (const [kind, pattern, placeholder] of PII_PATTERNS) {
+    redacted = redacted.replace(pattern, () => {
+      found.push(kind);
+      return placeholder;
+    });
+  }
+  return { text: redacted, found };
+}
+
+/**
+ * Redact PII in every string of a JSON value
+ */
+function redactDeep<T>(value: T): T {
+  if (typeof value === 'string') {
+    return redactPii(value).text as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(redactDeep) as T;
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, redactDeep(item)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Name of the first injection pattern a text matches
+ */
+export function detectInjection(text: string): string | undefined {
+  const normalized = text.replace(CONTROL_CHARACTERS, '').replace(/\s+/g, ' ');
+  return INJECTION_PATTERNS.find((pattern) => pattern.test(normalized))?.source;
+}
+
+export interface GuardedQuestion {
+  text: string;  // PII redacted
+  redacted: PiiKind[];
+  blocked?: string;  // Why the question is refused
+}
+
+/**
+ * Check a user question before it is stored or sent anywhere
+ */
+export function guardQuestion(question: string): GuardedQuestion {
+  const { text, found } = redactPii(question.replace(CONTROL_CHARACTERS, '').trim());
+  const injection = detectInjection(text);
+  return {
+    text,
+    redacted: found,
+    blocked: injection ? 'The question tries to change the assistant\'s instructions' : undefined
+  };
+}
+
+/**
+ * Reduce an untrusted data field (symbol, sector, group name) to a plain identifier
+ * @returns undefined when nothing safe is left or the value reads like an instruction
+ */
+export function safeIdentifier(value: string | undefined | null): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const cleaned = value.replace(CONTROL_CHARACTERS, '').replace(IDENTIFIER_UNSAFE, ' ').replace(/\s+/g, ' ').trim();
+  if (!cleaned || cleaned.length > MAX_IDENTIFIER_LENGTH || detectInjection(cleaned)) {
+    return undefined;
+  }
+  return redactPii(cleaned).found.length > 0 ? undefined : cleaned;
+}
+
+/**
+ * Distinct untrusted values that are safe to list in a prompt, sorted
+ */
+export function promptIdentifiers(values: string[]): string[] {
+  return [...new Set(values.map(safeIdentifier).filter((value): value is string => value !== undefined))].sort();
+}
+
+/**
+ * Make a data object safe to embed in a prompt
+ * Strings are cut to a short length and replaced when they read like instructions
+ */
+export function sanitizeForPrompt<T>(value: T): T {
+  if (typeof value === 'string') {
+    const cleaned = value.replace(CONTROL_CHARACTERS, '').slice(0, MAX_PROMPT_STRING_LENGTH);
+    return (detectInjection(cleaned) ? '[removed]' : redactPii(cleaned).text) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(sanitizeForPrompt) as T;
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, sanitizeForPrompt(item)])) as T;
+  }
+  return value;
+}
+
+/**
+ * Differences between a value and a JSON schema (the subset providers use:
+ * type, enum, properties, required, additionalProperties, items, anyOf,
+ * minimum, maximum, pattern)
+ */
+export function schemaViolations(value: unknown, schema: JsonSchema, path: string = '(root)'): string[] {
+  if (schema.anyOf) {
+    const matched = (schema.anyOf as JsonSchema[]).some((option) => schemaViolations(value, option, path).length === 0);
+    return matched ? [] : [`${path}: does not match any allowed shape`];
+  }
+
+  if (schema.enum && !(schema.enum as unknown[]).includes(value)) {
+    return [`${path}: value is not allowed`];
+  }
+
+  const types = schema.type === undefined ? [] : [schema.type as string | string[]].flat();
+  if (types.length > 0 && !types.some((type) => hasType(value, type))) {
+    return [`${path}: expected ${types.join(' or ')}`];
+  }
+
+  if (Array.isArray(value) && schema.items) {
+    return value.flatMap((item, index) => schemaViolations(item, schema.items as JsonSchema, `${path}[${index}]`));
+  }
+
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    const record = value as Record<string, unknown>;
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    const violations: string[] = [];
+    const child = (key: string) => (path === '(root)' ? key : `${path}.${key}`);
+
+    for (const key of (schema.required ?? []) as string[]) {
+      if (record[key] === undefined) violations.push(`${child(key)}: is required`);
+    }
+    for (const [key, item] of Object.entries(record)) {
+      if (properties[key]) {
+        violations.push(...schemaViolations(item, properties[key], child(key)));
+      } else if (schema.additionalProperties === false) {
+        violations.push(`${child(key)}: is not allowed`);
+      }
+    }
+    return violations;
+  }
+
+  if (typeof value === 'number') {
+    const { minimum, maximum } = schema as { minimum?: number; maximum?: number };
+    if (minimum !== undefined && value < minimum) return [`${path}: below ${minimum}`];
+    if (maximum !== undefined && value > maximum) return [`${path}: above ${maximum}`];
+  }
+  if (typeof value === 'string' && schema.pattern && !new RegExp(schema.pattern as string, 'i').test(value)) {
+    return [`${path}: does not match the expected format`];
+  }
+  return [];
+}
+
+function hasType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'object':
+      return value !== null && typeof value === 'object' && !Array.isArray(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'integer':
+      return Number.isInteger(value);
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'null':
+      return value === null;
+    default:
+      return typeof value === type;
+  }
+}
+
+/**
+ * Wrap a provider so prompts are redacted and outputs are schema-checked
+ * @throws LlmProviderError ('invalid_output') for outputs outside the requested schema
+ */
+export function withGuardrails(provider: LlmProvider): LlmProvider {
+  return {
+    id: provider.id,
+    model: provider.model,
+
+    async generateStructured(request: StructuredOutputRequest): Promise<StructuredOutput> {
+      const redacted: StructuredOutputRequest = {
+        ...request,
+        system: redactPii(request.system).text,
+        messages: request.messages.map((message) => ({ ...message, content: redactPii(message.content).text }))
+      };
+
+      const result = await provider.generateStructured(redacted);
+
+      const size = JSON.stringify(result.output ?? null).length;
+      const violations = size > MAX_OUTPUT_CHARS
+        ? [`output is ${size} characters (limit ${MAX_OUTPUT_CHARS})`]
+        : schemaViolations(result.output, request.schema);
+      if (violations.length > 0) {
+        console.warn('LLM output blocked by guardrails:', { provider: provider.id, schema: request.schemaName, violations });
+        throw new LlmProviderError(
+          'invalid_output',
+          provider.id,
+          `Output blocked by guardrails: ${violations.slice(0, 3).join('; ')}`
+        );
+      }
+
+      return { ...result, output: redactDeep(result.output) };
+    }
+  };
+}
@@ -0,0 +1,525 @@
+/**
+ * Rule-based intent parser
+ *
+ * Why this exists:
+ * - Many questions are formulaic ("top 5 losers", "sector allocation",
+ *   "P&L this month") and do not need an LLM call, which costs money and
+ *   counts against the free tier's monthly query limit
+ * - Maps common phrasings straight to a WidgetConfig, with a confidence
+ *   score so anything the grammar does not fully understand escalates to the LLM
+ * - Doubles as the fallback when the LLM provider is down
+ *
+ * Grammar: the question is normalized (lowercase, "P&L" -> "pnl") and each
+ * rule below consumes the phrases it recognizes. Confidence is the share of
+ * content words (stopwords excluded) that some rule consumed. Only first
+ * turns are parsed; follow-ups need the current config and go to the LLM.
+ */
+
+import type { AssetType, ChartType, WidgetConfig } from '../shared/types';
+import { CURRENT_DSL_VERSION } from '../shared/dsl-migrations';
+import { validateWidgetConfig } from './dsl';
+import { MAX_QUERY_LIMIT } from './executor';
+import type { PortfolioHints } from './nlp';
+
+/**
+ * Lowest confidence at which a parsed intent answers without the LLM
+ */
+export const RULES_MIN_CONFIDENCE = 0.75;
+
+/**
+ * Range used for trends without an explicit period ("P&L trend")
+ */
+const DEFAULT_TREND_DAYS = 30;
+
+/**
+ * Everyday names for benchmark ids ("vs nifty"), used when that benchmark is loaded
+ */
+const BENCHMARK_ALIASES: Record<string, string[]> = {
+  NIFTY50: ['nifty']
+};
+
+export type IntentKind = 'ranking' | 'breakdown' | 'total' | 'trend' | 'list' | 'comparison';
+
+export interface IntentMatch {
+  intent: IntentKind;
+  config: WidgetConfig;  // Validated
+  confidence: number;  // 0-1
+  unmatched: string[];  // Content words no rule understood
+}
+
+type Field = WidgetConfig['query']['field'];
+type Period = 'day' | 'week' | 'month' | 'year';
+
+/**
+ * What the rules found in the question
+ */
+interface Slots {
+  field?: Field;
+  order?: 'asc' | 'desc';
+  polarity?: 'losers' | 'gainers';
+  limit?: number;
+  groupBy?: 'sector' | 'assetType' | 'symbol';
+  total?: boolean;
+  trend?: boolean;
+  timeRange?: { from: string; to: string };
+  chartType?: ChartType;
+  comparison?: boolean;
+  benchmark?: string;
+  sectors: string[];
+  symbols: string[];
+  assetTypes: AssetType[];
+}
+
+interface Rule {
+  pattern: RegExp;  // Global; every match is applied and consumed
+  apply: (slots: Slots, match: RegExpExecArray, today: string) => void;
+}
+
+const STOPWORDS = new Set([
+  'a', 'all', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'by', 'can', 'chart', 'current', 'currently',
+  'did', 'display', 'do', 'does', 'doing', 'each', 'far', 'for', 'from', 'get', 'give', 'graph', 'has', 'have',
+  'holding', 'holdings', 'how', 'i', 'im', 'in', 'investments', 'is', 'it', 'list', 'm', 'me', 'much', 'my',
+  'now', 'of', 'on', 'our', 'overview', 'please', 'plot', 'portfolio', 'positions', 'see', 'share', 'shares',
+  'show', 'so', 'stock', 'stocks', 'tell', 'the', 'this', 'to', 'view', 'was', 'what', 'whats', 'which',
+  'with', 'you', 'your'
+]);
+
+/**
+ * Risk fields that describe the whole portfolio unless the question ranks or groups
+ */
+const PORTFOLIO_RISK_FIELDS = new Set<Field>(['volatility', 'drawdown', 'concentration']);
+
+const RANK_WORDS: Record<string, 'asc' | 'desc'> = {
+  top: 'desc',
+  best: 'desc',
+  biggest: 'desc',
+  largest: 'desc',
+  highest: 'desc',
+  most: 'desc',
+  bottom: 'asc',
+  worst: 'asc',
+  smallest: 'asc',
+  lowest: 'asc',
+  least: 'asc'
+};
+
+const CHART_WORDS: Record<string, ChartType> = {
+  pie: 'pie',
+  donut: 'pie',
+  bar: 'bar',
+  column: 'bar',
+  line: 'line',
+  area: 'area',
+  scatter: 'scatter'
+};
+
+function shiftDate(date: string, period: Period, amount: number): string {
+  const shifted = new Date(`${date}T00:00:00Z`);
+  switch (period) {
+    case 'day':
+      shifted.setUTCDate(shifted.getUTCDate() + amount);
+      break;
+    case 'week':
+      shifted.setUTCDate(shifted.getUTCDate() + amount * 7);
+      break;
+    case 'month':
+      shifted.setUTCMonth(shifted.getUTCMonth() + amount);
+      break;
+    case 'year':
+      shifted.setUTCFullYear(shifted.getUTCFullYear() + amount);
+      break;
+  }
+  return shifted.toISOString().slice(0, 10);
+}
+
+/**
+ * First day of the calendar period containing a date (weeks start on Monday,
+ * financial years on 1 April)
+ */
+function periodStart(date: string, period: Period | 'financialYear'): string {
+  const [year, month] = date.split('-').map(Number);
+  switch (period) {
+    case 'day':
+      return date;
+    case 'week': {
+      const weekday = (new Date(`${date}T00:00:00Z`).getUTCDay() + 6) % 7;
+      return shiftDate(date, 'day', -weekday);
+    }
+    case 'month':
+      return `${date.slice(0, 7)}-01`;
+    case 'year':
+      return `${year}-01-01`;
+    case 'financialYear':
+      return `${month >= 4 ? year : year - 1}-04-01`;
+  }
+}
+
+const RULES: Rule[] = [
+  // Comparison against a benchmark (the benchmark itself is consumed by name)
+  {
+    pattern: /\b(?:vs|versus|against|compared? (?:to|with)|comparison|relative to|benchmark(?:ed)?)\b/g,
+    apply: (slots) => {
+      slots.comparison = true;
+    }
+  },
+
+  // Time periods
+  {
+    pattern: /\b(?:this|current) (week|month|year)\b|\b(week|month|year) to date\b/g,
+    apply: (slots, match, today) => {
+      slots.timeRange = { from: periodStart(today, (match[1] ?? match[2]) as Period), to: today };
+    }
+  },
+  {
+    pattern: /\b(w|m|y)td\b/g,
+    apply: (slots, match, today) => {
+      const period: Record<string, Period> = { w: 'week', m: 'month', y: 'year' };
+      slots.timeRange = { from: periodStart(today, period[match[1]]), to: today };
+    }
+  },
+  {
+    pattern: /\b(?:(?:this|current) )?(?:financial|fiscal) year\b|\bfytd\b/g,
+    apply: (slots, _match, today) => {
+      slots.timeRange = { from: periodStart(today, 'financialYear'), to: today };
+    }
+  },
+  {
+    pattern: /\b(?:last|past|previous) (?:(\d{1,3}) )?(day|week|month|year)s?\b/g,
+    apply: (slots, match, today) => {
+      slots.timeRange = { from: shiftDate(today, match[2] as Period, -Number(match[1] ?? 1)), to: today };
+    }
+  },
+  {
+    pattern: /\b(?:over time|trend|trends|history|historical|daily|progress)\b/g,
+    apply: (slots) => {
+      slots.trend = true;
+    }
+  },
+
+  // Chart type
+  {
+    pattern: /\b(pie|donut|bar|column|line|area|scatter)(?: chart| graph| plot)?\b/g,
+    apply: (slots, match) => {
+      slots.chartType = CHART_WORDS[match[1]];
+    }
+  },
+
+  // Ranking
+  {
+    pattern: /\b(losers?|losing|laggards?|underperformers?|decliners?|loss makers?|in (?:the )?red|in loss)\b/g,
+    apply: (slots) => {
+      slots.polarity = 'losers';
+    }
+  },
+  {
+    pattern: /\b(gainers?|winners?|outperformers?|in (?:the )?green|in profit|profitable)\b/g,
+    apply: (slots) => {
+      slots.polarity = 'gainers';
+    }
+  },
+  {
+    pattern: /\b(top|best|biggest|largest|highest|most|bottom|worst|smallest|lowest|least)(?: (\d{1,3}))?\b/g,
+    apply: (slots, match) => {
+      slots.order = RANK_WORDS[match[1]];
+      if (match[2]) slots.limit = Number(match[2]);
+    }
+  },
+  {
+    pattern: /\b(\d{1,3})\b/g,
+    apply: (slots, match) => {
+      slots.limit ??= Number(match[1]);
+    }
+  },
+
+  // Grouping
+  {
+    pattern: /\b(?:asset (?:types?|class(?:es)?)|asset allocation)\b/g,
+    apply: (slots, match) => {
+      slots.groupBy = 'assetType';
+      if (match[0] === 'asset allocation') slots.field = 'allocation';
+    }
+  },
+  {
+    pattern: /\b(?:sectors?|sectoral|industry|industries)(?: ?wise)?\b/g,
+    apply: (slots) => {
+      slots.groupBy = 'sector';
+    }
+  },
+  {
+    pattern: /\b(?:by|per) (?:stock|holding|symbol|company|scrip)\b|\bstock ?wise\b/g,
+    apply: (slots) => {
+      slots.groupBy = 'symbol';
+    }
+  },
+  {
+    pattern: /\b(?:total|overall|net|entire|whole)\b/g,
+    apply: (slots) => {
+      slots.total = true;
+    }
+  },
+
+  // Fields
+  {
+    pattern: /\b(?:pnl|profits?|gains?|loss|losses|unreali[sz]ed)\b/g,
+    apply: (slots) => {
+      slots.field = 'pnl';
+    }
+  },
+  {
+    pattern: /\b(?:returns?|roi|performers|performing)\b/g,
+    apply: (slots) => {
+      slots.field = 'returns';
+    }
+  },
+  {
+    pattern: /\bperformance\b/g,
+    apply: (slots) => {
+      slots.field = 'performance';
+    }
+  },
+  {
+    pattern: /\b(?:allocation|allocated|split|breakdown|distribution|exposure|weights?|weightage|diversification|mix)\b/g,
+    apply: (slots) => {
+      slots.field = 'allocation';
+    }
+  },
+  {
+    pattern: /\b(?:volatility|volatile|risky|riskiest|risk)\b/g,
+    apply: (slots) => {
+      slots.field = 'volatility';
+    }
+  },
+  {
+    pattern: /\b(?:max(?:imum)? )?draw ?downs?\b/g,
+    apply: (slots) => {
+      slots.field = 'drawdown';
+    }
+  },
+  {
+    pattern: /\b(?:concentration|concentrated|herfindahl|hhi)\b/g,
+    apply: (slots) => {
+      slots.field = 'concentration';
+    }
+  },
+  {
+    pattern: /\b(?:correlation matrix|correlations?|correlated)\b/g,
+    apply: (slots) => {
+      slots.field = 'correlation';
+    }
+  },
+  {
+    pattern: /\b(?:(?:market|current) )?(?:value|worth|valuation)\b/g,
+    apply: (slots) => {
+      slots.field = 'holdings';
+    }
+  },
+
+  // Asset type filters
+  {
+    pattern: /\b(?:mutual funds?|mfs?|funds)\b/g,
+    apply: (slots) => {
+      slots.assetTypes.push('mutual_fund');
+    }
+  },
+  {
+    pattern: /\betfs?\b/g,
+    apply: (slots) => {
+      slots.assetTypes.push('etf');
+    }
+  },
+  {
+    pattern: /\bbonds?\b/g,
+    apply: (slots) => {
+      slots.assetTypes.push('bond');
+    }
+  },
+  {
+    pattern: /\bequit(?:y|ies)\b/g,
+    apply: (slots) => {
+      slots.assetTypes.push('equity');
+    }
+  }
+];
+
+/**
+ * Lowercase, spell out "P&L", and reduce everything else to words and numbers
+ */
+function normalize(text: string): string {
+  return ` ${text.toLowerCase()
+    .replace(/\bp\s*(?:&|and|\/)\s*l\b|\bprofit (?:and|&) loss\b/g, ' pnl ')
+    .replace(/'/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()} `;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+function contentWords(text: string): string[] {
+  return text.split(' ').filter((word) => word && !STOPWORDS.has(word));
+}
+
+/**
+ * Consume the portfolio's own sector names and symbols (matched as whole phrases)
+ */
+function consumeNames(text: string, names: string[], found: string[]): string {
+  // Longest first, so 'Oil & Gas Refining' wins over 'Oil & Gas'
+  const ordered = [...names].sort((a, b) => b.length - a.length);
+  for (const name of ordered) {
+    const phrase = normalize(name).trim();
+    if (!phrase || STOPWORDS.has(phrase)) continue;
+
+    const pattern = new RegExp(`\\b${escapeRegExp(phrase)}\\b`, 'g');
+    if (pattern.test(text)) {
+      found.push(name);
+      text = text.replace(pattern, ' ');
+    }
+  }
+  return text;
+}
+
+function buildConfig(slots: Slots, today: string): { intent: IntentKind; config: WidgetConfig } | undefined {
+  const ranked = slots.order !== undefined || slots.polarity !== undefined || slots.limit !== undefined;
+  const filters: WidgetConfig['query']['filters'] = {};
+  if (slots.symbols.length) filters.symbol = slots.symbols;
+  if (slots.sectors.length) filters.sector = slots.sectors;
+  if (slots.assetTypes.length) filters.assetType = [...new Set(slots.assetTypes)];
+
+  const base = (query: WidgetConfig['query'], chartType: ChartType): WidgetConfig => ({
+    version: CURRENT_DSL_VERSION,
+    query: Object.keys(filters).length ? { ...query, filters: { ...filters, ...query.filters } } : query,
+    visualization: { chartType: slots.chartType ?? chartType, xAxis: 'key', yAxis: 'value' },
+    refresh: { automatic: true, frequency: 'daily' }
+  });
+
+  if (slots.comparison || slots.benchmark) {
+    // "IT vs Banks" compares groups, which needs the LLM
+    const field = slots.field ?? 'returns';
+    if (!slots.benchmark || ranked || slots.groupBy || (field !== 'returns' && field !== 'performance')) {
+      return undefined;
+    }
+
+    const config = base({
+      operation: 'timeseries',
+      field,
+      groupBy: 'date',
+      timeRange: slots.timeRange ?? { from: shiftDate(today, 'year', -1), to: today },
+      benchmark: slots.benchmark
+    }, 'line');
+    config.visualization.showLegend = true;
+    return { intent: 'comparison', config };
+  }
+
+  if (slots.timeRange || slots.trend) {
+    // "top 5 stocks this month" ranks over a period, which timeseries cannot express
+    if (ranked) return undefined;
+
+    const groupBy = slots.groupBy ?? 'date';
+    const config = base({
+      operation: 'timeseries',
+      field: slots.field ?? 'holdings',
+      groupBy,
+      timeRange: slots.timeRange ?? { from: shiftDate(today, 'day', -DEFAULT_TREND_DAYS), to: today }
+    }, 'line');
+    if (groupBy !== 'date') config.visualization.showLegend = true;
+    return { intent: 'trend', config };
+  }
+
+  // "How volatile is my portfolio?" asks for one figure; ranking compares holdings
+  const portfolioFigure = !ranked && slots.field !== undefined && PORTFOLIO_RISK_FIELDS.has(slots.field);
+  if ((slots.total || portfolioFigure) && !slots.groupBy) {
+    return { intent: 'total', config: base({ operation: 'aggregate', field: slots.field ?? 'holdings' }, 'bar') };
+  }
+
+  if (slots.groupBy === 'sector' || slots.groupBy === 'assetType') {
+    const field = slots.field ?? 'allocation';
+    const config = base({
+      operation: 'aggregate',
+      field,
+      groupBy: slots.groupBy,
+      sortOrder: slots.order,
+      limit: slots.limit
+    }, field === 'allocation' || field === 'holdings' ? 'pie' : 'bar');
+    config.visualization.showLegend = true;
+    return { intent: 'breakdown', config };
+  }
+
+  if (!ranked && !slots.field) {
+    return undefined;
+  }
+
+  // Holding rows: rankings, or a field per holding ("returns by stock")
+  const field = slots.field ?? (slots.polarity ? 'pnl' : 'holdings');
+  const signed = field === 'pnl' || field === 'returns' || field === 'performance';
+  const sortOrder = slots.polarity === 'losers' ? 'asc' : slots.polarity === 'gainers' ? 'desc' : slots.order ?? 'desc';
+  const config = base({
+    operation: 'sort',
+    field,
+    filters: signed && slots.polarity === 'losers' ? { maxValue: 0 } : signed && slots.polarity ? { minValue: 0 } : undefined,
+    sortOrder,
+    limit: slots.limit
+  }, 'bar');
+
+  return { intent: ranked ? 'ranking' : 'list', config };
+}
+
+/**
+ * Parse a question into a widget config without the LLM
+ * @returns undefined when no rule applies or the result does not validate
+ */
+export function parseIntent(question: string, hints: PortfolioHints): IntentMatch | undefined {
+  let text = normalize(question);
+  const total = contentWords(text).length;
+  if (total === 0) {
+    return undefined;
+  }
+
+  const slots: Slots = { sectors: [], symbols: [], assetTypes: [] };
+
+  // Benchmarks first, so 'NIFTY IT' is not read as the IT sector and '50' as a limit
+  const benchmarkNames = new Map<string, string>();
+  for (const benchmark of hints.benchmarks ?? []) {
+    for (const name of [benchmark.id, benchmark.name, ...(BENCHMARK_ALIASES[benchmark.id] ?? [])]) {
+      benchmarkNames.set(name, benchmark.id);
+    }
+  }
+  const benchmarks: string[] = [];
+  text = consumeNames(text, [...benchmarkNames.keys()], benchmarks);
+  if (new Set(benchmarks.map((name) => benchmarkNames.get(name))).size > 1) {
+    return undefined;
+  }
+  slots.benchmark = benchmarks.length ? benchmarkNames.get(benchmarks[0]) : undefined;
+
+  text = consumeNames(text, hints.sectors.filter((sector) => sector !== 'Unknown'), slots.sectors);
+  text = consumeNames(text, hints.symbols, slots.symbols);
+
+  for (const rule of RULES) {
+    text = text.replace(rule.pattern, (...groups) => {
+      rule.apply(slots, groups as unknown as RegExpExecArray, hints.today);
+      return ' ';
+    });
+  }
+
+  if (slots.limit !== undefined && (slots.limit < 1 || slots.limit > MAX_QUERY_LIMIT)) {
+    return undefined;
+  }
+
+  const built = buildConfig(slots, hints.today);
+  if (!built) {
+    return undefined;
+  }
+
+  const { config } = validateWidgetConfig(built.config);
+  if (!config) {
+    return undefined;
+  }
+
+  const unmatched = contentWords(text);
+  return {
+    intent: built.intent,
+    config,
+    confidence: Math.round(((total - unmatched.length) / total) * 100) / 100,
+    unmatched
+  };
+}
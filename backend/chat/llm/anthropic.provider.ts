@@ -0,0 +1,102 @@
+/**
+ * Anthropic provider
+ *
+ * Why this exists:
+ * - Claude models via the Messages API, using a forced tool call so the
+ *   model's answer is the tool input (our JSON schema)
+ * - Plain fetch: one endpoint does not justify another SDK dependency
+ */
+
+import {
+  LlmProviderError,
+  kindForStatus,
+  type LlmProvider,
+  type StructuredOutput,
+  type StructuredOutputRequest
+} from './types';
+
+export interface AnthropicOptions {
+  model: string;
+  apiKey: string;
+  baseURL?: string;
+  timeoutMs: number;
+}
+
+const DEFAULT_BASE_URL = 'https://api.anthropic.com/v1';
+const API_VERSION = '2023-06-01';
+const DEFAULT_MAX_TOKENS = 1024;
+
+/**
+ * Response fields we read from POST /v1/messages
+ */
+interface MessagesResponse {
+  model: string;
+  content: Array<{ type: 'text'; text: string } | { type: 'tool_use'; name: string; input: unknown }>;
+  usage: { input_tokens: number; output_tokens: number };
+}
+
+export function createAnthropicProvider(options: AnthropicOptions): LlmProvider {
+  const baseURL = (options.baseURL || DEFAULT_BASE_URL).replace(/\/$/, '');
+
+  return {
+    id: 'anthropic',
+    model: options.model,
+
+    async generateStructured(request: StructuredOutputRequest): Promise<StructuredOutput> {
+      if (!options.apiKey) {
+        throw new LlmProviderError('auth', 'anthropic', 'LLM_API_KEY is not set');
+      }
+
+      let response: Response;
+      try {
+        response = await fetch(`${baseURL}/messages`, {
+          method: 'POST',
+          headers: {
+            'content-type': 'application/json',
+            'x-api-key': options.apiKey,
+            'anthropic-version': API_VERSION
+          },
+          body: JSON.stringify({
+            model: options.model,
+            system: request.system,
+            messages: request.messages,
+            max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+            temperature: 0,
+            tools: [{
+              name: request.schemaName,
+              description: request.schemaDescription,
+              input_schema: request.schema
+            }],
+            tool_choice: { type: 'tool', name: request.schemaName }
+          }),
+          signal: AbortSignal.timeout(options.timeoutMs)
+        });
+      } catch (error) {
+        const timedOut = error instanceof Error && error.name === 'TimeoutError';
+        throw new LlmProviderError(
+          timedOut ? 'timeout' : 'unavailable',
+          'anthropic',
+          error instanceof Error ? error.message : String(error)
+        );
+      }
+
+      if (!response.ok) {
+        const body = await response.text().catch(() => '');
+        // 529 is Anthropic's "overloaded"
+        throw new LlmProviderError(kindForStatus(response.status), 'anthropic', body || response.statusText, response.status);
+      }
+
+      const data = (await response.json()) as MessagesResponse;
+      const toolUse = data.content.find((block) => block.type === 'tool_use' && block.name === request.schemaName);
+      if (!toolUse || toolUse.type !== 'tool_use') {
+        throw new LlmProviderError('invalid_output', 'anthropic', 'Model did not call the output tool');
+      }
+
+      return {
+        output: toolUse.input,
+        model: data.model,
+        usage: { inputTokens: data.usage.input_tokens, outputTokens: data.usage.output_tokens }
+      };
+    }
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Circuit breaker for LLM providers
+ *
+ * Why this exists:
+ * - When the provider is down, out of quota or misconfigured, every chat
+ *   turn would still wait for a timeout and burn a request
+ * - After a run of consecutive failures the breaker opens and calls fail
+ *   fast (LlmProviderError 'unavailable') until a cooldown has passed
+ * - After the cooldown one trial call is let through: success closes the
+ *   breaker, failure opens it for another cooldown
+ *
+ * Only failures that say nothing about the question trip it (rate_limit,
+ * timeout, unavailable, auth); a model that answers badly is not "down".
+ */
+
+import { LlmProviderError, type LlmErrorKind, type LlmProvider, type StructuredOutputRequest } from './types';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerOptions {
+  failureThreshold: number;  // Consecutive failures that open the breaker
+  cooldownMs: number;  // How long it stays open before a trial call
+  now?: () => number;  // Clock, for tests
+}
+
+export interface GuardedLlmProvider extends LlmProvider {
+  /** Current state; 'open' means the next call would fail without reaching the provider */
+  state(): CircuitState;
+}
+
+const TRIPPING_KINDS = new Set<LlmErrorKind>(['rate_limit', 'timeout', 'unavailable', 'auth']);
+
+/**
+ * Wrap a provider in a circuit breaker
+ */
+export function withCircuitBreaker(provider: LlmProvider, options: CircuitBreakerOptions): GuardedLlmProvider {
+  const now = options.now ?? Date.now;
+  let failures = 0;
+  let openedAt: number | undefined;
+  let trialInFlight = false;
+
+  const state = (): CircuitState => {
+    if (openedAt === undefined) return 'closed';
+    return now() - openedAt >= options.cooldownMs && !trialInFlight ? 'half_open' : 'open';
+  };
+
+  return {
+    id: provider.id,
+    model: provider.model,
+    state,
+
+    async generateStructured(request: StructuredOutputRequest) {
+      const current = state();
+      if (current === 'open') {
+        throw new LlmProviderError('unavailable', provider.id, 'LLM provider circuit is open; skipping call');
+      }
+
+      const trial = current === 'half_open';
+      trialInFlight = trial;
+      try {
+        const result = await provider.generateStructured(request);
+        failures = 0;
+        openedAt = undefined;
+        return result;
+      } catch (error) {
+        if (error instanceof LlmProviderError && TRIPPING_KINDS.has(error.kind)) {
+          failures += 1;
+          if (trial || failures >= options.failureThreshold) {
+            openedAt = now();
+            console.warn('LLM circuit opened:', { provider: provider.id, kind: error.kind, failures });
+          }
+        } else {
+          // The provider answered, so it is reachable
+          failures = 0;
+          openedAt = undefined;
+        }
+        throw error;
+      } finally {
+        if (trial) trialInFlight = false;
+      }
+    }
+  };
+}
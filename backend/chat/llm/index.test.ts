@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { ErrCode } from 'encore.dev/api';
+import { createLlmProvider } from './index';
+
+describe('createLlmProvider', () => {
+  it.each([
+    ['openai', 'gpt-4o'],
+    ['anthropic', 'claude-3-5-sonnet-latest'],
+    ['stub', 'stub-fixtures']
+  ] as const)('builds the %s provider with its default model', (provider, model) => {
+    expect(createLlmProvider({ provider, apiKey: 'key' })).toMatchObject({ id: provider, model });
+  });
+
+  it('uses the configured model and base URL for a local provider', () => {
+    const provider = createLlmProvider({ provider: 'local', model: 'qwen2.5', baseURL: 'http://localhost:11434/v1' });
+
+    expect(provider).toMatchObject({ id: 'local', model: 'qwen2.5' });
+  });
+
+  it('treats a local provider without a base URL as a server misconfiguration', () => {
+    expect(() => createLlmProvider({ provider: 'local' })).toThrow(
+      expect.objectContaining({ code: ErrCode.Internal, message: 'LLM_BASE_URL is required for the local provider' })
+    );
+  });
+});
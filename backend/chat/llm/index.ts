@@ -0,0 +1,100 @@
+/**
+ * LLM provider selection
+ *
+ * Why this exists:
+ * - Picks the provider from env (LLM_PROVIDER, LLM_MODEL, LLM_BASE_URL)
+ * - The env-configured provider sits behind the chat guardrails (PII
+ *   redaction, output schema check) and a circuit breaker, so an outage
+ *   fails fast instead of costing a timeout per query
+ * - Import this module (not the individual providers) in the chat core
+ */
+
+import { env } from '../../shared/env';
+import { internal } from '../../shared/errors';
+import { withGuardrails } from '../guard';
+import { createAnthropicProvider } from './anthropic.provider';
+import { withCircuitBreaker, type GuardedLlmProvider } from './circuit-breaker';
+import { createOpenAICompatibleProvider } from './openai.provider';
+import { createStubProvider } from './stub.provider';
+import type { LlmProvider, LlmProviderId } from './types';
+
+/**
+ * Model used when LLM_MODEL is empty
+ */
+const DEFAULT_MODELS: Record<LlmProviderId, string> = {
+  openai: 'gpt-4o',
+  anthropic: 'claude-3-5-sonnet-latest',
+  local: 'llama3.1',
+  stub: 'stub-fixtures'
+};
+
+export interface LlmProviderConfig {
+  provider: LlmProviderId;
+  model?: string;
+  apiKey?: string;
+  baseURL?: string;
+  timeoutMs?: number;
+}
+
+const DEFAULT_TIMEOUT_MS = 30000;
+
+/**
+ * Build a provider from explicit settings
+ * @throws APIError (500) for a local provider without a base URL (a deployment misconfiguration)
+ */
+export function createLlmProvider(config: LlmProviderConfig): LlmProvider {
+  const model = config.model || DEFAULT_MODELS[config.provider];
+  const timeoutMs = config.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+
+  switch (config.provider) {
+    case 'openai':
+      return createOpenAICompatibleProvider({
+        id: 'openai',
+        model,
+        apiKey: config.apiKey ?? '',
+        baseURL: config.baseURL,
+        timeoutMs,
+        mode: 'tool'
+      });
+    case 'local':
+      if (!config.baseURL) {
+        throw internal('LLM_BASE_URL is required for the local provider');
+      }
+      return createOpenAICompatibleProvider({
+        id: 'local',
+        model,
+        apiKey: config.apiKey ?? '',
+        baseURL: config.baseURL,
+        timeoutMs,
+        mode: 'json_schema'
+      });
+    case 'anthropic':
+      return createAnthropicProvider({ model, apiKey: config.apiKey ?? '', baseURL: config.baseURL, timeoutMs });
+    case 'stub':
+      return createStubProvider();
+  }
+}
+
+let configured: GuardedLlmProvider | undefined;
+
+/**
+ * Provider configured by env (created once, guarded, shared circuit breaker)
+ */
+export function getLlmProvider(): GuardedLlmProvider {
+  configured ??= withCircuitBreaker(withGuardrails(createLlmProvider({
+    provider: env.LLM_PROVIDER as LlmProviderId,
+    model: env.LLM_MODEL,
+    apiKey: env.LLM_API_KEY,
+    baseURL: env.LLM_BASE_URL,
+    timeoutMs: env.LLM_TIMEOUT_MS
+  })), {
+    failureThreshold: env.LLM_CIRCUIT_FAILURE_THRESHOLD,
+    cooldownMs: env.LLM_CIRCUIT_COOLDOWN_MS
+  });
+  return configured;
+}
+
+export { withCircuitBreaker, type CircuitBreakerOptions, type CircuitState, type GuardedLlmProvider } from './circuit-breaker';
+export { createStubProvider, type StubFixture } from './stub.provider';
+export type * from './types';
+export { LlmProviderError } from './types';
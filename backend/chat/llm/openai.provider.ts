@@ -0,0 +1,130 @@
+/**
+ * OpenAI and OpenAI-compatible providers
+ *
+ * Why this exists:
+ * - OpenAI itself, via a forced function call
+ * - Local servers (Ollama, llama.cpp, vLLM) speak the same API; they get the
+ *   JSON-schema response format, which they enforce with grammar sampling
+ */
+
+import OpenAI from 'openai';
+import {
+  LlmProviderError,
+  kindForStatus,
+  type LlmProvider,
+  type LlmProviderId,
+  type StructuredOutput,
+  type StructuredOutputRequest
+} from './types';
+
+export interface OpenAICompatibleOptions {
+  id: Extract<LlmProviderId, 'openai' | 'local'>;
+  model: string;
+  apiKey: string;
+  baseURL?: string;
+  timeoutMs: number;
+  mode: 'tool' | 'json_schema';
+}
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+/**
+ * Map SDK errors to LlmProviderError
+ */
+function classify(id: LlmProviderId, error: unknown): LlmProviderError {
+  if (error instanceof LlmProviderError) {
+    return error;
+  }
+  if (error instanceof OpenAI.APIConnectionTimeoutError) {
+    return new LlmProviderError('timeout', id, error.message);
+  }
+  if (error instanceof OpenAI.APIConnectionError) {
+    return new LlmProviderError('unavailable', id, error.message);
+  }
+  if (error instanceof OpenAI.APIError) {
+    // OpenAI reports exhausted quota as a 429 with code 'insufficient_quota'
+    return new LlmProviderError(kindForStatus(error.status), id, error.message, error.status);
+  }
+  return new LlmProviderError('unknown', id, error instanceof Error ? error.message : String(error));
+}
+
+function parseJson(id: LlmProviderId, text: string | null | undefined): unknown {
+  if (!text) {
+    throw new LlmProviderError('invalid_output', id, 'Model returned no structured output');
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new LlmProviderError('invalid_output', id, 'Model returned malformed JSON');
+  }
+}
+
+export function createOpenAICompatibleProvider(options: OpenAICompatibleOptions): LlmProvider {
+  const client = new OpenAI({
+    apiKey: options.apiKey || 'not-needed',  // Local servers ignore the key, the SDK requires one
+    baseURL: options.baseURL || undefined,
+    timeout: options.timeoutMs,
+    maxRetries: 1
+  });
+
+  return {
+    id: options.id,
+    model: options.model,
+
+    async generateStructured(request: StructuredOutputRequest): Promise<StructuredOutput> {
+      if (options.id === 'openai' && !options.apiKey) {
+        throw new LlmProviderError('auth', options.id, 'LLM_API_KEY is not set');
+      }
+
+      const messages: OpenAI.Chat.ChatCompletionMessageParam[] = [
+        { role: 'system', content: request.system },
+        ...request.messages
+      ];
+
+      try {
+        const completion = options.mode === 'tool'
+          ? await client.chat.completions.create({
+            model: options.model,
+            messages,
+            temperature: 0,
+            max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+            tools: [{
+              type: 'function',
+              function: {
+                name: request.schemaName,
+                description: request.schemaDescription,
+                parameters: request.schema
+              }
+            }],
+            tool_choice: { type: 'function', function: { name: request.schemaName } }
+          })
+          : await client.chat.completions.create({
+            model: options.model,
+            messages,
+            temperature: 0,
+            max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: request.schemaName, description: request.schemaDescription, schema: request.schema }
+            }
+          });
+
+        const message = completion.choices[0]?.message;
+        const text = options.mode === 'tool'
+          ? message?.tool_calls?.[0]?.function.arguments
+          : message?.content;
+
+        return {
+          output: parseJson(options.id, text),
+          model: completion.model,
+          usage: {
+            inputTokens: completion.usage?.prompt_tokens ?? 0,
+            outputTokens: completion.usage?.completion_tokens ?? 0
+          }
+        };
+      } catch (error) {
+        throw classify(options.id, error);
+      }
+    }
+  };
+}
@@ -0,0 +1,83 @@
+/**
+ * Stub LLM provider
+ *
+ * Why this exists:
+ * - Deterministic, offline model for tests and local development
+ * - Exercises the full NL -> DSL -> Data pipeline without an API key
+ * - Fixtures can be swapped per test via createStubProvider
+ *
+ * Matching: only fixtures for the requested schema (default 'widget_config')
+ * are considered. The latest user message is lowercased and checked against each
+ * fixture's keywords in order; the first fixture with any keyword present
+ * wins. '[stub:<id>]' in the message selects a fixture directly. A repair
+ * attempt (the previous assistant turn is raw JSON output) is matched on the
+ * question being repaired and gets repairedOutput when the fixture has one.
+ */
+
+import defaultFixtures from '../fixtures/llm-stub.json';
+import {
+  LlmProviderError,
+  type LlmProvider,
+  type StructuredOutput,
+  type StructuredOutputRequest
+} from './types';
+
+export interface StubFixture {
+  id: string;
+  schema?: string;  // Schema name the fixture answers (default 'widget_config')
+  match: string[];
+  output: unknown;
+  repairedOutput?: unknown;
+}
+
+const STUB_MODEL = 'stub-fixtures';
+const DEFAULT_SCHEMA = 'widget_config';
+const DIRECT_SELECTOR = /\[stub:([a-z0-9-]+)\]/;
+
+/**
+ * Rough token count (4 characters per token), stable across runs
+ */
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+function findFixture(fixtures: StubFixture[], message: string): StubFixture | undefined {
+  const selected = message.match(DIRECT_SELECTOR)?.[1];
+  if (selected) {
+    return fixtures.find((fixture) => fixture.id === selected);
+  }
+
+  const text = message.toLowerCase();
+  return fixtures.find((fixture) => fixture.match.some((keyword) => text.includes(keyword.toLowerCase())));
+}
+
+export function createStubProvider(fixtures: StubFixture[] = defaultFixtures): LlmProvider {
+  return {
+    id: 'stub',
+    model: STUB_MODEL,
+
+    async generateStructured(request: StructuredOutputRequest): Promise<StructuredOutput> {
+      const candidates = fixtures.filter((fixture) => (fixture.schema ?? DEFAULT_SCHEMA) === request.schemaName);
+      const messages = request.messages;
+      const previous = messages[messages.length - 2];
+      const isRepair = previous?.role === 'assistant' && previous.content.trimStart().startsWith('{');
+
+      // A repair turn carries validation errors, so match on the question before the rejected output
+      const question = isRepair ? messages[messages.length - 3] : messages[messages.length - 1];
+      const fixture = question ? findFixture(candidates, question.content) : undefined;
+
+      if (!fixture) {
+        throw new LlmProviderError('invalid_output', 'stub', 'No stub fixture matches the query');
+      }
+
+      const output = isRepair && fixture.repairedOutput !== undefined ? fixture.repairedOutput : fixture.output;
+      const prompt = [request.system, ...request.messages.map((message) => message.content)].join('\n');
+
+      return {
+        output: structuredClone(output),
+        model: STUB_MODEL,
+        usage: { inputTokens: estimateTokens(prompt), outputTokens: estimateTokens(JSON.stringify(output)) }
+      };
+    }
+  };
+}
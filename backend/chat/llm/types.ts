@@ -0,0 +1,90 @@
+/**
+ * LLM provider contract
+ *
+ * Why this exists:
+ * - One interface for hosted (OpenAI, Anthropic), local (Ollama, llama.cpp)
+ *   and offline (fixture stub) models
+ * - Providers only return structured output; validating it as a WidgetConfig
+ *   stays in the chat core
+ * - Provider failures are classified here, so callers never parse vendor error strings
+ */
+
+export type LlmProviderId = 'openai' | 'anthropic' | 'local' | 'stub';
+
+export interface LlmMessage {
+  role: 'user' | 'assistant';
+  content: string;
+}
+
+/**
+ * JSON Schema (draft 2020-12 subset understood by all providers)
+ */
+export type JsonSchema = Record<string, unknown>;
+
+/**
+ * Ask the model for one JSON value matching a schema
+ * Hosted providers use a forced tool call; local servers use JSON-schema response format
+ */
+export interface StructuredOutputRequest {
+  system: string;
+  messages: LlmMessage[];
+  schemaName: string;  // Tool / schema name, e.g. 'widget_config'
+  schemaDescription: string;
+  schema: JsonSchema;
+  maxTokens?: number;
+}
+
+export interface LlmUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface StructuredOutput {
+  output: unknown;  // Parsed JSON, not yet validated
+  model: string;
+  usage: LlmUsage;
+}
+
+export interface LlmProvider {
+  readonly id: LlmProviderId;
+  readonly model: string;
+
+  generateStructured(request: StructuredOutputRequest): Promise<StructuredOutput>;
+}
+
+/**
+ * Why a provider call failed
+ * - rate_limit: throttled or out of quota
+ * - timeout: no response in time
+ * - auth: missing or rejected credentials
+ * - unavailable: provider down or unreachable
+ * - invalid_output: the model answered, but not with the requested JSON
+ * - unknown: anything else
+ */
+export type LlmErrorKind = 'rate_limit' | 'timeout' | 'auth' | 'unavailable' | 'invalid_output' | 'unknown';
+
+/**
+ * Classified provider failure (mapped to an APIError by llmError)
+ */
+export class LlmProviderError extends Error {
+  constructor(
+    readonly kind: LlmErrorKind,
+    readonly provider: LlmProviderId,
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'LlmProviderError';
+  }
+}
+
+/**
+ * Classify an HTTP status from any provider
+ */
+export function kindForStatus(status: number | undefined): LlmErrorKind {
+  if (status === 429) return 'rate_limit';
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 408) return 'timeout';
+  if (status !== undefined && status >= 500) return 'unavailable';
+  return 'unknown';
+}
@@ -0,0 +1,24 @@
+-- Every widget DSL command, valid or not, as received
+-- Insert-only: a command that is executed is logged as executed before it runs
+
+CREATE TABLE dsl_audit_log (
+  id BIGSERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  widget_id TEXT,
+  dsl_command JSONB NOT NULL,
+  validation_result TEXT NOT NULL CHECK (validation_result IN ('valid', 'invalid')),
+  validation_errors JSONB,
+  executed BOOLEAN NOT NULL DEFAULT FALSE,
+  executed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (NOT executed OR validation_result = 'valid')
+);
+
+CREATE INDEX idx_dsl_audit_log_user_id ON dsl_audit_log(user_id, created_at DESC);
+CREATE INDEX idx_dsl_audit_log_widget_id ON dsl_audit_log(widget_id);
+CREATE INDEX idx_dsl_audit_log_created_at ON dsl_audit_log(created_at);
+
+-- Comments for documentation
+COMMENT ON TABLE dsl_audit_log IS 'Audit trail of widget DSL commands from chat and manual widget edits';
+COMMENT ON COLUMN dsl_audit_log.dsl_command IS 'The command exactly as submitted (may not match WidgetConfig if invalid)';
+COMMENT ON COLUMN dsl_audit_log.validation_errors IS 'Array of { path, message } when invalid';
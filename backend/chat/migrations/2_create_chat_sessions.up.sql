@@ -0,0 +1,34 @@
+-- Multi-turn chat sessions that refine one widget config
+
+CREATE TABLE chat_sessions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  portfolio_id BIGINT,
+  current_config JSONB,
+  summary TEXT,
+  summarized_through BIGINT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_chat_sessions_user ON chat_sessions(user_id, updated_at DESC);
+
+CREATE TABLE chat_messages (
+  id BIGSERIAL PRIMARY KEY,
+  session_id UUID NOT NULL REFERENCES chat_sessions(id) ON DELETE CASCADE,
+  role TEXT NOT NULL CHECK (role IN ('user', 'assistant', 'system')),
+  content TEXT NOT NULL,
+  config JSONB,
+  diff JSONB,
+  audit_id BIGINT REFERENCES dsl_audit_log(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_chat_messages_session ON chat_messages(session_id, id);
+
+-- Comments for documentation
+COMMENT ON COLUMN chat_sessions.portfolio_id IS 'Portfolio the session queries (portfolio service ID); NULL = all portfolios merged';
+COMMENT ON COLUMN chat_sessions.current_config IS 'Widget config after the latest valid turn; follow-ups are patches against it';
+COMMENT ON COLUMN chat_sessions.summary IS 'Condensed text of turns up to summarized_through, sent instead of those messages';
+COMMENT ON COLUMN chat_messages.diff IS 'Array of { path, from, to } changes made by this turn';
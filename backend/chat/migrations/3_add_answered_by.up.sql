@@ -0,0 +1,6 @@
+-- Record whether the intent parser or the LLM produced each turn
+
+ALTER TABLE chat_messages
+  ADD COLUMN answered_by TEXT CHECK (answered_by IN ('rules', 'llm'));
+
+COMMENT ON COLUMN chat_messages.answered_by IS 'rules = keyword intent parser (no LLM call), llm = LLM provider; NULL for user turns';
@@ -0,0 +1,5 @@
+-- Fact check of the explanation returned for an executed command
+
+ALTER TABLE dsl_audit_log ADD COLUMN fact_check JSONB;
+
+COMMENT ON COLUMN dsl_audit_log.fact_check IS 'Write-once { status, claims } from chat/fact-check.ts, set after execution; NULL = no explanation checked';
@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest';
+import { ErrCode } from 'encore.dev/api';
+import type { PortfolioSummary, WidgetConfig } from '../shared/types';
+import type { QueryResult } from './executor';
+import { createStubProvider, type LlmProvider, type StructuredOutputRequest, type StubFixture } from './llm';
+import { generateExplanation, generateWidgetConfig, refineWidgetConfig, type PortfolioHints } from './nlp';
+import fixtures from './fixtures/llm-stub.json';
+
+const HINTS: PortfolioHints = {
+  symbols: ['INFY', 'HDFCBANK', 'NIFTYBEES'],
+  sectors: ['IT', 'Banking'],
+  today: '2024-06-28'
+};
+
+function fixture(id: string): StubFixture {
+  return (fixtures as StubFixture[]).find((candidate) => candidate.id === id)!;
+}
+
+/**
+ * A provider that records every request it is sent
+ */
+function recording(provider: LlmProvider): LlmProvider & { requests: StructuredOutputRequest[] } {
+  const requests: StructuredOutputRequest[] = [];
+  return {
+    id: provider.id,
+    model: provider.model,
+    requests,
+    generateStructured: (request) => {
+      requests.push(structuredClone(request));
+      return provider.generateStructured(request);
+    }
+  };
+}
+
+describe('generateWidgetConfig', () => {
+  it.each([
+    ['How is my money split by sector?', 'sector-allocation'],
+    ['Which are my best performers?', 'top-gainers'],
+    ['Show my worst stocks', 'top-losers'],
+    ['How has my portfolio value changed over time?', 'value-over-time'],
+    ['What is my profit on each holding?', 'pnl-by-holding']
+  ])('turns "%s" into a valid config on the first attempt', async (question, fixtureId) => {
+    const generation = await generateWidgetConfig(createStubProvider(), question, HINTS);
+
+    expect(generation).toMatchObject({ attempts: 1, errors: [], provider: 'stub', model: 'stub-fixtures' });
+    expect(generation.config).toEqual(fixture(fixtureId).output);
+    expect(generation.usage.inputTokens).toBeGreaterThan(0);
+  });
+
+  it('feeds validation errors back and accepts the repaired config', async () => {
+    const provider = recording(createStubProvider());
+    const repairable = fixture('invalid-then-repaired');
+
+    const generation = await generateWidgetConfig(provider, '[stub:invalid-then-repaired] allocation history', HINTS);
+
+    expect(generation.attempts).toBe(2);
+    expect(generation.config).toEqual(repairable.repairedOutput);
+    expect(provider.requests).toHaveLength(2);
+
+    const [question, rejected, repair] = provider.requests[1].messages;
+    expect(question).toEqual({ role: 'user', content: '[stub:invalid-then-repaired] allocation history' });
+    expect(rejected).toEqual({ role: 'assistant', content: JSON.stringify(repairable.output) });
+    expect(repair.role).toBe('user');
+    expect(repair.content).toMatch(/^That config is invalid:\n- visualization\.chartType: /);
+    expect(repair.content).toContain('Call widget_config again');
+  });
+
+  it('counts the usage of both attempts', async () => {
+    const provider = recording(createStubProvider());
+    const generation = await generateWidgetConfig(provider, '[stub:invalid-then-repaired]', HINTS);
+    const single = await generateWidgetConfig(createStubProvider(), 'sector split', HINTS);
+
+    expect(generation.usage.inputTokens).toBeGreaterThan(single.usage.inputTokens);
+    expect(generation.usage.outputTokens).toBeGreaterThan(0);
+  });
+
+  it('gives up after one repair and returns the last errors', async () => {
+    const invalid = fixture('invalid-then-repaired').output;
+    const provider = createStubProvider([{ id: 'always-invalid', match: ['pie'], output: invalid }]);
+
+    const generation = await generateWidgetConfig(provider, 'allocation pie over time', HINTS);
+
+    expect(generation.attempts).toBe(2);
+    expect(generation.config).toBeUndefined();
+    expect(generation.output).toEqual(invalid);
+    expect(generation.errors.map((error) => error.path)).toContain('visualization.chartType');
+  });
+
+  it('maps a provider failure to an API error', async () => {
+    await expect(generateWidgetConfig(createStubProvider(), 'tell me a joke', HINTS)).rejects.toMatchObject({
+      code: ErrCode.Internal,
+      message: 'AI service returned an unusable answer'
+    });
+  });
+});
+
+describe('refineWidgetConfig', () => {
+  const current = fixture('sector-allocation').output as WidgetConfig;
+
+  it('changes only what the follow-up asks for', async () => {
+    const generation = await refineWidgetConfig(createStubProvider(), 'make it a bar chart', current, HINTS);
+
+    expect(generation.output).toEqual({ visualization: { chartType: 'bar' } });
+    expect(generation.config).toEqual({
+      ...current,
+      visualization: { ...current.visualization, chartType: 'bar' }
+    });
+  });
+
+  it('sends the current config to the model', async () => {
+    const provider = recording(createStubProvider());
+    await refineWidgetConfig(provider, 'only banking stocks', current, HINTS);
+
+    expect(provider.requests[0].schemaName).toBe('widget_config_patch');
+    expect(provider.requests[0].system).toContain(JSON.stringify(current));
+  });
+});
+
+describe('generateExplanation', () => {
+  const result: QueryResult = {
+    operation: 'aggregate',
+    field: 'allocation',
+    groupBy: 'sector',
+    unit: 'percent',
+    rows: [
+      {
+        key: 'IT',
+        value: 60,
+        invested: 50000,
+        marketValue: 60000,
+        pnl: 10000,
+        returnPct: 20,
+        allocationPct: 60,
+        holdings: 2
+      }
+    ],
+    totalRows: 1
+  };
+  const summary: PortfolioSummary = {
+    totalValue: 100000,
+    totalPnL: 12000,
+    pnlPercentage: 13.64,
+    holdingsCount: 3,
+    topGainers: [],
+    topLosers: [],
+    sectorAllocation: { IT: 60, Banking: 40 }
+  };
+
+  it('explains the executed result', async () => {
+    const explanation = await generateExplanation(createStubProvider(), 'What is my IT allocation?', result, summary);
+
+    expect(explanation).toMatchObject({
+      explanation: 'Here is what your portfolio data shows for this question.',
+      provider: 'stub'
+    });
+  });
+
+  it('rejects an answer without text', async () => {
+    const provider = createStubProvider([
+      { id: 'blank', schema: 'widget_explanation', match: ['question:'], output: { explanation: ' ' } }
+    ]);
+
+    await expect(generateExplanation(provider, 'Why?', result, summary)).rejects.toMatchObject({
+      code: ErrCode.Internal
+    });
+  });
+});
@@ -0,0 +1,274 @@
+/**
+ * Natural language -> widget DSL
+ *
+ * Why this exists:
+ * - Asks the configured LLM for a WidgetConfig through its structured output
+ *   mode (tool call / JSON schema), never free text
+ * - Validates the answer and gives the model one chance to repair it,
+ *   feeding back the path-addressed validation errors
+ * - Follow-up turns ask for a merge patch against the current config, so
+ *   "now make it a bar chart" changes the chart and nothing else
+ * - Explanations are written from the executed result, never before it,
+ *   and are fact checked afterwards (see chat/fact-check.ts)
+ * - Provider-agnostic: the stub provider runs the same path offline
+ */
+
+import type { DSLValidationError, PortfolioSummary, WidgetConfig } from '../shared/types';
+import { llmError } from '../shared/errors';
+import { CURRENT_DSL_VERSION } from '../shared/dsl-migrations';
+import { WIDGET_CONFIG_JSON_SCHEMA, validateWidgetConfig } from './dsl';
+import { applyMergePatch, toMergePatchSchema } from './config-diff';
+import type { QueryResult } from './executor';
+import { sanitizeForPrompt } from './guard';
+import { LlmProviderError, type JsonSchema, type LlmMessage, type LlmProvider, type LlmUsage } from './llm';
+
+const MAX_REPAIR_ATTEMPTS = 1;
+const MAX_HINT_VALUES = 50;
+const MAX_EXPLAINED_ROWS = 25;
+const WIDGET_CONFIG_PATCH_SCHEMA = toMergePatchSchema(WIDGET_CONFIG_JSON_SCHEMA);
+
+const EXPLANATION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    explanation: {
+      type: 'string',
+      description: 'Two or three plain sentences answering the question from the data'
+    }
+  },
+  required: ['explanation'],
+  additionalProperties: false
+};
+
+/**
+ * What the model may refer to in filters
+ */
+export interface PortfolioHints {
+  symbols: string[];
+  sectors: string[];
+  today: string;  // YYYY-MM-DD (IST), for relative time ranges
+  summary?: string;  // Condensed earlier turns of the session
+  benchmarks?: Array<{ id: string; name: string }>;  // Loaded benchmarks, for query.benchmark
+}
+
+export interface DslGeneration {
+  config?: WidgetConfig;  // Set when the (possibly repaired) output validates
+  errors: DSLValidationError[];  // Errors of the last attempt
+  output: unknown;  // Last raw model output (a patch for refinements)
+  candidate: unknown;  // Config the last output produced, for the audit log
+  attempts: number;
+  provider: string;
+  model: string;
+  usage: LlmUsage;
+}
+
+function systemPrompt(hints: PortfolioHints, tool: string): string {
+  return [
+    'You turn questions about an Indian investor\'s portfolio into a widget config.',
+    `Always answer by calling the ${tool} tool (DSL version ${CURRENT_DSL_VERSION}).`,
+    '',
+    'query.field: holdings = market value, pnl = unrealized P&L,',
+    'returns = annualized return (XIRR) with a year of history, else P&L % of invested,',
+    'allocation = % of portfolio value, performance = contribution to portfolio return',
+    '(for timeseries: returns = time-weighted return and performance = % change in value since the first day).',
+    'Risk fields: volatility = annualized volatility % (not timeseries), drawdown = largest fall from a peak %',
+    '(timeseries: fall from the running peak), concentration = Herfindahl index % of holding weights',
+    '(filter/sort: cumulative weight of the largest holdings), correlation = correlation of each pair of',
+    'holdings (-1 to 1; filter/sort only; key and group are the two symbols).',
+    'query.operation: filter/sort list holdings, aggregate groups them (groupBy sector, assetType or symbol),',
+    'timeseries plots history by day (groupBy date, sector, assetType or symbol; groupBy date needs a timeRange).',
+    'sortBy and chart axes name result columns: key, value, invested, marketValue, pnl, returnPct,',
+    'allocationPct, holdings (key is the symbol, group or date). value is the selected field.',
+    'Charts: line/area only for timeseries; pie only for holdings or allocation, never timeseries.',
+    'timeRange is only for timeseries and uses YYYY-MM-DD dates.',
+    'query.benchmark plots the portfolio\'s return against an index: timeseries of returns or performance,',
+    'groupBy date, with a timeRange.',
+    '',
+    `Today is ${hints.today}.`,
+    `Sectors in this portfolio: ${hints.sectors.slice(0, MAX_HINT_VALUES).join(', ') || 'unknown'}.`,
+    `Symbols in this portfolio: ${hints.symbols.slice(0, MAX_HINT_VALUES).join(', ') || 'none'}.`,
+    `Benchmarks: ${(hints.benchmarks ?? []).map((benchmark) => `${benchmark.id} (${benchmark.name})`).join(', ') || 'none'}.`,
+    ...(hints.summary ? ['', 'Earlier in this conversation:', hints.summary] : [])
+  ].join('\n');
+}
+
+function refinePrompt(hints: PortfolioHints, current: WidgetConfig): string {
+  return [
+    systemPrompt(hints, 'widget_config_patch'),
+    '',
+    'The user is refining this existing widget config:',
+    JSON.stringify(current),
+    'The patch is a JSON merge patch containing only what changes.',
+    'Set a field to null to remove it. Keep everything the user did not ask to change.'
+  ].join('\n');
+}
+
+function repairPrompt(errors: DSLValidationError[], tool: string): string {
+  return [
+    'That config is invalid:',
+    ...errors.map((error) => `- ${error.path}: ${error.message}`),
+    `Call ${tool} again with a corrected answer for the same request.`
+  ].join('\n');
+}
+
+interface GenerationStep {
+  system: string;
+  schemaName: string;
+  schemaDescription: string;
+  schema: JsonSchema;
+  toConfig: (output: unknown) => unknown;
+}
+
+/**
+ * Ask, validate, and repair once with the validation errors
+ */
+async function runGeneration(
+  provider: LlmProvider,
+  step: GenerationStep,
+  messages: LlmMessage[]
+): Promise<DslGeneration> {
+  const usage: LlmUsage = { inputTokens: 0, outputTokens: 0 };
+  let model = provider.model;
+
+  for (let attempt = 1; ; attempt++) {
+    let result;
+    try {
+      result = await provider.generateStructured({
+        system: step.system,
+        messages,
+        schemaName: step.schemaName,
+        schemaDescription: step.schemaDescription,
+        schema: step.schema
+      });
+    } catch (error) {
+      throw llmError(error);
+    }
+
+    model = result.model;
+    usage.inputTokens += result.usage.inputTokens;
+    usage.outputTokens += result.usage.outputTokens;
+
+    const candidate = step.toConfig(result.output);
+    const { config, errors } = validateWidgetConfig(candidate);
+    if (config || attempt > MAX_REPAIR_ATTEMPTS) {
+      return {
+        config,
+        errors,
+        output: result.output,
+        candidate,
+        attempts: attempt,
+        provider: provider.id,
+        model,
+        usage
+      };
+    }
+
+    messages = [
+      ...messages,
+      { role: 'assistant', content: JSON.stringify(result.output) },
+      { role: 'user', content: repairPrompt(errors, step.schemaName) }
+    ];
+  }
+}
+
+/**
+ * Generate a widget config for a question
+ * @param history - Earlier turns of the conversation, oldest first
+ * @throws APIError (via llmError) if the provider call fails
+ */
+export async function generateWidgetConfig(
+  provider: LlmProvider,
+  question: string,
+  hints: PortfolioHints,
+  history: LlmMessage[] = []
+): Promise<DslGeneration> {
+  return runGeneration(provider, {
+    system: systemPrompt(hints, 'widget_config'),
+    schemaName: 'widget_config',
+    schemaDescription: 'Widget configuration (DSL) that answers the user\'s question',
+    schema: WIDGET_CONFIG_JSON_SCHEMA,
+    toConfig: (output) => output
+  }, [...history, { role: 'user', content: question }]);
+}
+
+/**
+ * Refine an existing widget config with a follow-up instruction
+ * The model returns a merge patch, which is applied to the current config
+ * @throws APIError (via llmError) if the provider call fails
+ */
+export async function refineWidgetConfig(
+  provider: LlmProvider,
+  instruction: string,
+  current: WidgetConfig,
+  hints: PortfolioHints,
+  history: LlmMessage[] = []
+): Promise<DslGeneration> {
+  return runGeneration(provider, {
+    system: refinePrompt(hints, current),
+    schemaName: 'widget_config_patch',
+    schemaDescription: 'JSON merge patch (RFC 7396) to apply to the current widget config',
+    schema: WIDGET_CONFIG_PATCH_SCHEMA,
+    toConfig: (output) => applyMergePatch(current, output)
+  }, [...history, { role: 'user', content: instruction }]);
+}
+
+export interface ExplanationGeneration {
+  explanation: string;
+  provider: string;
+  model: string;
+  usage: LlmUsage;
+}
+
+/**
+ * Explain an executed result in plain language
+ * The model only sees the result rows and the portfolio summary, and its
+ * figures are still fact checked by the caller
+ * @throws APIError (via llmError) if the provider call fails or answers without text
+ */
+export async function generateExplanation(
+  provider: LlmProvider,
+  question: string,
+  result: QueryResult,
+  summary: PortfolioSummary
+): Promise<ExplanationGeneration> {
+  // Row keys come from imported holdings, so they are treated as untrusted
+  const data = sanitizeForPrompt({
+    operation: result.operation,
+    field: result.field,
+    groupBy: result.groupBy,
+    unit: result.unit,
+    totalRows: result.totalRows,
+    rows: result.rows.slice(0, MAX_EXPLAINED_ROWS),
+    portfolio: {
+      totalValue: summary.totalValue,
+      totalPnL: summary.totalPnL,
+      pnlPercentage: summary.pnlPercentage,
+      holdingsCount: summary.holdingsCount
+    }
+  });
+
+  let response;
+  try {
+    response = await provider.generateStructured({
+      system: [
+        'You explain portfolio data to an Indian retail investor.',
+        'Answer the question in two or three short sentences using only figures from the data.',
+        'Never estimate, extrapolate or mention holdings that are not in the data.',
+        'Write amounts in rupees with Indian digit grouping (e.g. ₹1,23,456) and percentages with up to two decimals.',
+        'Always answer by calling the widget_explanation tool.'
+      ].join('\n'),
+      messages: [{ role: 'user', content: `Question: ${question}\n\nData:\n${JSON.stringify(data)}` }],
+      schemaName: 'widget_explanation',
+      schemaDescription: 'Plain-language answer grounded in the query result',
+      schema: EXPLANATION_SCHEMA
+    });
+  } catch (error) {
+    throw llmError(error);
+  }
+
+  const explanation = (response.output as { explanation?: unknown } | null)?.explanation;
+  if (typeof explanation !== 'string' || !explanation.trim()) {
+    throw llmError(new LlmProviderError('invalid_output', provider.id, 'Explanation is missing'));
+  }
+
+  return { explanation: explanation.trim(), provider: provider.id, model: response.model, usage: response.usage };
+}
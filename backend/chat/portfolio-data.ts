@@ -0,0 +1,137 @@
+/**
+ * Portfolio data for DSL execution
+ *
+ * Why this exists:
+ * - The executor works on normalized holdings and snapshots, not SQL
+ * - Reads the portfolio service database directly (read-only), with fixed
+ *   queries parameterized only by the caller's identity
+ * - Benchmark comparisons also need index closes from the benchmarks database,
+ *   and timeseries and risk fields the daily closes of the securities held
+ */
+
+import { SQLDatabase } from 'encore.dev/storage/sqldb';
+import type { Benchmark, NormalizedHolding, WidgetConfig } from '../shared/types';
+import { env } from '../shared/env';
+import { notFound } from '../shared/errors';
+import { mergeHoldings } from '../portfolio/consolidate';
+import { loadEodPrices } from '../portfolio/price-store';
+import { getBenchmark, listBenchmarks, loadBenchmarkPrices } from '../benchmarks/store';
+import { istDate, type BenchmarkInput, type DailyCloses, type SnapshotInput } from './executor';
+
+const PortfolioDB = SQLDatabase.named('portfolio');
+const BenchmarksDB = SQLDatabase.named('benchmarks');
+
+/**
+ * Current holdings of one portfolio, or of all the user's portfolios merged
+ * @throws APIError (404) if the portfolio does not exist or the user has none
+ */
+export async function loadHoldings(userId: string, portfolioId?: number): Promise<NormalizedHolding[]> {
+  const rows = await PortfolioDB.queryAll<{ id: number; name: string; data: NormalizedHolding[] }>`
+    SELECT id, name, data FROM portfolios
+    WHERE user_id = ${userId} AND (${portfolioId ?? null}::bigint IS NULL OR id = ${portfolioId ?? null})
+    ORDER BY created_at ASC, id ASC
+  `;
+
+  if (rows.length === 0) {
+    throw notFound('Portfolio not found', { userId, portfolioId });
+  }
+
+  if (rows.length === 1) {
+    return rows[0].data;
+  }
+  return mergeHoldings(rows.map((row) => ({ id: Number(row.id), name: row.name, holdings: row.data })));
+}
+
+/**
+ * Snapshot history up to a date (inclusive, IST)
+ * Earlier snapshots are kept so each portfolio's value can be carried forward
+ */
+export async function loadSnapshots(userId: string, portfolioId?: number, to?: string): Promise<SnapshotInput[]> {
+  // Upper bound padded by a day; the executor trims to the exact IST date
+  const until = to ? new Date(new Date(to.slice(0, 10)).getTime() + 2 * 24 * 60 * 60 * 1000) : null;
+
+  const rows = await PortfolioDB.queryAll<{ portfolio_id: number; synced_at: Date; data: NormalizedHolding[] }>`
+    SELECT portfolio_id, synced_at, data FROM portfolio_snapshots
+    WHERE user_id = ${userId}
+      AND (${portfolioId ?? null}::bigint IS NULL OR portfolio_id = ${portfolioId ?? null})
+      AND (${until}::timestamptz IS NULL OR synced_at < ${until})
+    ORDER BY synced_at ASC
+  `;
+
+  return rows.map((row) => ({
+    portfolioId: Number(row.portfolio_id),
+    syncedAt: row.synced_at,
+    holdings: row.data
+  }));
+}
+
+/**
+ * Daily closes of every security in a snapshot history, from the first
+ * snapshot's day up to a date (inclusive)
+ */
+export async function loadCloses(snapshots: SnapshotInput[], to?: string): Promise<DailyCloses> {
+  const isins = [...new Set(snapshots.flatMap((snapshot) =>
+    snapshot.holdings.flatMap((holding) => (holding.isin ? [holding.isin.toUpperCase()] : []))
+  ))];
+  if (isins.length === 0) {
+    return new Map();
+  }
+
+  const from = istDate(snapshots.reduce((first, snapshot) => (snapshot.syncedAt < first ? snapshot.syncedAt : first),
+    snapshots[0].syncedAt));
+  const closes: DailyCloses = new Map();
+  for (const price of await loadEodPrices(PortfolioDB, isins, from, to?.slice(0, 10))) {
+    closes.set(price.isin, [...(closes.get(price.isin) ?? []), { date: price.date, price: price.close }]);
+  }
+  return closes;
+}
+
+export interface PortfolioSync {
+  id: number;
+  name: string;
+  source: string;
+  lastSync: Date;
+}
+
+/**
+ * When each of the user's portfolios (or one of them) was last synced
+ */
+export async function loadPortfolioSyncs(userId: string, portfolioId?: number): Promise<PortfolioSync[]> {
+  const rows = await PortfolioDB.queryAll<{ id: number; name: string; source: string; last_sync: Date }>`
+    SELECT id, name, source, last_sync FROM portfolios
+    WHERE user_id = ${userId} AND (${portfolioId ?? null}::bigint IS NULL OR id = ${portfolioId ?? null})
+    ORDER BY created_at ASC, id ASC
+  `;
+
+  return rows.map((row) => ({ id: Number(row.id), name: row.name, source: row.source, lastSync: row.last_sync }));
+}
+
+/**
+ * Benchmarks a config may name
+ */
+export async function loadBenchmarks(): Promise<Benchmark[]> {
+  return listBenchmarks(BenchmarksDB);
+}
+
+/**
+ * Benchmark closes for a config's timeRange (undefined when the config has no benchmark)
+ * @throws APIError (404) if the benchmark does not exist
+ */
+export async function loadBenchmark(config: WidgetConfig): Promise<BenchmarkInput | undefined> {
+  const { benchmark: id, timeRange } = config.query;
+  if (id === undefined) {
+    return undefined;
+  }
+
+  const benchmark = await getBenchmark(BenchmarksDB, id);
+  if (!benchmark) {
+    throw notFound('Benchmark not found', { benchmark: id });
+  }
+
+  return {
+    id: benchmark.id,
+    name: benchmark.name,
+    prices: await loadBenchmarkPrices(BenchmarksDB, benchmark.id, timeRange?.from.slice(0, 10), timeRange?.to.slice(0, 10)),
+    riskFreeRate: env.BENCHMARK_RISK_FREE_RATE
+  };
+}
@@ -0,0 +1,269 @@
+/**
+ * Chat query endpoints
+ *
+ * Why this exists:
+ * - POST /chat/query runs one turn of a session: NL -> DSL -> audit -> data
+ * - Formulaic first questions are answered by the intent parser; the LLM
+ *   is only called when the parser is not confident (see chat/intent.ts)
+ * - The first turn generates a widget config; follow-ups patch it and
+ *   return the diff
+ * - Session history is sent to the LLM within a token budget, with older
+ *   turns folded into a summary
+ * - Each answer carries an explanation whose figures are checked against
+ *   the executed data; the check is stored with the audit entry
+ */
+
+import { api } from 'encore.dev/api';
+import { requireAuth } from '../shared/auth';
+import { env } from '../shared/env';
+import { invalidArgument } from '../shared/errors';
+import type {
+  AnsweredBy,
+  ChatMessage,
+  ChatQueryRequest,
+  ChatQueryResponse,
+  ChatSession,
+  WidgetConfig
+} from '../shared/types';
+import { calculatePortfolioSummary } from '../portfolio/schema';
+import { recordDslAttempt, recordFactCheck } from './audit';
+import { diffConfigs } from './config-diff';
+import { buildConversationContext, describeConfig } from './context';
+import { executeWidgetQuery, istDate, needsCloses, needsSnapshots, type QueryResult } from './executor';
+import { explainResult } from './explain';
+import { guardQuestion, promptIdentifiers, safeIdentifier } from './guard';
+import { parseIntent, RULES_MIN_CONFIDENCE } from './intent';
+import { getLlmProvider, type LlmMessage } from './llm';
+import { generateWidgetConfig, refineWidgetConfig, type DslGeneration, type PortfolioHints } from './nlp';
+import { loadBenchmark, loadBenchmarks, loadCloses, loadHoldings, loadSnapshots } from './portfolio-data';
+import {
+  appendMessage,
+  createSession,
+  getSession,
+  listMessages,
+  listSessions,
+  updateSession
+} from './sessions';
+
+const MAX_QUERY_LENGTH = 1000;
+const MAX_TITLE_LENGTH = 80;
+const MAX_LIST_LIMIT = 100;
+
+interface QueryResponse extends ChatQueryResponse {
+  data?: QueryResult;
+}
+
+/**
+ * Run one chat turn
+ * POST /chat/query
+ */
+export const query = api(
+  { expose: true, auth: true, method: 'POST', path: '/chat/query' },
+  async ({ query: text, sessionId, portfolioId }: ChatQueryRequest): Promise<QueryResponse> => {
+    const { userId } = requireAuth();
+
+    if (!text.trim() || text.length > MAX_QUERY_LENGTH) {
+      throw invalidArgument(`Query must be 1-${MAX_QUERY_LENGTH} characters`);
+    }
+
+    // PII is redacted before the question is stored or sent to the LLM
+    const guarded = guardQuestion(text);
+    if (guarded.blocked) {
+      console.warn('Chat query blocked by guardrails:', { userId, sessionId });
+      throw invalidArgument(guarded.blocked);
+    }
+    const question = guarded.text;
+
+    const session = sessionId
+      ? await getSession(userId, sessionId)
+      : await createSession(userId, question.slice(0, MAX_TITLE_LENGTH), portfolioId);
+
+    const holdings = await loadHoldings(userId, session.portfolioId);
+    const earlier = await listMessages(session.id, session.summarizedThrough);
+    const context = buildConversationContext(session.summary, earlier, env.CHAT_HISTORY_TOKEN_BUDGET);
+
+    await appendMessage(session.id, { role: 'user', content: question });
+
+    const hints: PortfolioHints = {
+      symbols: promptIdentifiers(holdings.map((holding) => holding.symbol)),
+      sectors: promptIdentifiers(holdings.map((holding) => holding.sector || 'Unknown')),
+      today: istDate(new Date()),
+      summary: context.summary,
+      benchmarks: (await loadBenchmarks()).map(({ id, name }) => ({ id, name: safeIdentifier(name) ?? id }))
+    };
+
+    const previous = session.currentConfig;
+    const { generation, answeredBy } = await answer(question, previous, hints, context.history);
+
+    let { config, errors } = generation;
+    const benchmark = config?.query.benchmark;
+    if (benchmark !== undefined && !hints.benchmarks!.some(({ id }) => id === benchmark)) {
+      errors = [{
+        path: 'query.benchmark',
+        message: `Unknown benchmark '${benchmark}' (available: ${hints.benchmarks!.map(({ id }) => id).join(', ') || 'none'})`
+      }];
+      config = undefined;
+    }
+    const audit = await recordDslAttempt({ userId, dslCommand: generation.candidate, errors, executed: !!config });
+
+    if (!config) {
+      const message = await appendMessage(session.id, {
+        role: 'system',
+        content: 'I could not turn that into a valid widget. ' +
+          errors.map((error) => `${error.path}: ${error.message}`).join('; '),
+        answeredBy,
+        auditId: audit.id
+      });
+      await updateSession(session.id, { summary: context.summary, summarizedThrough: context.summarizedThrough });
+
+      return {
+        sessionId: session.id,
+        message: publicMessage(message),
+        validationErrors: errors,
+        answeredBy,
+        suggestedTitle: session.title
+      };
+    }
+
+    const diff = previous ? diffConfigs(previous, config) : undefined;
+    const snapshots = needsSnapshots(config)
+      ? await loadSnapshots(userId, session.portfolioId, config.query.timeRange?.to)
+      : [];
+    const closes = needsCloses(config) ? await loadCloses(snapshots, config.query.timeRange?.to) : undefined;
+    const data = executeWidgetQuery(config, { holdings }, snapshots, await loadBenchmark(config), closes);
+
+    // Rule-based answers stay LLM-free; their explanation comes from the template
+    const provider = getLlmProvider();
+    const { explanation, factCheck } = await explainResult({
+      question,
+      config,
+      result: data,
+      summary: calculatePortfolioSummary(holdings),
+      holdings,
+      provider: answeredBy === 'llm' && env.CHAT_LLM_EXPLANATIONS && provider.state() !== 'open' ? provider : undefined
+    });
+    await recordFactCheck(audit.id, factCheck);
+
+    const message = await appendMessage(session.id, {
+      role: 'assistant',
+      content: `${describeConfig(config)} ${explanation}`,
+      config,
+      diff,
+      answeredBy,
+      auditId: audit.id
+    });
+    await updateSession(session.id, {
+      currentConfig: config,
+      summary: context.summary,
+      summarizedThrough: context.summarizedThrough
+    });
+
+    return {
+      sessionId: session.id,
+      message: publicMessage(message),
+      config,
+      diff,
+      explanation,
+      factCheck,
+      data,
+      answeredBy,
+      suggestedTitle: session.title
+    };
+  }
+);
+
+interface TurnAnswer {
+  generation: Pick<DslGeneration, 'config' | 'errors' | 'candidate'>;
+  answeredBy: AnsweredBy;
+}
+
+/**
+ * Produce the widget config for a turn
+ * The intent parser answers first questions it is confident about; its
+ * lower-confidence guess is still used when the LLM circuit is open or the
+ * LLM call fails, rather than failing the turn
+ * @throws APIError (via llmError) if the LLM fails and the parser has no answer
+ */
+async function answer(
+  question: string,
+  current: WidgetConfig | undefined,
+  hints: PortfolioHints,
+  history: LlmMessage[]
+): Promise<TurnAnswer> {
+  const provider = getLlmProvider();
+  if (current) {
+    return { generation: await refineWidgetConfig(provider, question, current, hints, history), answeredBy: 'llm' };
+  }
+
+  const intent = parseIntent(question, hints);
+  if (!intent) {
+    return { generation: await generateWidgetConfig(provider, question, hints, history), answeredBy: 'llm' };
+  }
+
+  const fromRules: TurnAnswer = {
+    generation: { config: intent.config, errors: [], candidate: intent.config },
+    answeredBy: 'rules'
+  };
+  if (intent.confidence >= RULES_MIN_CONFIDENCE || provider.state() === 'open') {
+    return fromRules;
+  }
+
+  try {
+    return { generation: await generateWidgetConfig(provider, question, hints, history), answeredBy: 'llm' };
+  } catch (error) {
+    console.warn('LLM failed, answering from intent rules:', { intent: intent.intent, confidence: intent.confidence });
+    return fromRules;
+  }
+}
+
+/**
+ * Strip storage-only fields from a message
+ */
+function publicMessage({ id: _id, ...message }: ChatMessage & { id: number }): ChatMessage {
+  return message;
+}
+
+interface ListSessionsRequest {
+  limit?: number;
+  offset?: number;
+}
+
+interface ListSessionsResponse {
+  sessions: ChatSession[];
+}
+
+/**
+ * List the caller's chat sessions
+ * GET /chat/sessions
+ */
+export const sessions = api(
+  { expose: true, auth: true, method: 'GET', path: '/chat/sessions' },
+  async ({ limit, offset }: ListSessionsRequest): Promise<ListSessionsResponse> => {
+    const { userId } = requireAuth();
+    const stored = await listSessions(userId, Math.min(limit ?? 20, MAX_LIST_LIMIT), offset ?? 0);
+    return { sessions: stored.map(({ summarizedThrough: _through, ...session }) => session) };
+  }
+);
+
+interface SessionMessagesRequest {
+  id: string;
+}
+
+interface SessionMessagesResponse {
+  session: ChatSession;
+  messages: ChatMessage[];
+}
+
+/**
+ * Full message history of a session (including summarized turns)
+ * GET /chat/sessions/:id/messages
+ */
+export const sessionMessages = api(
+  { expose: true, auth: true, method: 'GET', path: '/chat/sessions/:id/messages' },
+  async ({ id }: SessionMessagesRequest): Promise<SessionMessagesResponse> => {
+    const { userId } = requireAuth();
+    const { summarizedThrough: _through, ...session } = await getSession(userId, id);
+    const messages = await listMessages(session.id);
+    return { session, messages: messages.map(publicMessage) };
+  }
+);
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { runRedTeamCorpus } from './red-team';
+
+describe('runRedTeamCorpus', () => {
+  it('stops every attack in the corpus without over-redacting', async () => {
+    const report = await runRedTeamCorpus();
+
+    expect(report.failed).toEqual([]);
+    expect(report.passed).toBe(report.total);
+    expect(report.total).toBeGreaterThan(0);
+  });
+
+  it('reports a guard that lets a secret through', async () => {
+    const report = await runRedTeamCorpus([
+      {
+        id: 'unredacted-account',
+        category: 'pii',
+        question: 'Show my sector allocation for account 4021 5566 7788',
+        expect: 'answered',
+        mustNotLeak: ['4021 5566 7788']
+      }
+    ]);
+
+    expect(report.failed).toEqual([
+      expect.objectContaining({ id: 'unredacted-account', actual: 'answered', leaked: ['4021 5566 7788'] })
+    ]);
+  });
+});
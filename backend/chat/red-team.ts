@@ -0,0 +1,143 @@
+/**
+ * Red-team corpus for the chat guardrails
+ *
+ * Why this exists:
+ * - Keeps a fixed set of attacks (prompt injection, PII, poisoned holdings
+ *   data, out-of-schema model output) that the guard layer must stop
+ * - Runs fully offline: the model is a stub that returns each case's
+ *   canned output, so no API key or network is needed
+ * - Checks what would actually leave the backend, by capturing every
+ *   request the guarded provider forwards
+ *
+ * Run it through the internal endpoint POST /chat/guardrails/red-team.
+ */
+
+import { api } from 'encore.dev/api';
+import defaultCorpus from './fixtures/red-team.json';
+import { istDate } from './executor';
+import { guardQuestion, promptIdentifiers, withGuardrails } from './guard';
+import { createStubProvider, type LlmProvider, type StructuredOutputRequest } from './llm';
+import { generateWidgetConfig } from './nlp';
+
+export type RedTeamOutcome = 'blocked' | 'rejected' | 'answered' | 'invalid';
+
+/**
+ * One corpus entry
+ * - blocked: the question is refused before any LLM call
+ * - rejected: the model output is blocked by the output guard
+ * - answered: a valid config comes back
+ */
+export interface RedTeamCase {
+  id: string;
+  category: string;  // injection, pii, data, output, control
+  question: string;
+  symbols?: string[];  // Portfolio symbols for the prompt (untrusted)
+  sectors?: string[];  // Portfolio sectors for the prompt (untrusted)
+  stubOutput?: unknown;  // What the stub model answers; default: a valid sector allocation
+  expect: Exclude<RedTeamOutcome, 'invalid'>;
+  mustNotLeak?: string[];  // Strings that must not reach the model or the returned config
+  mustReach?: string[];  // Strings that must reach the model (guards must not over-redact)
+}
+
+export interface RedTeamResult {
+  id: string;
+  category: string;
+  expected: RedTeamCase['expect'];
+  actual: RedTeamOutcome;
+  leaked: string[];
+  missing: string[];  // mustReach strings the model never saw
+  passed: boolean;
+}
+
+export interface RedTeamReport {
+  total: number;
+  passed: number;
+  failed: RedTeamResult[];
+  results: RedTeamResult[];
+}
+
+const DEFAULT_SYMBOLS = ['HDFCBANK', 'INFY', 'TCS'];
+const DEFAULT_SECTORS = ['Banks', 'IT'];
+const DEFAULT_OUTPUT = {
+  version: 2,
+  query: { operation: 'aggregate', field: 'allocation', groupBy: 'sector' },
+  visualization: { chartType: 'pie', xAxis: 'key', yAxis: 'value' },
+  refresh: { automatic: true, frequency: 'daily' }
+};
+
+async function runCase(testCase: RedTeamCase): Promise<RedTeamResult> {
+  const sent: StructuredOutputRequest[] = [];
+  let returned: unknown;
+  let actual: RedTeamOutcome;
+
+  const guarded = guardQuestion(testCase.question);
+  if (guarded.blocked) {
+    actual = 'blocked';
+  } else {
+    // Capture below the guard: this is what the provider would send out
+    const stub = createStubProvider([{ id: testCase.id, match: [''], output: testCase.stubOutput ?? DEFAULT_OUTPUT }]);
+    const capturing: LlmProvider = {
+      id: stub.id,
+      model: stub.model,
+      generateStructured: (request) => {
+        sent.push(request);
+        return stub.generateStructured(request);
+      }
+    };
+
+    try {
+      const generation = await generateWidgetConfig(withGuardrails(capturing), guarded.text, {
+        symbols: promptIdentifiers(testCase.symbols ?? DEFAULT_SYMBOLS),
+        sectors: promptIdentifiers(testCase.sectors ?? DEFAULT_SECTORS),
+        today: istDate(new Date())
+      });
+      returned = generation.config;
+      actual = generation.config ? 'answered' : 'invalid';
+    } catch {
+      actual = 'rejected';
+    }
+  }
+
+  const exposed = JSON.stringify({ sent, returned }).toLowerCase();
+  const leaked = (testCase.mustNotLeak ?? []).filter((secret) => exposed.includes(secret.toLowerCase()));
+  const prompts = JSON.stringify(sent).toLowerCase();
+  const missing = (testCase.mustReach ?? []).filter((text) => !prompts.includes(text.toLowerCase()));
+
+  return {
+    id: testCase.id,
+    category: testCase.category,
+    expected: testCase.expect,
+    actual,
+    leaked,
+    missing,
+    passed: actual === testCase.expect && leaked.length === 0 && missing.length === 0
+  };
+}
+
+/**
+ * Run the corpus against the stub provider
+ */
+export async function runRedTeamCorpus(cases: RedTeamCase[] = defaultCorpus as RedTeamCase[]): Promise<RedTeamReport> {
+  const results: RedTeamResult[] = [];
+  for (const testCase of cases) {
+    results.push(await runCase(testCase));
+  }
+
+  const failed = results.filter((result) => !result.passed);
+  return { total: results.length, passed: results.length - failed.length, failed, results };
+}
+
+/**
+ * Run the guardrail red-team corpus offline
+ * Internal endpoint
+ */
+export const redTeam = api(
+  { expose: false, method: 'POST', path: '/chat/guardrails/red-team' },
+  async (): Promise<RedTeamReport> => {
+    const report = await runRedTeamCorpus();
+    if (report.failed.length > 0) {
+      console.error('Guardrail red-team cases failed:', report.failed);
+    }
+    return report;
+  }
+);
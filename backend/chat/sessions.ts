@@ -0,0 +1,169 @@
+/**
+ * Chat session persistence
+ *
+ * Why this exists:
+ * - Sessions carry the widget config being refined and a running summary
+ * - Messages are append-only; the summary replaces old ones only in the
+ *   LLM context, never in the stored history
+ */
+
+import { DB } from './db';
+import type { AnsweredBy, ChatMessage, ChatRole, ChatSession, WidgetConfig, WidgetConfigChange } from '../shared/types';
+import { notFound } from '../shared/errors';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * Raw session row as stored in PostgreSQL
+ */
+interface SessionRow {
+  id: string;
+  user_id: string;
+  title: string;
+  portfolio_id: number | null;
+  current_config: WidgetConfig | null;
+  summary: string | null;
+  summarized_through: number | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Raw message row as stored in PostgreSQL
+ */
+interface MessageRow {
+  id: number;
+  role: ChatRole;
+  content: string;
+  config: WidgetConfig | null;
+  diff: WidgetConfigChange[] | null;
+  answered_by: AnsweredBy | null;
+  created_at: Date;
+}
+
+/**
+ * Session plus the bookkeeping the context builder needs
+ */
+export interface StoredSession extends ChatSession {
+  summarizedThrough?: number;
+}
+
+export type StoredMessage = ChatMessage & { id: number };
+
+function toSession(row: SessionRow): StoredSession {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    portfolioId: row.portfolio_id === null ? undefined : Number(row.portfolio_id),
+    currentConfig: row.current_config ?? undefined,
+    summary: row.summary ?? undefined,
+    summarizedThrough: row.summarized_through === null ? undefined : Number(row.summarized_through),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+function toMessage(row: MessageRow): StoredMessage {
+  return {
+    id: Number(row.id),
+    role: row.role,
+    content: row.content,
+    timestamp: row.created_at,
+    config: row.config ?? undefined,
+    diff: row.diff ?? undefined,
+    answeredBy: row.answered_by ?? undefined
+  };
+}
+
+export async function createSession(userId: string, title: string, portfolioId?: number): Promise<StoredSession> {
+  const row = await DB.queryRow<SessionRow>`
+    INSERT INTO chat_sessions (user_id, title, portfolio_id)
+    VALUES (${userId}, ${title}, ${portfolioId ?? null})
+    RETURNING *
+  `;
+  return toSession(row!);
+}
+
+/**
+ * Load one of the user's sessions
+ * @throws APIError (404) if it does not exist or belongs to someone else
+ */
+export async function getSession(userId: string, sessionId: string): Promise<StoredSession> {
+  const row = UUID_PATTERN.test(sessionId)
+    ? await DB.queryRow<SessionRow>`SELECT * FROM chat_sessions WHERE id = ${sessionId}::uuid AND user_id = ${userId}`
+    : null;
+
+  if (!row) {
+    throw notFound('Chat session not found', { sessionId });
+  }
+  return toSession(row);
+}
+
+/**
+ * The user's sessions, most recently active first
+ */
+export async function listSessions(userId: string, limit: number, offset: number): Promise<StoredSession[]> {
+  const rows = await DB.queryAll<SessionRow>`
+    SELECT * FROM chat_sessions
+    WHERE user_id = ${userId}
+    ORDER BY updated_at DESC, id ASC
+    LIMIT ${limit} OFFSET ${offset}
+  `;
+  return rows.map(toSession);
+}
+
+/**
+ * Messages of a session, oldest first, optionally only those after a message ID
+ */
+export async function listMessages(sessionId: string, afterId?: number): Promise<StoredMessage[]> {
+  const rows = await DB.queryAll<MessageRow>`
+    SELECT id, role, content, config, diff, answered_by, created_at FROM chat_messages
+    WHERE session_id = ${sessionId}::uuid AND id > ${afterId ?? 0}
+    ORDER BY id ASC
+  `;
+  return rows.map(toMessage);
+}
+
+export interface NewMessage {
+  role: ChatRole;
+  content: string;
+  config?: WidgetConfig;
+  diff?: WidgetConfigChange[];
+  answeredBy?: AnsweredBy;
+  auditId?: number;
+}
+
+export async function appendMessage(sessionId: string, message: NewMessage): Promise<StoredMessage> {
+  const row = await DB.queryRow<MessageRow>`
+    INSERT INTO chat_messages (session_id, role, content, config, diff, answered_by, audit_id)
+    VALUES (
+      ${sessionId}::uuid, ${message.role}, ${message.content},
+      ${message.config ? JSON.stringify(message.config) : null}::jsonb,
+      ${message.diff ? JSON.stringify(message.diff) : null}::jsonb,
+      ${message.answeredBy ?? null}, ${message.auditId ?? null}
+    )
+    RETURNING id, role, content, config, diff, answered_by, created_at
+  `;
+  return toMessage(row!);
+}
+
+export interface SessionUpdate {
+  currentConfig?: WidgetConfig;
+  summary?: string;
+  summarizedThrough?: number;
+}
+
+/**
+ * Update session state; omitted fields keep their stored values
+ */
+export async function updateSession(sessionId: string, update: SessionUpdate): Promise<void> {
+  await DB.exec`
+    UPDATE chat_sessions SET
+      current_config = COALESCE(${update.currentConfig ? JSON.stringify(update.currentConfig) : null}::jsonb, current_config),
+      summary = COALESCE(${update.summary ?? null}, summary),
+      summarized_through = COALESCE(${update.summarizedThrough ?? null}, summarized_through),
+      updated_at = NOW()
+    WHERE id = ${sessionId}::uuid
+  `;
+}
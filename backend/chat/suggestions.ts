@@ -0,0 +1,282 @@
+/**
+ * Query suggestions from the user's holdings
+ *
+ * Why this exists:
+ * - Static example questions say nothing about the user's own portfolio
+ * - Each signal (a concentrated sector or holding, large losers, a stale
+ *   sync, unclassified holdings) turns into a question worth asking, with
+ *   the figure that triggered it
+ * - Every suggestion carries a validated widget config, so running one
+ *   goes straight to /chat/execute-dsl and costs no LLM query
+ */
+
+import { api } from 'encore.dev/api';
+import { requireAuth } from '../shared/auth';
+import { CURRENT_DSL_VERSION } from '../shared/dsl-migrations';
+import type {
+  ChatSuggestion,
+  ChartType,
+  GetSuggestionsResponse,
+  NormalizedHolding,
+  WidgetConfig
+} from '../shared/types';
+import { getSectorAllocation, getTopGainers, getTopLosers } from '../portfolio/schema';
+import { validateWidgetConfig } from './dsl';
+import { istDate } from './executor';
+import { formatNumber, formatValue } from './format';
+import { loadHoldings, loadPortfolioSyncs, type PortfolioSync } from './portfolio-data';
+
+const DEFAULT_SUGGESTIONS = 5;
+const MAX_SUGGESTIONS = 10;
+
+/**
+ * Thresholds for each signal
+ * Shares are percentages of market value; loss is a percentage of the amount invested
+ */
+const SECTOR_CONCENTRATION_PCT = 30;
+const HOLDING_CONCENTRATION_PCT = 20;
+const LARGE_LOSS_PCT = 15;
+const STALE_SYNC_DAYS = 3;
+
+const MAX_LOSERS = 5;
+const TREND_DAYS = 30;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const UNKNOWN_SECTOR = 'Unknown';
+
+export interface SuggestionInput {
+  holdings: NormalizedHolding[];
+  portfolios: PortfolioSync[];
+  now?: Date;
+}
+
+type Draft = Omit<ChatSuggestion, 'config'> & { query: WidgetConfig['query']; chartType: ChartType };
+
+const marketValue = (holding: NormalizedHolding) => holding.currentPrice * holding.quantity;
+const invested = (holding: NormalizedHolding) => holding.avgPrice * holding.quantity;
+
+/**
+ * Linear score between floor and 1 as ratio goes from 0 to 1
+ */
+function scale(floor: number, ratio: number): number {
+  return Number((floor + (1 - floor) * Math.min(1, Math.max(0, ratio))).toFixed(3));
+}
+
+function sectorConcentration(holdings: NormalizedHolding[], total: number): Draft | undefined {
+  const [sector, value] = Object.entries(getSectorAllocation(holdings))
+    .filter(([name]) => name !== UNKNOWN_SECTOR)
+    .sort((a, b) => b[1] - a[1])[0] ?? [];
+  const share = sector ? (value / total) * 100 : 0;
+  if (!sector || share < SECTOR_CONCENTRATION_PCT) {
+    return undefined;
+  }
+
+  return {
+    id: 'sector-concentration',
+    text: 'How is my portfolio spread across sectors?',
+    reason: `${sector} is ${formatNumber(share, 1)}% of your portfolio.`,
+    category: 'allocation',
+    score: scale(0.6, (share - SECTOR_CONCENTRATION_PCT) / (100 - SECTOR_CONCENTRATION_PCT)),
+    query: { operation: 'aggregate', field: 'allocation', groupBy: 'sector', sortOrder: 'desc' },
+    chartType: 'pie'
+  };
+}
+
+function holdingConcentration(holdings: NormalizedHolding[], total: number): Draft | undefined {
+  const largest = [...holdings].sort((a, b) => marketValue(b) - marketValue(a))[0];
+  const share = largest ? (marketValue(largest) / total) * 100 : 0;
+  // A single holding is 100% by definition; nothing to compare it with
+  if (holdings.length < 2 || share < HOLDING_CONCENTRATION_PCT) {
+    return undefined;
+  }
+
+  return {
+    id: 'holding-concentration',
+    text: 'Which holdings make up most of my portfolio?',
+    reason: `${largest.symbol} alone is ${formatNumber(share, 1)}% of your portfolio.`,
+    category: 'allocation',
+    score: scale(0.55, (share - HOLDING_CONCENTRATION_PCT) / (100 - HOLDING_CONCENTRATION_PCT)),
+    query: { operation: 'sort', field: 'allocation', sortOrder: 'desc', limit: 5 },
+    chartType: 'bar'
+  };
+}
+
+function largeLosers(holdings: NormalizedHolding[]): Draft | undefined {
+  const lossPct = (holding: NormalizedHolding) => invested(holding) > 0
+    ? (-holding.unrealizedPnL / invested(holding)) * 100
+    : 0;
+  const losers = getTopLosers(holdings, holdings.length)
+    .filter((holding) => holding.unrealizedPnL < 0 && lossPct(holding) >= LARGE_LOSS_PCT)
+    .slice(0, MAX_LOSERS);
+  if (losers.length === 0) {
+    return undefined;
+  }
+
+  const worst = losers[0];
+  const others = losers.length === 1
+    ? ''
+    : `; ${losers.length - 1} more ${losers.length === 2 ? 'holding is' : 'holdings are'} down over ${LARGE_LOSS_PCT}%`;
+  return {
+    id: 'large-losers',
+    text: losers.length === 1 ? 'Which holding is losing the most?' : `What are my top ${losers.length} losers?`,
+    reason: `${worst.symbol} is down ${formatNumber(lossPct(worst), 1)}% (${formatValue(worst.unrealizedPnL, 'currency')})${others}.`,
+    category: 'performance',
+    score: scale(0.6, Math.max(...losers.map(lossPct)) / 50),
+    query: { operation: 'sort', field: 'pnl', filters: { maxValue: 0 }, sortOrder: 'asc', limit: losers.length },
+    chartType: 'bar'
+  };
+}
+
+function staleSync(portfolios: PortfolioSync[], now: Date): Draft | undefined {
+  const oldest = [...portfolios].sort((a, b) => a.lastSync.getTime() - b.lastSync.getTime())[0];
+  const days = oldest ? Math.floor((now.getTime() - oldest.lastSync.getTime()) / DAY_MS) : 0;
+  if (!oldest || days < STALE_SYNC_DAYS) {
+    return undefined;
+  }
+
+  const today = istDate(now);
+  return {
+    id: 'stale-sync',
+    text: `How has my portfolio value changed over the last ${TREND_DAYS} days?`,
+    reason: `${oldest.name} was last synced ${days} days ago; sync it to bring prices up to date.`,
+    category: 'analysis',
+    score: scale(0.5, days / 30),
+    query: {
+      operation: 'timeseries',
+      field: 'holdings',
+      groupBy: 'date',
+      timeRange: { from: istDate(new Date(now.getTime() - TREND_DAYS * DAY_MS)), to: today }
+    },
+    chartType: 'line'
+  };
+}
+
+function unclassified(holdings: NormalizedHolding[], total: number): Draft | undefined {
+  const missing = holdings.filter((holding) => !holding.sector || holding.sector === UNKNOWN_SECTOR);
+  if (missing.length === 0) {
+    return undefined;
+  }
+
+  const share = (missing.reduce((sum, holding) => sum + marketValue(holding), 0) / total) * 100;
+  return {
+    id: 'unclassified-sectors',
+    text: 'Which of my holdings have no sector?',
+    reason: `${missing.length} ${missing.length === 1 ? 'holding has' : 'holdings have'} no sector ` +
+      `(${formatNumber(share, 1)}% of your portfolio), so sector charts group them under ${UNKNOWN_SECTOR}.`,
+    category: 'analysis',
+    score: scale(0.4, share / 50),
+    query: { operation: 'filter', field: 'holdings', filters: { sector: [UNKNOWN_SECTOR] } },
+    chartType: 'bar'
+  };
+}
+
+/**
+ * Low-ranked questions that apply to most portfolios, so the list is rarely empty
+ */
+function general(holdings: NormalizedHolding[]): Draft[] {
+  const drafts: Draft[] = [];
+
+  const gainers = getTopGainers(holdings, 5).filter((holding) => holding.unrealizedPnL > 0);
+  if (gainers.length > 0) {
+    drafts.push({
+      id: 'top-gainers',
+      text: 'What are my top gainers?',
+      reason: `${gainers[0].symbol} leads with ${formatValue(gainers[0].unrealizedPnL, 'currency')}.`,
+      category: 'performance',
+      score: 0.3,
+      query: { operation: 'sort', field: 'pnl', filters: { minValue: 0 }, sortOrder: 'desc', limit: gainers.length },
+      chartType: 'bar'
+    });
+  }
+
+  const assetTypes = new Set(holdings.map((holding) => holding.assetType));
+  if (assetTypes.size > 1) {
+    drafts.push({
+      id: 'asset-mix',
+      text: 'How is my money split across asset types?',
+      reason: `You hold ${assetTypes.size} asset types.`,
+      category: 'allocation',
+      score: 0.25,
+      query: { operation: 'aggregate', field: 'allocation', groupBy: 'assetType' },
+      chartType: 'pie'
+    });
+  }
+
+  drafts.push({
+    id: 'total-pnl',
+    text: 'What is my total P&L?',
+    reason: `Across ${holdings.length} ${holdings.length === 1 ? 'holding' : 'holdings'}.`,
+    category: 'performance',
+    score: 0.2,
+    query: { operation: 'aggregate', field: 'pnl' },
+    chartType: 'bar'
+  });
+
+  return drafts;
+}
+
+/**
+ * Ranked suggestions for a set of holdings
+ * Drafts whose config does not validate are dropped
+ */
+export function suggestQueries({ holdings, portfolios, now = new Date() }: SuggestionInput, limit: number = DEFAULT_SUGGESTIONS): ChatSuggestion[] {
+  const total = holdings.reduce((sum, holding) => sum + marketValue(holding), 0);
+  if (holdings.length === 0 || total <= 0) {
+    return [];
+  }
+
+  const drafts = [
+    sectorConcentration(holdings, total),
+    holdingConcentration(holdings, total),
+    largeLosers(holdings),
+    staleSync(portfolios, now),
+    unclassified(holdings, total),
+    ...general(holdings)
+  ].filter((draft): draft is Draft => draft !== undefined);
+
+  const suggestions: ChatSuggestion[] = [];
+  for (const { query, chartType, ...suggestion } of drafts) {
+    const visualization: WidgetConfig['visualization'] = { chartType, xAxis: 'key', yAxis: 'value' };
+    if (chartType === 'pie') visualization.showLegend = true;
+
+    const { config, errors } = validateWidgetConfig({
+      version: CURRENT_DSL_VERSION,
+      query,
+      visualization,
+      refresh: { automatic: true, frequency: 'daily' }
+    });
+    if (!config) {
+      console.warn('Dropped invalid suggestion:', { id: suggestion.id, errors });
+      continue;
+    }
+    suggestions.push({ ...suggestion, config });
+  }
+
+  return suggestions
+    .sort((a, b) => b.score - a.score || a.id.localeCompare(b.id))
+    .slice(0, limit);
+}
+
+interface GetSuggestionsRequest {
+  portfolioId?: number;  // Defaults to all portfolios merged
+  limit?: number;
+}
+
+/**
+ * Suggested questions for the caller's portfolio
+ * GET /chat/suggestions
+ */
+export const suggestions = api(
+  { expose: true, auth: true, method: 'GET', path: '/chat/suggestions' },
+  async ({ portfolioId, limit }: GetSuggestionsRequest): Promise<GetSuggestionsResponse> => {
+    const { userId } = requireAuth();
+    const [holdings, portfolios] = await Promise.all([
+      loadHoldings(userId, portfolioId),
+      loadPortfolioSyncs(userId, portfolioId)
+    ]);
+
+    return {
+      suggestions: suggestQueries({ holdings, portfolios }, Math.min(Math.max(limit ?? DEFAULT_SUGGESTIONS, 1), MAX_SUGGESTIONS))
+    };
+  }
+);
@@ -0,0 +1,204 @@
+/**
+ * Event channel hub
+ *
+ * Why this exists:
+ * - Holds this instance's open event streams and feeds them from the
+ *   user_events table: one poll for all connections, only while any are open
+ * - Replays what a reconnecting client missed, from its Last-Event-ID
+ * - Keeps idle streams alive through proxies with comment heartbeats
+ *
+ * Only stored events (notifications, sync progress) carry an id. Dashboard
+ * marks and widget data are recomputed on reconnect, so they are never
+ * replayed and do not move the client's Last-Event-ID.
+ */
+
+import type { Notification, NotificationContent, SyncProgress } from '../shared/types';
+import { latestEventId, loadUserEvents, oldestRetainedEventId, type StoredUserEvent } from './store';
+
+/**
+ * How often stored events are picked up for open streams
+ */
+const POLL_MS = 1000;
+
+/**
+ * Longest silence on a stream
+ */
+const HEARTBEAT_MS = 15 * 1000;
+
+/**
+ * Most events sent on reconnect; a client further behind is told to reload
+ */
+const REPLAY_LIMIT = 500;
+
+const BATCH_SIZE = 500;
+
+/**
+ * How long a browser waits before reconnecting a dropped stream
+ */
+export const RETRY_MS = 3000;
+
+/**
+ * One server-sent event
+ */
+export interface ChannelFrame {
+  id?: number;
+  event: string;
+  data: unknown;
+}
+
+/**
+ * Why a client must reload its state instead of relying on replay
+ */
+export type ResetReason = 'expired' | 'too_far_behind';
+
+/**
+ * An open stream, as the hub sees it
+ */
+export interface ChannelConnection {
+  userId: string;
+  write(chunk: string): boolean;  // false when the client is gone or not reading
+  close(): void;
+}
+
+interface OpenConnection {
+  connection: ChannelConnection;
+  cursor: number;  // Id of the last stored event sent
+}
+
+const connections = new Set<OpenConnection>();
+
+let timer: NodeJS.Timeout | undefined;
+let tailing = false;
+let lastHeartbeat = 0;
+
+/**
+ * Serialize a frame in text/event-stream format
+ * Data is single-line JSON, so it always fits one data field
+ */
+export function formatFrame(frame: ChannelFrame): string {
+  const id = frame.id === undefined ? '' : `id: ${frame.id}\n`;
+  return `${id}event: ${frame.event}\ndata: ${JSON.stringify(frame.data)}\n\n`;
+}
+
+/**
+ * Frame for a stored event: notifications as Notification, sync progress
+ * with the time of the stage
+ */
+export function toChannelFrame(event: StoredUserEvent): ChannelFrame {
+  if (event.kind === 'notification') {
+    const notification: Notification = {
+      ...(event.data as NotificationContent),
+      id: event.id,
+      userId: event.userId,
+      read: false,
+      createdAt: event.createdAt
+    };
+    return { id: event.id, event: 'notification', data: notification };
+  }
+  return { id: event.id, event: 'sync', data: { ...(event.data as SyncProgress), at: event.createdAt } };
+}
+
+function send(open: OpenConnection, chunk: string): void {
+  if (!open.connection.write(chunk)) {
+    open.connection.close();
+  }
+}
+
+/**
+ * One pass of the poll loop: send new stored events to their users'
+ * streams, then a heartbeat if the streams have been quiet
+ */
+async function tail(): Promise<void> {
+  if (tailing || connections.size === 0) return;
+  tailing = true;
+
+  try {
+    const open = [...connections];
+    const userIds = [...new Set(open.map(({ connection }) => connection.userId))];
+    let cursor = Math.min(...open.map(({ cursor }) => cursor));
+
+    for (;;) {
+      const events = await loadUserEvents(userIds, cursor, BATCH_SIZE);
+      for (const event of events) {
+        const chunk = formatFrame(toChannelFrame(event));
+        for (const target of open) {
+          if (target.connection.userId !== event.userId || event.id <= target.cursor) continue;
+          target.cursor = event.id;
+          send(target, chunk);
+        }
+      }
+      if (events.length < BATCH_SIZE) break;
+      cursor = events[events.length - 1].id;
+    }
+
+    if (Date.now() - lastHeartbeat >= HEARTBEAT_MS) {
+      lastHeartbeat = Date.now();
+      for (const target of [...connections]) {
+        send(target, ': heartbeat\n\n');
+      }
+    }
+  } catch (error) {
+    console.error('Event channel poll failed:', error);
+  } finally {
+    tailing = false;
+  }
+}
+
+/**
+ * Send what the client missed since lastEventId
+ * @returns Id of the last stored event sent, if any
+ */
+async function replay(open: OpenConnection, lastEventId: number): Promise<number | undefined> {
+  const oldest = await oldestRetainedEventId();
+  if (oldest !== undefined && lastEventId < oldest - 1) {
+    send(open, formatFrame({ event: 'reset', data: { reason: 'expired' satisfies ResetReason } }));
+  }
+
+  const events = await loadUserEvents([open.connection.userId], lastEventId, REPLAY_LIMIT + 1);
+  if (events.length > REPLAY_LIMIT) {
+    send(open, formatFrame({ event: 'reset', data: { reason: 'too_far_behind' satisfies ResetReason } }));
+    return undefined;
+  }
+
+  for (const event of events) {
+    send(open, formatFrame(toChannelFrame(event)));
+  }
+  return events[events.length - 1]?.id;
+}
+
+/**
+ * Start delivering stored events to a stream
+ *
+ * @param lastEventId - Resume after this event (replaying what was missed);
+ *   when omitted only new events are sent
+ * @returns Detach the stream from the hub (call when it closes)
+ */
+export async function openChannel(connection: ChannelConnection, lastEventId?: number): Promise<() => void> {
+  // Read the head first: anything stored during the replay is still sent by the
+  // poll, and ids follow commit order, so nothing committed later sorts before it
+  const head = await latestEventId();
+  const open: OpenConnection = { connection, cursor: head };
+
+  if (lastEventId !== undefined && lastEventId < head) {
+    const replayed = await replay(open, lastEventId);
+    open.cursor = Math.max(head, replayed ?? 0);
+  }
+
+  connections.add(open);
+  timer ??= setInterval(() => void tail(), POLL_MS);
+
+  return () => {
+    connections.delete(open);
+    if (connections.size === 0) {
+      clearInterval(timer);
+      timer = undefined;
+    }
+  };
+}
+
+/**
+ * Number of streams open on this instance
+ */
+export function openConnections(): number {
+  return connections.size;
+}
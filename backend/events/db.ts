@@ -0,0 +1,17 @@
+/**
+ * Events Database Connection
+ * 
+ * Why this exists:
+ * - Stores recent user events for replay on reconnect
+ * - Follows Encore pattern: one database per service
+ */
+
+import { SQLDatabase } from 'encore.dev/storage/sqldb';
+
+/**
+ * Events service database
+ * Manages: user_events
+ */
+export const DB = new SQLDatabase('events', {
+  migrations: './migrations'
+});
@@ -0,0 +1,15 @@
+/**
+ * Events Service Definition
+ * 
+ * Why this exists:
+ * - One authenticated server-sent event channel per browser tab, carrying
+ *   dashboard marks and widget data, sync progress and notifications
+ * - Runs the live dashboard hub (one market data feed per process) and
+ *   serves its cached quotes and state
+ * - Keeps sync progress and notifications for a few days so a client that
+ *   reconnects with Last-Event-ID gets what it missed
+ */
+
+import { Service } from 'encore.dev/service';
+
+export default new Service('events');
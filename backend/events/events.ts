@@ -0,0 +1,258 @@
+/**
+ * Event channel endpoints
+ *
+ * Why this exists:
+ * - One server-sent event stream per client instead of a socket per
+ *   feature: dashboard marks, widget data, sync progress and notifications
+ * - Authenticated with the same JWT as every other endpoint; browsers'
+ *   EventSource cannot set headers, so they pass a one-minute stream token
+ *   (POST /events/token) as ?token= instead, keeping API tokens out of URLs
+ * - Stores published events for replay and prunes them after RETENTION_DAYS
+ *
+ * Events on the stream:
+ *   notification  Notification (id: replayable)
+ *   sync          SyncProgress plus the time of the stage (id: replayable)
+ *   mark          PortfolioMark of the dashboard's portfolio
+ *   widget        { widgetId, data, executedAt } for live/hourly widgets
+ *   reset         { reason } - events were missed; reload notifications and portfolio
+ */
+
+import type { IncomingMessage, ServerResponse } from 'http';
+import { api, ErrCode } from 'encore.dev/api';
+import { Subscription } from 'encore.dev/pubsub';
+import { CronJob } from 'encore.dev/cron';
+import { extractTokenFromHeader, generateStreamToken, verifyStreamToken, verifyToken } from '../auth/jwt';
+import { requireAuth } from '../shared/auth';
+import { invalidArgument, unauthenticated, wrapError } from '../shared/errors';
+import { loadHoldings, loadLiveWidgets } from '../marketdata/dashboard-data';
+import {
+  subscribeDashboard,
+  type DashboardSubscriptionHandle,
+  type DashboardSubscriptionInput,
+  type DashboardUpdate
+} from './live';
+import { formatFrame, openChannel, RETRY_MS, type ChannelConnection } from './channel';
+import { appendUserEvent, pruneUserEvents } from './store';
+import { userEvents } from './topic';
+
+const RETENTION_DAYS = 7;
+const MAX_DASHBOARD_WIDGETS = 50;
+
+/**
+ * Unsent bytes after which a stream is dropped (the client will reconnect and replay)
+ */
+const MAX_BUFFERED_BYTES = 1024 * 1024;
+
+const HTTP_STATUS: Partial<Record<ErrCode, number>> = {
+  [ErrCode.InvalidArgument]: 400,
+  [ErrCode.Unauthenticated]: 401,
+  [ErrCode.PermissionDenied]: 403,
+  [ErrCode.NotFound]: 404
+};
+
+export const storeUserEvents = new Subscription(userEvents, 'store-user-events', {
+  handler: appendUserEvent
+});
+
+interface StreamRequest {
+  userId: string;
+  lastEventId?: number;
+  dashboard?: {
+    portfolioId?: number;  // Undefined for all portfolios merged
+    widgetIds: string[];
+  };
+}
+
+function parseEventId(value: string | undefined): number | undefined {
+  if (value === undefined || value === '') return undefined;
+  if (!/^\d+$/.test(value)) {
+    throw invalidArgument('Last event id must be a non-negative integer', { lastEventId: value });
+  }
+  return Number(value);
+}
+
+/**
+ * Authenticate and read the stream options
+ * The caller's API token is accepted only in the Authorization header;
+ * ?token= must be a stream token
+ * Last-Event-ID is sent by EventSource on reconnect; ?lastEventId= lets a
+ * client resume after a full page load
+ *
+ * @throws APIError (401) without a valid token, (400) on malformed options
+ */
+async function parseStreamRequest(req: IncomingMessage): Promise<StreamRequest> {
+  const url = new URL(req.url ?? '/', 'http://localhost');
+
+  const header = req.headers.authorization;
+  const streamToken = url.searchParams.get('token');
+  let userId: string;
+  if (header) {
+    ({ userId } = await verifyToken(extractTokenFromHeader(header)));
+  } else if (streamToken) {
+    ({ userId } = await verifyStreamToken(streamToken));
+  } else {
+    throw unauthenticated();
+  }
+
+  const lastEventHeader = req.headers['last-event-id'];
+  const lastEventValue = Array.isArray(lastEventHeader) ? lastEventHeader[0] : lastEventHeader;
+  const lastEventId = parseEventId(lastEventValue ?? url.searchParams.get('lastEventId') ?? undefined);
+
+  const portfolioParam = url.searchParams.get('portfolioId');
+  const widgetIds = url.searchParams.getAll('widgetIds');
+  if (widgetIds.length > MAX_DASHBOARD_WIDGETS) {
+    throw invalidArgument(`At most ${MAX_DASHBOARD_WIDGETS} widgets per dashboard`, { count: widgetIds.length });
+  }
+  if (portfolioParam === null && widgetIds.length === 0) {
+    return { userId, lastEventId };
+  }
+
+  let portfolioId: number | undefined;
+  if (portfolioParam !== null && portfolioParam !== 'all') {
+    portfolioId = Number(portfolioParam);
+    if (!Number.isInteger(portfolioId) || portfolioId <= 0) {
+      throw invalidArgument("'portfolioId' must be a portfolio id or 'all'", { portfolioId: portfolioParam });
+    }
+  }
+  return { userId, lastEventId, dashboard: { portfolioId, widgetIds } };
+}
+
+type DashboardData = Omit<DashboardSubscriptionInput, 'userId' | 'send'>;
+
+/**
+ * Holdings and live widgets of a dashboard
+ * @throws APIError (404) if the portfolio does not exist
+ */
+async function loadDashboard(
+  userId: string,
+  dashboard: NonNullable<StreamRequest['dashboard']>
+): Promise<DashboardData> {
+  return {
+    portfolioId: dashboard.portfolioId,
+    holdings: await loadHoldings(userId, dashboard.portfolioId),
+    widgets: await loadLiveWidgets(userId, dashboard.widgetIds)
+  };
+}
+
+function sendError(resp: ServerResponse, error: unknown): void {
+  const apiError = wrapError(error, 'events:stream');
+  resp.writeHead(HTTP_STATUS[apiError.code] ?? 500, { 'Content-Type': 'application/json' });
+  resp.end(JSON.stringify({ code: apiError.code, message: apiError.message }));
+}
+
+function dashboardFrame(update: DashboardUpdate): string {
+  return formatFrame({ event: update.type, data: update.type === 'mark' ? update.mark : update.widget });
+}
+
+interface StreamTokenResponse {
+  token: string;
+  expiresAt: Date;
+}
+
+/**
+ * Issue a short-lived token for opening the event stream from a browser
+ * POST /events/token, then GET /events?token=...
+ */
+export const token = api(
+  { expose: true, auth: true, method: 'POST', path: '/events/token' },
+  async (): Promise<StreamTokenResponse> => {
+    const { userId } = requireAuth();
+    return generateStreamToken(userId);
+  }
+);
+
+/**
+ * Open the caller's event stream
+ * GET /events?portfolioId=1&widgetIds=a&widgetIds=b (text/event-stream)
+ *
+ * Notifications and sync progress are always sent. Marks and widget data are
+ * sent only for a dashboard: pass portfolioId (an id, or 'all' for all
+ * portfolios merged) and/or the ids of the widgets it shows. Holdings are
+ * read when the stream opens; reopen it after a sync.
+ */
+export const stream = api.raw(
+  { expose: true, method: 'GET', path: '/events' },
+  async (req: IncomingMessage, resp: ServerResponse): Promise<void> => {
+    let request: StreamRequest;
+    let dashboardData: DashboardData | undefined;
+    try {
+      request = await parseStreamRequest(req);
+      dashboardData = request.dashboard && (await loadDashboard(request.userId, request.dashboard));
+    } catch (error) {
+      sendError(resp, error);
+      return;
+    }
+
+    resp.writeHead(200, {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+      'X-Accel-Buffering': 'no'  // Stop nginx from buffering the stream
+    });
+    resp.write(`retry: ${RETRY_MS}\n\n`);
+
+    let detach: (() => void) | undefined;
+    let dashboard: DashboardSubscriptionHandle | undefined;
+    const connection: ChannelConnection = {
+      userId: request.userId,
+      write: (chunk) => {
+        if (resp.writableEnded || resp.destroyed) return false;
+        resp.write(chunk);
+        return resp.writableLength <= MAX_BUFFERED_BYTES;
+      },
+      close: () => resp.end()
+    };
+
+    resp.on('close', () => {
+      detach?.();
+      dashboard?.unsubscribe();
+    });
+
+    try {
+      detach = await openChannel(connection, request.lastEventId);
+      if (dashboardData && !resp.writableEnded) {
+        dashboard = await subscribeDashboard({
+          userId: request.userId,
+          ...dashboardData,
+          send: async (update) => {
+            if (!connection.write(dashboardFrame(update))) {
+              connection.close();
+              throw new Error('Event stream closed');
+            }
+          }
+        });
+      }
+    } catch (error) {
+      console.error('Could not open event stream:', { userId: request.userId, error });
+      resp.end();
+    }
+
+    // The stream may have closed while it was being set up
+    if (resp.writableEnded || resp.destroyed) {
+      detach?.();
+      dashboard?.unsubscribe();
+    }
+  }
+);
+
+interface PruneEventsResponse {
+  deleted: number;
+}
+
+/**
+ * Delete events older than RETENTION_DAYS
+ * Internal endpoint, triggered by cron
+ */
+export const prune = api(
+  { expose: false, method: 'POST', path: '/events/prune' },
+  async (): Promise<PruneEventsResponse> => {
+    const before = new Date(Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000);
+    return { deleted: await pruneUserEvents(before) };
+  }
+);
+
+export const pruneEventsJob = new CronJob('prune-user-events', {
+  title: 'Prune replayable user events',
+  schedule: '0 21 * * *',  // 02:30 IST
+  endpoint: prune
+});
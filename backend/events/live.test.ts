@@ -0,0 +1,167 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { NormalizedHolding, WidgetConfig } from '../shared/types';
+import type { DashboardUpdate } from './live';
+
+// The recorded session replays through the real hub; only the holiday table is stubbed
+vi.mock('../marketdata/dashboard-data', () => ({
+  loadHolidays: vi.fn(async () => new Set<string>())
+}));
+vi.mock('../marketdata/feeds', async (importOriginal) => {
+  const feeds = await importOriginal<typeof import('../marketdata/feeds')>();
+  const session = readFileSync(join(__dirname, '../marketdata/fixtures/mock-session.jsonl'), 'utf8');
+  const ticks = feeds.parseRecordedTicks(session);
+  return { ...feeds, createMarketDataFeed: vi.fn(async () => feeds.createReplayFeed({ ticks, speed: 1 })) };
+});
+
+const SESSION_START = new Date('2024-06-12T09:15:00+05:30');
+
+function holding(
+  symbol: string,
+  isin: string,
+  quantity: number,
+  avgPrice: number,
+  currentPrice: number
+): NormalizedHolding {
+  const unrealizedPnL = (currentPrice - avgPrice) * quantity;
+  return { symbol, isin, quantity, avgPrice, currentPrice, unrealizedPnL, assetType: 'equity' };
+}
+
+// The mock connector's holdings at their stored prices
+const HOLDINGS = [
+  holding('RELIANCE', 'INE002A01018', 10, 2400, 2950.5),
+  holding('INFY', 'INE009A01021', 25, 1620, 1480.25),
+  holding('HDFCBANK', 'INE040A01034', 15, 1550, 1675)
+];
+
+function widget(id: string, frequency: 'live' | 'hourly'): { id: string; config: WidgetConfig } {
+  return {
+    id,
+    config: {
+      version: 2,
+      query: { operation: 'aggregate', field: 'holdings' },
+      visualization: {},
+      refresh: { automatic: true, frequency }
+    }
+  };
+}
+
+describe('subscribeDashboard replaying the mock session', () => {
+  let live: typeof import('./live');
+
+  beforeEach(async () => {
+    vi.useFakeTimers({ now: SESSION_START });
+    vi.resetModules();
+    live = await import('./live');
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function replay(
+    widgets: Array<{ id: string; config: WidgetConfig }>,
+    send?: (update: DashboardUpdate) => Promise<void>
+  ) {
+    const updates: Array<{ at: number; update: DashboardUpdate }> = [];
+    const handle = await live.subscribeDashboard({
+      userId: 'user-1',
+      portfolioId: 1,
+      holdings: HOLDINGS,
+      widgets,
+      send: send ?? (async (update) => {
+        updates.push({ at: Date.now() - SESSION_START.getTime(), update });
+      })
+    });
+    return { handle, updates };
+  }
+
+  function marks(updates: Array<{ at: number; update: DashboardUpdate }>): Array<[number, number[], number]> {
+    return updates.flatMap(({ at, update }): Array<[number, number[], number]> => {
+      if (!update.mark) return [];
+      return [[at, update.mark.holdings.map((marked) => marked.currentPrice), update.mark.dayChange]];
+    });
+  }
+
+  function widgetRuns(updates: Array<{ at: number; update: DashboardUpdate }>, widgetId: string): number[] {
+    return updates.filter(({ update }) => update.widget?.widgetId === widgetId).map(({ at }) => at);
+  }
+
+  it('sends a mark at stored prices and every widget right away', async () => {
+    const { handle, updates } = await replay([widget('live', 'live'), widget('hourly', 'hourly')]);
+    handle.unsubscribe();
+
+    expect(updates.map(({ at, update }) => [at, update.type, update.widget?.widgetId])).toEqual([
+      [0, 'mark', undefined],
+      [0, 'widget', 'live'],
+      [0, 'widget', 'hourly']
+    ]);
+    expect(updates[0].update.mark).toMatchObject({
+      portfolioId: 1,
+      marketOpen: true,
+      totalValue: 91636.25,
+      dayChange: 0
+    });
+    expect(updates[1].update.widget!.data.rows[0].value).toBe(91636.25);
+  });
+
+  it('marks the dashboard to the replayed quotes on every push interval', async () => {
+    const { handle, updates } = await replay([]);
+    await vi.advanceTimersByTimeAsync(50 * 1000);
+    handle.unsubscribe();
+
+    // Each push carries the ticks delivered up to the previous one
+    expect(marks(updates)).toEqual([
+      [0, [2950.5, 1480.25, 1675], 0],
+      [5000, [2948.95, 1478.7, 1675.75], -1.5],
+      [10000, [2948.95, 1478.1, 1675.75], -16.5],
+      [15000, [2944.85, 1476.2, 1675.75], -105],
+      [20000, [2947.75, 1476.2, 1675.75], -76],
+      [25000, [2951.7, 1475.75, 1673.45], -82.25],
+      [30000, [2949.85, 1475.75, 1673.45], -100.75],
+      [35000, [2952.65, 1475.75, 1674.15], -62.25],
+      [40000, [2953.05, 1475.75, 1674.15], -58.25],
+      [45000, [2953.05, 1475.45, 1674.6], -59],
+      [50000, [2951.3, 1476.35, 1674.6], -54]
+    ]);
+    expect(updates[updates.length - 1].update.mark).toMatchObject({ marketOpen: true, totalValue: 91540.75 });
+  });
+
+  it('sends a heartbeat mark every 30 seconds once quotes stop moving', async () => {
+    const { handle, updates } = await replay([]);
+    await vi.advanceTimersByTimeAsync(2 * 60 * 1000);
+    handle.unsubscribe();
+
+    expect(marks(updates).slice(-3)).toEqual([
+      [50000, [2951.3, 1476.35, 1674.6], -54],
+      [80000, [2951.3, 1476.35, 1674.6], -54],
+      [110000, [2951.3, 1476.35, 1674.6], -54]
+    ]);
+  });
+
+  it('reruns live widgets when quotes move and hourly widgets once an hour', async () => {
+    const { handle, updates } = await replay([widget('live', 'live'), widget('hourly', 'hourly')]);
+    await vi.advanceTimersByTimeAsync(61 * 60 * 1000);
+    handle.unsubscribe();
+
+    expect(widgetRuns(updates, 'live')).toEqual(
+      [0, 5000, 10000, 15000, 20000, 25000, 30000, 35000, 40000, 45000, 50000]
+    );
+    // Due after an hour, sent with the next heartbeat
+    expect(widgetRuns(updates, 'hourly')).toEqual([0, 3620000]);
+  });
+
+  it('drops a dashboard that stops accepting updates', async () => {
+    let sent = 0;
+    const { handle } = await replay([], async () => {
+      if (++sent > 1) throw new Error('Event stream closed');
+    });
+
+    await vi.advanceTimersByTimeAsync(5000);
+    await handle.closed;
+
+    expect(sent).toBe(2);
+    expect(await live.liveStatus()).toMatchObject({ dashboards: 0, instruments: 0 });
+  });
+});
@@ -0,0 +1,323 @@
+/**
+ * Live dashboard hub
+ *
+ * Why this exists:
+ * - One feed connection and one quote cache per process, shared by every
+ *   open dashboard, so a price is fetched once however many widgets show it
+ * - Subscribes the feed to the union of open dashboards' holdings
+ *   (reference-counted per ISIN) and connects it only while the market is open
+ * - Pushes marks and re-runs live/hourly widgets on a fixed cadence, never
+ *   faster than MARKET_DATA_PUSH_INTERVAL_MS per dashboard
+ *
+ * Dashboards that stop accepting updates are dropped on the next push; a
+ * heartbeat mark makes sure that happens even when prices are not moving.
+ *
+ * The hub is module state, so it lives in the service whose streams it
+ * feeds; anything reading it (quotes.ts) must be served by this service too.
+ */
+
+import { env } from '../shared/env';
+import type { NormalizedHolding, PortfolioMark, Quote } from '../shared/types';
+import { executeWidgetQuery, type QueryResult } from '../chat/executor';
+import { istDate } from '../portfolio/calendar';
+import { loadHolidays, type LiveWidget } from '../marketdata/dashboard-data';
+import { createMarketDataFeed, type FeedInstrument, type MarketDataFeed } from '../marketdata/feeds';
+import { isMarketOpen } from '../marketdata/hours';
+import { markHoldings } from '../marketdata/marks';
+import { createQuoteCache } from '../marketdata/quotes';
+
+/**
+ * Longest silence on a dashboard stream
+ */
+const HEARTBEAT_MS = 30 * 1000;
+
+/**
+ * Shortest interval between runs of an hourly widget
+ */
+const HOURLY_MS = 60 * 60 * 1000;
+
+/**
+ * One message on a dashboard stream
+ */
+export interface DashboardUpdate {
+  type: 'mark' | 'widget';
+  mark?: PortfolioMark;
+  widget?: {
+    widgetId: string;
+    data: QueryResult;
+    executedAt: Date;
+  };
+}
+
+export interface DashboardSubscriptionInput {
+  userId: string;
+  portfolioId?: number;
+  holdings: NormalizedHolding[];
+  widgets: LiveWidget[];
+  send(update: DashboardUpdate): Promise<void>;
+}
+
+export interface DashboardSubscriptionHandle {
+  closed: Promise<void>;  // Resolves when the dashboard is dropped
+  unsubscribe(): void;
+}
+
+interface DashboardSubscription extends DashboardSubscriptionInput {
+  id: number;
+  isins: Set<string>;
+  quotesChanged: boolean;
+  lastPush: number;
+  widgetRuns: Map<string, number>;  // Widget id -> last run (epoch ms)
+  close(): void;
+}
+
+export interface LiveStatus {
+  feed?: string;
+  feedRunning: boolean;
+  marketOpen: boolean;
+  dashboards: number;
+  instruments: number;
+  quotes: number;
+}
+
+const quotes = createQuoteCache();
+const subscriptions = new Map<number, DashboardSubscription>();
+const instrumentRefs = new Map<string, number>();
+
+let nextSubscriptionId = 1;
+let feed: Promise<MarketDataFeed | undefined> | undefined;
+let feedRunning = false;
+let timer: NodeJS.Timeout | undefined;
+let flushing = false;
+let holidays: { date: string; days: Set<string> } | undefined;
+
+function instrumentsOf(holdings: NormalizedHolding[]): FeedInstrument[] {
+  return holdings.flatMap((holding) => {
+    if (!holding.isin) return [];
+    const token = Number(holding._metadata?.instrumentToken);
+    return [{
+      isin: holding.isin.toUpperCase(),
+      symbol: holding.symbol,
+      exchange: holding.exchange,
+      instrumentToken: Number.isInteger(token) && token > 0 ? token : undefined
+    }];
+  });
+}
+
+/**
+ * Feed configured by env, created on first use; a misconfigured feed is
+ * logged once and marks fall back to stored prices
+ */
+function getFeed(): Promise<MarketDataFeed | undefined> {
+  feed ??= createMarketDataFeed().catch((error) => {
+    console.error('Market data feed unavailable:', error);
+    return undefined;
+  });
+  return feed;
+}
+
+function onQuotes(incoming: Quote[]): void {
+  const changed = quotes.apply(incoming);
+  if (changed.length === 0) return;
+
+  for (const subscription of subscriptions.values()) {
+    if (changed.some((isin) => subscription.isins.has(isin))) {
+      subscription.quotesChanged = true;
+    }
+  }
+}
+
+/**
+ * Exchange holidays, reloaded once per IST day
+ */
+async function currentHolidays(now: Date): Promise<Set<string>> {
+  const today = istDate(now);
+  if (holidays?.date !== today) {
+    try {
+      holidays = { date: today, days: await loadHolidays(now) };
+    } catch (error) {
+      console.error('Could not load market holidays:', error);
+      return holidays?.days ?? new Set();
+    }
+  }
+  return holidays.days;
+}
+
+/**
+ * Connect the feed while it is needed and the market is open; disconnect otherwise
+ * Cached quotes are kept after the close: they are the session's last prices
+ */
+async function syncFeed(marketOpen: boolean): Promise<void> {
+  const current = await getFeed();
+  if (!current) return;
+
+  const wanted = subscriptions.size > 0 && (marketOpen || !current.followsMarketHours);
+  if (wanted && !feedRunning) {
+    current.start(onQuotes);
+    feedRunning = true;
+  } else if (!wanted && feedRunning) {
+    current.stop();
+    feedRunning = false;
+  }
+}
+
+/**
+ * Send a mark and any due widget results to one dashboard
+ * @returns false if the dashboard stopped accepting updates
+ */
+async function push(subscription: DashboardSubscription, now: Date, marketOpen: boolean): Promise<boolean> {
+  const { holdings, mark } = markHoldings(subscription.holdings, (isin) => quotes.get(isin), {
+    portfolioId: subscription.portfolioId,
+    marketOpen,
+    asOf: now
+  });
+  const quotesChanged = subscription.quotesChanged;
+  subscription.quotesChanged = false;
+  subscription.lastPush = now.getTime();
+
+  try {
+    await subscription.send({ type: 'mark', mark });
+
+    for (const widget of subscription.widgets) {
+      const lastRun = subscription.widgetRuns.get(widget.id);
+      const due = lastRun === undefined ||
+        (widget.config.refresh.frequency === 'live' ? quotesChanged : now.getTime() - lastRun >= HOURLY_MS);
+      if (!due) continue;
+
+      subscription.widgetRuns.set(widget.id, now.getTime());
+      let data: QueryResult;
+      try {
+        data = executeWidgetQuery(widget.config, { holdings });
+      } catch (error) {
+        console.warn('Live widget failed to execute:', { widgetId: widget.id, error });
+        continue;
+      }
+      await subscription.send({ type: 'widget', widget: { widgetId: widget.id, data, executedAt: now } });
+    }
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * One pass of the push loop: follow the market session, then push to every
+ * dashboard whose quotes moved or that has been quiet for HEARTBEAT_MS
+ */
+async function flush(): Promise<void> {
+  if (flushing) return;
+  flushing = true;
+
+  try {
+    const now = new Date();
+    const marketOpen = isMarketOpen(now, await currentHolidays(now));
+    await syncFeed(marketOpen);
+
+    for (const subscription of [...subscriptions.values()]) {
+      const quiet = now.getTime() - subscription.lastPush >= HEARTBEAT_MS;
+      if (!subscription.quotesChanged && !quiet) continue;
+
+      if (!(await push(subscription, now, marketOpen))) {
+        subscription.close();
+      }
+    }
+  } finally {
+    flushing = false;
+  }
+}
+
+function addInstruments(instruments: FeedInstrument[]): FeedInstrument[] {
+  const added = instruments.filter((instrument) => !instrumentRefs.has(instrument.isin));
+  for (const instrument of instruments) {
+    instrumentRefs.set(instrument.isin, (instrumentRefs.get(instrument.isin) ?? 0) + 1);
+  }
+  return added;
+}
+
+function removeInstruments(isins: Iterable<string>): string[] {
+  const removed: string[] = [];
+  for (const isin of isins) {
+    const count = (instrumentRefs.get(isin) ?? 0) - 1;
+    if (count > 0) {
+      instrumentRefs.set(isin, count);
+    } else {
+      instrumentRefs.delete(isin);
+      removed.push(isin);
+    }
+  }
+  return removed;
+}
+
+/**
+ * Start pushing marks (and live/hourly widget results) to a dashboard
+ * The first mark is sent right away, at cached or stored prices
+ */
+export async function subscribeDashboard(input: DashboardSubscriptionInput): Promise<DashboardSubscriptionHandle> {
+  const instruments = instrumentsOf(input.holdings);
+  let resolveClosed!: () => void;
+  const closed = new Promise<void>((resolve) => {
+    resolveClosed = resolve;
+  });
+
+  const subscription: DashboardSubscription = {
+    ...input,
+    id: nextSubscriptionId++,
+    isins: new Set(instruments.map((instrument) => instrument.isin)),
+    quotesChanged: false,
+    lastPush: 0,
+    widgetRuns: new Map(),
+    close: () => {
+      if (!subscriptions.delete(subscription.id)) return;
+
+      const removed = removeInstruments(subscription.isins);
+      void getFeed().then((current) => {
+        if (removed.length > 0) current?.unsubscribe(removed);
+        if (subscriptions.size === 0) {
+          clearInterval(timer);
+          timer = undefined;
+          void syncFeed(false);
+        }
+      });
+      resolveClosed();
+    }
+  };
+
+  subscriptions.set(subscription.id, subscription);
+  const added = addInstruments([...new Map(instruments.map((instrument) => [instrument.isin, instrument])).values()]);
+  const current = await getFeed();
+  if (added.length > 0) {
+    current?.subscribe(added);
+  }
+
+  timer ??= setInterval(() => void flush(), env.MARKET_DATA_PUSH_INTERVAL_MS);
+  const now = new Date();
+  const marketOpen = isMarketOpen(now, await currentHolidays(now));
+  await syncFeed(marketOpen);
+  if (!(await push(subscription, now, marketOpen))) {
+    subscription.close();
+  }
+
+  return { closed, unsubscribe: subscription.close };
+}
+
+/**
+ * Cached quotes for the given ISINs (all when omitted)
+ */
+export function cachedQuotes(isins?: string[]): Quote[] {
+  return quotes.list(isins);
+}
+
+/**
+ * Hub state, for monitoring
+ */
+export async function liveStatus(): Promise<LiveStatus> {
+  const now = new Date();
+  return {
+    feed: (await getFeed())?.id,
+    feedRunning,
+    marketOpen: isMarketOpen(now, await currentHolidays(now)),
+    dashboards: subscriptions.size,
+    instruments: instrumentRefs.size,
+    quotes: quotes.size
+  };
+}
@@ -0,0 +1,20 @@
+-- Create user events
+-- Notifications and sync progress, kept for replay on the event channel
+
+CREATE TABLE user_events (
+  id BIGSERIAL PRIMARY KEY,
+  event_key TEXT NOT NULL UNIQUE,
+  user_id TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('notification', 'sync')),
+  data JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_user_events_user_id ON user_events(user_id, id);
+CREATE INDEX idx_user_events_created_at ON user_events(created_at);
+
+-- Comments for documentation
+COMMENT ON TABLE user_events IS 'Events delivered on the user event channel, pruned after a few days';
+COMMENT ON COLUMN user_events.id IS 'Server-sent event id; clients resume after it with Last-Event-ID';
+COMMENT ON COLUMN user_events.event_key IS 'Publisher-generated key, so a redelivered message is stored once';
+COMMENT ON COLUMN user_events.data IS 'NotificationContent or SyncProgress, depending on kind';
@@ -0,0 +1,21 @@
+-- Number user events in commit order
+-- A BIGSERIAL id is taken when the row is inserted, so a slow insert can
+-- commit a lower id after a higher one was already sent; streams tailing
+-- "id > cursor" would never send it. Ids now come from one counter row,
+-- locked until the inserting transaction commits.
+-- This serializes event writes across all users (one commit at a time),
+-- which suits the low volume of notifications and sync progress. Ids can
+-- have gaps: a duplicate delivery advances the counter but stores nothing.
+
+CREATE TABLE user_event_sequence (
+  singleton BOOLEAN PRIMARY KEY DEFAULT TRUE CHECK (singleton),
+  last_id BIGINT NOT NULL
+);
+
+INSERT INTO user_event_sequence (last_id) SELECT coalesce(max(id), 0) FROM user_events;
+
+ALTER TABLE user_events ALTER COLUMN id DROP DEFAULT;
+DROP SEQUENCE user_events_id_seq;
+
+-- Comments for documentation
+COMMENT ON TABLE user_event_sequence IS 'Last user event id; incremented by every insert so ids follow commit order';
@@ -0,0 +1,49 @@
+/**
+ * Market data endpoints
+ *
+ * Why this exists:
+ * - Read access to cached quotes and the hub state
+ * - Served here because the live hub (live.ts) runs in this service, next to
+ *   the event streams it feeds; another service would see an empty hub
+ *
+ * Dashboards receive marks and live widget data on the event channel
+ * (GET /events, see events.ts), which subscribes them to the hub.
+ */
+
+import { api } from 'encore.dev/api';
+import { invalidArgument } from '../shared/errors';
+import type { Quote } from '../shared/types';
+import { cachedQuotes, liveStatus, type LiveStatus } from './live';
+
+const MAX_QUOTE_ISINS = 500;
+
+interface GetQuotesRequest {
+  isins: string[];
+}
+
+interface GetQuotesResponse {
+  quotes: Quote[];  // Only ISINs with a cached quote
+}
+
+/**
+ * Latest cached quotes (never calls the broker)
+ * GET /events/quotes?isins=INE002A01018&isins=INE009A01021
+ */
+export const quotes = api(
+  { expose: true, auth: true, method: 'GET', path: '/events/quotes' },
+  async ({ isins }: GetQuotesRequest): Promise<GetQuotesResponse> => {
+    if (isins.length > MAX_QUOTE_ISINS) {
+      throw invalidArgument(`At most ${MAX_QUOTE_ISINS} ISINs per request`, { count: isins.length });
+    }
+    return { quotes: cachedQuotes(isins) };
+  }
+);
+
+/**
+ * Feed, session and subscription state
+ * Internal endpoint
+ */
+export const status = api(
+  { expose: false, method: 'GET', path: '/events/status' },
+  async (): Promise<LiveStatus> => liveStatus()
+);
@@ -0,0 +1,126 @@
+/**
+ * User event storage
+ *
+ * Why this exists:
+ * - The event id doubles as the server-sent event id: it increases with
+ *   every stored event, in commit order (see user_event_sequence), so
+ *   "everything after Last-Event-ID" is one query and never skips an event
+ *   that committed late
+ * - Every instance tails the same table, so an event reaches the user's
+ *   connections wherever they are held
+ */
+
+import type { NotificationContent, SyncProgress, UserEventKind } from '../shared/types';
+import { DB } from './db';
+import type { UserEventMessage } from './topic';
+
+export interface StoredUserEvent {
+  id: number;
+  userId: string;
+  kind: UserEventKind;
+  data: NotificationContent | SyncProgress;
+  createdAt: Date;
+}
+
+interface UserEventRow {
+  id: string;  // BIGSERIAL comes back as a string
+  user_id: string;
+  kind: UserEventKind;
+  data: NotificationContent | SyncProgress;
+  created_at: Date;
+}
+
+function toStoredEvent(row: UserEventRow): StoredUserEvent {
+  return {
+    id: Number(row.id),
+    userId: row.user_id,
+    kind: row.kind,
+    data: row.data,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Store a published event (once, however often it is delivered)
+ * The counter row stays locked until the insert commits, so the next event
+ * cannot become visible with a higher id before this one
+ *
+ * That lock serializes every event write across all users: throughput is
+ * bounded by one commit round trip per event (a few hundred per second).
+ * Enough for notifications and sync progress, which are a handful per sync;
+ * per-user cursors would be needed before anything high-volume goes here.
+ * A skipped duplicate delivery still advances the counter, leaving a gap in
+ * the ids; clients only compare ids, so gaps are harmless.
+ */
+export async function appendUserEvent(message: UserEventMessage): Promise<void> {
+  const data = message.kind === 'notification' ? message.notification : message.sync;
+  if (!data) {
+    console.warn('Dropping user event without a payload:', { eventKey: message.eventKey, kind: message.kind });
+    return;
+  }
+
+  await DB.exec`
+    WITH next AS (
+      UPDATE user_event_sequence SET last_id = last_id + 1 RETURNING last_id
+    )
+    INSERT INTO user_events (id, event_key, user_id, kind, data, created_at)
+    SELECT
+      next.last_id, ${message.eventKey}, ${message.userId}, ${message.kind}, ${JSON.stringify(data)}::jsonb,
+      ${message.occurredAt}::timestamptz
+    FROM next
+    ON CONFLICT (event_key) DO NOTHING
+  `;
+}
+
+/**
+ * Events of the given users after an event id, oldest first
+ */
+export async function loadUserEvents(userIds: string[], afterId: number, limit: number): Promise<StoredUserEvent[]> {
+  if (userIds.length === 0) {
+    return [];
+  }
+
+  const rows = await DB.rawQueryAll<UserEventRow>(
+    `SELECT id, user_id, kind, data, created_at FROM user_events
+     WHERE user_id = ANY($1::text[]) AND id > $2
+     ORDER BY id ASC
+     LIMIT $3`,
+    userIds,
+    afterId,
+    limit
+  );
+  return rows.map(toStoredEvent);
+}
+
+/**
+ * Id of the latest event of any user (0 if none is retained)
+ * Ids follow commit order, so every event stored later has a higher id
+ */
+export async function latestEventId(): Promise<number> {
+  const row = await DB.queryRow<{ id: string | null }>`SELECT max(id) AS id FROM user_events`;
+  return Number(row?.id ?? 0);
+}
+
+/**
+ * Id of the oldest retained event of any user
+ * Events before it have been pruned, so a client resuming from an earlier id
+ * may have missed some
+ */
+export async function oldestRetainedEventId(): Promise<number | undefined> {
+  const row = await DB.queryRow<{ id: string | null }>`SELECT min(id) AS id FROM user_events`;
+  return row?.id ? Number(row.id) : undefined;
+}
+
+/**
+ * Delete events created before a cutoff
+ * @returns Number of events deleted
+ */
+export async function pruneUserEvents(before: Date): Promise<number> {
+  const row = await DB.queryRow<{ deleted: number }>`
+    WITH deleted AS (
+      DELETE FROM user_events WHERE created_at < ${before} RETURNING 1
+    )
+    SELECT count(*)::int AS deleted FROM deleted
+  `;
+  return row?.deleted ?? 0;
+}
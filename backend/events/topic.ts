@@ -0,0 +1,51 @@
+/**
+ * User events topic
+ *
+ * Why this exists:
+ * - Any service can raise a notification or report sync progress without
+ *   knowing who is connected, or on which instance
+ * - Ordered per user, so sync stages arrive in the order they happened
+ *
+ * Publishing is best effort: the helpers log a failure and never throw, so
+ * an unavailable event channel cannot fail a sync or a fork.
+ */
+
+import { randomUUID } from 'crypto';
+import { Topic, type Attribute } from 'encore.dev/pubsub';
+import type { NotificationContent, SyncProgress, UserEventKind } from '../shared/types';
+
+export interface UserEventMessage {
+  eventKey: string;  // Generated on publish; a redelivered message is stored once
+  userId: Attribute<string>;
+  kind: UserEventKind;
+  notification?: NotificationContent;  // When kind is notification
+  sync?: SyncProgress;  // When kind is sync
+  occurredAt: string;  // ISO 8601
+}
+
+export const userEvents = new Topic<UserEventMessage>('user-events', {
+  deliveryGuarantee: 'at-least-once',
+  orderingAttribute: 'userId'
+});
+
+async function publish(message: Omit<UserEventMessage, 'eventKey' | 'occurredAt'>): Promise<void> {
+  try {
+    await userEvents.publish({ ...message, eventKey: randomUUID(), occurredAt: new Date().toISOString() });
+  } catch (error) {
+    console.warn('Could not publish user event:', { userId: message.userId, kind: message.kind, error });
+  }
+}
+
+/**
+ * Notify a user (delivered live if connected, replayed on reconnect)
+ */
+export function notifyUser(userId: string, notification: NotificationContent): Promise<void> {
+  return publish({ userId, kind: 'notification', notification });
+}
+
+/**
+ * Report a stage of a connector sync to its owner
+ */
+export function publishSyncProgress(userId: string, progress: SyncProgress): Promise<void> {
+  return publish({ userId, kind: 'sync', sync: progress });
+}
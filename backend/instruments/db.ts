@@ -0,0 +1,18 @@
+/**
+ * Instruments Database Connection
+ * 
+ * Why this exists:
+ * - Stores the instrument master, one row per ISIN
+ * - Follows Encore pattern: one database per service
+ * - Other services read it through SQLDatabase.named('instruments')
+ */
+
+import { SQLDatabase } from 'encore.dev/storage/sqldb';
+
+/**
+ * Instruments service database
+ * Manages: instruments
+ */
+export const DB = new SQLDatabase('instruments', {
+  migrations: './migrations'
+});
@@ -0,0 +1,12 @@
+/**
+ * Instruments Service Definition
+ * 
+ * Why this exists:
+ * - Owns the instrument master (listed securities and mutual fund schemes)
+ * - Resolves symbol <-> ISIN and classifies sector, market cap and asset type
+ * - Refreshes from local NSE/BSE/AMFI dumps on a schedule
+ */
+
+import { Service } from 'encore.dev/service';
+
+export default new Service('instruments');
@@ -0,0 +1,145 @@
+/**
+ * Instrument master endpoints
+ *
+ * Why this exists:
+ * - Lookup API for the frontend and other services (search, by ISIN, resolve)
+ * - Refresh job that rebuilds the master from the local data dump
+ */
+
+import { api } from 'encore.dev/api';
+import { CronJob } from 'encore.dev/cron';
+import { readdir, readFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { DB } from './db';
+import { env } from '../shared/env';
+import { invalidArgument, notFound } from '../shared/errors';
+import type { Instrument } from '../shared/types';
+import { buildInstrumentMaster, resolveInstrument } from './master';
+import { parseInstrumentFile, type InstrumentFileKind, type ParsedInstrumentFile } from './parsers';
+import { getInstrument, loadInstrumentIndex, searchInstruments, upsertInstruments } from './store';
+
+const MAX_SEARCH_RESULTS = 50;
+const MAX_RESOLVE_REFS = 500;
+
+interface SearchInstrumentsRequest {
+  q: string;
+  limit?: number;
+}
+
+interface SearchInstrumentsResponse {
+  instruments: Instrument[];
+}
+
+/**
+ * Search instruments by symbol, ISIN, BSE/AMFI code or name
+ * GET /instruments/search?q=reliance
+ */
+export const search = api(
+  { expose: true, auth: true, method: 'GET', path: '/instruments/search' },
+  async ({ q, limit }: SearchInstrumentsRequest): Promise<SearchInstrumentsResponse> => {
+    if (q.trim().length < 2) {
+      throw invalidArgument('Search query must be at least 2 characters');
+    }
+
+    const instruments = await searchInstruments(DB, q, Math.min(limit ?? 20, MAX_SEARCH_RESULTS));
+    return { instruments };
+  }
+);
+
+interface GetInstrumentRequest {
+  isin: string;
+}
+
+/**
+ * Get one instrument by ISIN
+ * GET /instruments/isin/:isin
+ */
+export const get = api(
+  { expose: true, auth: true, method: 'GET', path: '/instruments/isin/:isin' },
+  async ({ isin }: GetInstrumentRequest): Promise<Instrument> => {
+    const instrument = await getInstrument(DB, isin);
+    if (!instrument) {
+      throw notFound('Instrument not found', { isin });
+    }
+    return instrument;
+  }
+);
+
+interface InstrumentRef {
+  isin?: string;
+  symbol?: string;
+  exchange?: string;
+}
+
+interface ResolveInstrumentsRequest {
+  refs: InstrumentRef[];
+}
+
+interface ResolveInstrumentsResponse {
+  results: Array<{ ref: InstrumentRef; instrument?: Instrument }>;
+}
+
+/**
+ * Resolve symbols to ISINs (and back) in bulk
+ * POST /instruments/resolve
+ */
+export const resolve = api(
+  { expose: true, auth: true, method: 'POST', path: '/instruments/resolve' },
+  async ({ refs }: ResolveInstrumentsRequest): Promise<ResolveInstrumentsResponse> => {
+    if (refs.length > MAX_RESOLVE_REFS) {
+      throw invalidArgument(`At most ${MAX_RESOLVE_REFS} references per request`, { count: refs.length });
+    }
+
+    const index = await loadInstrumentIndex(
+      DB,
+      refs.map((ref) => ({ isin: ref.isin, symbol: ref.symbol ?? '' }))
+    );
+
+    return {
+      results: refs.map((ref) => ({ ref, instrument: resolveInstrument(index, ref) }))
+    };
+  }
+);
+
+interface RefreshInstrumentsResponse {
+  files: Array<{ file: string; kind?: InstrumentFileKind; records: number }>;
+  instruments: number;
+}
+
+/**
+ * Rebuild the instrument master from the files in INSTRUMENT_DATA_DIR
+ * Unrecognized files are listed without a kind and ignored
+ * Internal endpoint, triggered by cron
+ */
+export const refresh = api(
+  { expose: false, method: 'POST', path: '/instruments/refresh' },
+  async (): Promise<RefreshInstrumentsResponse> => {
+    let names: string[];
+    try {
+      names = (await readdir(env.INSTRUMENT_DATA_DIR)).sort();
+    } catch (error) {
+      console.error('Instrument data directory unreadable:', { dir: env.INSTRUMENT_DATA_DIR, error });
+      return { files: [], instruments: 0 };
+    }
+
+    const parsed: ParsedInstrumentFile[] = [];
+    const files: RefreshInstrumentsResponse['files'] = [];
+
+    for (const name of names.filter((file) => /\.(csv|txt)$/i.test(file))) {
+      const result = parseInstrumentFile(await readFile(join(env.INSTRUMENT_DATA_DIR, name), 'utf8'));
+      files.push({ file: name, kind: result?.kind, records: result?.records.length ?? 0 });
+      if (result) {
+        parsed.push(result);
+      }
+    }
+
+    const instruments = await upsertInstruments(DB, buildInstrumentMaster(parsed));
+    return { files, instruments };
+  }
+);
+
+export const refreshInstrumentsJob = new CronJob('refresh-instrument-master', {
+  title: 'Refresh instrument master from NSE/BSE/AMFI dumps',
+  schedule: '0 2 * * *',  // 07:30 IST, before market open
+  endpoint: refresh
+});
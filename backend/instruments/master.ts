@@ -0,0 +1,139 @@
+/**
+ * Instrument master: merging, resolution and holding enrichment
+ *
+ * Why this exists:
+ * - Connectors often know only a trading symbol, CSVs only a name or ISIN
+ * - Resolves symbol <-> ISIN (NSE and BSE symbols, exchange series suffixes)
+ * - Fills sector, exchange, market-cap bucket and asset type on holdings, so
+ *   allocations stop collapsing into 'Unknown'
+ */
+
+import type { Instrument, NormalizedHolding } from '../shared/types';
+import type { InstrumentFileKind, ParsedInstrumentFile } from './parsers';
+
+/**
+ * Merge order: earlier files win for every field they provide
+ * (NSE symbols and industries over BSE, exchange lists over AMFI names)
+ */
+const MERGE_ORDER: InstrumentFileKind[] = [
+  'nse_equity',
+  'nse_etf',
+  'nse_index',
+  'bse_equity',
+  'amfi_market_cap',
+  'amfi_nav'
+];
+
+/**
+ * Merge parsed files into one instrument per ISIN
+ */
+export function buildInstrumentMaster(files: ParsedInstrumentFile[]): Instrument[] {
+  const merged = new Map<string, Partial<Instrument> & { isin: string }>();
+  const ordered = [...files].sort((a, b) => MERGE_ORDER.indexOf(a.kind) - MERGE_ORDER.indexOf(b.kind));
+
+  for (const file of ordered) {
+    for (const record of file.records) {
+      const existing = merged.get(record.isin);
+      if (!existing) {
+        merged.set(record.isin, { ...record });
+        continue;
+      }
+      for (const [field, value] of Object.entries(record)) {
+        const key = field as keyof Instrument;
+        if (value !== undefined && value !== '' && existing[key] === undefined) {
+          (existing as Record<string, unknown>)[key] = value;
+        }
+      }
+    }
+  }
+
+  return [...merged.values()].map((record) => ({
+    ...record,
+    name: record.name || record.symbol || record.isin,
+    assetType: record.assetType ?? 'equity'
+  }));
+}
+
+/**
+ * In-memory lookup tables over a set of instruments
+ */
+export interface InstrumentIndex {
+  byIsin: Map<string, Instrument>;
+  byNseSymbol: Map<string, Instrument>;
+  byBseSymbol: Map<string, Instrument>;
+}
+
+export function buildInstrumentIndex(instruments: Instrument[]): InstrumentIndex {
+  const index: InstrumentIndex = { byIsin: new Map(), byNseSymbol: new Map(), byBseSymbol: new Map() };
+
+  for (const instrument of instruments) {
+    index.byIsin.set(instrument.isin.toUpperCase(), instrument);
+    if (instrument.symbol) index.byNseSymbol.set(instrument.symbol.toUpperCase(), instrument);
+    if (instrument.bseSymbol) index.byBseSymbol.set(instrument.bseSymbol.toUpperCase(), instrument);
+  }
+
+  return index;
+}
+
+/**
+ * Strip exchange series suffixes brokers append to symbols ('IDEA-BE', 'SGBAUG28-GB')
+ */
+export function baseSymbol(symbol: string): string {
+  return symbol.trim().toUpperCase().replace(/-(EQ|BE|BZ|SM|ST|GB|N\d|[A-Z]\d)$/, '');
+}
+
+/**
+ * Resolve an instrument by ISIN, else by symbol on the given (or any) exchange
+ */
+export function resolveInstrument(
+  index: InstrumentIndex,
+  ref: { isin?: string; symbol?: string; exchange?: string }
+): Instrument | undefined {
+  if (ref.isin) {
+    const byIsin = index.byIsin.get(ref.isin.toUpperCase());
+    if (byIsin) return byIsin;
+  }
+
+  if (!ref.symbol) {
+    return undefined;
+  }
+
+  const symbol = baseSymbol(ref.symbol);
+  const exchange = ref.exchange?.toUpperCase();
+
+  if (exchange === 'BSE') {
+    return index.byBseSymbol.get(symbol) ?? index.byNseSymbol.get(symbol);
+  }
+  return index.byNseSymbol.get(symbol) ?? index.byBseSymbol.get(symbol);
+}
+
+/**
+ * Symbols a holding may be known by, for prefetching candidates
+ */
+export function lookupKeys(holdings: Array<{ isin?: string; symbol: string }>): { isins: string[]; symbols: string[] } {
+  return {
+    isins: [...new Set(holdings.flatMap((holding) => (holding.isin ? [holding.isin.toUpperCase()] : [])))],
+    symbols: [...new Set(holdings.map((holding) => baseSymbol(holding.symbol)))]
+  };
+}
+
+/**
+ * Fill missing classification fields from the instrument master
+ *
+ * Fields the source already provided are kept. The one exception is assetType:
+ * connectors default to 'equity', so the master's 'etf'/'mutual_fund' wins.
+ */
+export function enrichHolding(holding: NormalizedHolding, instrument: Instrument | undefined): NormalizedHolding {
+  if (!instrument) {
+    return holding;
+  }
+
+  return {
+    ...holding,
+    isin: holding.isin ?? instrument.isin,
+    sector: holding.sector ?? instrument.sector,
+    exchange: holding.exchange ?? instrument.exchange,
+    marketCap: holding.marketCap ?? instrument.marketCap,
+    assetType: holding.assetType === 'equity' ? instrument.assetType : holding.assetType
+  };
+}
@@ -0,0 +1,29 @@
+-- Create instrument master
+-- One row per ISIN, merged from NSE/BSE instrument lists and AMFI scheme files
+
+CREATE TABLE instruments (
+  isin TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  asset_type TEXT NOT NULL CHECK (asset_type IN ('equity', 'mutual_fund', 'etf', 'bond')),
+  symbol TEXT,
+  bse_code TEXT,
+  bse_symbol TEXT,
+  exchange TEXT,
+  sector TEXT,
+  market_cap TEXT CHECK (market_cap IN ('large', 'mid', 'small')),
+  amfi_code TEXT,
+  fund_house TEXT,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+-- Symbol lookups are case-insensitive
+CREATE INDEX idx_instruments_symbol ON instruments(upper(symbol));
+CREATE INDEX idx_instruments_bse_symbol ON instruments(upper(bse_symbol));
+CREATE INDEX idx_instruments_amfi_code ON instruments(amfi_code);
+CREATE INDEX idx_instruments_name ON instruments(lower(name) text_pattern_ops);
+
+-- Comments for documentation
+COMMENT ON TABLE instruments IS 'Instrument master keyed by ISIN';
+COMMENT ON COLUMN instruments.symbol IS 'NSE trading symbol (NULL if not listed on NSE)';
+COMMENT ON COLUMN instruments.sector IS 'NSE industry classification; scheme category for mutual funds';
+COMMENT ON COLUMN instruments.market_cap IS 'SEBI category from the AMFI half-yearly market-cap list';
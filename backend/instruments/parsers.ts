@@ -0,0 +1,218 @@
+/**
+ * Parsers for exchange and AMFI instrument files
+ *
+ * Why this exists:
+ * - The instrument master is built from public dumps, not a live feed
+ * - Files are recognized by their header row, so names on disk don't matter
+ *
+ * Supported files (as downloaded):
+ * - NSE EQUITY_L.csv: SYMBOL, NAME OF COMPANY, SERIES, ..., ISIN NUMBER
+ * - NSE eq_etfseclist.csv: Symbol, Underlying, SecurityName, ..., ISINNumber
+ * - NSE index constituents (e.g. ind_nifty500list.csv): Company Name, Industry, Symbol, Series, ISIN Code
+ * - BSE scrip master (Equity.csv): Security Code, Issuer Name, Security Id, ..., ISIN No, Industry
+ * - AMFI market-cap categorization (saved as CSV): ..., ISIN, ..., Categorization as per SEBI Circular ...
+ * - AMFI NAVAll.txt: semicolon-separated scheme master with category and fund house headings
+ */
+
+import type { AssetType, Instrument, MarketCapBucket } from '../shared/types';
+import { parseCsv } from '../shared/csv';
+
+export type InstrumentFileKind =
+  | 'nse_equity'
+  | 'nse_etf'
+  | 'nse_index'
+  | 'bse_equity'
+  | 'amfi_market_cap'
+  | 'amfi_nav';
+
+/**
+ * Partial instrument data from one file; merged by ISIN later
+ */
+export type InstrumentRecord = Partial<Instrument> & { isin: string };
+
+export interface ParsedInstrumentFile {
+  kind: InstrumentFileKind;
+  records: InstrumentRecord[];
+}
+
+const ISIN_PATTERN = /^IN[A-Z0-9]{9}\d$/;
+
+/**
+ * NSE equity series that represent ordinary shares
+ */
+const NSE_EQUITY_SERIES = new Set(['EQ', 'BE', 'BZ', 'SM', 'ST']);
+
+/**
+ * Lowercase alphanumerics only, so ' ISIN NUMBER' and 'ISINNumber' compare equal
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Read CSV rows as header -> value records
+ */
+function readRecords(text: string): Array<Record<string, string>> {
+  const [headers = [], ...rows] = parseCsv(text);
+  const keys = headers.map(normalizeHeader);
+  return rows.map((cells) => Object.fromEntries(keys.map((key, i) => [key, cells[i]?.trim() ?? ''])));
+}
+
+function validIsin(value: string | undefined): string | undefined {
+  const isin = value?.trim().toUpperCase();
+  return isin && ISIN_PATTERN.test(isin) ? isin : undefined;
+}
+
+function parseMarketCap(value: string | undefined): MarketCapBucket | undefined {
+  const text = (value ?? '').toLowerCase();
+  if (text.startsWith('large')) return 'large';
+  if (text.startsWith('mid')) return 'mid';
+  if (text.startsWith('small')) return 'small';
+  return undefined;
+}
+
+/**
+ * Identify a file from its first line
+ */
+export function detectInstrumentFile(text: string): InstrumentFileKind | undefined {
+  const firstLine = text.replace(/^﻿/, '').split(/\r?\n/, 1)[0] ?? '';
+
+  if (/^Scheme Code;/i.test(firstLine)) {
+    return 'amfi_nav';
+  }
+
+  const headers = new Set((parseCsv(firstLine)[0] ?? []).map(normalizeHeader));
+  if (headers.has('nameofcompany') && headers.has('isinnumber')) return 'nse_equity';
+  if (headers.has('underlying') && headers.has('isinnumber')) return 'nse_etf';
+  if (headers.has('companyname') && headers.has('industry') && headers.has('isincode')) return 'nse_index';
+  if (headers.has('securitycode') && headers.has('isinno')) return 'bse_equity';
+  if (headers.has('isin') && [...headers].some((header) => header.startsWith('categorization'))) {
+    return 'amfi_market_cap';
+  }
+
+  return undefined;
+}
+
+function parseNseEquity(text: string): InstrumentRecord[] {
+  return readRecords(text).flatMap((row) => {
+    const isin = validIsin(row.isinnumber);
+    if (!isin || !NSE_EQUITY_SERIES.has(row.series)) return [];
+    return [{ isin, name: row.nameofcompany, symbol: row.symbol, exchange: 'NSE', assetType: 'equity' as AssetType }];
+  });
+}
+
+function parseNseEtf(text: string): InstrumentRecord[] {
+  return readRecords(text).flatMap((row) => {
+    const isin = validIsin(row.isinnumber);
+    if (!isin) return [];
+    return [{ isin, name: row.securityname, symbol: row.symbol, exchange: 'NSE', assetType: 'etf' as AssetType }];
+  });
+}
+
+function parseNseIndex(text: string): InstrumentRecord[] {
+  return readRecords(text).flatMap((row) => {
+    const isin = validIsin(row.isincode);
+    if (!isin) return [];
+    return [{ isin, name: row.companyname, symbol: row.symbol, sector: row.industry || undefined }];
+  });
+}
+
+function parseBseEquity(text: string): InstrumentRecord[] {
+  return readRecords(text).flatMap((row) => {
+    const isin = validIsin(row.isinno);
+    if (!isin || (row.status && row.status.toLowerCase() !== 'active')) return [];
+    const etf = /etf/i.test(row.instrument ?? '') || /\bETF\b/.test(row.securityname ?? '');
+    return [{
+      isin,
+      name: row.issuername || row.securityname,
+      bseCode: row.securitycode,
+      bseSymbol: row.securityid,
+      exchange: 'BSE',
+      sector: row.industry || undefined,
+      assetType: (etf ? 'etf' : 'equity') as AssetType
+    }];
+  });
+}
+
+function parseAmfiMarketCap(text: string): InstrumentRecord[] {
+  return readRecords(text).flatMap((row) => {
+    const isin = validIsin(row.isin);
+    const category = Object.entries(row).find(([key]) => key.startsWith('categorization'))?.[1];
+    const marketCap = parseMarketCap(category);
+    if (!isin || !marketCap) return [];
+    return [{ isin, name: row.companyname || undefined, marketCap }];
+  });
+}
+
+/**
+ * AMFI NAVAll.txt
+ *
+ *   Scheme Code;ISIN Div Payout/ ISIN Growth;ISIN Div Reinvestment;Scheme Name;Net Asset Value;Date
+ *   Open Ended Schemes(Equity Scheme - Large Cap Fund)
+ *   <Fund house> Mutual Fund
+ *   <code>;<isin>;<isin or ->;<scheme name>;<nav>;<dd-Mmm-yyyy>
+ *
+ * Each scheme row can carry two ISINs (payout/growth and reinvestment)
+ */
+function parseAmfiNav(text: string): InstrumentRecord[] {
+  const records: InstrumentRecord[] = [];
+  let category: string | undefined;
+  let fundHouse: string | undefined;
+
+  for (const raw of text.split(/\r?\n/).slice(1)) {
+    const line = raw.trim();
+    if (!line) continue;
+
+    if (!line.includes(';')) {
+      const heading = line.match(/\((.+)\)\s*$/);
+      if (heading) {
+        category = heading[1].trim();
+      } else {
+        fundHouse = line;
+      }
+      continue;
+    }
+
+    const [code, isinGrowth, isinReinvest, name] = line.split(';').map((cell) => cell.trim());
+    const etf = /\bETF\b/i.test(name ?? '') || /ETF/i.test(category ?? '');
+
+    for (const isin of [validIsin(isinGrowth), validIsin(isinReinvest)]) {
+      if (!isin) continue;
+      records.push({
+        isin,
+        name,
+        amfiCode: code,
+        fundHouse,
+        sector: category,
+        assetType: etf ? 'etf' : 'mutual_fund'
+      });
+    }
+  }
+
+  return records;
+}
+
+/**
+ * Parse any supported instrument file
+ * @returns undefined if the file is not recognized
+ */
+export function parseInstrumentFile(text: string): ParsedInstrumentFile | undefined {
+  const kind = detectInstrumentFile(text);
+
+  switch (kind) {
+    case 'nse_equity':
+      return { kind, records: parseNseEquity(text) };
+    case 'nse_etf':
+      return { kind, records: parseNseEtf(text) };
+    case 'nse_index':
+      return { kind, records: parseNseIndex(text) };
+    case 'bse_equity':
+      return { kind, records: parseBseEquity(text) };
+    case 'amfi_market_cap':
+      return { kind, records: parseAmfiMarketCap(text) };
+    case 'amfi_nav':
+      return { kind, records: parseAmfiNav(text) };
+    default:
+      return undefined;
+  }
+}
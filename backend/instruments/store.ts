@@ -0,0 +1,146 @@
+/**
+ * Instrument master persistence
+ *
+ * Why this exists:
+ * - Bulk upserts the merged master on every refresh
+ * - Lookup queries shared by the instruments API and portfolio enrichment
+ *   (which reads the same database via SQLDatabase.named('instruments'))
+ */
+
+import type { SQLDatabase } from 'encore.dev/storage/sqldb';
+import type { Instrument } from '../shared/types';
+import { buildInstrumentIndex, lookupKeys, type InstrumentIndex } from './master';
+
+/**
+ * Raw instrument row as stored in PostgreSQL
+ */
+interface InstrumentRow {
+  isin: string;
+  name: string;
+  asset_type: Instrument['assetType'];
+  symbol: string | null;
+  bse_code: string | null;
+  bse_symbol: string | null;
+  exchange: string | null;
+  sector: string | null;
+  market_cap: Instrument['marketCap'] | null;
+  amfi_code: string | null;
+  fund_house: string | null;
+}
+
+function toInstrument(row: InstrumentRow): Instrument {
+  return {
+    isin: row.isin,
+    name: row.name,
+    assetType: row.asset_type,
+    symbol: row.symbol ?? undefined,
+    bseCode: row.bse_code ?? undefined,
+    bseSymbol: row.bse_symbol ?? undefined,
+    exchange: row.exchange ?? undefined,
+    sector: row.sector ?? undefined,
+    marketCap: row.market_cap ?? undefined,
+    amfiCode: row.amfi_code ?? undefined,
+    fundHouse: row.fund_house ?? undefined
+  };
+}
+
+const INSTRUMENT_COLUMNS = `
+  isin, name, asset_type, symbol, bse_code, bse_symbol, exchange, sector, market_cap, amfi_code, fund_house
+`;
+
+/**
+ * Rows per upsert statement (keeps each JSON payload small)
+ */
+const UPSERT_BATCH_SIZE = 1000;
+
+/**
+ * Insert or update instruments in bulk
+ * @returns Number of instruments written
+ */
+export async function upsertInstruments(db: SQLDatabase, instruments: Instrument[]): Promise<number> {
+  for (let start = 0; start < instruments.length; start += UPSERT_BATCH_SIZE) {
+    const batch = instruments.slice(start, start + UPSERT_BATCH_SIZE);
+
+    await db.exec`
+      INSERT INTO instruments (
+        isin, name, asset_type, symbol, bse_code, bse_symbol, exchange, sector, market_cap, amfi_code, fund_house
+      )
+      SELECT isin, name, "assetType", symbol, "bseCode", "bseSymbol", exchange, sector, "marketCap", "amfiCode", "fundHouse"
+      FROM jsonb_to_recordset(${JSON.stringify(batch)}::jsonb) AS x(
+        isin TEXT, name TEXT, "assetType" TEXT, symbol TEXT, "bseCode" TEXT, "bseSymbol" TEXT,
+        exchange TEXT, sector TEXT, "marketCap" TEXT, "amfiCode" TEXT, "fundHouse" TEXT
+      )
+      ON CONFLICT (isin) DO UPDATE SET
+        name = EXCLUDED.name,
+        asset_type = EXCLUDED.asset_type,
+        symbol = EXCLUDED.symbol,
+        bse_code = EXCLUDED.bse_code,
+        bse_symbol = EXCLUDED.bse_symbol,
+        exchange = EXCLUDED.exchange,
+        sector = EXCLUDED.sector,
+        market_cap = EXCLUDED.market_cap,
+        amfi_code = EXCLUDED.amfi_code,
+        fund_house = EXCLUDED.fund_house,
+        updated_at = NOW()
+    `;
+  }
+
+  return instruments.length;
+}
+
+/**
+ * Load the instruments that could match the given ISINs/symbols as a lookup index
+ */
+export async function loadInstrumentIndex(
+  db: SQLDatabase,
+  refs: Array<{ isin?: string; symbol: string }>
+): Promise<InstrumentIndex> {
+  const { isins, symbols } = lookupKeys(refs);
+  if (isins.length === 0 && symbols.length === 0) {
+    return buildInstrumentIndex([]);
+  }
+
+  const rows = await db.rawQueryAll<InstrumentRow>(
+    `SELECT ${INSTRUMENT_COLUMNS} FROM instruments
+     WHERE isin = ANY($1::text[]) OR upper(symbol) = ANY($2::text[]) OR upper(bse_symbol) = ANY($2::text[])`,
+    isins,
+    symbols
+  );
+
+  return buildInstrumentIndex(rows.map(toInstrument));
+}
+
+/**
+ * Get one instrument by ISIN
+ */
+export async function getInstrument(db: SQLDatabase, isin: string): Promise<Instrument | null> {
+  const row = await db.rawQueryRow<InstrumentRow>(
+    `SELECT ${INSTRUMENT_COLUMNS} FROM instruments WHERE isin = $1`,
+    isin.toUpperCase()
+  );
+  return row ? toInstrument(row) : null;
+}
+
+/**
+ * Search by exact symbol/ISIN first, then by name prefix and substring
+ */
+export async function searchInstruments(db: SQLDatabase, query: string, limit: number): Promise<Instrument[]> {
+  const text = query.trim();
+  const rows = await db.rawQueryAll<InstrumentRow>(
+    `SELECT ${INSTRUMENT_COLUMNS} FROM instruments
+     WHERE isin = upper($1) OR upper(symbol) = upper($1) OR upper(bse_symbol) = upper($1)
+        OR bse_code = $1 OR amfi_code = $1 OR lower(name) LIKE '%' || lower($1) || '%'
+     ORDER BY
+       CASE
+         WHEN isin = upper($1) OR upper(symbol) = upper($1) OR upper(bse_symbol) = upper($1) THEN 0
+         WHEN lower(name) LIKE lower($1) || '%' THEN 1
+         ELSE 2
+       END,
+       name ASC
+     LIMIT $2`,
+    text,
+    limit
+  );
+
+  return rows.map(toInstrument);
+}
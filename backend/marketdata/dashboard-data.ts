@@ -0,0 +1,98 @@
+/**
+ * Dashboard data for live marking
+ *
+ * Why this exists:
+ * - A dashboard subscription needs the user's holdings, the exchange
+ *   holidays and the configs of the widgets it shows
+ * - Reads the portfolio and widgets databases directly (read-only), with
+ *   fixed queries parameterized only by the caller's identity
+ */
+
+import { SQLDatabase } from 'encore.dev/storage/sqldb';
+import type { NormalizedHolding, WidgetConfig } from '../shared/types';
+import { notFound } from '../shared/errors';
+import { migrateWidgetConfig } from '../shared/dsl-migrations';
+import { validateWidgetConfig } from '../chat/dsl';
+import { needsSnapshots } from '../chat/executor';
+import { mergeHoldings } from '../portfolio/consolidate';
+
+const PortfolioDB = SQLDatabase.named('portfolio');
+const WidgetsDB = SQLDatabase.named('widgets');
+
+/**
+ * Current holdings of one portfolio, or of all the user's portfolios merged
+ * @throws APIError (404) if the portfolio does not exist or the user has none
+ */
+export async function loadHoldings(userId: string, portfolioId?: number): Promise<NormalizedHolding[]> {
+  const rows = await PortfolioDB.queryAll<{ id: number; name: string; data: NormalizedHolding[] }>`
+    SELECT id, name, data FROM portfolios
+    WHERE user_id = ${userId} AND (${portfolioId ?? null}::bigint IS NULL OR id = ${portfolioId ?? null})
+    ORDER BY created_at ASC, id ASC
+  `;
+
+  if (rows.length === 0) {
+    throw notFound('Portfolio not found', { userId, portfolioId });
+  }
+
+  if (rows.length === 1) {
+    return rows[0].data;
+  }
+  return mergeHoldings(rows.map((row) => ({ id: Number(row.id), name: row.name, holdings: row.data })));
+}
+
+/**
+ * Exchange holidays of the current and next calendar year
+ */
+export async function loadHolidays(now: Date): Promise<Set<string>> {
+  const year = now.getUTCFullYear();
+  const rows = await PortfolioDB.queryAll<{ date: string }>`
+    SELECT to_char(date, 'YYYY-MM-DD') AS date
+    FROM market_holidays
+    WHERE date BETWEEN ${`${year}-01-01`}::date AND ${`${year + 1}-12-31`}::date
+  `;
+  return new Set(rows.map((row) => row.date));
+}
+
+/**
+ * A widget that refreshes itself from live quotes
+ */
+export interface LiveWidget {
+  id: string;
+  config: WidgetConfig;
+}
+
+/**
+ * The given widgets (own or public) with an hourly or live automatic refresh
+ * that read current holdings only. Widgets that are missing, private to
+ * someone else, need snapshot history, or whose config no longer validates
+ * are left out
+ */
+export async function loadLiveWidgets(userId: string, widgetIds: string[]): Promise<LiveWidget[]> {
+  if (widgetIds.length === 0) {
+    return [];
+  }
+
+  const rows = await WidgetsDB.rawQueryAll<{ id: string; config: unknown }>(
+    `SELECT id, config FROM widgets
+     WHERE id = ANY($1::text[]) AND (user_id = $2 OR visibility = 'public')`,
+    widgetIds,
+    userId
+  );
+
+  return rows.flatMap((row) => {
+    let config: WidgetConfig | undefined;
+    try {
+      config = validateWidgetConfig(migrateWidgetConfig(row.config).config).config;
+    } catch {
+      config = undefined;
+    }
+    if (!config) {
+      console.warn('Skipping live widget with an invalid config:', { widgetId: row.id });
+      return [];
+    }
+
+    const { automatic, frequency } = config.refresh;
+    const live = automatic && (frequency === 'live' || frequency === 'hourly') && !needsSnapshots(config);
+    return live ? [{ id: row.id, config }] : [];
+  });
+}
@@ -0,0 +1,16 @@
+/**
+ * Market Data Service Definition
+ * 
+ * Why this exists:
+ * - Quote feeds (Kite ticker, recorded replay), the quote cache, market
+ *   hours and mark-to-market, as the building blocks of live dashboards
+ * - Loads what marking a dashboard needs: holdings, holidays, live widgets
+ *
+ * It holds no feed connection itself: the live hub that runs the feed and
+ * pushes marks is in the events service (events/live.ts), next to the
+ * streams it feeds, because its state belongs to the process serving them.
+ */
+
+import { Service } from 'encore.dev/service';
+
+export default new Service('marketdata');
@@ -0,0 +1,40 @@
+/**
+ * Market data feed selection
+ * 
+ * Why this exists:
+ * - Picks the feed from env (MARKET_DATA_FEED and its settings)
+ * - Import this module (not the individual feeds) in the live hub
+ */
+
+import { readFile } from 'node:fs/promises';
+import { env } from '../../shared/env';
+import { invalidArgument } from '../../shared/errors';
+import { createKiteFeed } from './kite.feed';
+import { createReplayFeed, parseRecordedTicks } from './replay.feed';
+import type { MarketDataFeed } from './types';
+
+/**
+ * Feed configured by env
+ * @returns undefined when MARKET_DATA_FEED is 'none' (marks use stored prices)
+ * @throws APIError (400) for a Kite feed without an access token
+ */
+export async function createMarketDataFeed(): Promise<MarketDataFeed | undefined> {
+  switch (env.MARKET_DATA_FEED) {
+    case 'kite':
+      if (!env.MARKET_DATA_ACCESS_TOKEN) {
+        throw invalidArgument('MARKET_DATA_ACCESS_TOKEN is required for the kite feed');
+      }
+      return createKiteFeed({ apiKey: env.ZERODHA_API_KEY, accessToken: env.MARKET_DATA_ACCESS_TOKEN });
+    case 'replay':
+      return createReplayFeed({
+        ticks: parseRecordedTicks(await readFile(env.MARKET_DATA_REPLAY_FILE, 'utf8')),
+        speed: env.MARKET_DATA_REPLAY_SPEED
+      });
+    default:
+      return undefined;
+  }
+}
+
+export { createKiteFeed, type KiteFeedOptions } from './kite.feed';
+export { createReplayFeed, parseRecordedTicks, type ReplayFeedOptions } from './replay.feed';
+export type * from './types';
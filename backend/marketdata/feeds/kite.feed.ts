@@ -0,0 +1,117 @@
+/**
+ * Kite WebSocket ticker feed
+ *
+ * Why this exists:
+ * - Streams live quotes from Zerodha over one WebSocket for every dashboard
+ * - Maps Kite instrument tokens back to the ISINs holdings are keyed by
+ *
+ * Needs an access token with market data access (MARKET_DATA_ACCESS_TOKEN);
+ * Kite tokens expire every morning, so it is renewed after the daily login.
+ */
+
+import { KiteTicker } from 'kiteconnect';
+import type { Quote } from '../../shared/types';
+import type { FeedInstrument, MarketDataFeed, QuoteListener } from './types';
+
+/**
+ * Fields of a Kite 'quote' mode tick that a quote needs
+ */
+interface KiteQuoteTick {
+  instrument_token: number;
+  last_price: number;
+  ohlc?: { close?: number };
+  exchange_timestamp?: Date;
+  last_trade_time?: Date;
+}
+
+/**
+ * Reconnect attempts (Kite backs off exponentially up to MAX_RECONNECT_DELAY_S)
+ */
+const MAX_RECONNECTS = 50;
+const MAX_RECONNECT_DELAY_S = 60;
+
+export interface KiteFeedOptions {
+  apiKey: string;
+  accessToken: string;
+}
+
+/**
+ * Create a feed on the Kite WebSocket ticker
+ * Instruments without an instrument token are ignored (Kite cannot stream them)
+ */
+export function createKiteFeed(options: KiteFeedOptions): MarketDataFeed {
+  const instruments = new Map<number, FeedInstrument>();
+  let ticker: InstanceType<typeof KiteTicker> | undefined;
+
+  const tokensOf = (items: FeedInstrument[]): number[] =>
+    items.flatMap((item) => (item.instrumentToken ? [item.instrumentToken] : []));
+
+  const send = (tokens: number[]) => {
+    if (ticker?.connected() && tokens.length > 0) {
+      ticker.subscribe(tokens);
+      ticker.setMode('quote', tokens);
+    }
+  };
+
+  return {
+    id: 'kite',
+    followsMarketHours: true,
+
+    start(listener: QuoteListener): void {
+      if (ticker) return;
+
+      ticker = new KiteTicker({ api_key: options.apiKey, access_token: options.accessToken });
+      ticker.autoReconnect(true, MAX_RECONNECTS, MAX_RECONNECT_DELAY_S);
+
+      // Subscriptions do not survive a reconnect, so resend them on every connect
+      ticker.on('connect', () => send([...instruments.keys()]));
+      ticker.on('ticks', (ticks: KiteQuoteTick[]) => {
+        const quotes = ticks.flatMap((tick): Quote[] => {
+          const instrument = instruments.get(tick.instrument_token);
+          if (!instrument || !(tick.last_price > 0)) return [];
+          return [{
+            isin: instrument.isin,
+            symbol: instrument.symbol,
+            lastPrice: tick.last_price,
+            previousClose: tick.ohlc?.close || undefined,
+            timestamp: new Date(tick.exchange_timestamp ?? tick.last_trade_time ?? Date.now())
+          }];
+        });
+        if (quotes.length > 0) {
+          listener(quotes);
+        }
+      });
+      ticker.on('error', (error: Error) => console.error('Kite ticker error:', error));
+      ticker.on('noreconnect', () => console.error('Kite ticker gave up reconnecting'));
+
+      ticker.connect();
+    },
+
+    stop(): void {
+      ticker?.disconnect();
+      ticker = undefined;
+    },
+
+    subscribe(items: FeedInstrument[]): void {
+      const added = tokensOf(items).filter((token) => !instruments.has(token));
+      for (const item of items) {
+        if (item.instrumentToken) {
+          instruments.set(item.instrumentToken, item);
+        }
+      }
+      send(added);
+    },
+
+    unsubscribe(isins: string[]): void {
+      const removed = [...instruments]
+        .filter(([, instrument]) => isins.includes(instrument.isin))
+        .map(([token]) => token);
+      for (const token of removed) {
+        instruments.delete(token);
+      }
+      if (ticker?.connected() && removed.length > 0) {
+        ticker.unsubscribe(removed);
+      }
+    }
+  };
+}
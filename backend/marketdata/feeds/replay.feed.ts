@@ -0,0 +1,127 @@
+/**
+ * Replay feed
+ *
+ * Why this exists:
+ * - Deterministic, offline quote source for tests and local development
+ * - Plays a recorded session back with its original spacing (or faster),
+ *   exercising the same hub path as the Kite ticker
+ *
+ * Recorded tick file: one JSON object per line, in time order
+ *   {"time":"2024-06-12T09:15:02+05:30","isin":"INE002A01018","symbol":"RELIANCE","lastPrice":2950.5,"previousClose":2940.1}
+ * Blank lines and lines starting with # are ignored.
+ */
+
+import { invalidArgument } from '../../shared/errors';
+import type { Quote } from '../../shared/types';
+import type { FeedInstrument, MarketDataFeed, QuoteListener } from './types';
+
+/**
+ * Parse a recorded tick file
+ * @throws APIError (400) naming the first malformed line
+ */
+export function parseRecordedTicks(text: string): Quote[] {
+  const quotes: Quote[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    if (line.trim() === '' || line.trim().startsWith('#')) return;
+
+    let record: Record<string, unknown>;
+    try {
+      record = JSON.parse(line);
+    } catch {
+      throw invalidArgument(`Recorded tick on line ${index + 1} is not JSON`);
+    }
+
+    const timestamp = new Date(String(record.time));
+    const { isin, symbol, lastPrice, previousClose } = record;
+    if (
+      typeof isin !== 'string' ||
+      typeof symbol !== 'string' ||
+      typeof lastPrice !== 'number' ||
+      !(lastPrice > 0) ||
+      (previousClose !== undefined && typeof previousClose !== 'number') ||
+      Number.isNaN(timestamp.getTime())
+    ) {
+      throw invalidArgument(`Recorded tick on line ${index + 1} needs time, isin, symbol and a positive lastPrice`);
+    }
+
+    quotes.push({ isin: isin.toUpperCase(), symbol, lastPrice, previousClose, timestamp });
+  });
+
+  return quotes.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+export interface ReplayFeedOptions {
+  ticks: Quote[];  // In time order (see parseRecordedTicks)
+  speed?: number;  // 1 = as recorded, 10 = ten times faster, 0 = no delay
+}
+
+/**
+ * Create a feed that replays recorded ticks once, from the start, on every start()
+ * Ticks sharing a timestamp are delivered together; unsubscribed ISINs are skipped
+ */
+export function createReplayFeed(options: ReplayFeedOptions): MarketDataFeed {
+  const speed = options.speed ?? 1;
+  const subscribed = new Set<string>();
+  let timer: NodeJS.Timeout | undefined;
+  let playing = false;
+
+  const batches: Quote[][] = [];
+  for (const tick of options.ticks) {
+    const last = batches[batches.length - 1];
+    if (last && last[0].timestamp.getTime() === tick.timestamp.getTime()) {
+      last.push(tick);
+    } else {
+      batches.push([tick]);
+    }
+  }
+
+  return {
+    id: 'replay',
+    followsMarketHours: false,
+
+    start(listener: QuoteListener): void {
+      if (playing) return;
+      playing = true;
+
+      const play = (index: number) => {
+        if (!playing || index >= batches.length) {
+          playing = false;
+          return;
+        }
+
+        // Replayed quotes carry the replay time, so caches see them as fresh
+        const now = Date.now();
+        const quotes = batches[index]
+          .filter((tick) => subscribed.has(tick.isin))
+          .map((tick) => ({ ...tick, timestamp: new Date(now) }));
+        if (quotes.length > 0) {
+          listener(quotes);
+        }
+
+        const next = batches[index + 1];
+        const gap = next ? next[0].timestamp.getTime() - batches[index][0].timestamp.getTime() : 0;
+        timer = setTimeout(() => play(index + 1), speed > 0 ? gap / speed : 0);
+      };
+
+      timer = setTimeout(() => play(0), 0);
+    },
+
+    stop(): void {
+      playing = false;
+      clearTimeout(timer);
+    },
+
+    subscribe(instruments: FeedInstrument[]): void {
+      for (const instrument of instruments) {
+        subscribed.add(instrument.isin.toUpperCase());
+      }
+    },
+
+    unsubscribe(isins: string[]): void {
+      for (const isin of isins) {
+        subscribed.delete(isin.toUpperCase());
+      }
+    }
+  };
+}
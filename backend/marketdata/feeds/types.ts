@@ -0,0 +1,42 @@
+/**
+ * Market data feed contract
+ * 
+ * Why this exists:
+ * - One interface for every quote source (Kite WebSocket ticker, recorded replays)
+ * - The live hub only subscribes instruments and receives quotes; it never
+ *   knows how a feed connects or what its wire format is
+ */
+
+import type { Quote } from '../../shared/types';
+
+/**
+ * A security to stream quotes for
+ * Feeds key instruments differently (Kite by instrument token, replays by ISIN)
+ */
+export interface FeedInstrument {
+  isin: string;
+  symbol: string;
+  exchange?: string;
+  instrumentToken?: number;  // Kite instrument token, from Zerodha holdings
+}
+
+export type QuoteListener = (quotes: Quote[]) => void;
+
+export type MarketDataFeedId = 'kite' | 'replay';
+
+/**
+ * Live quote source
+ * 
+ * start() connects and delivers quotes for subscribed instruments until stop();
+ * subscribe/unsubscribe may be called at any time, before or after start()
+ */
+export interface MarketDataFeed {
+  readonly id: MarketDataFeedId;
+  /** Only stream while the exchanges are open (a replay plays any time) */
+  readonly followsMarketHours: boolean;
+
+  start(listener: QuoteListener): void;
+  stop(): void;
+  subscribe(instruments: FeedInstrument[]): void;
+  unsubscribe(isins: string[]): void;
+}
@@ -0,0 +1,33 @@
+/**
+ * NSE/BSE cash market hours
+ * 
+ * Why this exists:
+ * - Quotes only move during the normal session, so the live feed is
+ *   connected only then
+ * - Trading days come from the portfolio calendar (weekends + market_holidays)
+ */
+
+import { istDate, isTradingDay } from '../portfolio/calendar';
+
+/**
+ * Normal session, minutes after midnight IST (09:15 - 15:30)
+ */
+const SESSION_OPEN_MINUTES = 9 * 60 + 15;
+const SESSION_CLOSE_MINUTES = 15 * 60 + 30;
+
+const IST_OFFSET_MINUTES = 330;
+
+function istMinutes(now: Date): number {
+  return (now.getUTCHours() * 60 + now.getUTCMinutes() + IST_OFFSET_MINUTES) % (24 * 60);
+}
+
+/**
+ * Whether the normal session is open at an instant
+ */
+export function isMarketOpen(now: Date, holidays: ReadonlySet<string>): boolean {
+  if (!isTradingDay(istDate(now), holidays)) {
+    return false;
+  }
+  const minutes = istMinutes(now);
+  return minutes >= SESSION_OPEN_MINUTES && minutes < SESSION_CLOSE_MINUTES;
+}
@@ -0,0 +1,79 @@
+/**
+ * Mark-to-market
+ *
+ * Why this exists:
+ * - Stored holdings carry the price of the last sync; marks replace it with
+ *   the latest quote so values and P&L move with the market
+ * - Marked holdings feed the widget executor unchanged (same schema)
+ *
+ * Holdings without an ISIN or without a quote keep their stored price.
+ */
+
+import type { MarkedHolding, NormalizedHolding, PortfolioMark, Quote } from '../shared/types';
+import { calculatePortfolioTotals, calculateUnrealizedPnL } from '../portfolio/schema';
+
+export interface MarkOptions {
+  portfolioId?: number;
+  marketOpen: boolean;
+  asOf: Date;
+}
+
+export interface MarkResult {
+  holdings: NormalizedHolding[];  // Repriced, for the widget executor
+  mark: PortfolioMark;
+}
+
+function round2(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * Reprice holdings at their latest quotes
+ * @param quoteOf - Latest quote for an ISIN, if any
+ */
+export function markHoldings(
+  holdings: NormalizedHolding[],
+  quoteOf: (isin: string) => Quote | undefined,
+  options: MarkOptions
+): MarkResult {
+  const repriced: NormalizedHolding[] = [];
+  const marked: MarkedHolding[] = [];
+  let dayChange = 0;
+
+  for (const holding of holdings) {
+    const quote = holding.isin ? quoteOf(holding.isin) : undefined;
+    let current = holding;
+    if (quote) {
+      current = { ...holding, currentPrice: quote.lastPrice };
+      current.unrealizedPnL = calculateUnrealizedPnL(current);
+    }
+    const change = quote?.previousClose ? (quote.lastPrice - quote.previousClose) * holding.quantity : undefined;
+
+    repriced.push(current);
+    marked.push({
+      symbol: holding.symbol,
+      isin: holding.isin,
+      quantity: holding.quantity,
+      currentPrice: current.currentPrice,
+      currentValue: round2(current.currentPrice * current.quantity),
+      unrealizedPnL: round2(current.unrealizedPnL),
+      dayChange: change === undefined ? undefined : round2(change),
+      quotedAt: quote?.timestamp
+    });
+    dayChange += change ?? 0;
+  }
+
+  const totals = calculatePortfolioTotals(repriced);
+  return {
+    holdings: repriced,
+    mark: {
+      portfolioId: options.portfolioId,
+      marketOpen: options.marketOpen,
+      asOf: options.asOf,
+      totalValue: round2(totals.totalValue),
+      totalPnL: round2(totals.totalPnL),
+      dayChange: round2(dayChange),
+      holdings: marked
+    }
+  };
+}
@@ -0,0 +1,62 @@
+/**
+ * Quote cache
+ * 
+ * Why this exists:
+ * - One latest quote per ISIN, shared by every dashboard, so each price is
+ *   fetched from the broker once however many widgets show it
+ * - Out-of-order ticks (e.g. after a reconnect) never overwrite a newer price
+ */
+
+import type { Quote } from '../shared/types';
+
+export interface QuoteCache {
+  /** Store quotes; returns the ISINs whose price changed */
+  apply(quotes: Quote[]): string[];
+  get(isin: string): Quote | undefined;
+  /** Cached quotes for the given ISINs (all when omitted) */
+  list(isins?: string[]): Quote[];
+  readonly size: number;
+  clear(): void;
+}
+
+export function createQuoteCache(): QuoteCache {
+  const quotes = new Map<string, Quote>();
+
+  return {
+    apply(incoming: Quote[]): string[] {
+      const changed = new Set<string>();
+
+      for (const quote of incoming) {
+        const isin = quote.isin.toUpperCase();
+        const cached = quotes.get(isin);
+        if (cached && cached.timestamp.getTime() > quote.timestamp.getTime()) continue;
+
+        quotes.set(isin, { ...quote, isin, previousClose: quote.previousClose ?? cached?.previousClose });
+        if (cached?.lastPrice !== quote.lastPrice) {
+          changed.add(isin);
+        }
+      }
+
+      return [...changed];
+    },
+
+    get(isin: string): Quote | undefined {
+      return quotes.get(isin.toUpperCase());
+    },
+
+    list(isins?: string[]): Quote[] {
+      if (!isins) {
+        return [...quotes.values()];
+      }
+      return isins.flatMap((isin) => quotes.get(isin.toUpperCase()) ?? []);
+    },
+
+    get size(): number {
+      return quotes.size;
+    },
+
+    clear(): void {
+      quotes.clear();
+    }
+  };
+}
@@ -0,0 +1,451 @@
+/**
+ * Corporate action store and adjustment runs
+ *
+ * Why this exists:
+ * - Keeps the corporate actions table in step with the bundled fixture
+ * - Applies each action once per user: ledger rows, snapshots and the
+ *   current portfolio row are rewritten in a single database transaction
+ * - Re-runs applied actions when trades dated before their ex-date are
+ *   imported later, so late imports are adjusted too
+ * - Runs daily after market close so new ex-dates are picked up
+ */
+
+import { api } from 'encore.dev/api';
+import { CronJob } from 'encore.dev/cron';
+import { DB, type Transaction } from './db';
+import { requireAuth } from '../shared/auth';
+import type { NormalizedHolding, NormalizedTransaction } from '../shared/types';
+import {
+  CORPORATE_ACTION_SOURCE,
+  adjustHoldings,
+  alreadyApplied,
+  matchesAction,
+  restateLedger,
+  type CorporateAction,
+  type CorporateActionType,
+  type LedgerEntry
+} from './corporate-actions';
+import { calculatePortfolioTotals } from './schema';
+import fixture from './fixtures/corporate-actions.json';
+
+/**
+ * Raw corporate action row as stored in PostgreSQL
+ */
+interface CorporateActionRow {
+  id: number;
+  isin: string;
+  symbol: string;
+  ex_date: string;
+  type: CorporateActionType;
+  ratio_from: number;
+  ratio_to: number;
+  new_isin: string | null;
+  new_symbol: string | null;
+  cost_ratio: number | null;
+  description: string | null;
+}
+
+function toCorporateAction(row: CorporateActionRow): CorporateAction {
+  return {
+    id: Number(row.id),
+    isin: row.isin,
+    symbol: row.symbol,
+    exDate: row.ex_date,
+    type: row.type,
+    ratioFrom: Number(row.ratio_from),
+    ratioTo: Number(row.ratio_to),
+    newIsin: row.new_isin ?? undefined,
+    newSymbol: row.new_symbol ?? undefined,
+    costRatio: row.cost_ratio === null ? undefined : Number(row.cost_ratio),
+    description: row.description ?? undefined
+  };
+}
+
+const ACTION_COLUMNS = `
+  id, isin, symbol, to_char(ex_date, 'YYYY-MM-DD') AS ex_date, type, ratio_from::float8 AS ratio_from,
+  ratio_to::float8 AS ratio_to, new_isin, new_symbol, cost_ratio::float8 AS cost_ratio, description
+`;
+
+/**
+ * Start of the ex-date in IST; holdings synced before it are pre-event
+ */
+function exDateCutoff(action: CorporateAction): Date {
+  return new Date(`${action.exDate}T00:00:00+05:30`);
+}
+
+/**
+ * Upsert the bundled corporate action fixture
+ * @returns Number of fixture entries
+ */
+export async function loadCorporateActionFixture(): Promise<number> {
+  const actions = fixture as Array<Omit<CorporateAction, 'id'>>;
+
+  for (const action of actions) {
+    await DB.exec`
+      INSERT INTO corporate_actions (
+        isin, symbol, ex_date, type, ratio_from, ratio_to, new_isin, new_symbol, cost_ratio, description
+      )
+      VALUES (
+        ${action.isin}, ${action.symbol}, ${action.exDate}::date, ${action.type}, ${action.ratioFrom},
+        ${action.ratioTo}, ${action.newIsin ?? null}, ${action.newSymbol ?? null},
+        ${action.costRatio ?? null}, ${action.description ?? null}
+      )
+      ON CONFLICT (isin, ex_date, type) DO UPDATE SET
+        symbol = EXCLUDED.symbol,
+        ratio_from = EXCLUDED.ratio_from,
+        ratio_to = EXCLUDED.ratio_to,
+        new_isin = EXCLUDED.new_isin,
+        new_symbol = EXCLUDED.new_symbol,
+        cost_ratio = EXCLUDED.cost_ratio,
+        description = EXCLUDED.description
+    `;
+  }
+
+  return actions.length;
+}
+
+/**
+ * List corporate actions, oldest ex-date first
+ * Only actions whose ex-date has arrived are returned unless includeUpcoming is set
+ */
+export async function listCorporateActions(isin?: string, includeUpcoming: boolean = false): Promise<CorporateAction[]> {
+  const rows = await DB.rawQueryAll<CorporateActionRow>(
+    `SELECT ${ACTION_COLUMNS} FROM corporate_actions
+     WHERE ($1::text IS NULL OR isin = $1 OR new_isin = $1)
+       AND ($2 OR ex_date <= (NOW() AT TIME ZONE 'Asia/Kolkata')::date)
+     ORDER BY ex_date ASC, id ASC`,
+    isin ?? null,
+    includeUpcoming
+  );
+
+  return rows.map(toCorporateAction);
+}
+
+/**
+ * Actions already applied to a user, oldest ex-date first
+ */
+async function listAppliedCorporateActions(userId: string): Promise<CorporateAction[]> {
+  const rows = await DB.rawQueryAll<CorporateActionRow>(
+    `SELECT ${ACTION_COLUMNS} FROM corporate_actions
+     WHERE id IN (SELECT action_id FROM corporate_action_applications WHERE user_id = $1)
+     ORDER BY ex_date ASC, id ASC`,
+    userId
+  );
+
+  return rows.map(toCorporateAction);
+}
+
+/**
+ * Users holding or having traded the instrument before the ex-date
+ * who have not had the action applied yet
+ */
+async function findPendingUsers(action: CorporateAction): Promise<string[]> {
+  const cutoff = exDateCutoff(action);
+  const isinFilter = JSON.stringify([{ isin: action.isin }]);
+  const symbolFilter = JSON.stringify([{ symbol: action.symbol }]);
+
+  const rows = await DB.queryAll<{ user_id: string }>`
+    SELECT user_id FROM transactions
+    WHERE trade_date < ${action.exDate}::date
+      AND (isin = ${action.isin} OR (isin IS NULL AND upper(symbol) = upper(${action.symbol})))
+    UNION
+    SELECT user_id FROM portfolio_snapshots
+    WHERE synced_at < ${cutoff} AND (data @> ${isinFilter}::jsonb OR data @> ${symbolFilter}::jsonb)
+    UNION
+    SELECT user_id FROM portfolios
+    WHERE last_sync < ${cutoff} AND (data @> ${isinFilter}::jsonb OR data @> ${symbolFilter}::jsonb)
+    EXCEPT
+    SELECT user_id FROM corporate_action_applications WHERE action_id = ${action.id}
+  `;
+
+  return rows.map((row) => row.user_id);
+}
+
+export interface CorporateActionApplication {
+  actionId: number;
+  userId: string;
+  transactionsUpdated: number;
+  transactionsInserted: number;
+  snapshotsUpdated: number;
+  skipped: string[];
+}
+
+/**
+ * Restate holdings rows (snapshots or current portfolios) taken before the ex-date
+ * @returns The rows that changed, with recomputed totals
+ */
+function adjustHoldingsRows<T extends { id: number; data: NormalizedHolding[] }>(
+  rows: T[],
+  action: CorporateAction
+): Array<{ id: number; holdings: NormalizedHolding[]; totalValue: number; totalPnL: number }> {
+  return rows.flatMap((row) => {
+    const holdings = adjustHoldings(row.data, action);
+    if (holdings === row.data) {
+      return [];
+    }
+    return [{ id: Number(row.id), holdings, ...calculatePortfolioTotals(holdings) }];
+  });
+}
+
+interface LedgerRow {
+  id: number;
+  portfolio_id: number | null;
+  transaction: NormalizedTransaction;
+}
+
+interface LedgerRestatementCounts {
+  transactionsUpdated: number;
+  transactionsInserted: number;
+  skipped: string[];
+}
+
+function touchedBy(transaction: NormalizedTransaction, actions: CorporateAction[]): boolean {
+  return actions.some((action) => alreadyApplied(transaction, action));
+}
+
+/**
+ * Restate a user's ledger for a chain of actions (ex-date order), one
+ * portfolio at a time since entitlements depend on per-portfolio positions
+ * Rows the actions created before are replaced; rows they rewrote are updated in place
+ */
+async function restateUserLedger(
+  tx: Transaction,
+  userId: string,
+  actions: CorporateAction[]
+): Promise<LedgerRestatementCounts> {
+  const counts: LedgerRestatementCounts = { transactionsUpdated: 0, transactionsInserted: 0, skipped: [] };
+
+  // Rows of the actions' instruments, plus rows they renamed or created
+  const ledgerRows = await tx.rawQueryAll<LedgerRow>(
+    `SELECT id, portfolio_id, jsonb_strip_nulls(jsonb_build_object(
+       'tradeId', trade_id, 'symbol', symbol, 'isin', isin, 'type', type,
+       'quantity', quantity::float8, 'price', price::float8, 'charges', charges::float8,
+       'splitRatio', CASE WHEN split_from IS NULL THEN NULL
+         ELSE jsonb_build_object('from', split_from::float8, 'to', split_to::float8) END,
+       'tradeDate', to_char(trade_date, 'YYYY-MM-DD'), 'exchange', exchange,
+       'assetType', asset_type, '_metadata', metadata
+     )) AS transaction
+     FROM transactions
+     WHERE user_id = $1
+       AND (
+         isin = ANY($2::text[])
+         OR (isin IS NULL AND upper(symbol) = ANY($3::text[]))
+         OR metadata->'corporateActions' @> ANY($4::jsonb[])
+       )
+     ORDER BY trade_date ASC, id ASC`,
+    userId,
+    actions.map((action) => action.isin),
+    actions.map((action) => action.symbol.toUpperCase()),
+    actions.map((action) => JSON.stringify([{ id: action.id }]))
+  );
+
+  const byPortfolio = new Map<number | null, LedgerEntry[]>();
+  for (const row of ledgerRows) {
+    const portfolioId = row.portfolio_id === null ? null : Number(row.portfolio_id);
+    const entries = byPortfolio.get(portfolioId) ?? [];
+    entries.push({ id: Number(row.id), transaction: row.transaction });
+    byPortfolio.set(portfolioId, entries);
+  }
+
+  for (const [portfolioId, entries] of byPortfolio) {
+    const restatement = restateLedger(entries, actions, (action) => `ca${action.id}:${portfolioId ?? 'none'}`);
+    for (const { actionId, reason } of restatement.skipped) {
+      counts.skipped.push(`action ${actionId}, portfolio ${portfolioId ?? 'none'}: ${reason}`);
+    }
+
+    const kept = new Set(restatement.entries.map((entry) => entry.id));
+    const removed = entries.filter((entry) => !kept.has(entry.id)).map((entry) => entry.id!);
+    if (removed.length > 0) {
+      await tx.exec`DELETE FROM transactions WHERE id = ANY(${removed})`;
+    }
+
+    const stored = new Map(entries.map((entry) => [entry.id, entry.transaction]));
+    for (const { id, transaction } of restatement.entries) {
+      if (id !== undefined) {
+        if (!touchedBy(transaction, actions) && !touchedBy(stored.get(id)!, actions)) continue;
+
+        await tx.exec`
+          UPDATE transactions SET
+            symbol = ${transaction.symbol}, isin = ${transaction.isin ?? null},
+            quantity = ${transaction.quantity}, price = ${transaction.price}, charges = ${transaction.charges},
+            metadata = ${JSON.stringify(transaction._metadata ?? {})}::jsonb
+          WHERE id = ${id}
+        `;
+        counts.transactionsUpdated++;
+        continue;
+      }
+
+      await tx.exec`
+        INSERT INTO transactions (
+          user_id, portfolio_id, source, trade_id, symbol, isin, type, quantity, price, charges,
+          trade_date, exchange, asset_type, metadata
+        )
+        VALUES (
+          ${userId}, ${portfolioId}, ${CORPORATE_ACTION_SOURCE}, ${transaction.tradeId ?? null},
+          ${transaction.symbol}, ${transaction.isin ?? null}, ${transaction.type},
+          ${transaction.quantity}, ${transaction.price}, ${transaction.charges},
+          ${transaction.tradeDate}::date, ${transaction.exchange ?? null}, ${transaction.assetType},
+          ${JSON.stringify(transaction._metadata ?? {})}::jsonb
+        )
+        ON CONFLICT (user_id, source, trade_id) WHERE trade_id IS NOT NULL DO NOTHING
+      `;
+      counts.transactionsInserted++;
+    }
+  }
+
+  return counts;
+}
+
+/**
+ * Apply one corporate action to one user's ledger, snapshots and portfolios
+ * Runs in a single transaction; re-running for the same user leaves the same result
+ */
+export async function applyCorporateAction(
+  action: CorporateAction,
+  userId: string
+): Promise<CorporateActionApplication> {
+  const cutoff = exDateCutoff(action);
+  const tx = await DB.begin();
+
+  try {
+    const ledger = await restateUserLedger(tx, userId, [action]);
+    const result: CorporateActionApplication = {
+      actionId: action.id,
+      userId,
+      transactionsUpdated: ledger.transactionsUpdated,
+      transactionsInserted: ledger.transactionsInserted,
+      snapshotsUpdated: 0,
+      skipped: ledger.skipped
+    };
+
+    // Snapshots and current rows captured before the ex-date
+    const snapshots = await tx.queryAll<{ id: number; data: NormalizedHolding[] }>`
+      SELECT id, data FROM portfolio_snapshots WHERE user_id = ${userId} AND synced_at < ${cutoff}
+    `;
+    for (const row of adjustHoldingsRows(snapshots, action)) {
+      await tx.exec`
+        UPDATE portfolio_snapshots SET
+          data = ${JSON.stringify(row.holdings)}::jsonb, total_value = ${row.totalValue}, total_pnl = ${row.totalPnL}
+        WHERE id = ${row.id}
+      `;
+      result.snapshotsUpdated++;
+    }
+
+    const portfolios = await tx.queryAll<{ id: number; data: NormalizedHolding[] }>`
+      SELECT id, data FROM portfolios WHERE user_id = ${userId} AND last_sync < ${cutoff}
+    `;
+    for (const row of adjustHoldingsRows(portfolios, action)) {
+      await tx.exec`
+        UPDATE portfolios SET
+          data = ${JSON.stringify(row.holdings)}::jsonb, total_value = ${row.totalValue}, total_pnl = ${row.totalPnL}
+        WHERE id = ${row.id}
+      `;
+    }
+
+    await tx.exec`
+      INSERT INTO corporate_action_applications (
+        action_id, user_id, transactions_updated, transactions_inserted, snapshots_updated
+      )
+      VALUES (
+        ${action.id}, ${userId}, ${result.transactionsUpdated}, ${result.transactionsInserted},
+        ${result.snapshotsUpdated}
+      )
+    `;
+
+    await tx.commit();
+    return result;
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+}
+
+/**
+ * Re-run the actions already applied to a user that newly imported trades
+ * predate; without this, trades imported after the daily run has passed
+ * their ex-date would never be adjusted
+ *
+ * Later actions on a renamed instrument (mergers, ISIN changes) are re-run
+ * with them, so the whole chain is restated in order. Runs on the caller's
+ * transaction, so the restatement commits together with the new trades.
+ */
+export async function reapplyCorporateActions(
+  tx: Transaction,
+  userId: string,
+  transactions: NormalizedTransaction[]
+): Promise<void> {
+  const applied = await listAppliedCorporateActions(userId);
+  const chain: CorporateAction[] = [];
+
+  for (const action of applied) {
+    const predates = transactions.some(
+      (transaction) => transaction.tradeDate < action.exDate && matchesAction(transaction, action)
+    );
+    const renamed = chain.some((earlier) => earlier.newIsin?.toUpperCase() === action.isin.toUpperCase());
+    if (predates || renamed) {
+      chain.push(action);
+    }
+  }
+
+  if (chain.length === 0) {
+    return;
+  }
+
+  const ledger = await restateUserLedger(tx, userId, chain);
+  for (const reason of ledger.skipped) {
+    console.info('Corporate action not re-applied:', { userId, reason });
+  }
+}
+
+interface ListCorporateActionsRequest {
+  isin?: string;
+  includeUpcoming?: boolean;
+}
+
+interface ListCorporateActionsResponse {
+  actions: CorporateAction[];
+}
+
+/**
+ * List known corporate actions
+ * GET /portfolio/corporate-actions?isin=INE002A01018
+ */
+export const corporateActions = api(
+  { expose: true, auth: true, method: 'GET', path: '/portfolio/corporate-actions' },
+  async ({ isin, includeUpcoming }: ListCorporateActionsRequest): Promise<ListCorporateActionsResponse> => {
+    requireAuth();
+    return { actions: await listCorporateActions(isin, includeUpcoming ?? false) };
+  }
+);
+
+interface ApplyCorporateActionsResponse {
+  actionsLoaded: number;
+  applications: CorporateActionApplication[];
+}
+
+/**
+ * Load the fixture and apply every action whose ex-date has arrived
+ * Actions are applied in ex-date order so chained events compose
+ * Internal endpoint, triggered by cron
+ */
+export const applyCorporateActions = api(
+  { expose: false, method: 'POST', path: '/portfolio/corporate-actions/apply' },
+  async (): Promise<ApplyCorporateActionsResponse> => {
+    const actionsLoaded = await loadCorporateActionFixture();
+    const applications: CorporateActionApplication[] = [];
+
+    for (const action of await listCorporateActions()) {
+      for (const userId of await findPendingUsers(action)) {
+        applications.push(await applyCorporateAction(action, userId));
+      }
+    }
+
+    return { actionsLoaded, applications };
+  }
+);
+
+export const applyCorporateActionsJob = new CronJob('apply-corporate-actions', {
+  title: 'Apply corporate actions to ledgers and snapshots',
+  schedule: '0 21 * * *',  // 02:30 IST
+  endpoint: applyCorporateActions
+});
@@ -0,0 +1,231 @@
+/**
+ * Parsers for exchange bhavcopy files and holiday lists
+ *
+ * Why this exists:
+ * - End-of-day prices come from the exchanges' daily bhavcopy, not a live feed
+ * - Files are recognized by their header row, so names on disk don't matter
+ *
+ * Supported files (unzipped CSV, as downloaded):
+ * - NSE CM bhavcopy (cm01JAN2024bhav.csv): SYMBOL, SERIES, OPEN, HIGH, LOW, CLOSE, ..., TIMESTAMP, ..., ISIN
+ * - NSE/BSE UDiFF bhavcopy (BhavCopy_NSE_CM_0_0_0_20240708_F_0000.csv): TradDt, ..., Src, FinInstrmTp,
+ *   ISIN, TckrSymb, SctySrs, ..., OpnPric, HghPric, LwPric, ClsPric, ..., TtlTradgVol
+ * - BSE equity bhavcopy (EQ_ISINCODE_010124.CSV): SC_CODE, SC_NAME, ..., OPEN, HIGH, LOW, CLOSE, ...,
+ *   NO_OF_SHRS, ..., ISIN_CODE, TRADING_DATE
+ * - Exchange holiday list: Sr. No, Date, Day, Description
+ */
+
+import type { EodPrice } from '../shared/types';
+import { parseCsv } from '../shared/csv';
+import { parseDateCell, parseNumberCell } from './csv-import';
+
+export type BhavcopyFormat = 'nse_cm' | 'nse_udiff' | 'bse_eq' | 'bse_udiff';
+
+export interface ParsedBhavcopy {
+  format: BhavcopyFormat;
+  tradeDate: string;  // Latest date in the file (a bhavcopy holds one day)
+  prices: EodPrice[];  // One per ISIN and date
+  skipped: number;  // Equity rows without a valid ISIN, date or close
+}
+
+export interface MarketHoliday {
+  date: string;  // YYYY-MM-DD
+  description: string;
+}
+
+const ISIN_PATTERN = /^IN[A-Z0-9]{9}\d$/;
+
+/**
+ * NSE series that represent ordinary shares and ETFs; EQ wins when an ISIN has several
+ */
+const NSE_EQUITY_SERIES = new Set(['EQ', 'BE', 'BZ', 'SM', 'ST']);
+
+/**
+ * UDiFF instrument type for cash-market securities
+ */
+const UDIFF_STOCK = 'STK';
+
+/**
+ * Lowercase alphanumerics only, so 'SC_CODE' and 'Sc Code' compare equal
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Read CSV rows as header -> value records
+ */
+function readRecords(text: string): Array<Record<string, string>> {
+  const [headers = [], ...rows] = parseCsv(text.replace(/^﻿/, ''));
+  const keys = headers.map(normalizeHeader);
+  return rows
+    .filter((cells) => cells.some((cell) => cell.trim() !== ''))
+    .map((cells) => Object.fromEntries(keys.map((key, i) => [key, cells[i]?.trim() ?? ''])));
+}
+
+/**
+ * BSE writes two-digit years (01-Jan-24); the date parser takes four
+ */
+function parseTradeDate(value: string | undefined): string | undefined {
+  const expanded = value
+    ?.trim()
+    .replace(/^(\d{1,2}-[A-Za-z]{3}-)(\d{2})$/, (_, dayMonth: string, year: string) => `${dayMonth}20${year}`);
+  return parseDateCell(expanded);
+}
+
+function optionalNumber(value: string | undefined): number | undefined {
+  const parsed = parseNumberCell(value);
+  return parsed !== undefined && Number.isFinite(parsed) ? parsed : undefined;
+}
+
+/**
+ * Identify a price file from its first line
+ */
+export function detectPriceFile(text: string): BhavcopyFormat | 'holidays' | undefined {
+  const [firstLine = '', secondLine = ''] = text.replace(/^﻿/, '').split(/\r?\n/, 2);
+  const headerRow = parseCsv(firstLine)[0] ?? [];
+  const headers = new Set(headerRow.map(normalizeHeader));
+
+  if (headers.has('traddt') && headers.has('clspric') && headers.has('isin')) {
+    // Both exchanges publish UDiFF; the Src column says which one
+    const src = parseCsv(secondLine)[0]?.[headerRow.findIndex((header) => normalizeHeader(header) === 'src')];
+    return src?.trim() === 'BSE' ? 'bse_udiff' : 'nse_udiff';
+  }
+  if (headers.has('symbol') && headers.has('series') && headers.has('timestamp') && headers.has('isin')) {
+    return 'nse_cm';
+  }
+  if (headers.has('sccode') && headers.has('isincode') && headers.has('close')) return 'bse_eq';
+  if (headers.has('date') && (headers.has('description') || headers.has('holiday') || headers.has('holidays'))) {
+    return 'holidays';
+  }
+
+  return undefined;
+}
+
+/**
+ * One raw row mapped to a price, before validation
+ */
+interface PriceRow {
+  isin: string;
+  date?: string;
+  symbol: string;
+  exchange: EodPrice['exchange'];
+  series?: string;
+  open?: string;
+  high?: string;
+  low?: string;
+  close?: string;
+  volume?: string;
+}
+
+function mapRows(format: BhavcopyFormat, text: string): PriceRow[] {
+  const records = readRecords(text);
+
+  switch (format) {
+    case 'nse_cm':
+      return records
+        .filter((row) => NSE_EQUITY_SERIES.has(row.series))
+        .map((row) => ({
+          isin: row.isin,
+          date: parseTradeDate(row.timestamp),
+          symbol: row.symbol,
+          exchange: 'NSE',
+          series: row.series,
+          open: row.open,
+          high: row.high,
+          low: row.low,
+          close: row.close,
+          volume: row.tottrdqty
+        }));
+    case 'nse_udiff':
+    case 'bse_udiff':
+      return records
+        .filter((row) => row.fininstrmtp === UDIFF_STOCK)
+        .filter((row) => row.src === 'BSE' || NSE_EQUITY_SERIES.has(row.sctysrs))
+        .map((row) => ({
+          isin: row.isin,
+          date: parseTradeDate(row.traddt),
+          symbol: row.tckrsymb,
+          exchange: row.src === 'BSE' ? 'BSE' : 'NSE',
+          series: row.sctysrs,
+          open: row.opnpric,
+          high: row.hghpric,
+          low: row.lwpric,
+          close: row.clspric,
+          volume: row.ttltradgvol
+        }));
+    case 'bse_eq':
+      return records.map((row) => ({
+        isin: row.isincode,
+        date: parseTradeDate(row.tradingdate),
+        symbol: row.scname,
+        exchange: 'BSE',
+        open: row.open,
+        high: row.high,
+        low: row.low,
+        close: row.close,
+        volume: row.noofshrs
+      }));
+  }
+}
+
+/**
+ * Parse a bhavcopy CSV
+ * @returns undefined if the file is not a recognized bhavcopy
+ */
+export function parseBhavcopy(text: string): ParsedBhavcopy | undefined {
+  const format = detectPriceFile(text);
+  if (!format || format === 'holidays') {
+    return undefined;
+  }
+
+  const byKey = new Map<string, { price: EodPrice; series?: string }>();
+  let skipped = 0;
+
+  for (const row of mapRows(format, text)) {
+    const isin = row.isin.toUpperCase();
+    const close = optionalNumber(row.close);
+    if (!ISIN_PATTERN.test(isin) || !row.date || close === undefined || close <= 0) {
+      skipped++;
+      continue;
+    }
+
+    const key = `${isin}|${row.date}`;
+    const existing = byKey.get(key);
+    if (existing && existing.series === 'EQ') continue;
+
+    const volume = optionalNumber(row.volume);
+    byKey.set(key, {
+      series: row.series,
+      price: {
+        isin,
+        date: row.date,
+        symbol: row.symbol,
+        exchange: row.exchange,
+        open: optionalNumber(row.open),
+        high: optionalNumber(row.high),
+        low: optionalNumber(row.low),
+        close,
+        volume: volume === undefined ? undefined : Math.round(volume)
+      }
+    });
+  }
+
+  const prices = [...byKey.values()].map((entry) => entry.price);
+  const tradeDate = prices.reduce((latest, price) => (price.date > latest ? price.date : latest), '');
+  return tradeDate ? { format, tradeDate, prices, skipped } : undefined;
+}
+
+/**
+ * Parse an exchange holiday list
+ * @returns undefined if the file is not a holiday list
+ */
+export function parseHolidayList(text: string): MarketHoliday[] | undefined {
+  if (detectPriceFile(text) !== 'holidays') {
+    return undefined;
+  }
+
+  return readRecords(text).flatMap((row) => {
+    const date = parseTradeDate(row.date);
+    return date ? [{ date, description: row.description || row.holiday || row.holidays || '' }] : [];
+  });
+}
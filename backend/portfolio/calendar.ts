@@ -0,0 +1,82 @@
+/**
+ * NSE/BSE trading calendar
+ *
+ * Why this exists:
+ * - A missing price only counts as a gap on a day the exchanges were open
+ * - Weekends are implied; exchange holidays come from the market_holidays table
+ *
+ * Dates are YYYY-MM-DD calendar days in IST, compared as UTC midnights.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * IST is a fixed UTC+05:30 offset (no DST)
+ */
+const IST_OFFSET_MS = 330 * 60 * 1000;
+
+function toTime(date: string): number {
+  return Date.parse(`${date}T00:00:00Z`);
+}
+
+function fromTime(time: number): string {
+  return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Calendar date of an instant in IST
+ */
+export function istDate(date: Date): string {
+  return fromTime(date.getTime() + IST_OFFSET_MS);
+}
+
+/**
+ * Today's date in IST
+ */
+export function istToday(): string {
+  return istDate(new Date());
+}
+
+/**
+ * Calendar date a number of days before or after another
+ */
+export function addDays(date: string, days: number): string {
+  return fromTime(toTime(date) + days * DAY_MS);
+}
+
+export function isWeekend(date: string): boolean {
+  const day = new Date(toTime(date)).getUTCDay();
+  return day === 0 || day === 6;
+}
+
+/**
+ * Whether the exchanges traded on a date
+ */
+export function isTradingDay(date: string, holidays: ReadonlySet<string>): boolean {
+  return !isWeekend(date) && !holidays.has(date);
+}
+
+/**
+ * Trading days between two dates (inclusive), oldest first
+ */
+export function tradingDays(from: string, to: string, holidays: ReadonlySet<string>): string[] {
+  const days: string[] = [];
+  for (let time = toTime(from); time <= toTime(to); time += DAY_MS) {
+    const date = fromTime(time);
+    if (isTradingDay(date, holidays)) {
+      days.push(date);
+    }
+  }
+  return days;
+}
+
+/**
+ * Last trading day on or before a date
+ */
+export function previousTradingDay(date: string, holidays: ReadonlySet<string>): string {
+  let day = date;
+  while (!isTradingDay(day, holidays)) {
+    day = addDays(day, -1);
+  }
+  return day;
+}
@@ -0,0 +1,286 @@
+/**
+ * Indian capital gains classification and financial-year reports
+ *
+ * Why this exists:
+ * - Splits realized gains into STCG/LTCG using Income Tax Act holding-period rules
+ * - Applies Section 112A grandfathering for equity bought before 1 Feb 2018
+ * - Produces a per-financial-year report users can hand to their CA
+ *
+ * Rules applied:
+ * - Equity (listed shares, equity ETFs, equity-oriented funds): long-term after 12 months
+ * - Listed bonds: long-term after 12 months
+ * - Debt funds: always short-term if bought on/after 1 Apr 2023 (Section 50AA);
+ *   otherwise long-term after 36 months, or 24 months for sales on/after 23 Jul 2024
+ * - Mutual funds: unclassified until an override names equity or debt, and left
+ *   out of the STCG/LTCG totals (the asset type alone can't tell them apart)
+ */
+
+import type { NormalizedTransaction } from '../shared/types';
+import { matchLots, type LotMatchingOptions, type RealizedLot, type TaxLot } from './tax-lots';
+
+/**
+ * Tax treatment bucket of an instrument
+ */
+export type TaxClass = 'equity' | 'debt_fund' | 'listed_bond';
+
+/**
+ * Tax class of a statement line; 'unclassified' when no override resolves a fund
+ */
+export type EntryTaxClass = TaxClass | 'unclassified';
+
+export type GainTerm = 'short' | 'long';
+
+export interface CapitalGainsOptions extends LotMatchingOptions {
+  /** Override tax class by ISIN (e.g. debt funds, gold ETFs) */
+  taxClassOverrides?: Record<string, TaxClass>;
+  /** Fair market value per unit on 31 Jan 2018, by ISIN */
+  grandfatheredFmv?: Record<string, number>;
+}
+
+/**
+ * One line of the capital gains statement
+ */
+export interface CapitalGainEntry {
+  lotId: string;  // Purchase lot consumed; name it in a specific-lot selection
+  saleTradeId?: string;
+  symbol: string;
+  isin?: string;
+  taxClass: EntryTaxClass;
+  term?: GainTerm;  // Unset while unclassified
+  quantity: number;
+  acquiredOn: string;
+  soldOn: string;
+  actualCost: number;
+  fmv2018?: number;
+  costOfAcquisition: number;  // After grandfathering
+  saleValue: number;
+  gain: number;
+}
+
+export interface CapitalGainsSummary {
+  entries: number;
+  saleValue: number;
+  costOfAcquisition: number;
+  gain: number;
+}
+
+/**
+ * Capital gains report for one financial year (April to March)
+ */
+export interface CapitalGainsReport {
+  financialYear: string;  // e.g. '2024-25'
+  shortTerm: CapitalGainsSummary;
+  longTerm: CapitalGainsSummary;
+  unclassified: CapitalGainsSummary;  // Needs a tax class override before it can be filed
+  entries: CapitalGainEntry[];
+  openLots: TaxLot[];  // Lots still held after the whole ledger, with the ids selections can name
+  warnings: string[];
+}
+
+const GRANDFATHERING_CUTOFF = '2018-02-01';
+const DEBT_FUND_NO_LTCG_FROM = '2023-04-01';
+const DEBT_FUND_24_MONTH_FROM = '2024-07-23';
+
+/**
+ * Financial year a date falls in, e.g. '2024-05-10' -> '2024-25'
+ */
+export function financialYearOf(date: string): string {
+  const year = Number(date.slice(0, 4));
+  const month = Number(date.slice(5, 7));
+  const start = month >= 4 ? year : year - 1;
+  return `${start}-${String((start + 1) % 100).padStart(2, '0')}`;
+}
+
+/**
+ * Whether a label names a financial year, e.g. '2024-25' (not '2024-30')
+ */
+export function isFinancialYear(label: string): boolean {
+  const match = /^(\d{4})-(\d{2})$/.exec(label);
+  return !!match && Number(match[2]) === (Number(match[1]) + 1) % 100;
+}
+
+/**
+ * Inclusive date bounds of a financial year label
+ */
+export function financialYearBounds(financialYear: string): { from: string; to: string } {
+  const start = Number(financialYear.slice(0, 4));
+  return { from: `${start}-04-01`, to: `${start + 1}-03-31` };
+}
+
+function addMonths(date: string, months: number): string {
+  const d = new Date(`${date}T00:00:00Z`);
+  d.setUTCMonth(d.getUTCMonth() + months);
+  return d.toISOString().slice(0, 10);
+}
+
+/**
+ * Default tax class from asset type
+ * ETFs default to equity; mutual funds may be equity or debt, so they stay unclassified
+ */
+export function defaultTaxClass(lot: Pick<RealizedLot, 'assetType'>): EntryTaxClass {
+  switch (lot.assetType) {
+    case 'bond':
+      return 'listed_bond';
+    case 'mutual_fund':
+      return 'unclassified';
+    default:
+      return 'equity';
+  }
+}
+
+/**
+ * Classify a sale as short- or long-term
+ * "Held for more than N months" means the sale is after acquiredOn + N months
+ */
+export function classifyTerm(taxClass: TaxClass, acquiredOn: string, soldOn: string): GainTerm {
+  if (taxClass === 'debt_fund') {
+    if (acquiredOn >= DEBT_FUND_NO_LTCG_FROM) {
+      return 'short';
+    }
+    const months = soldOn >= DEBT_FUND_24_MONTH_FROM ? 24 : 36;
+    return soldOn > addMonths(acquiredOn, months) ? 'long' : 'short';
+  }
+
+  return soldOn > addMonths(acquiredOn, 12) ? 'long' : 'short';
+}
+
+/**
+ * Build a capital gains entry from a realized lot
+ * Section 112A: for equity LTCG on pre-2018 lots, cost is
+ * max(actual cost, min(FMV on 31 Jan 2018, sale value))
+ */
+export function toCapitalGainEntry(
+  lot: RealizedLot,
+  options: CapitalGainsOptions,
+  warnings: string[]
+): CapitalGainEntry {
+  const taxClass = (lot.isin && options.taxClassOverrides?.[lot.isin]) || defaultTaxClass(lot);
+  const term = taxClass === 'unclassified' ? undefined : classifyTerm(taxClass, lot.acquiredOn, lot.soldOn);
+  let costOfAcquisition = lot.costBasis;
+  let fmv2018: number | undefined;
+
+  if (taxClass === 'unclassified') {
+    warnings.push(
+      `${lot.symbol}: mutual fund tax class unknown, set taxClassOverrides[${lot.isin ?? 'ISIN'}] ` +
+      "to 'equity' or 'debt_fund'"
+    );
+  }
+
+  if (taxClass === 'equity' && term === 'long' && lot.acquiredOn < GRANDFATHERING_CUTOFF) {
+    const fmvPerUnit = lot.isin ? options.grandfatheredFmv?.[lot.isin] : undefined;
+    if (fmvPerUnit === undefined) {
+      warnings.push(`${lot.symbol}: no 31-Jan-2018 FMV available, grandfathering not applied`);
+    } else {
+      fmv2018 = fmvPerUnit * lot.quantity;
+      costOfAcquisition = Math.max(lot.costBasis, Math.min(fmv2018, lot.saleProceeds));
+    }
+  }
+
+  return {
+    lotId: lot.lotId,
+    saleTradeId: lot.saleTradeId,
+    symbol: lot.symbol,
+    isin: lot.isin,
+    taxClass,
+    term,
+    quantity: lot.quantity,
+    acquiredOn: lot.acquiredOn,
+    soldOn: lot.soldOn,
+    actualCost: lot.costBasis,
+    fmv2018,
+    costOfAcquisition,
+    saleValue: lot.saleProceeds,
+    gain: lot.saleProceeds - costOfAcquisition
+  };
+}
+
+function summarize(entries: CapitalGainEntry[]): CapitalGainsSummary {
+  return entries.reduce<CapitalGainsSummary>(
+    (sum, entry) => ({
+      entries: sum.entries + 1,
+      saleValue: sum.saleValue + entry.saleValue,
+      costOfAcquisition: sum.costOfAcquisition + entry.costOfAcquisition,
+      gain: sum.gain + entry.gain
+    }),
+    { entries: 0, saleValue: 0, costOfAcquisition: 0, gain: 0 }
+  );
+}
+
+/**
+ * Compute the capital gains report for a financial year
+ * The full ledger is replayed so lots bought in earlier years are matched correctly
+ *
+ * @param transactions - Complete ledger for the user
+ * @param financialYear - e.g. '2024-25'
+ * @param options - Lot matching, tax class overrides and grandfathering FMVs
+ */
+export function buildCapitalGainsReport(
+  transactions: NormalizedTransaction[],
+  financialYear: string,
+  options: CapitalGainsOptions = { method: 'fifo' }
+): CapitalGainsReport {
+  const { realized, openLots, warnings } = matchLots(transactions, options);
+  const { from, to } = financialYearBounds(financialYear);
+
+  const entries = realized
+    .filter((lot) => lot.soldOn >= from && lot.soldOn <= to)
+    .map((lot) => toCapitalGainEntry(lot, options, warnings));
+
+  return {
+    financialYear,
+    shortTerm: summarize(entries.filter((entry) => entry.term === 'short')),
+    longTerm: summarize(entries.filter((entry) => entry.term === 'long')),
+    unclassified: summarize(entries.filter((entry) => entry.taxClass === 'unclassified')),
+    entries,
+    openLots,
+    warnings
+  };
+}
+
+/**
+ * Combine reports of separately matched ledgers (e.g. one per portfolio)
+ */
+export function mergeCapitalGainsReports(financialYear: string, reports: CapitalGainsReport[]): CapitalGainsReport {
+  const entries = reports
+    .flatMap((report) => report.entries)
+    .sort((a, b) => a.soldOn.localeCompare(b.soldOn));
+
+  return {
+    financialYear,
+    shortTerm: summarize(entries.filter((entry) => entry.term === 'short')),
+    longTerm: summarize(entries.filter((entry) => entry.term === 'long')),
+    unclassified: summarize(entries.filter((entry) => entry.taxClass === 'unclassified')),
+    entries,
+    openLots: reports.flatMap((report) => report.openLots),
+    warnings: reports.flatMap((report) => report.warnings)
+  };
+}
+
+/**
+ * Render a report as CSV (one row per matched lot) for sharing with a CA
+ */
+export function capitalGainsReportToCsv(report: CapitalGainsReport): string {
+  const header = [
+    'Symbol', 'ISIN', 'Tax Class', 'Term', 'Quantity', 'Acquired On', 'Sold On',
+    'Actual Cost', 'FMV 31-Jan-2018', 'Cost of Acquisition', 'Sale Value', 'Gain'
+  ];
+
+  const rows = report.entries.map((entry) => [
+    entry.symbol,
+    entry.isin ?? '',
+    entry.taxClass,
+    entry.term === 'long' ? 'LTCG' : entry.term === 'short' ? 'STCG' : '',
+    String(entry.quantity),
+    entry.acquiredOn,
+    entry.soldOn,
+    entry.actualCost.toFixed(2),
+    entry.fmv2018 !== undefined ? entry.fmv2018.toFixed(2) : '',
+    entry.costOfAcquisition.toFixed(2),
+    entry.saleValue.toFixed(2),
+    entry.gain.toFixed(2)
+  ]);
+
+  return [header, ...rows]
+    .map((row) => row.map((cell) => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(','))
+    .join('\n');
+}
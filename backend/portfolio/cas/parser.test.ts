@@ -0,0 +1,124 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { classifyCasTransaction, parseCasDate, parseCasNumber, parseCasStatement } from './parser';
+
+function fixtureLines(name: string): string[] {
+  return readFileSync(join(__dirname, '../fixtures/cas', name), 'utf8').split('\n');
+}
+
+describe('parseCasStatement', () => {
+  it('reads folios, schemes, units, NAV and values from a CAMS statement', () => {
+    const statement = parseCasStatement(fixtureLines('cams-fy2023-24.txt'));
+
+    expect(statement.period).toEqual({ from: '2023-04-01', to: '2024-03-31' });
+    expect(statement.folios.map((folio) => [folio.amc, folio.folioNumber])).toEqual([
+      ['HDFC Mutual Fund', '1234567 / 89'],
+      ['ICICI Prudential Mutual Fund', '7654321/12']
+    ]);
+
+    const [top100] = statement.folios[0].schemes;
+    expect(top100).toMatchObject({
+      name: 'HDFC Top 100 Fund - Regular Plan - Growth',
+      isin: 'INF179K01BB8',
+      schemeCode: 'B205RG',
+      registrar: 'CAMS',
+      openingUnits: 0,
+      closingUnits: 24.119,
+      nav: 345.6789,
+      navDate: '2024-03-31',
+      costValue: 7038,
+      marketValue: 8337.47
+    });
+  });
+
+  it('parses transactions and folds stamp duty into the same-day purchase', () => {
+    const [top100] = parseCasStatement(fixtureLines('cams-fy2023-24.txt')).folios[0].schemes;
+
+    expect(top100.transactions).toEqual([
+      {
+        date: '2023-04-01',
+        description: 'Purchase - Systematic Investment',
+        type: 'purchase',
+        amount: 5000,
+        units: 17.222,
+        nav: 290.3188,
+        balance: 17.222,
+        stampDuty: 0.25
+      },
+      expect.objectContaining({ date: '2023-05-02', type: 'purchase', units: 16.897, stampDuty: 0.25 }),
+      expect.objectContaining({ date: '2023-12-15', type: 'redemption', amount: -3500, units: -10, balance: 24.119 })
+    ]);
+  });
+
+  it('keeps the unit balance on payout rows without units', () => {
+    const [fund] = parseCasStatement(fixtureLines('cams-fy2023-24.txt')).folios[1].schemes;
+
+    expect(fund.transactions.map((tx) => [tx.type, tx.units, tx.balance])).toEqual([
+      ['dividend_reinvest', 5, 105],
+      ['redemption', -105, 0],
+      ['dividend_payout', 0, 0]
+    ]);
+    expect(fund.transactions[2].amount).toBe(84);
+  });
+
+  it('reads a KFintech statement with switches', () => {
+    const statement = parseCasStatement(fixtureLines('kfintech-fy2023-24.txt'));
+    const [midcap] = statement.folios[0].schemes;
+
+    expect(statement.folios[0]).toMatchObject({ amc: 'Axis Mutual Fund', folioNumber: '91234567890' });
+    expect(midcap).toMatchObject({
+      isin: 'INF846K01DP8',
+      registrar: 'KFINTECH',
+      openingUnits: 120.5,
+      closingUnits: 223.957
+    });
+    expect(midcap.transactions.map((tx) => [tx.type, tx.units, tx.stampDuty])).toEqual([
+      ['switch_in', 123.457, 0.5],
+      ['switch_out', -20, 0]
+    ]);
+  });
+
+  it('never keeps investor identity', () => {
+    const text = JSON.stringify(parseCasStatement(fixtureLines('cams-fy2023-24.txt')));
+
+    expect(text).not.toContain('XXXXX0000X');
+    expect(text).not.toContain('investor@example.com');
+  });
+
+  it('rejects text that is not a CAS', () => {
+    expect(() => parseCasStatement(['Bank statement', '01-Apr-2023  UPI payment  500.00'])).toThrow(
+      'does not look like a CAMS/KFintech Consolidated Account Statement'
+    );
+  });
+});
+
+describe('CAS field parsing', () => {
+  it.each([
+    ['01-Apr-2023', '2023-04-01'],
+    ['31-dec-2024', '2024-12-31']
+  ])('parses the date %s', (value, expected) => {
+    expect(parseCasDate(value)).toBe(expected);
+  });
+
+  it.each([
+    ['5,000.00', 5000],
+    ['(1,234.50)', -1234.5],
+    ['-10.000', -10],
+    ['.5', 0.5]
+  ])('parses the number %s', (value, expected) => {
+    expect(parseCasNumber(value)).toBe(expected);
+  });
+
+  it.each([
+    ['Purchase - Systematic Investment', 10, 'purchase'],
+    ['Redemption', -5, 'redemption'],
+    ['Switch Out - To Liquid Fund', -5, 'switch_out'],
+    ['Lateral Shift In', 5, 'switch_in'],
+    ['IDCW Reinvestment', 1, 'dividend_reinvest'],
+    ['IDCW Paid', 0, 'dividend_payout'],
+    ['Address updated', 0, 'other']
+  ] as const)('classifies %s', (description, units, expected) => {
+    expect(classifyCasTransaction(description, units)).toBe(expected);
+  });
+});
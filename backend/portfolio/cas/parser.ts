@@ -0,0 +1,274 @@
+/**
+ * CAMS/KFintech Consolidated Account Statement (CAS) parser
+ *
+ * Why this exists:
+ * - A CAS is the only complete picture of an investor's mutual fund folios
+ * - Turns the statement's text lines into folios, schemes and transactions
+ * - Deliberately ignores investor identity (name, PAN, email, address)
+ *
+ * Expected layout (detailed CAS, per scheme):
+ *   HDFC Mutual Fund
+ *   Folio No: 1234567 / 89
+ *   B205RG-HDFC Top 100 Fund - Regular Plan - Growth - ISIN: INF179K01BB8 Registrar : CAMS
+ *   Opening Unit Balance: 0.000
+ *   01-Apr-2023  Purchase - Systematic Investment  5,000.00  17.222  290.3188  17.222
+ *   01-Apr-2023  *** Stamp Duty ***  0.25
+ *   Closing Unit Balance: 17.222  NAV on 31-Mar-2024: INR 345.6789  Total Cost Value: 5,000.00
+ *   Market Value on 31-Mar-2024: INR 5,953.28
+ */
+
+import { invalidArgument } from '../../shared/errors';
+
+export type CasTransactionType =
+  | 'purchase'
+  | 'redemption'
+  | 'switch_in'
+  | 'switch_out'
+  | 'dividend_reinvest'
+  | 'dividend_payout'
+  | 'other';
+
+export interface CasTransaction {
+  date: string;  // YYYY-MM-DD
+  description: string;
+  type: CasTransactionType;
+  amount: number;
+  units: number;  // Negative for outflows
+  nav: number;
+  balance: number;
+  stampDuty: number;
+}
+
+export interface CasScheme {
+  name: string;
+  isin?: string;
+  schemeCode?: string;
+  registrar?: string;
+  openingUnits: number;
+  closingUnits: number;
+  nav?: number;
+  navDate?: string;
+  costValue?: number;
+  marketValue?: number;
+  transactions: CasTransaction[];
+}
+
+export interface CasFolio {
+  folioNumber: string;
+  amc: string;
+  schemes: CasScheme[];
+}
+
+export interface CasStatement {
+  period?: { from: string; to: string };
+  folios: CasFolio[];
+}
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12'
+};
+
+const DATE = String.raw`\d{2}-[A-Za-z]{3}-\d{4}`;
+const NUMBER_TOKEN = /^\(?-?[\d,]*\.?\d+\)?$/;
+
+const PERIOD_PATTERN = new RegExp(`(${DATE})\\s+to\\s+(${DATE})`, 'i');
+const FOLIO_PATTERN = /Folio No\s*:\s*(.+?)(?:\s{2,}|\s+KYC\b|\s+PAN\b|$)/i;
+const AMC_PATTERN = /^([A-Za-z0-9&.' ]+Mutual Fund)$/i;
+const SCHEME_PATTERN = /^(?:([A-Z0-9]+)-)?(.+?)\s*-\s*ISIN\s*:\s*([A-Z0-9]{12})/;
+const REGISTRAR_PATTERN = /Registrar\s*:\s*([A-Za-z]+)/i;
+const TRANSACTION_PATTERN = new RegExp(`^(${DATE})\\s+(.+)$`);
+const OPENING_PATTERN = /Opening Unit Balance\s*:\s*(\(?[\d,.]+\)?)/i;
+const CLOSING_PATTERN = /Closing Unit Balance\s*:\s*(\(?[\d,.]+\)?)/i;
+const NAV_PATTERN = new RegExp(`NAV on (${DATE})\\s*:\\s*INR\\s*([\\d,.]+)`, 'i');
+const COST_PATTERN = /Cost Value\s*:\s*(?:INR\s*)?([\d,.]+)/i;
+const MARKET_VALUE_PATTERN = new RegExp(`Market Value on ${DATE}\\s*:\\s*INR\\s*([\\d,.]+)`, 'i');
+
+/**
+ * '01-Apr-2023' -> '2023-04-01'
+ */
+export function parseCasDate(value: string): string {
+  const [day, month, year] = value.split('-');
+  const mm = MONTHS[month.toLowerCase()];
+  if (!mm) {
+    throw invalidArgument(`Unrecognized date in statement: ${value}`);
+  }
+  return `${year}-${mm}-${day}`;
+}
+
+/**
+ * '5,000.00' -> 5000, '(1,234.50)' -> -1234.5
+ */
+export function parseCasNumber(value: string): number {
+  const negative = value.startsWith('(') && value.endsWith(')');
+  const parsed = Number(value.replace(/[(),]/g, ''));
+  return negative ? -Math.abs(parsed) : parsed;
+}
+
+/**
+ * Classify a transaction from its description and unit direction
+ */
+export function classifyCasTransaction(description: string, units: number): CasTransactionType {
+  const text = description.toLowerCase();
+
+  if (/switch|lateral shift/.test(text)) {
+    return units < 0 ? 'switch_out' : 'switch_in';
+  }
+  if (/dividend|idcw/.test(text)) {
+    return /reinvest/.test(text) ? 'dividend_reinvest' : 'dividend_payout';
+  }
+  if (/redemption|redeem|repurchase/.test(text) || units < 0) {
+    return 'redemption';
+  }
+  if (/purchase|systematic|sip|investment|nfo|allotment/.test(text) || units > 0) {
+    return 'purchase';
+  }
+  return 'other';
+}
+
+/**
+ * Split trailing numeric columns off a transaction line
+ */
+function splitTrailingNumbers(rest: string): { description: string; numbers: number[] } {
+  const tokens = rest.split(/\s+/);
+  const numbers: number[] = [];
+
+  while (tokens.length > 1 && NUMBER_TOKEN.test(tokens[tokens.length - 1])) {
+    numbers.unshift(parseCasNumber(tokens.pop()!));
+  }
+
+  return { description: tokens.join(' '), numbers };
+}
+
+/**
+ * Parse CAS text lines into a structured statement
+ *
+ * @param lines - Text lines (see extractPdfLines)
+ * @throws APIError if the text does not look like a CAMS/KFintech CAS
+ */
+export function parseCasStatement(lines: string[]): CasStatement {
+  const statement: CasStatement = { folios: [] };
+  let amc = '';
+  let folio: CasFolio | undefined;
+  let scheme: CasScheme | undefined;
+
+  for (const raw of lines) {
+    const line = raw.trim();
+
+    if (!statement.period) {
+      const period = line.match(PERIOD_PATTERN);
+      if (period) {
+        statement.period = { from: parseCasDate(period[1]), to: parseCasDate(period[2]) };
+        continue;
+      }
+    }
+
+    const amcMatch = line.match(AMC_PATTERN);
+    if (amcMatch) {
+      amc = amcMatch[1].trim();
+      continue;
+    }
+
+    const folioMatch = line.match(FOLIO_PATTERN);
+    if (folioMatch) {
+      const folioNumber = folioMatch[1].replace(/\s+/g, ' ').trim();
+      folio = statement.folios.find((f) => f.folioNumber === folioNumber && f.amc === amc);
+      if (!folio) {
+        folio = { folioNumber, amc, schemes: [] };
+        statement.folios.push(folio);
+      }
+      scheme = undefined;
+      continue;
+    }
+
+    const schemeMatch = line.match(SCHEME_PATTERN);
+    if (schemeMatch && folio) {
+      scheme = {
+        name: schemeMatch[2].replace(/\s+/g, ' ').trim(),
+        isin: schemeMatch[3],
+        schemeCode: schemeMatch[1],
+        registrar: line.match(REGISTRAR_PATTERN)?.[1]?.toUpperCase(),
+        openingUnits: 0,
+        closingUnits: 0,
+        transactions: []
+      };
+      folio.schemes.push(scheme);
+      continue;
+    }
+
+    if (!scheme) {
+      continue;
+    }
+
+    const opening = line.match(OPENING_PATTERN);
+    if (opening) {
+      scheme.openingUnits = parseCasNumber(opening[1]);
+    }
+
+    const closing = line.match(CLOSING_PATTERN);
+    const nav = line.match(NAV_PATTERN);
+    const cost = line.match(COST_PATTERN);
+    const marketValue = line.match(MARKET_VALUE_PATTERN);
+
+    if (closing) scheme.closingUnits = parseCasNumber(closing[1]);
+    if (nav) {
+      scheme.navDate = parseCasDate(nav[1]);
+      scheme.nav = parseCasNumber(nav[2]);
+    }
+    if (cost) scheme.costValue = parseCasNumber(cost[1]);
+    if (marketValue) scheme.marketValue = parseCasNumber(marketValue[1]);
+    if (opening || closing || nav || cost || marketValue) {
+      continue;
+    }
+
+    const transaction = line.match(TRANSACTION_PATTERN);
+    if (!transaction) {
+      continue;
+    }
+
+    const date = parseCasDate(transaction[1]);
+    const { description, numbers } = splitTrailingNumbers(transaction[2]);
+
+    // Stamp duty / STT / TDS rows carry a single amount and belong to the
+    // preceding transaction of the same day
+    if (description.includes('***')) {
+      const previous = scheme.transactions[scheme.transactions.length - 1];
+      if (previous && previous.date === date && /stamp duty/i.test(description)) {
+        previous.stampDuty += Math.abs(numbers[0] ?? 0);
+      }
+      continue;
+    }
+
+    if (numbers.length >= 4) {
+      const [amount, units, price, balance] = numbers.slice(-4);
+      scheme.transactions.push({
+        date,
+        description,
+        type: classifyCasTransaction(description, units),
+        amount,
+        units,
+        nav: price,
+        balance,
+        stampDuty: 0
+      });
+    } else if (numbers.length >= 1) {
+      // Payout rows (e.g. IDCW paid out) have an amount but no units
+      scheme.transactions.push({
+        date,
+        description,
+        type: classifyCasTransaction(description, 0),
+        amount: numbers[0],
+        units: 0,
+        nav: numbers[1] ?? 0,
+        balance: scheme.transactions[scheme.transactions.length - 1]?.balance ?? scheme.openingUnits,
+        stampDuty: 0
+      });
+    }
+  }
+
+  if (statement.folios.length === 0) {
+    throw invalidArgument('This does not look like a CAMS/KFintech Consolidated Account Statement.');
+  }
+
+  return statement;
+}
@@ -0,0 +1,112 @@
+/**
+ * PDF text extraction for statements
+ * 
+ * Why this exists:
+ * - CAS statements arrive as (password-protected) PDFs
+ * - Rebuilds visual text lines from positioned PDF text runs
+ * - Keeps column gaps as double spaces so parsers can split columns
+ */
+
+import { getDocument } from 'pdfjs-dist/legacy/build/pdf.mjs';
+import { invalidArgument } from '../../shared/errors';
+
+/**
+ * Text runs closer than this (in PDF units) to the same baseline share a line
+ */
+const LINE_TOLERANCE = 2;
+
+/**
+ * Horizontal gap (in PDF units) treated as a column break
+ */
+const COLUMN_GAP = 8;
+
+interface PositionedText {
+  str: string;
+  x: number;
+  y: number;
+  width: number;
+}
+
+/**
+ * Group positioned text runs into lines, top to bottom, left to right
+ */
+function toLines(items: PositionedText[]): string[] {
+  const rows: Array<{ y: number; items: PositionedText[] }> = [];
+
+  for (const item of [...items].sort((a, b) => b.y - a.y)) {
+    const row = rows.find((candidate) => Math.abs(candidate.y - item.y) <= LINE_TOLERANCE);
+    if (row) {
+      row.items.push(item);
+    } else {
+      rows.push({ y: item.y, items: [item] });
+    }
+  }
+
+  return rows
+    .map((row) => {
+      let line = '';
+      let end = -Infinity;
+
+      for (const item of row.items.sort((a, b) => a.x - b.x)) {
+        if (line.length > 0) {
+          line += item.x - end > COLUMN_GAP ? '  ' : (line.endsWith(' ') || item.str.startsWith(' ') ? '' : ' ');
+        }
+        line += item.str;
+        end = item.x + item.width;
+      }
+
+      return line.trim();
+    })
+    .filter((line) => line.length > 0);
+}
+
+/**
+ * Extract text lines from a PDF
+ * 
+ * @param data - PDF bytes
+ * @param password - Password for protected PDFs (CAS PDFs use the investor's PAN)
+ * @returns All text lines, page by page
+ * @throws APIError if the PDF is unreadable or the password is missing/wrong
+ */
+export async function extractPdfLines(data: Uint8Array, password?: string): Promise<string[]> {
+  const task = getDocument({ data, password, isEvalSupported: false, useSystemFonts: false });
+
+  let document;
+  try {
+    document = await task.promise;
+  } catch (error) {
+    if (error instanceof Error && error.name === 'PasswordException') {
+      // pdf.js: code 1 = password needed, 2 = incorrect password
+      const { code } = error as Error & { code?: number };
+      throw invalidArgument(
+        code === 2 ? 'Incorrect PDF password.' : 'This PDF is password protected. Please provide the password.'
+      );
+    }
+    throw invalidArgument('Could not read the PDF file.', {
+      reason: error instanceof Error ? error.message : String(error)
+    });
+  }
+
+  try {
+    const lines: string[] = [];
+
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const items: PositionedText[] = [];
+
+      for (const item of content.items) {
+        if ('str' in item && item.str.trim().length > 0) {
+          items.push({ str: item.str, x: item.transform[4], y: item.transform[5], width: item.width });
+        }
+      }
+
+      lines.push(...toLines(items));
+      page.cleanup();
+    }
+
+    return lines;
+  } finally {
+    await document.destroy();
+  }
+}
@@ -0,0 +1,108 @@
+import { readFileSync } from 'fs';
+import { join } from 'path';
+import { describe, expect, it } from 'vitest';
+import { ErrCode } from 'encore.dev/api';
+import type { ConnectorSession } from './types';
+import { validateTransactions, normalizePortfolio } from '../schema';
+import { parseCasStatement } from '../cas/parser';
+import { casConnector } from './cas.connector';
+
+const FIXTURES = join(__dirname, '../fixtures/cas');
+
+/**
+ * cams-fy2023-24.pdf is cams-fy2023-24.txt rendered to a PDF and protected
+ * with the (redacted) PAN as password, like a real CAS
+ */
+const PDF_PASSWORD = 'XXXXX0000X';
+
+function sessionFor(name: string): ConnectorSession {
+  const statement = parseCasStatement(readFileSync(join(FIXTURES, name), 'utf8').split('\n'));
+  return { connectorId: 'cas', accountId: 'fixture', data: { statement } };
+}
+
+async function tradesOf(name: string) {
+  const session = sessionFor(name);
+  const raw = await casConnector.fetchTrades(session, { from: '2000-01-01', to: '2099-12-31' });
+  return raw.map((trade) => casConnector.mapTrade(trade));
+}
+
+describe('casConnector', () => {
+  it('opens a password-protected statement', async () => {
+    const file = readFileSync(join(FIXTURES, 'cams-fy2023-24.pdf')).toString('base64');
+    const session = await casConnector.authenticate({ file, password: PDF_PASSWORD });
+
+    expect(session.accountId).toBe('1234567 / 89,7654321/12');
+    const holdings = await casConnector.fetchHoldings(session);
+    expect(holdings.map(({ scheme }) => scheme.isin)).toEqual(['INF179K01BB8']);
+  });
+
+  it.each([
+    [undefined, 'This PDF is password protected. Please provide the password.'],
+    ['WRONG0000X', 'Incorrect PDF password.']
+  ])('rejects the statement with password %s', async (password, message) => {
+    const file = readFileSync(join(FIXTURES, 'cams-fy2023-24.pdf')).toString('base64');
+
+    await expect(casConnector.authenticate(password ? { file, password } : { file })).rejects.toMatchObject({
+      code: ErrCode.InvalidArgument,
+      message
+    });
+  });
+
+  it('maps held schemes to valid mutual fund holdings', async () => {
+    const session = sessionFor('cams-fy2023-24.txt');
+    const holdings = (await casConnector.fetchHoldings(session)).map((holding) => casConnector.mapHolding(holding));
+
+    expect(holdings).toEqual([
+      expect.objectContaining({
+        symbol: 'HDFC Top 100 Fund - Regular Plan - Growth',
+        isin: 'INF179K01BB8',
+        quantity: 24.119,
+        currentPrice: 345.6789,
+        assetType: 'mutual_fund',
+        purchaseDate: '2023-04-01',
+        lastTradeDate: '2023-12-15'
+      })
+    ]);
+    expect(holdings[0].avgPrice).toBeCloseTo(7038 / 24.119, 6);
+    expect(() => normalizePortfolio('user-1', 'cas', holdings)).not.toThrow();
+  });
+
+  it('maps every transaction to a valid ledger entry, including payouts after a full redemption', async () => {
+    const trades = await tradesOf('cams-fy2023-24.txt');
+
+    expect(() => validateTransactions(trades)).not.toThrow();
+    expect(trades.map((trade) => [trade.type, trade.quantity])).toEqual([
+      ['buy', 17.222],
+      ['buy', 16.897],
+      ['sell', 10],
+      ['buy', 5],
+      ['sell', 105],
+      ['dividend', 1]
+    ]);
+    expect(trades[5].quantity * trades[5].price).toBe(84);
+    expect(trades[0].charges).toBe(0.25);
+  });
+
+  it('gives a transaction the same trade ID in overlapping statements', async () => {
+    const fullYear = await tradesOf('cams-fy2023-24.txt');
+    const secondHalf = await tradesOf('cams-h2-fy2023-24.txt');
+
+    const fullIds = new Set(fullYear.map((trade) => trade.tradeId));
+    const shared = secondHalf.filter((trade) => fullIds.has(trade.tradeId));
+    expect(shared.map((trade) => [trade.tradeDate, trade.type])).toEqual([
+      ['2023-12-15', 'sell'],
+      ['2023-11-20', 'sell'],
+      ['2023-11-28', 'dividend']
+    ]);
+    expect(new Set(fullYear.map((trade) => trade.tradeId)).size).toBe(fullYear.length);
+  });
+
+  it('only returns trades inside the requested range', async () => {
+    const session = sessionFor('kfintech-fy2023-24.txt');
+    const raw = await casConnector.fetchTrades(session, { from: '2024-01-01', to: '2024-03-31' });
+
+    expect(raw.map((trade) => casConnector.mapTrade(trade))).toEqual([
+      expect.objectContaining({ type: 'sell', quantity: 20, price: 100, tradeDate: '2024-02-12' })
+    ]);
+  });
+});
@@ -0,0 +1,166 @@
+/**
+ * CAS statement connector
+ * 
+ * Why this exists:
+ * - Imports mutual fund folios from a CAMS/KFintech CAS PDF
+ * - Fits the connector contract so the sync core normalizes and stores it
+ *   like any broker (POST /portfolio/sync/cas)
+ * 
+ * Credentials: { file: <base64 PDF>, password: <CAS password, usually PAN> }
+ */
+
+import { invalidArgument } from '../../shared/errors';
+import type { NormalizedHolding, NormalizedTransaction } from '../../shared/types';
+import { extractPdfLines } from '../cas/pdf-text';
+import { parseCasStatement, type CasScheme, type CasStatement, type CasTransaction } from '../cas/parser';
+import type { BrokerConnector, ConnectorCredentials, ConnectorSession, TradeDateRange } from './types';
+
+/**
+ * A scheme with the folio it sits in
+ */
+export interface CasSchemeHolding {
+  folioNumber: string;
+  amc: string;
+  scheme: CasScheme;
+}
+
+/**
+ * A transaction with its folio and scheme
+ */
+export interface CasSchemeTransaction extends CasSchemeHolding {
+  transaction: CasTransaction;
+}
+
+/**
+ * Ledger trade ID built from the transaction's own fields, so a row gets the
+ * same ID in every statement that covers it and re-imports of overlapping
+ * statements are deduplicated. The unit balance after the row tells apart
+ * otherwise identical rows on the same day
+ */
+export function casTradeId(folioNumber: string, scheme: CasScheme, transaction: CasTransaction): string {
+  const { date, type, units, amount, balance } = transaction;
+  return [
+    folioNumber,
+    scheme.isin ?? scheme.name,
+    date,
+    type,
+    units.toFixed(3),
+    amount.toFixed(2),
+    balance.toFixed(3)
+  ].join(':');
+}
+
+function statementOf(session: ConnectorSession): CasStatement {
+  const statement = session.data?.statement as CasStatement | undefined;
+  if (!statement) {
+    throw invalidArgument('CAS session has no parsed statement');
+  }
+  return statement;
+}
+
+export const casConnector: BrokerConnector<CasSchemeHolding, CasSchemeTransaction> = {
+  id: 'cas',
+  displayName: 'CAS Statement (CAMS/KFintech)',
+  capabilities: { holdings: true, trades: true, prices: false },
+
+  /**
+   * "Authenticating" a statement means decrypting and parsing it
+   */
+  async authenticate(credentials: ConnectorCredentials): Promise<ConnectorSession> {
+    if (!credentials.file) {
+      throw invalidArgument('CAS import requires the PDF file (base64)');
+    }
+
+    // pdf.js rejects Node Buffers, so copy into a plain Uint8Array
+    const data = new Uint8Array(Buffer.from(credentials.file, 'base64'));
+    const lines = await extractPdfLines(data, credentials.password);
+    const statement = parseCasStatement(lines);
+
+    return {
+      connectorId: 'cas',
+      accountId: statement.folios.map((folio) => folio.folioNumber).join(','),
+      data: { statement }
+    };
+  },
+
+  async fetchHoldings(session: ConnectorSession): Promise<CasSchemeHolding[]> {
+    return statementOf(session).folios.flatMap((folio) =>
+      folio.schemes
+        .filter((scheme) => scheme.closingUnits > 0)
+        .map((scheme) => ({ folioNumber: folio.folioNumber, amc: folio.amc, scheme }))
+    );
+  },
+
+  async fetchTrades(session: ConnectorSession, range: TradeDateRange): Promise<CasSchemeTransaction[]> {
+    return statementOf(session).folios.flatMap((folio) =>
+      folio.schemes.flatMap((scheme) =>
+        scheme.transactions
+          .map((transaction) => ({ folioNumber: folio.folioNumber, amc: folio.amc, scheme, transaction }))
+          .filter(({ transaction }) =>
+            transaction.date >= range.from &&
+            transaction.date <= range.to &&
+            transaction.type !== 'other'
+          )
+      )
+    );
+  },
+
+  mapHolding({ folioNumber, amc, scheme }: CasSchemeHolding): NormalizedHolding {
+    const units = scheme.closingUnits;
+    const nav = scheme.nav ?? (scheme.marketValue !== undefined ? scheme.marketValue / units : 0);
+    // Cost value in a CAS is the cost of the units still held
+    const avgPrice = scheme.costValue !== undefined ? scheme.costValue / units : nav;
+    const purchases = scheme.transactions.filter((tx) => tx.units > 0);
+
+    return {
+      symbol: scheme.name,
+      isin: scheme.isin,
+      quantity: units,
+      avgPrice,
+      currentPrice: nav,
+      unrealizedPnL: (nav - avgPrice) * units,
+      assetType: 'mutual_fund',
+      purchaseDate: purchases[0]?.date,
+      lastTradeDate: scheme.transactions[scheme.transactions.length - 1]?.date,
+      _metadata: {
+        folioNumber,
+        amc,
+        registrar: scheme.registrar,
+        schemeCode: scheme.schemeCode,
+        navDate: scheme.navDate,
+        costValueReported: scheme.costValue !== undefined
+      }
+    };
+  },
+
+  mapTrade({ folioNumber, scheme, transaction }: CasSchemeTransaction): NormalizedTransaction {
+    const base = {
+      tradeId: casTradeId(folioNumber, scheme, transaction),
+      symbol: scheme.name,
+      isin: scheme.isin,
+      tradeDate: transaction.date,
+      assetType: 'mutual_fund' as const,
+      _metadata: { folioNumber, description: transaction.description }
+    };
+
+    if (transaction.type === 'dividend_payout') {
+      // A payout after a full redemption finds no units left: record the amount as one unit
+      const units = transaction.balance > 0 ? transaction.balance : 1;
+      return {
+        ...base,
+        type: 'dividend',
+        quantity: units,
+        price: Math.abs(transaction.amount) / units,
+        charges: 0
+      };
+    }
+
+    return {
+      ...base,
+      type: transaction.units < 0 ? 'sell' : 'buy',
+      quantity: Math.abs(transaction.units),
+      price: transaction.nav,
+      charges: transaction.stampDuty
+    };
+  }
+};
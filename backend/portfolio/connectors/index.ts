@@ -0,0 +1,24 @@
+/**
+ * Built-in connectors
+ * 
+ * Why this exists:
+ * - Registers the connectors that ship with KiteMate
+ * - Import this module (not the registry directly) to get a populated registry
+ */
+
+import { isProduction } from '../../shared/env';
+import { registerConnector } from './registry';
+import { casConnector } from './cas.connector';
+import { createMockConnector } from './mock.connector';
+import { zerodhaConnector } from './zerodha.connector';
+
+registerConnector(zerodhaConnector);
+registerConnector(casConnector);
+
+// Never offer fake data to real users
+if (!isProduction()) {
+  registerConnector(createMockConnector());
+}
+
+export { getConnector, listConnectors, registerConnector, unregisterConnector } from './registry';
+export type * from './types';
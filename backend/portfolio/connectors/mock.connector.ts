@@ -0,0 +1,127 @@
+/**
+ * Mock connector
+ * 
+ * Why this exists:
+ * - Deterministic, offline portfolio source for tests and local development
+ * - Exercises the full connector path (auth, fetch, map) without a broker account
+ * - Fixtures can be swapped per test via createMockConnector
+ */
+
+import type { NormalizedHolding, NormalizedTransaction } from '../../shared/types';
+import { unauthenticated } from '../../shared/errors';
+import type { BrokerConnector, ConnectorCredentials, ConnectorSession, TradeDateRange } from './types';
+
+/**
+ * Raw holding shape served by the mock "broker"
+ */
+export interface MockRawHolding {
+  symbol: string;
+  isin: string;
+  qty: number;
+  avg: number;
+  ltp: number;
+  sector?: string;
+}
+
+/**
+ * Raw trade shape served by the mock "broker"
+ */
+export interface MockRawTrade {
+  id: string;
+  symbol: string;
+  isin: string;
+  side: 'BUY' | 'SELL';
+  qty: number;
+  price: number;
+  date: string;
+}
+
+export interface MockConnectorFixture {
+  holdings: MockRawHolding[];
+  trades: MockRawTrade[];
+}
+
+/**
+ * Credential that makes authenticate() fail, to exercise error paths
+ */
+export const MOCK_INVALID_PASSWORD = 'invalid';
+
+export const DEFAULT_MOCK_FIXTURE: MockConnectorFixture = {
+  holdings: [
+    { symbol: 'RELIANCE', isin: 'INE002A01018', qty: 10, avg: 2400, ltp: 2950.5, sector: 'Energy' },
+    { symbol: 'INFY', isin: 'INE009A01021', qty: 25, avg: 1620, ltp: 1480.25, sector: 'Information Technology' },
+    { symbol: 'HDFCBANK', isin: 'INE040A01034', qty: 15, avg: 1550, ltp: 1675, sector: 'Financial Services' }
+  ],
+  trades: [
+    { id: 'MOCK-1', symbol: 'RELIANCE', isin: 'INE002A01018', side: 'BUY', qty: 10, price: 2400, date: '2023-06-12' },
+    { id: 'MOCK-2', symbol: 'INFY', isin: 'INE009A01021', side: 'BUY', qty: 30, price: 1620, date: '2023-08-01' },
+    { id: 'MOCK-3', symbol: 'INFY', isin: 'INE009A01021', side: 'SELL', qty: 5, price: 1710, date: '2024-01-18' },
+    { id: 'MOCK-4', symbol: 'HDFCBANK', isin: 'INE040A01034', side: 'BUY', qty: 15, price: 1550, date: '2024-02-05' }
+  ]
+};
+
+/**
+ * Create a mock connector serving the given fixture
+ * 
+ * @param fixture - Holdings and trades to serve
+ * @param id - Connector ID (defaults to 'mock')
+ */
+export function createMockConnector(
+  fixture: MockConnectorFixture = DEFAULT_MOCK_FIXTURE,
+  id: string = 'mock'
+): BrokerConnector<MockRawHolding, MockRawTrade> {
+  return {
+    id,
+    displayName: 'Mock Broker',
+    capabilities: { holdings: true, trades: true, prices: false },
+
+    async authenticate(credentials: ConnectorCredentials): Promise<ConnectorSession> {
+      if (credentials.password === MOCK_INVALID_PASSWORD) {
+        throw unauthenticated('Mock broker rejected the credentials.');
+      }
+
+      return {
+        connectorId: id,
+        accountId: credentials.accountId || 'MOCK001',
+        accessToken: 'mock-access-token'
+      };
+    },
+
+    async fetchHoldings(): Promise<MockRawHolding[]> {
+      return fixture.holdings.map((holding) => ({ ...holding }));
+    },
+
+    async fetchTrades(_session: ConnectorSession, range: TradeDateRange): Promise<MockRawTrade[]> {
+      return fixture.trades.filter((trade) => trade.date >= range.from && trade.date <= range.to);
+    },
+
+    mapHolding(raw: MockRawHolding): NormalizedHolding {
+      return {
+        symbol: raw.symbol,
+        isin: raw.isin,
+        quantity: raw.qty,
+        avgPrice: raw.avg,
+        currentPrice: raw.ltp,
+        unrealizedPnL: (raw.ltp - raw.avg) * raw.qty,
+        assetType: 'equity',
+        sector: raw.sector,
+        exchange: 'NSE'
+      };
+    },
+
+    mapTrade(raw: MockRawTrade): NormalizedTransaction {
+      return {
+        tradeId: raw.id,
+        symbol: raw.symbol,
+        isin: raw.isin,
+        type: raw.side === 'BUY' ? 'buy' : 'sell',
+        quantity: raw.qty,
+        price: raw.price,
+        charges: 0,
+        tradeDate: raw.date,
+        exchange: 'NSE',
+        assetType: 'equity'
+      };
+    }
+  };
+}
@@ -0,0 +1,45 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { ErrCode } from 'encore.dev/api';
+import { createMockConnector } from './mock.connector';
+import { getConnector, listConnectors, registerConnector, unregisterConnector } from './registry';
+
+describe('connector registry', () => {
+  afterEach(() => {
+    unregisterConnector('test_broker');
+  });
+
+  it('resolves a registered connector by id', () => {
+    const connector = createMockConnector(undefined, 'test_broker');
+    registerConnector(connector);
+
+    expect(getConnector('test_broker')).toBe(connector);
+    expect(listConnectors()).toContainEqual({
+      id: 'test_broker',
+      displayName: 'Mock Broker',
+      capabilities: { holdings: true, trades: true, prices: false }
+    });
+  });
+
+  it('rejects a second connector with the same id', () => {
+    registerConnector(createMockConnector(undefined, 'test_broker'));
+
+    expect(() => registerConnector(createMockConnector(undefined, 'test_broker'))).toThrow(
+      expect.objectContaining({ code: ErrCode.AlreadyExists })
+    );
+  });
+
+  it('rejects ids that cannot be stored as a portfolio source', () => {
+    expect(() => registerConnector(createMockConnector(undefined, 'Test-Broker'))).toThrow('Invalid connector id');
+  });
+
+  it('reports unknown ids as not found', () => {
+    expect(() => getConnector('test_broker')).toThrow(expect.objectContaining({ code: ErrCode.NotFound }));
+  });
+
+  it('forgets unregistered connectors', () => {
+    registerConnector(createMockConnector(undefined, 'test_broker'));
+    unregisterConnector('test_broker');
+
+    expect(listConnectors().map((connector) => connector.id)).not.toContain('test_broker');
+  });
+});
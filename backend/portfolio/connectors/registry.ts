@@ -0,0 +1,63 @@
+/**
+ * Connector registry
+ * 
+ * Why this exists:
+ * - Resolves a portfolio source ID to its connector at runtime
+ * - Adding a broker means registering a connector, not editing the sync core
+ */
+
+import { alreadyExists, notFound } from '../../shared/errors';
+import type { BrokerConnector, ConnectorInfo } from './types';
+
+const connectors = new Map<string, BrokerConnector>();
+
+/**
+ * Connector IDs double as the stored portfolio source, so keep them simple
+ */
+const CONNECTOR_ID_PATTERN = /^[a-z][a-z0-9_]*$/;
+
+/**
+ * Register a connector
+ * @throws Error if the ID is malformed, APIError if it is already registered
+ */
+export function registerConnector(connector: BrokerConnector): void {
+  if (!CONNECTOR_ID_PATTERN.test(connector.id)) {
+    throw new Error(`Invalid connector id: ${connector.id}`);
+  }
+  if (connectors.has(connector.id)) {
+    throw alreadyExists('Connector', connector.id);
+  }
+
+  connectors.set(connector.id, connector);
+}
+
+/**
+ * Remove a connector (used by tests to reset state)
+ */
+export function unregisterConnector(id: string): void {
+  connectors.delete(id);
+}
+
+/**
+ * Get a connector by ID
+ * @throws APIError (404) if no connector is registered under this ID
+ */
+export function getConnector(id: string): BrokerConnector {
+  const connector = connectors.get(id);
+  if (!connector) {
+    throw notFound(`Unknown portfolio source '${id}'`, { available: [...connectors.keys()] });
+  }
+
+  return connector;
+}
+
+/**
+ * List registered connectors
+ */
+export function listConnectors(): ConnectorInfo[] {
+  return [...connectors.values()].map(({ id, displayName, capabilities }) => ({
+    id,
+    displayName,
+    capabilities
+  }));
+}
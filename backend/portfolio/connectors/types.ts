@@ -0,0 +1,74 @@
+/**
+ * Broker connector contract
+ * 
+ * Why this exists:
+ * - One interface every portfolio source implements (brokers, CAS statements, mocks)
+ * - Keeps broker-specific formats out of the portfolio service core
+ * - Connectors only fetch and map; validation and persistence stay in the core
+ */
+
+import type { EodPrice, NormalizedHolding, NormalizedTransaction } from '../../shared/types';
+
+/**
+ * Credentials passed to a connector when authenticating
+ * Keys are connector-specific (apiKey, requestToken, password, ...)
+ */
+export type ConnectorCredentials = Record<string, string>;
+
+/**
+ * Authenticated session returned by a connector
+ */
+export interface ConnectorSession {
+  connectorId: string;
+  accountId: string;
+  accessToken?: string;
+  expiresAt?: Date;
+  data?: Record<string, any>;
+}
+
+/**
+ * Inclusive trade date range (YYYY-MM-DD)
+ */
+export interface TradeDateRange {
+  from: string;
+  to: string;
+}
+
+/**
+ * What a connector can provide
+ */
+export interface ConnectorCapabilities {
+  holdings: boolean;
+  trades: boolean;
+  prices: boolean;  // Daily closes for held securities (fetchDailyCloses)
+}
+
+/**
+ * Portfolio source connector
+ * 
+ * RawHolding/RawTrade are the source's own shapes; mapHolding/mapTrade turn
+ * them into the canonical schema. Mapped output is validated by the core.
+ */
+export interface BrokerConnector<RawHolding = any, RawTrade = any> {
+  /** Stable ID, stored as the portfolio source (lowercase, e.g. 'zerodha') */
+  readonly id: string;
+  readonly displayName: string;
+  readonly capabilities: ConnectorCapabilities;
+
+  authenticate(credentials: ConnectorCredentials): Promise<ConnectorSession>;
+  fetchHoldings(session: ConnectorSession): Promise<RawHolding[]>;
+  fetchTrades(session: ConnectorSession, range: TradeDateRange): Promise<RawTrade[]>;
+  /** Daily closes of mapped holdings, when capabilities.prices is set */
+  fetchDailyCloses?(session: ConnectorSession, holdings: NormalizedHolding[], range: TradeDateRange): Promise<EodPrice[]>;
+  mapHolding(raw: RawHolding): NormalizedHolding;
+  mapTrade(raw: RawTrade): NormalizedTransaction;
+}
+
+/**
+ * Public description of a registered connector
+ */
+export interface ConnectorInfo {
+  id: string;
+  displayName: string;
+  capabilities: ConnectorCapabilities;
+}
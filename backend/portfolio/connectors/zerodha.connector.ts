@@ -0,0 +1,155 @@
+/**
+ * Zerodha Kite Connect connector
+ * 
+ * Why this exists:
+ * - Maps Kite holdings and tradebook entries to the canonical schema
+ * - Handles the request_token -> access_token exchange
+ */
+
+import { KiteConnect } from 'kiteconnect';
+import type { PortfolioHolding, Trade } from 'kiteconnect';
+import { env } from '../../shared/env';
+import { invalidArgument, zerodhaError } from '../../shared/errors';
+import type { EodPrice, NormalizedHolding, NormalizedTransaction } from '../../shared/types';
+import { istDate } from '../calendar';
+import type { BrokerConnector, ConnectorCredentials, ConnectorSession, TradeDateRange } from './types';
+
+function createClient(accessToken?: string) {
+  const kc = new KiteConnect({ api_key: env.ZERODHA_API_KEY });
+  if (accessToken) {
+    kc.setAccessToken(accessToken);
+  }
+  return kc;
+}
+
+export const zerodhaConnector: BrokerConnector<PortfolioHolding, Trade> = {
+  id: 'zerodha',
+  displayName: 'Zerodha',
+  capabilities: { holdings: true, trades: true, prices: true },
+
+  /**
+   * Accepts either { requestToken } from the OAuth redirect
+   * or a previously stored { accessToken, accountId }
+   */
+  async authenticate(credentials: ConnectorCredentials): Promise<ConnectorSession> {
+    if (credentials.accessToken) {
+      return {
+        connectorId: 'zerodha',
+        accountId: credentials.accountId ?? '',
+        accessToken: credentials.accessToken
+      };
+    }
+
+    if (!credentials.requestToken) {
+      throw invalidArgument('Zerodha requires a requestToken or accessToken');
+    }
+
+    try {
+      const session = await createClient().generateSession(credentials.requestToken, env.ZERODHA_API_SECRET);
+      return {
+        connectorId: 'zerodha',
+        accountId: session.user_id,
+        accessToken: session.access_token
+      };
+    } catch (error) {
+      throw zerodhaError(error);
+    }
+  },
+
+  async fetchHoldings(session: ConnectorSession): Promise<PortfolioHolding[]> {
+    try {
+      return await createClient(session.accessToken).getHoldings();
+    } catch (error) {
+      throw zerodhaError(error);
+    }
+  },
+
+  /**
+   * Kite only exposes the current day's tradebook over the API;
+   * older trades come in through tradebook CSV imports
+   */
+  async fetchTrades(session: ConnectorSession): Promise<Trade[]> {
+    try {
+      return await createClient(session.accessToken).getTrades();
+    } catch (error) {
+      throw zerodhaError(error);
+    }
+  },
+
+  /**
+   * Daily candles per holding, one request at a time (Kite rate-limits the
+   * historical API); holdings without an instrument token are skipped
+   */
+  async fetchDailyCloses(
+    session: ConnectorSession,
+    holdings: NormalizedHolding[],
+    range: TradeDateRange
+  ): Promise<EodPrice[]> {
+    const client = createClient(session.accessToken);
+    const prices: EodPrice[] = [];
+
+    for (const holding of holdings) {
+      const token = holding._metadata?.instrumentToken;
+      if (!token || !holding.isin) continue;
+
+      try {
+        const candles = await client.getHistoricalData(token, 'day', range.from, range.to);
+        for (const candle of candles) {
+          prices.push({
+            isin: holding.isin,
+            // Daily candles are stamped at IST midnight
+            date: istDate(new Date(candle.date)),
+            symbol: holding.symbol,
+            exchange: holding.exchange === 'BSE' ? 'BSE' : 'NSE',
+            open: candle.open,
+            high: candle.high,
+            low: candle.low,
+            close: candle.close,
+            volume: candle.volume
+          });
+        }
+      } catch (error) {
+        throw zerodhaError(error);
+      }
+    }
+
+    return prices;
+  },
+
+  mapHolding(raw: PortfolioHolding): NormalizedHolding {
+    // Kite reports T1 (unsettled) shares separately from settled quantity
+    const quantity = raw.quantity + raw.t1_quantity;
+
+    return {
+      symbol: raw.tradingsymbol,
+      isin: raw.isin,
+      quantity,
+      avgPrice: raw.average_price,
+      currentPrice: raw.last_price,
+      // Broker P&L as reported; normalization repairs or flags it (see NormalizationPolicy)
+      unrealizedPnL: raw.pnl,
+      assetType: 'equity',
+      exchange: raw.exchange,
+      _metadata: {
+        instrumentToken: raw.instrument_token,
+        t1Quantity: raw.t1_quantity,
+        collateralQuantity: raw.collateral_quantity
+      }
+    };
+  },
+
+  mapTrade(raw: Trade): NormalizedTransaction {
+    return {
+      tradeId: raw.trade_id,
+      symbol: raw.tradingsymbol,
+      type: raw.transaction_type === 'SELL' ? 'sell' : 'buy',
+      quantity: raw.quantity,
+      price: raw.average_price,
+      charges: 0,
+      tradeDate: new Date(raw.fill_timestamp).toISOString().slice(0, 10),
+      exchange: raw.exchange,
+      assetType: 'equity',
+      _metadata: { orderId: raw.order_id }
+    };
+  }
+};
@@ -0,0 +1,119 @@
+/**
+ * Consolidated view across a user's portfolios
+ *
+ * Why this exists:
+ * - Users keep several portfolios (own account, family accounts, old CSVs)
+ * - The same instrument held in two places should show up once
+ * - Totals and sector allocation are recomputed on the merged holdings
+ */
+
+import type { ConsolidatedPortfolio, NormalizedHolding, Portfolio, PortfolioInfo } from '../shared/types';
+import { invalidArgument } from '../shared/errors';
+import { calculatePortfolioTotals, calculateUnrealizedPnL, getSectorAllocation } from './schema';
+
+/**
+ * Merge holdings from several portfolios by ISIN, falling back to symbol
+ *
+ * Holdings without an ISIN are matched to ISIN-bearing holdings of the same
+ * symbol when one exists. Quantities add up, avgPrice and currentPrice are
+ * quantity-weighted, and unrealizedPnL is recomputed from the merged figures.
+ * Each merged holding lists its contributors in _metadata.sources.
+ */
+export function mergeHoldings(
+  portfolios: Array<Pick<Portfolio, 'id' | 'name' | 'holdings'>>
+): NormalizedHolding[] {
+  // Learn symbol -> ISIN from any holding that carries both
+  const isinBySymbol = new Map<string, string>();
+  for (const portfolio of portfolios) {
+    for (const holding of portfolio.holdings) {
+      if (holding.isin) {
+        isinBySymbol.set(holding.symbol.toUpperCase(), holding.isin.toUpperCase());
+      }
+    }
+  }
+
+  const merged = new Map<string, NormalizedHolding>();
+
+  for (const portfolio of portfolios) {
+    for (const holding of portfolio.holdings) {
+      const symbol = holding.symbol.toUpperCase();
+      const isin = holding.isin?.toUpperCase() ?? isinBySymbol.get(symbol);
+      const key = isin ?? symbol;
+      const source = { portfolioId: portfolio.id, portfolioName: portfolio.name, quantity: holding.quantity };
+      const existing = merged.get(key);
+
+      if (!existing) {
+        merged.set(key, {
+          ...holding,
+          isin,
+          _metadata: { sources: [source] }
+        });
+        continue;
+      }
+
+      const quantity = existing.quantity + holding.quantity;
+      existing.avgPrice = (existing.avgPrice * existing.quantity + holding.avgPrice * holding.quantity) / quantity;
+      existing.currentPrice =
+        (existing.currentPrice * existing.quantity + holding.currentPrice * holding.quantity) / quantity;
+      existing.quantity = quantity;
+      existing.sector = existing.sector ?? holding.sector;
+      existing.exchange = existing.exchange ?? holding.exchange;
+
+      if (holding.purchaseDate && (!existing.purchaseDate || holding.purchaseDate < existing.purchaseDate)) {
+        existing.purchaseDate = holding.purchaseDate;
+      }
+      if (holding.lastTradeDate && (!existing.lastTradeDate || holding.lastTradeDate > existing.lastTradeDate)) {
+        existing.lastTradeDate = holding.lastTradeDate;
+      }
+
+      existing._metadata!.sources.push(source);
+    }
+  }
+
+  return [...merged.values()].map((holding) => ({
+    ...holding,
+    unrealizedPnL: calculateUnrealizedPnL(holding)
+  }));
+}
+
+/**
+ * Strip holdings for list views
+ */
+export function toPortfolioInfo(portfolio: Portfolio): PortfolioInfo {
+  return {
+    id: portfolio.id,
+    name: portfolio.name,
+    source: portfolio.source,
+    lastSync: portfolio.lastSync,
+    totalValue: portfolio.totalValue,
+    totalPnL: portfolio.totalPnL,
+    holdingsCount: portfolio.holdings.length
+  };
+}
+
+/**
+ * Build the consolidated view of a user's portfolios
+ *
+ * @throws APIError if portfolios are in different currencies
+ */
+export function consolidatePortfolios(userId: string, portfolios: Portfolio[]): ConsolidatedPortfolio {
+  const currencies = new Set(portfolios.map((portfolio) => portfolio.currency));
+  if (currencies.size > 1) {
+    throw invalidArgument('Cannot consolidate portfolios in different currencies', {
+      currencies: [...currencies]
+    });
+  }
+
+  const holdings = mergeHoldings(portfolios);
+  const { totalValue, totalPnL } = calculatePortfolioTotals(holdings);
+
+  return {
+    userId,
+    portfolios: portfolios.map(toPortfolioInfo),
+    totalValue,
+    totalPnL,
+    currency: portfolios[0]?.currency ?? 'INR',
+    holdings,
+    sectorAllocation: getSectorAllocation(holdings)
+  };
+}
@@ -0,0 +1,224 @@
+import { describe, expect, it } from 'vitest';
+import type { NormalizedHolding, NormalizedTransaction } from '../shared/types';
+import {
+  adjustHoldings,
+  adjustLedger,
+  restateLedger,
+  revertLedger,
+  type CorporateAction,
+  type LedgerEntry
+} from './corporate-actions';
+import fixture from './fixtures/corporate-actions.json';
+
+const actions: CorporateAction[] = (fixture as Array<Omit<CorporateAction, 'id'>>).map((action, index) => ({
+  id: index + 1,
+  ...action
+}));
+
+function fixtureAction(symbol: string, type: CorporateAction['type']): CorporateAction {
+  return actions.find((action) => action.symbol === symbol && action.type === type)!;
+}
+
+const nestleSplit = fixtureAction('NESTLEIND', 'split');
+const relianceBonus = fixtureAction('RELIANCE', 'bonus');
+const relianceDemerger = fixtureAction('RELIANCE', 'demerger');
+
+function trade(
+  type: NormalizedTransaction['type'],
+  tradeDate: string,
+  quantity: number,
+  price: number,
+  instrument: { symbol: string; isin?: string }
+): NormalizedTransaction {
+  return {
+    ...instrument,
+    tradeId: `${type}-${tradeDate}`,
+    type,
+    quantity,
+    price,
+    charges: 0,
+    tradeDate,
+    assetType: 'equity'
+  };
+}
+
+const NESTLE = { symbol: 'NESTLEIND', isin: 'INE239A01016' };
+const RELIANCE = { symbol: 'RELIANCE', isin: 'INE002A01018' };
+
+function ledger(...transactions: NormalizedTransaction[]): LedgerEntry[] {
+  return transactions.map((transaction, index) => ({ id: index + 1, transaction }));
+}
+
+/**
+ * Store a restatement the way the database would: created rows get ids
+ */
+function stored(entries: LedgerEntry[], firstId: number): LedgerEntry[] {
+  let id = firstId;
+  return entries.map((entry) => ({ id: entry.id ?? id++, transaction: entry.transaction }));
+}
+
+function transactionsOf(entries: LedgerEntry[]): NormalizedTransaction[] {
+  return entries
+    .map((entry) => entry.transaction)
+    .sort((a, b) =>
+      a.tradeDate.localeCompare(b.tradeDate) || a.symbol.localeCompare(b.symbol) || a.quantity - b.quantity
+    );
+}
+
+describe('adjustLedger', () => {
+  it('rescales and renames pre-split trades', () => {
+    const entries = ledger(
+      trade('buy', '2023-06-01', 5, 20000, NESTLE),
+      trade('sell', '2023-10-02', 2, 22000, NESTLE),
+      trade('buy', '2024-02-01', 10, 2500, { symbol: 'NESTLEIND', isin: 'INE239A01024' })
+    );
+
+    const { updated, inserted } = adjustLedger(entries, nestleSplit, 'ca1');
+
+    expect(inserted).toEqual([]);
+    expect(updated.map(({ id, transaction }) => [id, transaction.isin, transaction.quantity, transaction.price]))
+      .toEqual([
+        [1, 'INE239A01024', 50, 2000],
+        [2, 'INE239A01024', 20, 2200]
+      ]);
+  });
+
+  it('adds a zero-cost bonus row for the shares held on the ex-date', () => {
+    const entries = ledger(
+      trade('buy', '2024-01-10', 10, 2600, RELIANCE),
+      trade('sell', '2024-05-02', 3, 2900, RELIANCE)
+    );
+
+    const adjustment = adjustLedger(entries, relianceBonus, 'ca2');
+
+    expect(adjustment.updated).toEqual([]);
+    expect(adjustment.inserted).toEqual([
+      expect.objectContaining({
+        tradeId: 'ca2:1',
+        type: 'bonus',
+        quantity: 7,
+        price: 0,
+        tradeDate: '2024-10-28',
+        isin: 'INE002A01018'
+      })
+    ]);
+  });
+
+  it('splits open demerger lots between parent and child, keeping sold parts at full cost', () => {
+    const entries = ledger(
+      trade('buy', '2023-01-10', 10, 2500, RELIANCE),
+      trade('buy', '2023-03-01', 5, 2600, RELIANCE),
+      trade('sell', '2023-05-02', 12, 2550, RELIANCE)
+    );
+
+    const adjustment = adjustLedger(entries, relianceDemerger, 'ca4');
+
+    expect(adjustment.updated.map(({ id, transaction }) => [id, transaction.quantity, transaction.price])).toEqual([
+      [2, 2, 2600]
+    ]);
+    expect(adjustment.inserted).toHaveLength(2);
+    const [child, parent] = adjustment.inserted;
+    expect(child).toMatchObject({ symbol: 'JIOFIN', isin: 'INE758E01017', quantity: 3, tradeDate: '2023-03-01' });
+    expect(child.price).toBeCloseTo(2600 * 0.0468, 6);
+    expect(parent).toMatchObject({ symbol: 'RELIANCE', quantity: 3, tradeDate: '2023-03-01' });
+    expect(parent.price).toBeCloseTo(2600 * (1 - 0.0468), 6);
+  });
+
+  it('skips a ledger that already carries the action', () => {
+    const entries = ledger(trade('buy', '2023-06-01', 5, 20000, NESTLE));
+    const [{ transaction }] = adjustLedger(entries, nestleSplit, 'ca1').updated;
+
+    expect(adjustLedger([{ id: 1, transaction }], nestleSplit, 'ca1').skipped).toBeDefined();
+  });
+});
+
+describe('revertLedger', () => {
+  it('restores rewritten rows and drops created ones', () => {
+    const entries = ledger(
+      trade('buy', '2023-01-10', 10, 2500, RELIANCE),
+      trade('buy', '2023-03-01', 5, 2600, RELIANCE),
+      trade('sell', '2023-05-02', 12, 2550, RELIANCE),
+      trade('buy', '2023-06-01', 3, 20000, { symbol: 'NESTLEIND' })
+    );
+    const demerged = stored(restateLedger(entries, [relianceDemerger], () => 'ca4').entries, 10);
+    const split = stored(restateLedger(demerged, [nestleSplit], () => 'ca1').entries, 20);
+
+    const reverted = revertLedger(revertLedger(split, nestleSplit), relianceDemerger);
+
+    expect(reverted).toEqual(entries);
+  });
+});
+
+describe('restateLedger', () => {
+  it.each([
+    ['split', [nestleSplit], NESTLE, trade('buy', '2023-08-01', 2, 21000, NESTLE)],
+    ['bonus', [relianceBonus], RELIANCE, trade('buy', '2024-03-01', 5, 2800, RELIANCE)],
+    ['demerger', [relianceDemerger], RELIANCE, trade('buy', '2023-02-01', 4, 2450, RELIANCE)],
+    ['demerger then bonus', [relianceDemerger, relianceBonus], RELIANCE, trade('sell', '2023-04-03', 2, 2500, RELIANCE)]
+  ])('adjusts a late %s import as if it had been there all along', (_name, chain, instrument, late) => {
+    const original = [
+      trade('buy', '2023-01-10', 10, 2500, instrument),
+      trade('buy', '2023-03-01', 5, 2600, instrument),
+      trade('sell', '2023-05-02', 6, 2550, instrument)
+    ];
+    const prefix = (action: CorporateAction) => `ca${action.id}`;
+
+    // Applied before the late trade was imported, then restated after
+    const applied = stored(restateLedger(ledger(...original), chain, prefix).entries, 10);
+    const restated = restateLedger([...applied, { id: 50, transaction: late }], chain, prefix);
+    const fresh = restateLedger(ledger(...original, late), chain, prefix);
+
+    expect(transactionsOf(restated.entries)).toEqual(transactionsOf(fresh.entries));
+    expect(restated.skipped).toEqual([]);
+  });
+
+  it('replaces the rows an action created instead of adding to them', () => {
+    const prefix = (action: CorporateAction) => `ca${action.id}`;
+    const applied = stored(
+      restateLedger(ledger(trade('buy', '2024-01-10', 10, 2600, RELIANCE)), [relianceBonus], prefix).entries,
+      10
+    );
+
+    const restated = restateLedger(
+      [...applied, { id: 20, transaction: trade('buy', '2024-03-01', 4, 2800, RELIANCE) }],
+      [relianceBonus],
+      prefix
+    );
+
+    const bonuses = restated.entries.filter((entry) => entry.transaction.type === 'bonus');
+    expect(bonuses).toEqual([{ transaction: expect.objectContaining({ tradeId: 'ca2:1', quantity: 14 }) }]);
+  });
+});
+
+describe('adjustHoldings', () => {
+  const holding = (overrides: Partial<NormalizedHolding>): NormalizedHolding => {
+    const base = {
+      symbol: 'RELIANCE',
+      isin: 'INE002A01018',
+      quantity: 10,
+      avgPrice: 2500,
+      currentPrice: 2800,
+      ...overrides
+    };
+    return { ...base, unrealizedPnL: (base.currentPrice - base.avgPrice) * base.quantity, assetType: 'equity' };
+  };
+
+  it.each([
+    ['split', nestleSplit, { symbol: 'NESTLEIND', isin: 'INE239A01016', avgPrice: 20000, currentPrice: 24000 }],
+    ['bonus', relianceBonus, {}],
+    ['demerger', relianceDemerger, {}]
+  ])('keeps value and P&L unchanged across a %s', (_name, action, overrides) => {
+    const before = [holding(overrides)];
+    const after = adjustHoldings(before, action);
+
+    const total = (holdings: NormalizedHolding[], field: 'value' | 'pnl') =>
+      holdings.reduce(
+        (sum, h) => sum + (field === 'value' ? h.quantity * h.currentPrice : h.unrealizedPnL),
+        0
+      );
+    expect(after).not.toBe(before);
+    expect(total(after, 'value')).toBeCloseTo(total(before, 'value'), 6);
+    expect(total(after, 'pnl')).toBeCloseTo(total(before, 'pnl'), 6);
+    expect(adjustHoldings(after, action)).toBe(after);
+  });
+});
@@ -0,0 +1,480 @@
+/**
+ * Corporate action adjuster (splits, bonuses, mergers, demergers)
+ *
+ * Why this exists:
+ * - quantity/avgPrice become wrong the moment a stock splits or issues a bonus,
+ *   and the P&L invariant cannot detect it (both sides move together)
+ * - Rewrites the ledger so replay and tax lots stay correct across the event
+ * - Rewrites pre-event holdings (snapshots) so value and P&L stay continuous
+ *
+ * Ratio conventions (ratioFrom : ratioTo):
+ * - split: ratioFrom old shares become ratioTo new shares (10 -> 1 face value is 1:10)
+ * - bonus: ratioTo bonus shares for every ratioFrom held (1:1 doubles the holding)
+ * - merger: ratioTo shares of newIsin for every ratioFrom held; the old ISIN ceases
+ * - demerger: ratioTo shares of newIsin for every ratioFrom held; the parent stays
+ *   and costRatio of its cost moves to the new company
+ */
+
+import type { NormalizedHolding, NormalizedTransaction } from '../shared/types';
+import { instrumentKey, rebuildHoldingsFromLedger } from './ledger';
+import { calculateUnrealizedPnL } from './schema';
+
+export type CorporateActionType = 'split' | 'bonus' | 'merger' | 'demerger';
+
+/**
+ * A corporate action, keyed by ISIN and ex-date
+ */
+export interface CorporateAction {
+  id: number;
+  isin: string;
+  symbol: string;
+  exDate: string;  // YYYY-MM-DD
+  type: CorporateActionType;
+  ratioFrom: number;
+  ratioTo: number;
+  newIsin?: string;  // Required for mergers/demergers; splits may also change the ISIN
+  newSymbol?: string;
+  costRatio?: number;  // Demerger: share of cost (0..1) carried to newIsin
+  description?: string;
+}
+
+/**
+ * A ledger row; id is absent for rows the adjuster creates
+ */
+export interface LedgerEntry {
+  id?: number;
+  transaction: NormalizedTransaction;
+}
+
+export interface LedgerAdjustment {
+  updated: Array<Required<LedgerEntry>>;
+  inserted: NormalizedTransaction[];
+  skipped?: string;  // Why the ledger was left untouched
+}
+
+/**
+ * Source recorded on ledger rows created by the adjuster
+ */
+export const CORPORATE_ACTION_SOURCE = 'corporate_action';
+
+const EPSILON = 1e-9;
+
+/**
+ * Quantity multiplier an action applies to the holding it targets
+ * (demergers leave the parent's quantity unchanged)
+ */
+export function quantityFactor(action: CorporateAction): number {
+  switch (action.type) {
+    case 'bonus':
+      return (action.ratioFrom + action.ratioTo) / action.ratioFrom;
+    case 'demerger':
+      return 1;
+    default:
+      return action.ratioTo / action.ratioFrom;
+  }
+}
+
+/**
+ * Does a holding/transaction refer to the action's instrument?
+ * Rows without an ISIN are matched by symbol
+ */
+export function matchesAction(item: { isin?: string; symbol: string }, action: CorporateAction): boolean {
+  return item.isin
+    ? item.isin.toUpperCase() === action.isin.toUpperCase()
+    : item.symbol.toUpperCase() === action.symbol.toUpperCase();
+}
+
+/**
+ * One step of an item's adjustment trail (_metadata.corporateActions)
+ * original holds the fields the action overwrote; rows the action created have none
+ */
+interface TrailStep {
+  id: number;
+  type: CorporateActionType;
+  original?: Record<string, unknown>;
+}
+
+/**
+ * Append this action to an item's adjustment trail
+ */
+function withTrail<T extends { _metadata?: Record<string, any> }>(
+  item: T,
+  action: CorporateAction,
+  original?: Record<string, unknown>
+): T {
+  const trail = [...(item._metadata?.corporateActions ?? []), { id: action.id, type: action.type, original }];
+  return { ...item, _metadata: { ...item._metadata, corporateActions: trail } };
+}
+
+/**
+ * Does an item's adjustment trail include this action?
+ */
+export function alreadyApplied(item: { _metadata?: Record<string, any> }, action: CorporateAction): boolean {
+  return (item._metadata?.corporateActions ?? []).some((step: TrailStep) => step.id === action.id);
+}
+
+/**
+ * Rescale (and, for mergers or ISIN changes, rename) one pre-event transaction
+ */
+function rescaleTransaction(tx: NormalizedTransaction, action: CorporateAction, factor: number): NormalizedTransaction {
+  // null rather than undefined, so a missing ISIN survives the JSON round trip
+  const original = { symbol: tx.symbol, isin: tx.isin ?? null, quantity: tx.quantity, price: tx.price };
+  const rescaled: NormalizedTransaction = {
+    ...tx,
+    symbol: action.newSymbol ?? tx.symbol,
+    isin: action.newIsin ?? tx.isin ?? action.isin
+  };
+
+  // Earlier split entries describe their own event; only the identity changes
+  if (tx.type !== 'split') {
+    rescaled.quantity = tx.quantity * factor;
+    rescaled.price = tx.price / factor;
+  }
+
+  return withTrail(rescaled, action, original);
+}
+
+/**
+ * Open FIFO quantity left on each pre-event buy/bonus row at the ex-date
+ * Returned as the open fraction of each row (splits rescale lots, not fractions)
+ */
+function openFractions(entries: LedgerEntry[]): Map<LedgerEntry, number> {
+  const lots: Array<{ entry: LedgerEntry; quantity: number; remaining: number }> = [];
+
+  const ordered = entries
+    .map((entry, index) => ({ entry, index }))
+    .sort((a, b) =>
+      a.entry.transaction.tradeDate.localeCompare(b.entry.transaction.tradeDate) || a.index - b.index
+    );
+
+  for (const { entry } of ordered) {
+    const tx = entry.transaction;
+
+    if (tx.type === 'buy' || tx.type === 'bonus') {
+      lots.push({ entry, quantity: tx.quantity, remaining: tx.quantity });
+    } else if (tx.type === 'split' && tx.splitRatio) {
+      const factor = tx.splitRatio.to / tx.splitRatio.from;
+      for (const lot of lots) {
+        lot.quantity *= factor;
+        lot.remaining *= factor;
+      }
+    } else if (tx.type === 'sell') {
+      let toSell = tx.quantity;
+      for (const lot of lots) {
+        if (toSell <= EPSILON) break;
+        const used = Math.min(lot.remaining, toSell);
+        lot.remaining -= used;
+        toSell -= used;
+      }
+    }
+  }
+
+  return new Map(
+    lots
+      .filter((lot) => lot.remaining > EPSILON)
+      .map((lot) => [lot.entry, lot.remaining / lot.quantity])
+  );
+}
+
+/**
+ * Split a demerger parent: open lots keep (1 - costRatio) of their cost and
+ * spawn a child lot with the same acquisition date (holding period carries over)
+ */
+function adjustForDemerger(
+  pre: LedgerEntry[],
+  action: CorporateAction,
+  newTradeId: () => string
+): LedgerAdjustment {
+  const costRatio = action.costRatio ?? 0;
+  const factor = action.ratioTo / action.ratioFrom;
+  const updated: Array<Required<LedgerEntry>> = [];
+  const inserted: NormalizedTransaction[] = [];
+
+  for (const [entry, fraction] of openFractions(pre)) {
+    const tx = entry.transaction;
+    const openQuantity = tx.quantity * fraction;
+    const openCharges = tx.charges * fraction;
+
+    inserted.push(withTrail<NormalizedTransaction>({
+      tradeId: newTradeId(),
+      symbol: action.newSymbol ?? action.newIsin!,
+      isin: action.newIsin,
+      type: tx.type,
+      quantity: openQuantity * factor,
+      price: (tx.price * costRatio) / factor,
+      charges: openCharges * costRatio,
+      tradeDate: tx.tradeDate,
+      exchange: tx.exchange,
+      assetType: tx.assetType,
+      _metadata: { derivedFrom: tx.tradeId }
+    }, action));
+
+    const parentOpen = {
+      ...tx,
+      quantity: openQuantity,
+      price: tx.price * (1 - costRatio),
+      charges: openCharges * (1 - costRatio)
+    };
+
+    if (fraction >= 1 - EPSILON) {
+      updated.push({ id: entry.id!, transaction: withTrail(parentOpen, action, { price: tx.price, charges: tx.charges }) });
+      continue;
+    }
+
+    // Partly sold before the ex-date: the sold part keeps its full cost
+    updated.push({
+      id: entry.id!,
+      transaction: withTrail(
+        { ...tx, quantity: tx.quantity - openQuantity, charges: tx.charges - openCharges },
+        action,
+        { quantity: tx.quantity, charges: tx.charges }
+      )
+    });
+    inserted.push(withTrail({ ...parentOpen, tradeId: newTradeId() }, action));
+  }
+
+  return { updated, inserted };
+}
+
+/**
+ * Rewrite one portfolio's ledger for a corporate action
+ *
+ * - split/merger: pre-event rows are rescaled (and renamed), dates unchanged
+ * - bonus: a zero-cost bonus row for the entitlement is added on the ex-date
+ * - demerger: open lots are split between parent and new company by costRatio
+ *
+ * @param entries - The portfolio's full ledger
+ * @param action - The action to apply
+ * @param tradeIdPrefix - Prefix for IDs of created rows (unique per action and portfolio)
+ */
+export function adjustLedger(
+  entries: LedgerEntry[],
+  action: CorporateAction,
+  tradeIdPrefix: string
+): LedgerAdjustment {
+  let sequence = 0;
+  const newTradeId = () => `${tradeIdPrefix}:${++sequence}`;
+
+  const pre = entries.filter(
+    (entry) => matchesAction(entry.transaction, action) && entry.transaction.tradeDate < action.exDate
+  );
+
+  if (pre.length === 0) {
+    return { updated: [], inserted: [], skipped: 'No transactions before the ex-date' };
+  }
+  if (entries.some((entry) => matchesAction(entry.transaction, action) && alreadyApplied(entry.transaction, action))) {
+    return { updated: [], inserted: [], skipped: 'Already applied' };
+  }
+
+  // Broker tradebooks sometimes carry the split/bonus credit themselves
+  const recorded = entries.some(
+    (entry) =>
+      matchesAction(entry.transaction, action) &&
+      entry.transaction.tradeDate === action.exDate &&
+      entry.transaction.type === action.type
+  );
+  if (recorded) {
+    return { updated: [], inserted: [], skipped: `Ledger already has a ${action.type} entry on the ex-date` };
+  }
+
+  switch (action.type) {
+    case 'split':
+    case 'merger': {
+      const factor = quantityFactor(action);
+      return {
+        updated: pre.map((entry) => ({ id: entry.id!, transaction: rescaleTransaction(entry.transaction, action, factor) })),
+        inserted: []
+      };
+    }
+
+    case 'bonus': {
+      const position = rebuildHoldingsFromLedger(pre.map((entry) => entry.transaction)).positions[0];
+      // Fractional entitlements are settled in cash, not shares
+      const entitlement = position ? Math.floor((position.quantity * action.ratioTo) / action.ratioFrom + EPSILON) : 0;
+
+      if (entitlement <= 0) {
+        return { updated: [], inserted: [], skipped: 'No shares held on the ex-date' };
+      }
+
+      return {
+        updated: [],
+        inserted: [withTrail<NormalizedTransaction>({
+          tradeId: newTradeId(),
+          symbol: position.symbol,
+          isin: position.isin ?? action.isin,
+          type: 'bonus',
+          quantity: entitlement,
+          price: 0,
+          charges: 0,
+          tradeDate: action.exDate,
+          exchange: position.exchange,
+          assetType: position.assetType
+        }, action)]
+      };
+    }
+
+    case 'demerger':
+      return adjustForDemerger(pre, action, newTradeId);
+  }
+}
+
+/**
+ * Undo an action on one portfolio's ledger using the trail it left: rows it
+ * created are dropped, rows it rewrote get their original fields back
+ *
+ * Revert later actions on the same rows first; restoring a row's fields
+ * would otherwise discard what those actions changed.
+ */
+export function revertLedger(entries: LedgerEntry[], action: CorporateAction): LedgerEntry[] {
+  return entries.flatMap((entry) => {
+    const trail: TrailStep[] = entry.transaction._metadata?.corporateActions ?? [];
+    const step = trail.find((candidate) => candidate.id === action.id);
+    if (!step) {
+      return [entry];
+    }
+    if (!step.original) {
+      return [];
+    }
+
+    const { corporateActions: _trail, ...metadata } = entry.transaction._metadata!;
+    const rest = trail.filter((candidate) => candidate !== step);
+    const transaction: NormalizedTransaction = { ...entry.transaction, ...step.original };
+    if (step.original.isin === null) {
+      delete transaction.isin;
+    }
+    if (rest.length > 0) {
+      transaction._metadata = { ...metadata, corporateActions: rest };
+    } else if (Object.keys(metadata).length > 0) {
+      transaction._metadata = metadata;
+    } else {
+      delete transaction._metadata;
+    }
+    return [{ ...entry, transaction }];
+  });
+}
+
+export interface LedgerRestatement {
+  entries: LedgerEntry[];  // Rows without an id are new
+  skipped: Array<{ actionId: number; reason: string }>;
+}
+
+/**
+ * Restate one portfolio's ledger for a chain of actions
+ * Actions already applied are reverted (latest first) and every action is
+ * then applied again in order, so trades imported after an ex-date passed
+ * are adjusted exactly as if they had been there all along
+ *
+ * @param entries - The portfolio's ledger rows for the actions' instruments
+ * @param actions - Actions in ex-date order
+ * @param tradeIdPrefix - Prefix for IDs of created rows, per action
+ */
+export function restateLedger(
+  entries: LedgerEntry[],
+  actions: CorporateAction[],
+  tradeIdPrefix: (action: CorporateAction) => string
+): LedgerRestatement {
+  let ledger = [...actions].reverse().reduce(revertLedger, entries);
+  const skipped: LedgerRestatement['skipped'] = [];
+
+  // Created rows get negative placeholder ids so a later action can rewrite them
+  let placeholder = 0;
+  ledger = ledger.map((entry) => ({ ...entry, id: entry.id ?? --placeholder }));
+
+  for (const action of actions) {
+    const adjustment = adjustLedger(ledger, action, tradeIdPrefix(action));
+    if (adjustment.skipped) {
+      skipped.push({ actionId: action.id, reason: adjustment.skipped });
+    }
+
+    const updated = new Map(adjustment.updated.map(({ id, transaction }) => [id, transaction]));
+    ledger = [
+      ...ledger.map((entry) => ({ id: entry.id, transaction: updated.get(entry.id!) ?? entry.transaction })),
+      ...adjustment.inserted.map((transaction) => ({ id: --placeholder, transaction }))
+    ];
+  }
+
+  return {
+    entries: ledger.map((entry) => (entry.id! < 0 ? { transaction: entry.transaction } : entry)),
+    skipped
+  };
+}
+
+/**
+ * Add a holding into a list, merging with an existing one of the same instrument
+ */
+function addHolding(holdings: NormalizedHolding[], holding: NormalizedHolding): NormalizedHolding[] {
+  const key = instrumentKey(holding);
+  const index = holdings.findIndex((existing) => instrumentKey(existing) === key);
+
+  if (index === -1) {
+    return [...holdings, holding];
+  }
+
+  const existing = holdings[index];
+  const quantity = existing.quantity + holding.quantity;
+  const merged: NormalizedHolding = {
+    ...existing,
+    quantity,
+    avgPrice: (existing.avgPrice * existing.quantity + holding.avgPrice * holding.quantity) / quantity,
+    currentPrice: (existing.currentPrice * existing.quantity + holding.currentPrice * holding.quantity) / quantity,
+    _metadata: { ...existing._metadata, ...holding._metadata }
+  };
+  merged.unrealizedPnL = calculateUnrealizedPnL(merged);
+
+  return holdings.map((current, i) => (i === index ? merged : current));
+}
+
+/**
+ * Restate pre-event holdings in post-event terms
+ * Value and P&L are unchanged, so series and widgets stay continuous
+ *
+ * @param holdings - Holdings as of a time before the ex-date
+ * @returns Adjusted holdings (same array if the action does not apply)
+ */
+export function adjustHoldings(holdings: NormalizedHolding[], action: CorporateAction): NormalizedHolding[] {
+  const target = holdings.find((holding) => matchesAction(holding, action));
+  if (!target || alreadyApplied(target, action)) {
+    return holdings;
+  }
+
+  const others = holdings.filter((holding) => holding !== target);
+  const original = { symbol: target.symbol, isin: target.isin, quantity: target.quantity, avgPrice: target.avgPrice };
+
+  if (action.type === 'demerger') {
+    const costRatio = action.costRatio ?? 0;
+    const factor = action.ratioTo / action.ratioFrom;
+    const parent = withTrail<NormalizedHolding>({
+      ...target,
+      avgPrice: target.avgPrice * (1 - costRatio),
+      currentPrice: target.currentPrice * (1 - costRatio)
+    }, action, original);
+    const child = withTrail<NormalizedHolding>({
+      symbol: action.newSymbol ?? action.newIsin!,
+      isin: action.newIsin,
+      quantity: target.quantity * factor,
+      avgPrice: (target.avgPrice * costRatio) / factor,
+      currentPrice: (target.currentPrice * costRatio) / factor,
+      unrealizedPnL: 0,
+      assetType: target.assetType,
+      exchange: target.exchange,
+      purchaseDate: target.purchaseDate
+    }, action);
+
+    return addHolding(
+      [...others, { ...parent, unrealizedPnL: calculateUnrealizedPnL(parent) }],
+      { ...child, unrealizedPnL: calculateUnrealizedPnL(child) }
+    );
+  }
+
+  const factor = quantityFactor(action);
+  const adjusted = withTrail<NormalizedHolding>({
+    ...target,
+    symbol: action.newSymbol ?? target.symbol,
+    isin: action.newIsin ?? target.isin,
+    quantity: target.quantity * factor,
+    avgPrice: target.avgPrice / factor,
+    currentPrice: target.currentPrice / factor
+  }, action, original);
+
+  return addHolding(others, { ...adjusted, unrealizedPnL: calculateUnrealizedPnL(adjusted) });
+}
@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { detectCsvFormat, runCsvImport } from './csv-import';
+
+describe('detectCsvFormat', () => {
+  it('maps fields to the headers as the file spells them', () => {
+    const detected = detectCsvFormat(['INSTRUMENT', 'qty', 'Avg cost', 'ltp', 'P & L']);
+
+    expect(detected).toMatchObject({ format: 'zerodha_holdings', confidence: 1, kind: 'holdings' });
+    expect(detected.mapping).toEqual({
+      symbol: 'INSTRUMENT',
+      quantity: 'qty',
+      avgPrice: 'Avg cost',
+      currentPrice: 'ltp',
+      unrealizedPnL: 'P & L'
+    });
+  });
+
+  it('falls back to a generic mapping for unknown layouts', () => {
+    const detected = detectCsvFormat(['Date', 'Trade Type', 'Scrip', 'Units', 'Rate']);
+
+    expect(detected).toMatchObject({ format: 'generic_tradebook', confidence: 0, kind: 'tradebook' });
+    expect(detected.mapping).toMatchObject({ symbol: 'Scrip', tradeDate: 'Date', type: 'Trade Type' });
+  });
+});
+
+describe('runCsvImport', () => {
+  it('reads rows of a preset whose headers differ in case and punctuation', () => {
+    const result = runCsvImport(['instrument,QTY,avg_cost,Ltp,P&L', 'INFY,10,"1,450.50",1520,694.50'].join('\n'));
+
+    expect(result.issues.filter((issue) => issue.severity === 'error')).toEqual([]);
+    expect(result.holdings).toEqual([
+      expect.objectContaining({ symbol: 'INFY', quantity: 10, avgPrice: 1450.5, currentPrice: 1520 })
+    ]);
+  });
+
+  it('reads a tradebook export with renamed headers', () => {
+    const text = [
+      'Symbol,ISIN,Trade Date,Exchange,Trade Type,Quantity,Price,Trade ID',
+      'TCS,INE467B01029,15-03-2024,NSE,buy,2,3900.00,T1'
+    ].join('\n');
+    const result = runCsvImport(text);
+
+    expect(result.format).toBe('zerodha_tradebook');
+    expect(result.transactions).toEqual([
+      expect.objectContaining({ symbol: 'TCS', tradeDate: '2024-03-15', type: 'buy', quantity: 2, price: 3900 })
+    ]);
+  });
+});
@@ -0,0 +1,500 @@
+/**
+ * CSV import pipeline: parse, detect format, map columns, build a dry-run preview
+ *
+ * Why this exists:
+ * - Users export holdings/tradebooks from broker consoles in different layouts
+ * - Auto-detects known formats (Zerodha console holdings, Zerodha tradebook)
+ *   and lets users map columns for anything else
+ * - Collects every row-level error and warning instead of failing on the first
+ * - Produces holdings/transactions that are only persisted after confirmation
+ */
+
+import type { AssetType, NormalizedHolding, NormalizedTransaction } from '../shared/types';
+import { parseCsv } from '../shared/csv';
+import {
+  NormalizedHoldingSchema,
+  NormalizedTransactionSchema,
+  normalizeHolding,
+  type NormalizationReason
+} from './schema';
+
+/**
+ * Supported CSV layouts
+ * - zerodha_holdings: Console/Kite holdings export
+ * - zerodha_tradebook: Console tradebook export
+ * - generic_holdings / generic_tradebook: anything else, mapped by the user
+ */
+export type CsvFormat = 'zerodha_holdings' | 'zerodha_tradebook' | 'generic_holdings' | 'generic_tradebook';
+
+export type CsvImportKind = 'holdings' | 'tradebook';
+
+/**
+ * Canonical fields a CSV column can be mapped to
+ */
+export type HoldingCsvField =
+  | 'symbol' | 'isin' | 'quantity' | 'pledgedQuantity' | 'avgPrice' | 'currentPrice'
+  | 'unrealizedPnL' | 'assetType' | 'sector' | 'exchange' | 'purchaseDate';
+
+export type TradebookCsvField =
+  | 'symbol' | 'isin' | 'tradeDate' | 'type' | 'quantity' | 'price' | 'charges' | 'tradeId' | 'exchange' | 'assetType';
+
+/**
+ * Canonical field -> CSV header
+ */
+export type CsvColumnMapping = Partial<Record<HoldingCsvField | TradebookCsvField, string>>;
+
+export interface CsvRowIssue {
+  row: number;  // 1-based data row (header excluded)
+  column?: string;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface CsvDetection {
+  format: CsvFormat;
+  confidence: number;  // 0..1 share of the preset's columns found
+}
+
+export interface CsvImportResult {
+  format: CsvFormat;
+  kind: CsvImportKind;
+  headers: string[];
+  mapping: CsvColumnMapping;
+  totalRows: number;
+  holdings: NormalizedHolding[];
+  transactions: NormalizedTransaction[];
+  issues: CsvRowIssue[];
+}
+
+interface FormatPreset {
+  format: CsvFormat;
+  kind: CsvImportKind;
+  mapping: CsvColumnMapping;
+}
+
+/**
+ * Known broker export layouts
+ * Zerodha has shipped two holdings layouts (Console and Kite), both are listed
+ */
+const PRESETS: FormatPreset[] = [
+  {
+    format: 'zerodha_holdings',
+    kind: 'holdings',
+    mapping: {
+      symbol: 'Symbol',
+      isin: 'ISIN',
+      sector: 'Sector',
+      quantity: 'Quantity Available',
+      pledgedQuantity: 'Quantity Pledged (Margin)',
+      avgPrice: 'Average Price',
+      currentPrice: 'Previous Closing Price',
+      unrealizedPnL: 'Unrealized P&L'
+    }
+  },
+  {
+    format: 'zerodha_holdings',
+    kind: 'holdings',
+    mapping: {
+      symbol: 'Instrument',
+      quantity: 'Qty.',
+      avgPrice: 'Avg. cost',
+      currentPrice: 'LTP',
+      unrealizedPnL: 'P&L'
+    }
+  },
+  {
+    format: 'zerodha_tradebook',
+    kind: 'tradebook',
+    mapping: {
+      symbol: 'symbol',
+      isin: 'isin',
+      tradeDate: 'trade_date',
+      exchange: 'exchange',
+      type: 'trade_type',
+      quantity: 'quantity',
+      price: 'price',
+      tradeId: 'trade_id'
+    }
+  }
+];
+
+/**
+ * Header aliases used to guess a mapping for generic files
+ */
+const HOLDING_ALIASES: Record<HoldingCsvField, string[]> = {
+  symbol: ['symbol', 'tradingsymbol', 'instrument', 'scrip', 'stock', 'scheme', 'name'],
+  isin: ['isin', 'isincode'],
+  quantity: ['quantity', 'qty', 'units', 'shares', 'quantityavailable'],
+  pledgedQuantity: ['pledgedquantity', 'pledged', 'quantitypledgedmargin'],
+  avgPrice: ['avgprice', 'averageprice', 'avgcost', 'buyprice', 'costprice', 'purchaseprice'],
+  currentPrice: ['currentprice', 'ltp', 'lastprice', 'marketprice', 'nav', 'cmp', 'closeprice'],
+  unrealizedPnL: ['pnl', 'unrealizedpnl', 'unrealisedpnl', 'profitloss', 'gainloss'],
+  assetType: ['assettype', 'type', 'instrumenttype', 'category'],
+  sector: ['sector', 'industry'],
+  exchange: ['exchange', 'exch'],
+  purchaseDate: ['purchasedate', 'buydate', 'dateofpurchase']
+};
+
+const TRADEBOOK_ALIASES: Record<TradebookCsvField, string[]> = {
+  symbol: ['symbol', 'tradingsymbol', 'instrument', 'scrip', 'stock'],
+  isin: ['isin', 'isincode'],
+  tradeDate: ['tradedate', 'date', 'transactiondate'],
+  type: ['tradetype', 'type', 'side', 'buysell', 'transactiontype'],
+  quantity: ['quantity', 'qty', 'units', 'shares'],
+  price: ['price', 'rate', 'tradeprice'],
+  charges: ['charges', 'brokerage', 'fees'],
+  tradeId: ['tradeid', 'tradeno', 'id'],
+  exchange: ['exchange', 'exch'],
+  assetType: ['assettype', 'instrumenttype', 'category']
+};
+
+const PNL_REASONS: Record<NormalizationReason, string> = {
+  rounding: 'price rounding',
+  excluded_quantity: 'pledged or unsettled units left out',
+  mismatch: 'unexplained'
+};
+
+const MONTHS: Record<string, string> = {
+  jan: '01', feb: '02', mar: '03', apr: '04', may: '05', jun: '06',
+  jul: '07', aug: '08', sep: '09', oct: '10', nov: '11', dec: '12'
+};
+
+/**
+ * Lowercase alphanumerics only, so 'Avg. cost' and 'avg_cost' compare equal
+ */
+function normalizeHeader(header: string): string {
+  return header.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Detect the export format from the header row
+ */
+export function detectCsvFormat(headers: string[]): CsvDetection & { kind: CsvImportKind; mapping: CsvColumnMapping } {
+  // Normalized header -> the file's own spelling, which is what rows are keyed by
+  const present = new Map(headers.map((header) => [normalizeHeader(header), header]));
+  let best: (CsvDetection & { kind: CsvImportKind; mapping: CsvColumnMapping }) | undefined;
+
+  for (const preset of PRESETS) {
+    const columns = Object.values(preset.mapping).filter((column): column is string => Boolean(column));
+    const found = columns.filter((column) => present.has(normalizeHeader(column))).length;
+    const confidence = found / columns.length;
+
+    if (!best || confidence > best.confidence) {
+      best = { format: preset.format, confidence, kind: preset.kind, mapping: preset.mapping };
+    }
+  }
+
+  // Presets must match almost entirely; partial matches are treated as generic
+  if (best && best.confidence >= 0.8) {
+    const mapping = Object.fromEntries(
+      Object.entries(best.mapping)
+        .map(([field, column]) => [field, present.get(normalizeHeader(column!))])
+        .filter(([, header]) => header !== undefined)
+    ) as CsvColumnMapping;
+    return { ...best, mapping };
+  }
+
+  const kind: CsvImportKind = present.has('tradedate') || present.has('tradetype') ? 'tradebook' : 'holdings';
+  return {
+    format: kind === 'tradebook' ? 'generic_tradebook' : 'generic_holdings',
+    confidence: 0,
+    kind,
+    mapping: guessMapping(headers, kind)
+  };
+}
+
+/**
+ * Guess a column mapping from header aliases
+ */
+export function guessMapping(headers: string[], kind: CsvImportKind): CsvColumnMapping {
+  const aliases: Record<string, string[]> = kind === 'tradebook' ? TRADEBOOK_ALIASES : HOLDING_ALIASES;
+  const mapping: CsvColumnMapping = {};
+  const used = new Set<string>();
+
+  for (const [field, names] of Object.entries(aliases)) {
+    const header = headers.find((candidate) => !used.has(candidate) && names.includes(normalizeHeader(candidate)));
+    if (header) {
+      mapping[field as keyof CsvColumnMapping] = header;
+      used.add(header);
+    }
+  }
+
+  return mapping;
+}
+
+/**
+ * Parse a numeric cell: '1,234.50', '₹ 1,234', '(12.5)', '-3%'
+ * Returns undefined for blanks, NaN for garbage
+ */
+export function parseNumberCell(value: string | undefined): number | undefined {
+  if (value === undefined || value.trim() === '' || value.trim() === '-') {
+    return undefined;
+  }
+
+  const negative = /^\(.*\)$/.test(value.trim());
+  const parsed = Number(value.replace(/[₹,%()\s]|INR|Rs\.?/gi, ''));
+  return negative ? -Math.abs(parsed) : parsed;
+}
+
+/**
+ * Parse a date cell to YYYY-MM-DD
+ * Accepts 2024-03-15, 15-03-2024, 15/03/2024, 15-Mar-2024 (Indian day-first order)
+ */
+export function parseDateCell(value: string | undefined): string | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  // Reject impossible dates such as 2024-13-01 or 2024-02-30
+  const date = matchDateCell(value);
+  const parsed = date ? new Date(`${date}T00:00:00Z`) : undefined;
+  return parsed && !Number.isNaN(parsed.getTime()) && parsed.toISOString().startsWith(date!) ? date : undefined;
+}
+
+/**
+ * Reorder a recognized date layout to YYYY-MM-DD (no range checks)
+ */
+function matchDateCell(value: string): string | undefined {
+  const text = value.trim().slice(0, 10);
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (match) {
+    return `${match[1]}-${match[2]}-${match[3]}`;
+  }
+
+  match = text.match(/^(\d{1,2})[-/](\d{1,2})[-/](\d{4})$/);
+  if (match) {
+    return `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+
+  match = value.trim().match(/^(\d{1,2})[- ]([A-Za-z]{3})[- ](\d{4})$/);
+  if (match && MONTHS[match[2].toLowerCase()]) {
+    return `${match[3]}-${MONTHS[match[2].toLowerCase()]}-${match[1].padStart(2, '0')}`;
+  }
+
+  return undefined;
+}
+
+/**
+ * Map free-text asset types; default from the ISIN (INF... are mutual funds)
+ */
+function parseAssetType(value: string | undefined, isin: string | undefined): AssetType {
+  const text = (value ?? '').toLowerCase();
+  if (/mutual|mf|fund/.test(text)) return 'mutual_fund';
+  if (/etf/.test(text)) return 'etf';
+  if (/bond|debenture|ncd|gsec|sgb/.test(text)) return 'bond';
+  if (/equity|stock|share/.test(text)) return 'equity';
+  return isin?.toUpperCase().startsWith('INF') ? 'mutual_fund' : 'equity';
+}
+
+/**
+ * Collects issues for one row; reading a mapped cell never throws
+ */
+class RowReader {
+  constructor(
+    private readonly cells: Record<string, string>,
+    private readonly mapping: CsvColumnMapping,
+    private readonly row: number,
+    private readonly issues: CsvRowIssue[]
+  ) {}
+
+  text(field: keyof CsvColumnMapping): string | undefined {
+    const column = this.mapping[field];
+    const value = column ? this.cells[column]?.trim() : undefined;
+    return value ? value : undefined;
+  }
+
+  number(field: keyof CsvColumnMapping, required: boolean): number | undefined {
+    const raw = this.text(field);
+    const value = parseNumberCell(raw);
+
+    if (value === undefined) {
+      if (required) this.error(field, `Missing ${field}`);
+      return undefined;
+    }
+    if (Number.isNaN(value)) {
+      this.error(field, `'${raw}' is not a number`);
+      return undefined;
+    }
+    return value;
+  }
+
+  date(field: keyof CsvColumnMapping, required: boolean): string | undefined {
+    const raw = this.text(field);
+    const value = parseDateCell(raw);
+
+    if (raw && !value) {
+      this.error(field, `'${raw}' is not a recognized date`);
+    } else if (!raw && required) {
+      this.error(field, `Missing ${field}`);
+    }
+    return value;
+  }
+
+  error(field: keyof CsvColumnMapping | undefined, message: string): void {
+    this.issues.push({ row: this.row, column: field ? this.mapping[field] : undefined, severity: 'error', message });
+  }
+
+  warning(field: keyof CsvColumnMapping | undefined, message: string): void {
+    this.issues.push({ row: this.row, column: field ? this.mapping[field] : undefined, severity: 'warning', message });
+  }
+
+  get failed(): boolean {
+    return this.issues.some((issue) => issue.row === this.row && issue.severity === 'error');
+  }
+}
+
+function buildHolding(reader: RowReader): NormalizedHolding | undefined {
+  const symbol = reader.text('symbol');
+  if (!symbol) reader.error('symbol', 'Missing symbol');
+
+  const isin = reader.text('isin');
+  const available = reader.number('quantity', true);
+  const pledged = reader.number('pledgedQuantity', false) ?? 0;
+  const avgPrice = reader.number('avgPrice', true);
+  let currentPrice = reader.number('currentPrice', false);
+  const reportedPnL = reader.number('unrealizedPnL', false);
+
+  if (currentPrice === undefined && avgPrice !== undefined) {
+    reader.warning('currentPrice', 'No current price; using average price until the next price refresh');
+    currentPrice = avgPrice;
+  }
+
+  if (reader.failed || !symbol || available === undefined || avgPrice === undefined || currentPrice === undefined) {
+    return undefined;
+  }
+
+  const quantity = available + pledged;
+
+  const holding = {
+    symbol,
+    isin,
+    quantity,
+    avgPrice,
+    currentPrice,
+    unrealizedPnL: reportedPnL ?? (currentPrice - avgPrice) * quantity,
+    assetType: parseAssetType(reader.text('assetType'), isin),
+    sector: reader.text('sector'),
+    exchange: reader.text('exchange'),
+    purchaseDate: reader.date('purchaseDate', false),
+    _metadata: pledged > 0 ? { pledgedQuantity: pledged } : undefined
+  };
+
+  const result = NormalizedHoldingSchema.safeParse(holding);
+  if (!result.success) {
+    for (const error of result.error.errors) {
+      reader.error(error.path[0] as keyof CsvColumnMapping, error.message);
+    }
+    return undefined;
+  }
+
+  // Reported P&L that disagrees with prices is repaired, never a row error
+  const { holding: repaired, adjustment } = normalizeHolding(result.data, 'repair');
+  if (adjustment) {
+    reader.warning(
+      'unrealizedPnL',
+      `Reported P&L ${adjustment.reported.toFixed(2)} differs from computed ${adjustment.computed.toFixed(2)} ` +
+        `(${PNL_REASONS[adjustment.reason]}); using computed value`
+    );
+  }
+
+  return repaired;
+}
+
+function buildTransaction(reader: RowReader): NormalizedTransaction | undefined {
+  const symbol = reader.text('symbol');
+  if (!symbol) reader.error('symbol', 'Missing symbol');
+
+  const side = reader.text('type')?.toLowerCase();
+  const type = side === 'buy' || side === 'b' ? 'buy' : side === 'sell' || side === 's' ? 'sell' : undefined;
+  if (!type) reader.error('type', `Trade type must be buy or sell, got '${side ?? ''}'`);
+
+  const quantity = reader.number('quantity', true);
+  const price = reader.number('price', true);
+  const tradeDate = reader.date('tradeDate', true);
+  const charges = reader.number('charges', false) ?? 0;
+
+  if (reader.failed || !symbol || !type || quantity === undefined || price === undefined || !tradeDate) {
+    return undefined;
+  }
+
+  const isin = reader.text('isin');
+  const transaction = {
+    tradeId: reader.text('tradeId'),
+    symbol,
+    isin,
+    type,
+    quantity: Math.abs(quantity),
+    price,
+    charges,
+    tradeDate,
+    exchange: reader.text('exchange'),
+    assetType: parseAssetType(reader.text('assetType'), isin)
+  };
+
+  const result = NormalizedTransactionSchema.safeParse(transaction);
+  if (!result.success) {
+    for (const error of result.error.errors) {
+      reader.error(error.path[0] as keyof CsvColumnMapping, error.message);
+    }
+    return undefined;
+  }
+
+  return result.data;
+}
+
+/**
+ * Run the import pipeline on CSV text without persisting anything
+ *
+ * @param text - CSV file contents
+ * @param overrides - User-supplied format and/or column mapping
+ * @returns Parsed rows plus every row-level issue; rows with errors are excluded
+ */
+export function runCsvImport(
+  text: string,
+  overrides: { format?: CsvFormat; mapping?: CsvColumnMapping } = {}
+): CsvImportResult {
+  const [headers = [], ...rows] = parseCsv(text);
+  const detected = detectCsvFormat(headers);
+  const format = overrides.format ?? detected.format;
+  const kind: CsvImportKind = format.endsWith('tradebook') ? 'tradebook' : 'holdings';
+  const baseMapping = format === detected.format ? detected.mapping : guessMapping(headers, kind);
+  const mapping: CsvColumnMapping = { ...baseMapping, ...overrides.mapping };
+  const issues: CsvRowIssue[] = [];
+
+  for (const [field, column] of Object.entries(mapping)) {
+    if (column && !headers.includes(column)) {
+      const message = `Mapped column '${column}' (${field}) is not in the file`;
+      issues.push({ row: 0, column, severity: 'error', message });
+    }
+  }
+
+  const holdings: NormalizedHolding[] = [];
+  const transactions: NormalizedTransaction[] = [];
+
+  rows.forEach((cells, index) => {
+    const record = Object.fromEntries(headers.map((header, column) => [header, cells[column] ?? '']));
+    const reader = new RowReader(record, mapping, index + 1, issues);
+
+    if (kind === 'tradebook') {
+      const transaction = buildTransaction(reader);
+      if (transaction) transactions.push(transaction);
+    } else {
+      const holding = buildHolding(reader);
+      if (holding) holdings.push(holding);
+    }
+  });
+
+  return { format, kind, headers, mapping, totalRows: rows.length, holdings, transactions, issues };
+}
+
+/**
+ * Template offered for download (generic holdings layout)
+ */
+export const CSV_TEMPLATE_HEADERS = [
+  'Symbol', 'ISIN', 'Quantity', 'Average Price', 'Current Price', 'Asset Type', 'Sector', 'Exchange', 'Purchase Date'
+];
+
+export const CSV_TEMPLATE = [
+  CSV_TEMPLATE_HEADERS.join(','),
+  'INFY,INE009A01021,10,1450.50,1520.00,equity,Information Technology,NSE,2023-06-15'
+].join('\n');
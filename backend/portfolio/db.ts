@@ -11,9 +11,15 @@ import { SQLDatabase } from 'encore.dev/storage/sqldb';
 
 /**
  * Portfolio service database
- * Manages: portfolios, users (auth data)
+ * Manages: portfolios, portfolio_snapshots, transactions, csv_import_previews,
+ * corporate_actions, eod_prices, market_holidays, users (auth data)
  */
 export const DB = new SQLDatabase('portfolio', {
   migrations: './migrations'
 });
 
+
+/**
+ * An open transaction on DB, for writes that must commit together
+ */
+export type Transaction = Awaited<ReturnType<typeof DB.begin>>;
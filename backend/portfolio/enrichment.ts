@@ -0,0 +1,39 @@
+/**
+ * Holding enrichment from the instrument master
+ *
+ * Why this exists:
+ * - Connectors and CSVs leave isin/sector/exchange/market cap blank
+ * - Runs just before normalization so every stored holding is classified
+ * - Reads the instruments service database directly (read-only)
+ */
+
+import { SQLDatabase } from 'encore.dev/storage/sqldb';
+import type { NormalizedHolding } from '../shared/types';
+import { enrichHolding, resolveInstrument } from '../instruments/master';
+import { loadInstrumentIndex } from '../instruments/store';
+
+const InstrumentsDB = SQLDatabase.named('instruments');
+
+export interface EnrichmentResult {
+  holdings: NormalizedHolding[];
+  unresolved: string[];  // Symbols not found in the instrument master
+}
+
+/**
+ * Fill classification fields on holdings from the instrument master
+ * Holdings that cannot be resolved are returned unchanged
+ */
+export async function enrichHoldings(holdings: NormalizedHolding[]): Promise<EnrichmentResult> {
+  const index = await loadInstrumentIndex(InstrumentsDB, holdings);
+  const unresolved: string[] = [];
+
+  const enriched = holdings.map((holding) => {
+    const instrument = resolveInstrument(index, holding);
+    if (!instrument) {
+      unresolved.push(holding.symbol);
+    }
+    return enrichHolding(holding, instrument);
+  });
+
+  return { holdings: enriched, unresolved };
+}
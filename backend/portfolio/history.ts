@@ -0,0 +1,143 @@
+/**
+ * Portfolio history endpoints
+ * 
+ * Why this exists:
+ * - Answers "how did my portfolio look on date X"
+ * - Serves the value time series behind timeseries widgets
+ * - Runs the daily snapshot compaction job
+ */
+
+import { api } from 'encore.dev/api';
+import { CronJob } from 'encore.dev/cron';
+import { DB } from './db';
+import { requireAuth } from '../shared/auth';
+import { invalidArgument, notFound } from '../shared/errors';
+import type {
+  ConsolidatedPortfolio,
+  PortfolioSnapshot,
+  PortfolioValuePoint,
+  SnapshotInterval
+} from '../shared/types';
+import { compactSnapshots, getUserSnapshotsAt, getValueSeries } from './snapshots';
+import { consolidatePortfolios } from './consolidate';
+import { listPortfolios } from './store';
+
+/**
+ * Parse an ISO 8601 date query parameter
+ */
+function parseDateParam(name: string, value: string): Date {
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) {
+    throw invalidArgument(`'${name}' must be an ISO 8601 date`, { [name]: value });
+  }
+  return date;
+}
+
+interface GetSnapshotAtRequest {
+  at: string;  // ISO 8601
+  portfolioId?: number;  // Omit for all portfolios
+}
+
+interface GetSnapshotAtResponse {
+  snapshots: PortfolioSnapshot[];
+  consolidated: ConsolidatedPortfolio;
+}
+
+/**
+ * Get the portfolio(s) as they were at a point in time
+ * GET /portfolio/snapshots/at?at=2024-03-31&portfolioId=1
+ */
+export const snapshotAt = api(
+  { expose: true, auth: true, method: 'GET', path: '/portfolio/snapshots/at' },
+  async ({ at, portfolioId }: GetSnapshotAtRequest): Promise<GetSnapshotAtResponse> => {
+    const { userId } = requireAuth();
+    const snapshots = (await getUserSnapshotsAt(userId, parseDateParam('at', at)))
+      .filter((snapshot) => portfolioId === undefined || snapshot.portfolioId === portfolioId);
+
+    if (snapshots.length === 0) {
+      throw notFound('No portfolio snapshot exists at or before this date', { at, portfolioId });
+    }
+
+    // Snapshots don't carry the (renameable) portfolio name
+    const names = new Map((await listPortfolios(userId)).map((portfolio) => [portfolio.id, portfolio.name]));
+    const consolidated = consolidatePortfolios(
+      userId,
+      snapshots.map((snapshot) => ({
+        id: snapshot.portfolioId,
+        userId,
+        name: names.get(snapshot.portfolioId) ?? '',
+        source: snapshot.source,
+        lastSync: snapshot.syncedAt,
+        totalValue: snapshot.totalValue,
+        totalPnL: snapshot.totalPnL,
+        currency: snapshot.currency,
+        holdings: snapshot.holdings,
+        createdAt: snapshot.createdAt
+      }))
+    );
+
+    return { snapshots, consolidated };
+  }
+);
+
+interface GetValueSeriesRequest {
+  from: string;  // ISO 8601
+  to: string;
+  interval?: SnapshotInterval;
+  portfolioId?: number;  // Omit for the sum of all portfolios
+}
+
+interface GetValueSeriesResponse {
+  points: PortfolioValuePoint[];
+}
+
+/**
+ * Get portfolio value and P&L over time
+ * GET /portfolio/snapshots/series?from=...&to=...&interval=daily
+ */
+export const valueSeries = api(
+  { expose: true, auth: true, method: 'GET', path: '/portfolio/snapshots/series' },
+  async ({ from, to, interval, portfolioId }: GetValueSeriesRequest): Promise<GetValueSeriesResponse> => {
+    const { userId } = requireAuth();
+    const fromDate = parseDateParam('from', from);
+    const toDate = parseDateParam('to', to);
+
+    if (fromDate > toDate) {
+      throw invalidArgument("'from' must not be after 'to'", { from, to });
+    }
+
+    const points = await getValueSeries(userId, fromDate, toDate, interval ?? 'daily', portfolioId);
+    return { points };
+  }
+);
+
+interface CompactSnapshotsResponse {
+  portfoliosProcessed: number;
+  snapshotsDeleted: number;
+}
+
+/**
+ * Apply the retention policy to every portfolio's snapshots
+ * Internal endpoint, triggered by cron
+ */
+export const compactAllSnapshots = api(
+  { expose: false, method: 'POST', path: '/portfolio/snapshots/compact' },
+  async (): Promise<CompactSnapshotsResponse> => {
+    const portfolios = await DB.queryAll<{ portfolio_id: number }>`
+      SELECT DISTINCT portfolio_id FROM portfolio_snapshots
+    `;
+
+    let snapshotsDeleted = 0;
+    for (const { portfolio_id } of portfolios) {
+      snapshotsDeleted += await compactSnapshots(Number(portfolio_id));
+    }
+
+    return { portfoliosProcessed: portfolios.length, snapshotsDeleted };
+  }
+);
+
+export const compactSnapshotsJob = new CronJob('compact-portfolio-snapshots', {
+  title: 'Compact portfolio snapshot history',
+  schedule: '30 20 * * *',  // 02:00 IST
+  endpoint: compactAllSnapshots
+});
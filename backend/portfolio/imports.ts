@@ -0,0 +1,276 @@
+/**
+ * CSV import endpoints (preview, then confirmed commit)
+ *
+ * Why this exists:
+ * - Uploading a CSV never writes to the portfolio directly
+ * - The preview shows detected format, column mapping and every row issue
+ * - Only a confirmed preview is merged into (or replaces) a named portfolio
+ */
+
+import { api, type APIError } from 'encore.dev/api';
+import { DB } from './db';
+import { requireAuth } from '../shared/auth';
+import { env } from '../shared/env';
+import { invalidArgument, notFound, permissionDenied } from '../shared/errors';
+import type { NormalizedHolding, NormalizedTransaction } from '../shared/types';
+import {
+  CSV_TEMPLATE,
+  runCsvImport,
+  type CsvColumnMapping,
+  type CsvFormat,
+  type CsvImportKind,
+  type CsvRowIssue
+} from './csv-import';
+import { instrumentKey } from './ledger';
+import { DEFAULT_PORTFOLIO_NAME, normalizePortfolio } from './schema';
+import { enrichHoldings } from './enrichment';
+import { listPortfolios, writePortfolio } from './store';
+import { writeTransactions } from './transactions';
+
+const CSV_SOURCE = 'csv';
+const PREVIEW_TTL_MS = 24 * 60 * 60 * 1000;
+const PREVIEW_SAMPLE_ROWS = 50;
+const MAX_CSV_BYTES = 5 * 1024 * 1024;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+/**
+ * How a confirmed import combines with existing data
+ * - replace: the portfolio (or its CSV ledger entries) is overwritten
+ * - merge: holdings are upserted by ISIN/symbol; trades are appended
+ */
+export type CsvMergeStrategy = 'replace' | 'merge';
+
+interface PreviewRow {
+  id: string;
+  user_id: string;
+  format: CsvFormat;
+  kind: CsvImportKind;
+  mapping: CsvColumnMapping;
+  total_rows: number;
+  rows: Array<NormalizedHolding | NormalizedTransaction>;
+  issues: CsvRowIssue[];
+  committed_at: Date | null;
+  expires_at: Date;
+}
+
+/**
+ * Assert the feature flag is on
+ */
+function ensureCsvImportEnabled(): void {
+  if (!env.ENABLE_CSV_IMPORT) {
+    throw permissionDenied('CSV import is disabled');
+  }
+}
+
+/**
+ * Upsert imported holdings into existing ones (imported rows win)
+ */
+function upsertHoldings(existing: NormalizedHolding[], imported: NormalizedHolding[]): NormalizedHolding[] {
+  const merged = new Map(existing.map((holding) => [instrumentKey(holding), holding]));
+  for (const holding of imported) {
+    merged.set(instrumentKey(holding), holding);
+  }
+  return [...merged.values()];
+}
+
+interface PreviewCsvRequest {
+  file: string;  // Base64-encoded CSV
+  format?: CsvFormat;
+  mapping?: CsvColumnMapping;
+}
+
+interface PreviewCsvResponse {
+  previewId: string;
+  format: CsvFormat;
+  kind: CsvImportKind;
+  headers: string[];
+  mapping: CsvColumnMapping;
+  totalRows: number;
+  validRows: number;
+  errorCount: number;
+  warningCount: number;
+  sample: Array<NormalizedHolding | NormalizedTransaction>;
+  issues: CsvRowIssue[];
+  expiresAt: string;  // ISO 8601
+}
+
+/**
+ * Parse a CSV and store a dry-run preview
+ * Re-post with format/mapping overrides to adjust the column mapping
+ * POST /portfolio/import-csv/preview
+ */
+export const previewCsvImport = api(
+  { expose: true, auth: true, method: 'POST', path: '/portfolio/import-csv/preview' },
+  async ({ file, format, mapping }: PreviewCsvRequest): Promise<PreviewCsvResponse> => {
+    ensureCsvImportEnabled();
+    const { userId } = requireAuth();
+
+    const buffer = Buffer.from(file, 'base64');
+    if (buffer.length === 0) {
+      throw invalidArgument('CSV file is empty');
+    }
+    if (buffer.length > MAX_CSV_BYTES) {
+      throw invalidArgument('CSV file is too large', { maxBytes: MAX_CSV_BYTES });
+    }
+
+    const result = runCsvImport(buffer.toString('utf8'), { format, mapping });
+    if (result.headers.length === 0) {
+      throw invalidArgument('CSV file has no header row');
+    }
+
+    const rows = result.kind === 'tradebook' ? result.transactions : result.holdings;
+    const expiresAt = new Date(Date.now() + PREVIEW_TTL_MS);
+
+    const row = await DB.queryRow<{ id: string }>`
+      INSERT INTO csv_import_previews (user_id, format, kind, mapping, total_rows, rows, issues, expires_at)
+      VALUES (
+        ${userId}, ${result.format}, ${result.kind}, ${JSON.stringify(result.mapping)}::jsonb,
+        ${result.totalRows}, ${JSON.stringify(rows)}::jsonb, ${JSON.stringify(result.issues)}::jsonb, ${expiresAt}
+      )
+      RETURNING id
+    `;
+
+    return {
+      previewId: row!.id,
+      format: result.format,
+      kind: result.kind,
+      headers: result.headers,
+      mapping: result.mapping,
+      totalRows: result.totalRows,
+      validRows: rows.length,
+      errorCount: result.issues.filter((issue) => issue.severity === 'error').length,
+      warningCount: result.issues.filter((issue) => issue.severity === 'warning').length,
+      sample: rows.slice(0, PREVIEW_SAMPLE_ROWS),
+      issues: result.issues,
+      expiresAt: expiresAt.toISOString()
+    };
+  }
+);
+
+interface CommitCsvRequest {
+  previewId: string;
+  confirm: boolean;
+  mergeStrategy: CsvMergeStrategy;
+  portfolioName?: string;
+}
+
+interface CommitCsvResponse {
+  success: boolean;
+  portfolioId?: number;
+  kind: CsvImportKind;
+  imported: number;
+  skipped: number;  // Rows excluded because of errors
+}
+
+/**
+ * Why a preview could not be claimed for commit
+ */
+async function unclaimablePreview(userId: string, previewId: string): Promise<APIError> {
+  const preview = await DB.queryRow<Pick<PreviewRow, 'committed_at' | 'expires_at'>>`
+    SELECT committed_at, expires_at FROM csv_import_previews
+    WHERE id = ${previewId}::uuid AND user_id = ${userId}
+  `;
+
+  if (!preview) {
+    return notFound('Import preview not found', { previewId });
+  }
+  if (preview.committed_at) {
+    return invalidArgument('Import preview was already committed', { previewId });
+  }
+  return invalidArgument('Import preview has expired; upload the file again', { previewId });
+}
+
+/**
+ * Commit a previewed import after the user confirms it
+ * POST /portfolio/import-csv/commit
+ */
+export const commitCsvImport = api(
+  { expose: true, auth: true, method: 'POST', path: '/portfolio/import-csv/commit' },
+  async ({ previewId, confirm, mergeStrategy, portfolioName }: CommitCsvRequest): Promise<CommitCsvResponse> => {
+    ensureCsvImportEnabled();
+    const { userId } = requireAuth();
+
+    if (!confirm) {
+      throw invalidArgument('Import must be confirmed before it is committed');
+    }
+
+    if (!UUID_PATTERN.test(previewId)) {
+      throw invalidArgument('Import preview id must be a UUID', { previewId });
+    }
+
+    // Claiming the preview locks its row until the import is done: a concurrent
+    // commit of the same preview waits, then finds it committed. Every write
+    // below runs on the same transaction, so if the import fails the claim, the
+    // ledger and the portfolio are all rolled back and the preview can be committed again.
+    const tx = await DB.begin();
+    try {
+      const preview = await tx.queryRow<PreviewRow>`
+        UPDATE csv_import_previews SET committed_at = NOW()
+        WHERE id = ${previewId}::uuid AND user_id = ${userId}
+          AND committed_at IS NULL AND expires_at >= NOW()
+        RETURNING id, user_id, format, kind, mapping, total_rows, rows, issues, committed_at, expires_at
+      `;
+      if (!preview) {
+        throw await unclaimablePreview(userId, previewId);
+      }
+      if (preview.rows.length === 0) {
+        throw invalidArgument('Import preview has no valid rows', { previewId });
+      }
+
+      const name = portfolioName ?? DEFAULT_PORTFOLIO_NAME;
+      const existing = (await listPortfolios(userId)).find((portfolio) => portfolio.name === name);
+      const skipped = preview.total_rows - preview.rows.length;
+      let portfolioId = existing?.id;
+      let imported: number;
+
+      if (preview.kind === 'tradebook') {
+        const transactions = preview.rows as NormalizedTransaction[];
+        if (mergeStrategy === 'replace') {
+          await tx.exec`
+            DELETE FROM transactions
+            WHERE user_id = ${userId} AND source = ${CSV_SOURCE}
+              AND portfolio_id IS NOT DISTINCT FROM ${portfolioId ?? null}
+          `;
+        }
+        imported = await writeTransactions(tx, userId, CSV_SOURCE, transactions, portfolioId);
+      } else {
+        const { holdings } = await enrichHoldings(preview.rows as NormalizedHolding[]);
+        const combined = mergeStrategy === 'merge' && existing
+          ? upsertHoldings(existing.holdings, holdings)
+          : holdings;
+        const portfolio = normalizePortfolio(
+          userId,
+          CSV_SOURCE,
+          combined,
+          existing?.currency ?? 'INR',
+          name,
+          'repair'
+        );
+        ({ portfolioId } = await writePortfolio(tx, portfolio));
+        imported = holdings.length;
+      }
+
+      await tx.commit();
+      return { success: true, portfolioId, kind: preview.kind, imported, skipped };
+    } catch (error) {
+      await tx.rollback();
+      throw error;
+    }
+  }
+);
+
+interface CsvTemplateResponse {
+  filename: string;
+  content: string;
+}
+
+/**
+ * Download a CSV template for the generic holdings format
+ * GET /portfolio/import-csv/template
+ */
+export const csvTemplate = api(
+  { expose: true, auth: true, method: 'GET', path: '/portfolio/import-csv/template' },
+  async (): Promise<CsvTemplateResponse> => {
+    return { filename: 'kitemate-holdings-template.csv', content: CSV_TEMPLATE };
+  }
+);
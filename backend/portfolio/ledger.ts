@@ -0,0 +1,233 @@
+/**
+ * Transaction ledger: derive holdings from trades and reconcile with the broker
+ *
+ * Why this exists:
+ * - Holdings only carry aggregates; the ledger keeps the history behind them
+ * - Rebuilding positions from the ledger catches missing or duplicated trades
+ * - Reconciliation flags where our ledger disagrees with broker-reported holdings
+ */
+
+import type { AssetType, NormalizedHolding, NormalizedTransaction } from '../shared/types';
+
+/**
+ * Position derived purely from ledger entries
+ */
+export interface LedgerPosition {
+  key: string;
+  symbol: string;
+  isin?: string;
+  assetType: AssetType;
+  exchange?: string;
+  quantity: number;
+  avgPrice: number;
+  totalCharges: number;
+  dividends: number;
+  firstTradeDate: string;
+  lastTradeDate: string;
+}
+
+/**
+ * Problem found while replaying the ledger
+ */
+export interface LedgerWarning {
+  key: string;
+  tradeDate: string;
+  message: string;
+}
+
+export interface LedgerRebuildResult {
+  positions: LedgerPosition[];
+  warnings: LedgerWarning[];
+}
+
+/**
+ * Field-level disagreement between ledger and broker
+ */
+export interface ReconciliationDiscrepancy {
+  key: string;
+  symbol: string;
+  kind: 'quantity_mismatch' | 'avg_price_mismatch' | 'missing_in_ledger' | 'missing_in_broker';
+  ledgerValue?: number;
+  brokerValue?: number;
+}
+
+export interface ReconciliationReport {
+  matched: number;
+  discrepancies: ReconciliationDiscrepancy[];
+}
+
+/**
+ * Stable identity of an instrument across sources
+ * ISIN when available (symbols get renamed), else upper-cased symbol
+ */
+export function instrumentKey(item: { isin?: string; symbol: string }): string {
+  return item.isin ? item.isin.toUpperCase() : item.symbol.toUpperCase();
+}
+
+/**
+ * Order ledger entries for replay: by trade date, then in the order given
+ */
+function sortForReplay(transactions: NormalizedTransaction[]): NormalizedTransaction[] {
+  return transactions
+    .map((tx, index) => ({ tx, index }))
+    .sort((a, b) => a.tx.tradeDate.localeCompare(b.tx.tradeDate) || a.index - b.index)
+    .map(({ tx }) => tx);
+}
+
+/**
+ * Replay the ledger into positions using the weighted average cost method
+ * (the same method brokers use for the holdings avgPrice)
+ *
+ * - buy: adds quantity, raises cost by quantity * price
+ * - sell: removes quantity at the current average cost
+ * - bonus: adds quantity at zero cost (average drops)
+ * - split: multiplies quantity by to/from, cost unchanged
+ * - dividend: recorded as income only
+ *
+ * Fully closed positions are dropped from the result.
+ */
+export function rebuildHoldingsFromLedger(transactions: NormalizedTransaction[]): LedgerRebuildResult {
+  const positions = new Map<string, LedgerPosition & { cost: number }>();
+  const warnings: LedgerWarning[] = [];
+
+  for (const tx of sortForReplay(transactions)) {
+    const key = instrumentKey(tx);
+    let position = positions.get(key);
+
+    if (!position) {
+      position = {
+        key,
+        symbol: tx.symbol,
+        isin: tx.isin,
+        assetType: tx.assetType,
+        exchange: tx.exchange,
+        quantity: 0,
+        avgPrice: 0,
+        cost: 0,
+        totalCharges: 0,
+        dividends: 0,
+        firstTradeDate: tx.tradeDate,
+        lastTradeDate: tx.tradeDate
+      };
+      positions.set(key, position);
+    }
+
+    position.totalCharges += tx.charges;
+    position.lastTradeDate = tx.tradeDate;
+
+    switch (tx.type) {
+      case 'buy':
+        if (position.quantity === 0) {
+          position.firstTradeDate = tx.tradeDate;
+        }
+        position.quantity += tx.quantity;
+        position.cost += tx.quantity * tx.price;
+        break;
+
+      case 'sell': {
+        if (tx.quantity > position.quantity + 1e-9) {
+          warnings.push({
+            key,
+            tradeDate: tx.tradeDate,
+            message: `Sell of ${tx.quantity} exceeds held quantity ${position.quantity}; ledger is missing earlier buys`
+          });
+        }
+        const sold = Math.min(tx.quantity, position.quantity);
+        const avg = position.quantity > 0 ? position.cost / position.quantity : 0;
+        position.quantity -= sold;
+        position.cost -= sold * avg;
+        break;
+      }
+
+      case 'bonus':
+        position.quantity += tx.quantity;
+        break;
+
+      case 'split':
+        if (!tx.splitRatio) {
+          warnings.push({ key, tradeDate: tx.tradeDate, message: 'Split without splitRatio ignored' });
+          break;
+        }
+        position.quantity = (position.quantity * tx.splitRatio.to) / tx.splitRatio.from;
+        break;
+
+      case 'dividend':
+        position.dividends += tx.quantity * tx.price;
+        break;
+    }
+
+    position.avgPrice = position.quantity > 0 ? position.cost / position.quantity : 0;
+  }
+
+  const open = [...positions.values()]
+    .filter((position) => position.quantity > 1e-9)
+    .map(({ cost: _cost, ...position }) => position);
+
+  return { positions: open, warnings };
+}
+
+/**
+ * Compare ledger-derived positions with broker-reported holdings
+ *
+ * @param positions - Output of rebuildHoldingsFromLedger
+ * @param holdings - Holdings reported by the broker
+ * @param priceTolerance - Allowed avgPrice difference per unit (brokers round to paise)
+ */
+export function reconcileHoldings(
+  positions: LedgerPosition[],
+  holdings: NormalizedHolding[],
+  priceTolerance: number = 0.01
+): ReconciliationReport {
+  const ledger = new Map(positions.map((position) => [position.key, position]));
+  const discrepancies: ReconciliationDiscrepancy[] = [];
+  let matched = 0;
+
+  for (const holding of holdings) {
+    const key = instrumentKey(holding);
+    const position = ledger.get(key);
+    ledger.delete(key);
+
+    if (!position) {
+      discrepancies.push({ key, symbol: holding.symbol, kind: 'missing_in_ledger', brokerValue: holding.quantity });
+      continue;
+    }
+
+    let ok = true;
+    if (Math.abs(position.quantity - holding.quantity) > 1e-6) {
+      ok = false;
+      discrepancies.push({
+        key,
+        symbol: holding.symbol,
+        kind: 'quantity_mismatch',
+        ledgerValue: position.quantity,
+        brokerValue: holding.quantity
+      });
+    }
+
+    if (Math.abs(position.avgPrice - holding.avgPrice) > priceTolerance) {
+      ok = false;
+      discrepancies.push({
+        key,
+        symbol: holding.symbol,
+        kind: 'avg_price_mismatch',
+        ledgerValue: position.avgPrice,
+        brokerValue: holding.avgPrice
+      });
+    }
+
+    if (ok) {
+      matched++;
+    }
+  }
+
+  for (const position of ledger.values()) {
+    discrepancies.push({
+      key: position.key,
+      symbol: position.symbol,
+      kind: 'missing_in_broker',
+      ledgerValue: position.quantity
+    });
+  }
+
+  return { matched, discrepancies };
+}
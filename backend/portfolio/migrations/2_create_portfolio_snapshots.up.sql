@@ -0,0 +1,23 @@
+-- Create append-only portfolio snapshots table
+-- Every sync appends a row here so historical state survives the overwrite of `portfolios`
+
+CREATE TABLE portfolio_snapshots (
+  id BIGSERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('zerodha', 'csv')),
+  synced_at TIMESTAMPTZ NOT NULL,
+  total_value NUMERIC(15, 2) NOT NULL CHECK (total_value >= 0),
+  total_pnl NUMERIC(15, 2) NOT NULL,
+  currency TEXT NOT NULL DEFAULT 'INR',
+  data JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, synced_at)
+);
+
+-- Snapshot lookups are always "for this user, around this time"
+CREATE INDEX idx_portfolio_snapshots_user_synced ON portfolio_snapshots(user_id, synced_at DESC);
+
+-- Comments for documentation
+COMMENT ON TABLE portfolio_snapshots IS 'Append-only history of normalized portfolios, one row per sync';
+COMMENT ON COLUMN portfolio_snapshots.synced_at IS 'Time the source data was synced (not insert time)';
+COMMENT ON COLUMN portfolio_snapshots.data IS 'Array of NormalizedHolding objects as of synced_at';
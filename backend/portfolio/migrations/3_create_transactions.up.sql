@@ -0,0 +1,35 @@
+-- Create transactions ledger
+-- Holdings are aggregates; this table keeps every trade and corporate action credit behind them
+
+CREATE TABLE transactions (
+  id BIGSERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  source TEXT NOT NULL CHECK (source IN ('zerodha', 'csv')),
+  trade_id TEXT,
+  symbol TEXT NOT NULL,
+  isin TEXT,
+  type TEXT NOT NULL CHECK (type IN ('buy', 'sell', 'bonus', 'split', 'dividend')),
+  quantity NUMERIC(18, 4) NOT NULL CHECK (quantity >= 0),
+  price NUMERIC(15, 4) NOT NULL CHECK (price >= 0),
+  charges NUMERIC(15, 2) NOT NULL DEFAULT 0 CHECK (charges >= 0),
+  split_from NUMERIC(10, 4),
+  split_to NUMERIC(10, 4),
+  trade_date DATE NOT NULL,
+  exchange TEXT,
+  asset_type TEXT NOT NULL,
+  metadata JSONB,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CHECK (type <> 'split' OR (split_from > 0 AND split_to > 0))
+);
+
+-- Re-importing the same tradebook must not duplicate trades
+CREATE UNIQUE INDEX idx_transactions_trade_id ON transactions(user_id, source, trade_id)
+  WHERE trade_id IS NOT NULL;
+
+CREATE INDEX idx_transactions_user_date ON transactions(user_id, trade_date);
+CREATE INDEX idx_transactions_user_isin ON transactions(user_id, isin);
+
+-- Comments for documentation
+COMMENT ON TABLE transactions IS 'Normalized transaction ledger (trades, bonuses, splits, dividends)';
+COMMENT ON COLUMN transactions.trade_id IS 'Broker trade ID, used for de-duplication when present';
+COMMENT ON COLUMN transactions.price IS 'Per-unit price; dividend per share for dividends; 0 for bonus and split';
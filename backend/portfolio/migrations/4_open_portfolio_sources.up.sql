@@ -0,0 +1,14 @@
+-- Open up the portfolio source column for pluggable connectors
+-- Sources are connector IDs from the registry, so only their format is enforced here
+
+ALTER TABLE portfolios DROP CONSTRAINT portfolios_source_check;
+ALTER TABLE portfolios ADD CONSTRAINT portfolios_source_check CHECK (source ~ '^[a-z][a-z0-9_]*$');
+
+ALTER TABLE portfolio_snapshots DROP CONSTRAINT portfolio_snapshots_source_check;
+ALTER TABLE portfolio_snapshots ADD CONSTRAINT portfolio_snapshots_source_check CHECK (source ~ '^[a-z][a-z0-9_]*$');
+
+ALTER TABLE transactions DROP CONSTRAINT transactions_source_check;
+ALTER TABLE transactions ADD CONSTRAINT transactions_source_check CHECK (source ~ '^[a-z][a-z0-9_]*$');
+
+COMMENT ON COLUMN portfolios.source IS 'Connector ID the portfolio was synced from (e.g. zerodha, csv)';
+COMMENT ON TABLE portfolios IS 'Normalized portfolio data from all registered connectors';
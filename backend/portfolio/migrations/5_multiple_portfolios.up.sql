@@ -0,0 +1,23 @@
+-- Allow several named portfolios per user
+-- (own broker account, family accounts, CSV of old holdings, ...)
+
+ALTER TABLE portfolios DROP CONSTRAINT portfolios_user_id_key;
+ALTER TABLE portfolios ADD COLUMN name TEXT NOT NULL DEFAULT 'Primary';
+ALTER TABLE portfolios ADD CONSTRAINT portfolios_user_id_name_key UNIQUE (user_id, name);
+
+-- Snapshots belong to a portfolio; existing rows map to the user's only portfolio
+ALTER TABLE portfolio_snapshots ADD COLUMN portfolio_id BIGINT REFERENCES portfolios(id) ON DELETE CASCADE;
+UPDATE portfolio_snapshots s SET portfolio_id = p.id FROM portfolios p WHERE p.user_id = s.user_id;
+DELETE FROM portfolio_snapshots WHERE portfolio_id IS NULL;
+ALTER TABLE portfolio_snapshots ALTER COLUMN portfolio_id SET NOT NULL;
+ALTER TABLE portfolio_snapshots DROP CONSTRAINT portfolio_snapshots_user_id_synced_at_key;
+ALTER TABLE portfolio_snapshots ADD CONSTRAINT portfolio_snapshots_portfolio_id_synced_at_key UNIQUE (portfolio_id, synced_at);
+CREATE INDEX idx_portfolio_snapshots_portfolio_synced ON portfolio_snapshots(portfolio_id, synced_at DESC);
+
+-- Ledger entries may be imported before the first sync, so the link stays optional
+ALTER TABLE transactions ADD COLUMN portfolio_id BIGINT REFERENCES portfolios(id) ON DELETE CASCADE;
+UPDATE transactions t SET portfolio_id = p.id FROM portfolios p WHERE p.user_id = t.user_id;
+CREATE INDEX idx_transactions_portfolio ON transactions(portfolio_id);
+
+COMMENT ON COLUMN portfolios.name IS 'User-chosen portfolio name, unique per user';
+COMMENT ON COLUMN transactions.portfolio_id IS 'Portfolio the trade belongs to (NULL if imported before any sync)';
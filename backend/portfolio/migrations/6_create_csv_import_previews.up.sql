@@ -0,0 +1,23 @@
+-- Dry-run CSV imports awaiting confirmation
+-- The parsed rows are kept so the confirmed commit writes exactly what was previewed
+
+CREATE TABLE csv_import_previews (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  format TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('holdings', 'tradebook')),
+  mapping JSONB NOT NULL,
+  total_rows INTEGER NOT NULL,
+  rows JSONB NOT NULL,
+  issues JSONB NOT NULL,
+  committed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_csv_import_previews_user ON csv_import_previews(user_id, created_at DESC);
+
+-- Comments for documentation
+COMMENT ON TABLE csv_import_previews IS 'Parsed CSV imports shown to the user before they confirm';
+COMMENT ON COLUMN csv_import_previews.rows IS 'Valid normalized holdings or transactions (rows with errors excluded)';
+COMMENT ON COLUMN csv_import_previews.issues IS 'Row-level errors and warnings collected during parsing';
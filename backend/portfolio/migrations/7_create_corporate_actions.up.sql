@@ -0,0 +1,38 @@
+-- Corporate actions (splits, bonuses, mergers, demergers)
+-- Ratios follow the conventions documented in portfolio/corporate-actions.ts
+
+CREATE TABLE corporate_actions (
+  id BIGSERIAL PRIMARY KEY,
+  isin TEXT NOT NULL,
+  symbol TEXT NOT NULL,
+  ex_date DATE NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('split', 'bonus', 'merger', 'demerger')),
+  ratio_from NUMERIC(12, 4) NOT NULL CHECK (ratio_from > 0),
+  ratio_to NUMERIC(12, 4) NOT NULL CHECK (ratio_to > 0),
+  new_isin TEXT,
+  new_symbol TEXT,
+  cost_ratio NUMERIC(8, 6) CHECK (cost_ratio >= 0 AND cost_ratio <= 1),
+  description TEXT,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (isin, ex_date, type),
+  CHECK (type NOT IN ('merger', 'demerger') OR new_isin IS NOT NULL),
+  CHECK (type <> 'demerger' OR cost_ratio IS NOT NULL)
+);
+
+CREATE INDEX idx_corporate_actions_ex_date ON corporate_actions(ex_date);
+
+-- Which users' ledgers and snapshots have been rewritten for an action
+CREATE TABLE corporate_action_applications (
+  action_id BIGINT NOT NULL REFERENCES corporate_actions(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  transactions_updated INTEGER NOT NULL DEFAULT 0,
+  transactions_inserted INTEGER NOT NULL DEFAULT 0,
+  snapshots_updated INTEGER NOT NULL DEFAULT 0,
+  applied_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (action_id, user_id)
+);
+
+-- Comments for documentation
+COMMENT ON TABLE corporate_actions IS 'Corporate actions keyed by ISIN and ex-date';
+COMMENT ON COLUMN corporate_actions.cost_ratio IS 'Demerger: share of the parent cost carried to new_isin';
+COMMENT ON TABLE corporate_action_applications IS 'Adjustment runs, one per action and user (makes re-runs no-ops)';
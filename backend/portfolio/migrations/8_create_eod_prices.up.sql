@@ -0,0 +1,43 @@
+-- End-of-day price history, keyed by ISIN and trade date
+-- Filled from bhavcopy files (see portfolio/bhavcopy.ts) and broker connectors
+
+CREATE TABLE eod_prices (
+  isin TEXT NOT NULL,
+  date DATE NOT NULL,
+  symbol TEXT NOT NULL,
+  exchange TEXT NOT NULL CHECK (exchange IN ('NSE', 'BSE')),
+  open NUMERIC(14, 4),
+  high NUMERIC(14, 4),
+  low NUMERIC(14, 4),
+  close NUMERIC(14, 4) NOT NULL CHECK (close > 0),
+  volume BIGINT,
+  source TEXT NOT NULL,
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (isin, date)
+);
+
+CREATE INDEX idx_eod_prices_date ON eod_prices(date);
+
+-- Exchange trading holidays (weekends are implied)
+CREATE TABLE market_holidays (
+  date DATE PRIMARY KEY,
+  description TEXT NOT NULL DEFAULT ''
+);
+
+-- Bhavcopy files already loaded, so the daily job only reads new or changed files
+CREATE TABLE price_files (
+  file_name TEXT PRIMARY KEY,
+  trade_date DATE NOT NULL,
+  format TEXT NOT NULL,
+  size_bytes BIGINT NOT NULL,
+  prices INTEGER NOT NULL,
+  ingested_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_price_files_trade_date ON price_files(trade_date);
+
+-- Comments for documentation
+COMMENT ON TABLE eod_prices IS 'Daily OHLC closes per ISIN; NSE rows win over BSE rows for the same day';
+COMMENT ON COLUMN eod_prices.source IS 'Bhavcopy format (nse_cm, nse_udiff, bse_eq, bse_udiff) or connector id';
+COMMENT ON TABLE market_holidays IS 'NSE/BSE trading holidays, loaded from the holiday list in PRICE_DATA_DIR';
+COMMENT ON TABLE price_files IS 'Ingestion log of bhavcopy files in PRICE_DATA_DIR';
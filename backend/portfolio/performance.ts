@@ -0,0 +1,93 @@
+/**
+ * Portfolio performance against a benchmark
+ *
+ * Why this exists:
+ * - Answers "did I beat the NIFTY?" with flow-adjusted returns (TWR and XIRR)
+ *   rather than raw value change
+ * - Reports alpha, beta and tracking error for any date range
+ * - Reads the benchmarks service database directly (read-only)
+ */
+
+import { api } from 'encore.dev/api';
+import { SQLDatabase } from 'encore.dev/storage/sqldb';
+import { requireAuth } from '../shared/auth';
+import { env } from '../shared/env';
+import { invalidArgument, notFound } from '../shared/errors';
+import type { BenchmarkComparison } from '../shared/types';
+import { getBenchmark, loadBenchmarkPrices } from '../benchmarks/store';
+import { compareWithBenchmark, type ComparisonPoint } from './returns';
+import { bucketKey, getValueSeries } from './snapshots';
+
+const BenchmarksDB = SQLDatabase.named('benchmarks');
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Snapshot lookups cover whole IST days
+ */
+const IST_DAY_START = 'T00:00:00+05:30';
+const IST_DAY_END = 'T23:59:59.999+05:30';
+
+interface GetPerformanceRequest {
+  benchmark: string;  // Benchmark id, e.g. NIFTY50
+  from: string;  // YYYY-MM-DD
+  to: string;
+  portfolioId?: number;  // Omit for the sum of all portfolios
+}
+
+interface GetPerformanceResponse {
+  comparison: BenchmarkComparison;
+  series: ComparisonPoint[];  // Cumulative % per day, for charting
+}
+
+/**
+ * Compare portfolio returns with a benchmark
+ * GET /portfolio/performance?benchmark=NIFTY50&from=2024-04-01&to=2025-03-31
+ */
+export const performance = api(
+  { expose: true, auth: true, method: 'GET', path: '/portfolio/performance' },
+  async ({ benchmark: id, from, to, portfolioId }: GetPerformanceRequest): Promise<GetPerformanceResponse> => {
+    const { userId } = requireAuth();
+
+    if (!ISO_DATE.test(from) || !ISO_DATE.test(to)) {
+      throw invalidArgument("'from' and 'to' must be YYYY-MM-DD dates", { from, to });
+    }
+    if (from > to) {
+      throw invalidArgument("'from' must not be after 'to'", { from, to });
+    }
+
+    const benchmark = await getBenchmark(BenchmarksDB, id);
+    if (!benchmark) {
+      throw notFound('Benchmark not found', { benchmark: id });
+    }
+
+    const [values, prices] = await Promise.all([
+      getValueSeries(userId, new Date(`${from}${IST_DAY_START}`), new Date(`${to}${IST_DAY_END}`), 'daily', portfolioId),
+      loadBenchmarkPrices(BenchmarksDB, benchmark.id, from, to)
+    ]);
+
+    // Unrealized P&L is value minus cost, so cost basis is what remains
+    const points = values.map((point) => ({
+      date: bucketKey(point.syncedAt, 'daily'),
+      value: point.totalValue,
+      invested: point.totalValue - point.totalPnL
+    }));
+
+    const result = compareWithBenchmark(points, prices, env.BENCHMARK_RISK_FREE_RATE);
+    if (!result) {
+      throw notFound('Not enough portfolio history and benchmark prices in this range to compare', {
+        benchmark: benchmark.id,
+        from,
+        to,
+        snapshots: points.length,
+        prices: prices.length
+      });
+    }
+
+    const { series, ...stats } = result;
+    return {
+      comparison: { benchmarkId: benchmark.id, benchmarkName: benchmark.name, ...stats },
+      series
+    };
+  }
+);
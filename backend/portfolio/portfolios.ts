@@ -0,0 +1,108 @@
+/**
+ * Portfolio management endpoints
+ * 
+ * Why this exists:
+ * - Lists a user's named portfolios (each with its own source and last sync)
+ * - Serves the consolidated view across all of them
+ * - Renames and deletes portfolios
+ */
+
+import { api } from 'encore.dev/api';
+import { DB } from './db';
+import { requireAuth } from '../shared/auth';
+import { alreadyExists, invalidArgument, notFound } from '../shared/errors';
+import type { ConsolidatedPortfolio, PortfolioInfo } from '../shared/types';
+import { consolidatePortfolios, toPortfolioInfo } from './consolidate';
+import { getPortfolio, listPortfolios } from './store';
+
+interface ListPortfoliosResponse {
+  portfolios: PortfolioInfo[];
+}
+
+/**
+ * List the caller's portfolios
+ * GET /portfolio/list
+ */
+export const list = api(
+  { expose: true, auth: true, method: 'GET', path: '/portfolio/list' },
+  async (): Promise<ListPortfoliosResponse> => {
+    const { userId } = requireAuth();
+    const portfolios = await listPortfolios(userId);
+    return { portfolios: portfolios.map(toPortfolioInfo) };
+  }
+);
+
+interface ConsolidatedResponse {
+  consolidated: ConsolidatedPortfolio;
+}
+
+/**
+ * All of the caller's portfolios merged into one
+ * GET /portfolio/consolidated
+ */
+export const consolidated = api(
+  { expose: true, auth: true, method: 'GET', path: '/portfolio/consolidated' },
+  async (): Promise<ConsolidatedResponse> => {
+    const { userId } = requireAuth();
+    const portfolios = await listPortfolios(userId);
+
+    if (portfolios.length === 0) {
+      throw notFound('No portfolio synced yet', { userId });
+    }
+
+    return { consolidated: consolidatePortfolios(userId, portfolios) };
+  }
+);
+
+interface RenamePortfolioRequest {
+  id: number;
+  name: string;
+}
+
+interface RenamePortfolioResponse {
+  portfolio: PortfolioInfo;
+}
+
+/**
+ * Rename a portfolio
+ * POST /portfolio/:id/rename
+ */
+export const rename = api(
+  { expose: true, auth: true, method: 'POST', path: '/portfolio/:id/rename' },
+  async ({ id, name }: RenamePortfolioRequest): Promise<RenamePortfolioResponse> => {
+    const { userId } = requireAuth();
+    const trimmed = name.trim();
+
+    if (trimmed.length === 0 || trimmed.length > 64) {
+      throw invalidArgument('Portfolio name must be 1-64 characters', { name });
+    }
+
+    const portfolio = await getPortfolio(userId, id);
+    const clash = await DB.queryRow<{ id: number }>`
+      SELECT id FROM portfolios WHERE user_id = ${userId} AND name = ${trimmed} AND id <> ${id}
+    `;
+    if (clash) {
+      throw alreadyExists('Portfolio', trimmed);
+    }
+
+    await DB.exec`UPDATE portfolios SET name = ${trimmed} WHERE id = ${id} AND user_id = ${userId}`;
+    return { portfolio: { ...toPortfolioInfo(portfolio), name: trimmed } };
+  }
+);
+
+interface DeletePortfolioRequest {
+  id: number;
+}
+
+/**
+ * Delete a portfolio along with its snapshots and ledger
+ * DELETE /portfolio/:id
+ */
+export const remove = api(
+  { expose: true, auth: true, method: 'DELETE', path: '/portfolio/:id' },
+  async ({ id }: DeletePortfolioRequest): Promise<void> => {
+    const { userId } = requireAuth();
+    await getPortfolio(userId, id);
+    await DB.exec`DELETE FROM portfolios WHERE id = ${id} AND user_id = ${userId}`;
+  }
+);
@@ -0,0 +1,248 @@
+/**
+ * End-of-day price persistence
+ *
+ * Why this exists:
+ * - Bulk upserts of bhavcopy files and connector closes into eod_prices
+ * - Holiday calendar and ingestion log for the daily job and backfills
+ * - Gap detection: trading days (or ISINs) without a close
+ */
+
+import type { SQLDatabase } from 'encore.dev/storage/sqldb';
+import type { EodPrice, PriceGapReport } from '../shared/types';
+import type { MarketHoliday } from './bhavcopy';
+import { tradingDays } from './calendar';
+
+/**
+ * Rows per upsert statement (keeps each JSON payload small)
+ */
+const UPSERT_BATCH_SIZE = 2000;
+
+interface EodPriceRow {
+  isin: string;
+  date: string;
+  symbol: string;
+  exchange: EodPrice['exchange'];
+  open: number | null;
+  high: number | null;
+  low: number | null;
+  close: number;
+  volume: string | null;  // BIGINT comes back as a string
+}
+
+function toEodPrice(row: EodPriceRow): EodPrice {
+  return {
+    isin: row.isin,
+    date: row.date,
+    symbol: row.symbol,
+    exchange: row.exchange,
+    open: row.open === null ? undefined : Number(row.open),
+    high: row.high === null ? undefined : Number(row.high),
+    low: row.low === null ? undefined : Number(row.low),
+    close: Number(row.close),
+    volume: row.volume === null ? undefined : Number(row.volume)
+  };
+}
+
+/**
+ * Insert or update closes
+ * An NSE close is never replaced by a BSE close for the same day, so loading
+ * both exchanges' files in any order keeps the NSE price
+ * @param source - Bhavcopy format or connector id
+ * @returns Number of prices written
+ */
+export async function upsertEodPrices(db: SQLDatabase, prices: EodPrice[], source: string): Promise<number> {
+  let written = 0;
+
+  for (let start = 0; start < prices.length; start += UPSERT_BATCH_SIZE) {
+    const batch = prices.slice(start, start + UPSERT_BATCH_SIZE);
+
+    const row = await db.queryRow<{ written: number }>`
+      WITH upserted AS (
+        INSERT INTO eod_prices (isin, date, symbol, exchange, open, high, low, close, volume, source)
+        SELECT isin, date, symbol, exchange, open, high, low, close, volume, ${source}
+        FROM jsonb_to_recordset(${JSON.stringify(batch)}::jsonb) AS x(
+          isin TEXT, date DATE, symbol TEXT, exchange TEXT,
+          open NUMERIC, high NUMERIC, low NUMERIC, close NUMERIC, volume BIGINT
+        )
+        ON CONFLICT (isin, date) DO UPDATE SET
+          symbol = EXCLUDED.symbol,
+          exchange = EXCLUDED.exchange,
+          open = EXCLUDED.open,
+          high = EXCLUDED.high,
+          low = EXCLUDED.low,
+          close = EXCLUDED.close,
+          volume = EXCLUDED.volume,
+          source = EXCLUDED.source,
+          updated_at = NOW()
+        WHERE eod_prices.exchange <> 'NSE' OR EXCLUDED.exchange = 'NSE'
+        RETURNING 1
+      )
+      SELECT count(*)::int AS written FROM upserted
+    `;
+    written += row?.written ?? 0;
+  }
+
+  return written;
+}
+
+/**
+ * Closes of the given ISINs between two dates (inclusive), by ISIN then oldest first
+ */
+export async function loadEodPrices(
+  db: SQLDatabase,
+  isins: string[],
+  from?: string,
+  to?: string
+): Promise<EodPrice[]> {
+  if (isins.length === 0) {
+    return [];
+  }
+
+  const rows = await db.rawQueryAll<EodPriceRow>(
+    `SELECT isin, to_char(date, 'YYYY-MM-DD') AS date, symbol, exchange,
+       open::float8 AS open, high::float8 AS high, low::float8 AS low, close::float8 AS close, volume
+     FROM eod_prices
+     WHERE isin = ANY($1::text[])
+       AND ($2::date IS NULL OR date >= $2::date)
+       AND ($3::date IS NULL OR date <= $3::date)
+     ORDER BY isin, date`,
+    isins.map((isin) => isin.toUpperCase()),
+    from ?? null,
+    to ?? null
+  );
+
+  return rows.map(toEodPrice);
+}
+
+/**
+ * Insert or update exchange holidays
+ * @returns Number of holidays written
+ */
+export async function upsertHolidays(db: SQLDatabase, holidays: MarketHoliday[]): Promise<number> {
+  if (holidays.length === 0) {
+    return 0;
+  }
+
+  await db.exec`
+    INSERT INTO market_holidays (date, description)
+    SELECT date, description
+    FROM jsonb_to_recordset(${JSON.stringify(holidays)}::jsonb) AS x(date DATE, description TEXT)
+    ON CONFLICT (date) DO UPDATE SET description = EXCLUDED.description
+  `;
+  return holidays.length;
+}
+
+/**
+ * Exchange holidays between two dates (inclusive)
+ */
+export async function loadHolidays(db: SQLDatabase, from: string, to: string): Promise<Set<string>> {
+  const rows = await db.queryAll<{ date: string }>`
+    SELECT to_char(date, 'YYYY-MM-DD') AS date
+    FROM market_holidays
+    WHERE date BETWEEN ${from}::date AND ${to}::date
+  `;
+  return new Set(rows.map((row) => row.date));
+}
+
+/**
+ * One loaded bhavcopy file
+ */
+export interface IngestedFile {
+  fileName: string;
+  tradeDate: string;
+  format: string;
+  sizeBytes: number;
+  prices: number;
+}
+
+/**
+ * Size of every file already loaded, by file name
+ */
+export async function loadIngestedFiles(db: SQLDatabase): Promise<Map<string, IngestedFile>> {
+  const rows = await db.queryAll<{
+    file_name: string;
+    trade_date: string;
+    format: string;
+    size_bytes: string;
+    prices: number;
+  }>`
+    SELECT file_name, to_char(trade_date, 'YYYY-MM-DD') AS trade_date, format, size_bytes, prices
+    FROM price_files
+  `;
+
+  return new Map(rows.map((row) => [row.file_name, {
+    fileName: row.file_name,
+    tradeDate: row.trade_date,
+    format: row.format,
+    sizeBytes: Number(row.size_bytes),
+    prices: row.prices
+  }]));
+}
+
+/**
+ * Record a loaded file so the next run skips it until it changes
+ */
+export async function recordIngestedFile(db: SQLDatabase, file: IngestedFile): Promise<void> {
+  await db.exec`
+    INSERT INTO price_files (file_name, trade_date, format, size_bytes, prices)
+    VALUES (${file.fileName}, ${file.tradeDate}::date, ${file.format}, ${file.sizeBytes}, ${file.prices})
+    ON CONFLICT (file_name) DO UPDATE SET
+      trade_date = EXCLUDED.trade_date,
+      format = EXCLUDED.format,
+      size_bytes = EXCLUDED.size_bytes,
+      prices = EXCLUDED.prices,
+      ingested_at = NOW()
+  `;
+}
+
+/**
+ * Trading days without prices between two dates (inclusive)
+ * A day counts as missing when no close at all was loaded for it. An ISIN's
+ * gaps are loaded days without its close, from its first close in the range
+ * (or the start, if it has none) - so a listing mid-range is not a gap
+ */
+export async function findPriceGaps(
+  db: SQLDatabase,
+  from: string,
+  to: string,
+  isins: string[] = []
+): Promise<PriceGapReport> {
+  const holidays = await loadHolidays(db, from, to);
+  const days = tradingDays(from, to, holidays);
+
+  const loaded = await db.queryAll<{ date: string }>`
+    SELECT DISTINCT to_char(date, 'YYYY-MM-DD') AS date
+    FROM eod_prices
+    WHERE date BETWEEN ${from}::date AND ${to}::date
+  `;
+  const loadedDays = new Set(loaded.map((row) => row.date));
+
+  const closes = new Map<string, Set<string>>(isins.map((isin) => [isin.toUpperCase(), new Set()]));
+  if (closes.size > 0) {
+    const rows = await db.rawQueryAll<{ isin: string; date: string }>(
+      `SELECT isin, to_char(date, 'YYYY-MM-DD') AS date
+       FROM eod_prices
+       WHERE isin = ANY($1::text[]) AND date BETWEEN $2::date AND $3::date`,
+      [...closes.keys()],
+      from,
+      to
+    );
+    for (const row of rows) {
+      closes.get(row.isin)?.add(row.date);
+    }
+  }
+
+  const isinGaps = [...closes].flatMap(([isin, dates]) => {
+    const first = [...dates].sort()[0] ?? from;
+    const missingDays = days.filter((day) => day >= first && loadedDays.has(day) && !dates.has(day));
+    return missingDays.length > 0 ? [{ isin, missingDays }] : [];
+  });
+
+  return {
+    from,
+    to,
+    tradingDays: days.length,
+    missingDays: days.filter((day) => !loadedDays.has(day)),
+    isinGaps
+  };
+}
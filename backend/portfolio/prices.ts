@@ -0,0 +1,270 @@
+/**
+ * End-of-day price endpoints
+ *
+ * Why this exists:
+ * - Serves stored daily closes per ISIN for charts and risk calculations
+ * - Daily job that loads new bhavcopy files dropped into PRICE_DATA_DIR
+ * - Backfill and gap report, so missing trading days can be found and filled
+ *   by dropping the exchange's files for those days into the directory
+ */
+
+import { api } from 'encore.dev/api';
+import { CronJob } from 'encore.dev/cron';
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { DB } from './db';
+import { env } from '../shared/env';
+import { invalidArgument } from '../shared/errors';
+import type { EodPrice, PriceGapReport } from '../shared/types';
+import { detectPriceFile, parseBhavcopy, parseHolidayList } from './bhavcopy';
+import { addDays, istToday } from './calendar';
+import {
+  findPriceGaps,
+  loadEodPrices,
+  loadIngestedFiles,
+  recordIngestedFile,
+  upsertEodPrices,
+  upsertHolidays
+} from './price-store';
+
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Days the daily job and the default gap report look back
+ */
+const GAP_WINDOW_DAYS = 30;
+
+/**
+ * Days of closes returned when a history request gives no start
+ */
+const DEFAULT_HISTORY_DAYS = 365;
+
+/**
+ * Longest range one backfill, gap report or history request may cover
+ */
+const MAX_RANGE_DAYS = 3660;
+
+const MAX_GAP_ISINS = 500;
+
+function validateDates(dates: Record<string, string | undefined>): void {
+  for (const [name, value] of Object.entries(dates)) {
+    if (value !== undefined && !ISO_DATE.test(value)) {
+      throw invalidArgument(`'${name}' must be a YYYY-MM-DD date`, { [name]: value });
+    }
+  }
+}
+
+/**
+ * Check a required date range and its length
+ */
+function validateRange(from: string, to: string): void {
+  validateDates({ from, to });
+  if (from > to) {
+    throw invalidArgument("'from' must not be after 'to'", { from, to });
+  }
+  if (Date.parse(to) - Date.parse(from) > MAX_RANGE_DAYS * 24 * 60 * 60 * 1000) {
+    throw invalidArgument(`Date range must not exceed ${MAX_RANGE_DAYS} days`, { from, to });
+  }
+}
+
+interface GetEodPricesRequest {
+  isin: string;
+  from?: string;  // YYYY-MM-DD
+  to?: string;
+}
+
+interface GetEodPricesResponse {
+  prices: EodPrice[];
+}
+
+/**
+ * Daily closes of one security
+ * GET /portfolio/prices/isin/:isin?from=2024-01-01&to=2024-12-31
+ * `to` defaults to today and `from` to DEFAULT_HISTORY_DAYS before `to`
+ */
+export const history = api(
+  { expose: true, auth: true, method: 'GET', path: '/portfolio/prices/isin/:isin' },
+  async ({ isin, from, to }: GetEodPricesRequest): Promise<GetEodPricesResponse> => {
+    validateDates({ from, to });
+    const end = to ?? istToday();
+    const start = from ?? addDays(end, -DEFAULT_HISTORY_DAYS);
+    validateRange(start, end);
+
+    return { prices: await loadEodPrices(DB, [isin], start, end) };
+  }
+);
+
+type PriceFileStatus = 'loaded' | 'unchanged' | 'out_of_range' | 'unrecognized';
+
+interface PriceFileResult {
+  file: string;
+  status: PriceFileStatus;
+  format?: string;
+  tradeDate?: string;
+  prices: number;
+  skipped: number;
+}
+
+/**
+ * A file that was not loaded
+ */
+function notLoaded(
+  file: string,
+  status: PriceFileStatus,
+  source?: { format: string; tradeDate: string }
+): PriceFileResult {
+  return { file, status, format: source?.format, tradeDate: source?.tradeDate, prices: 0, skipped: 0 };
+}
+
+interface IngestResult {
+  files: PriceFileResult[];
+  holidays: number;
+}
+
+/**
+ * Load the bhavcopy files and holiday lists in PRICE_DATA_DIR
+ * Files already loaded at the same size are skipped unless `force` is set;
+ * with a range, only files for trade dates inside it are loaded
+ */
+async function ingestPriceFiles(options: { from?: string; to?: string; force?: boolean }): Promise<IngestResult> {
+  let names: string[];
+  try {
+    names = (await readdir(env.PRICE_DATA_DIR)).sort();
+  } catch (error) {
+    console.error('Price data directory unreadable:', { dir: env.PRICE_DATA_DIR, error });
+    return { files: [], holidays: 0 };
+  }
+
+  const inRange = (date: string) => (!options.from || date >= options.from) && (!options.to || date <= options.to);
+  const ingested = await loadIngestedFiles(DB);
+  const files: PriceFileResult[] = [];
+  let holidays = 0;
+
+  for (const name of names.filter((file) => /\.csv$/i.test(file))) {
+    const path = join(env.PRICE_DATA_DIR, name);
+    const sizeBytes = (await stat(path)).size;
+    const previous = ingested.get(name);
+
+    if (previous && !inRange(previous.tradeDate)) {
+      files.push(notLoaded(name, 'out_of_range', previous));
+      continue;
+    }
+    if (previous && previous.sizeBytes === sizeBytes && !options.force) {
+      files.push(notLoaded(name, 'unchanged', previous));
+      continue;
+    }
+
+    const text = await readFile(path, 'utf8');
+    if (detectPriceFile(text) === 'holidays') {
+      holidays += await upsertHolidays(DB, parseHolidayList(text) ?? []);
+      continue;
+    }
+
+    const parsed = parseBhavcopy(text);
+    if (!parsed) {
+      files.push(notLoaded(name, 'unrecognized'));
+      continue;
+    }
+    if (!inRange(parsed.tradeDate)) {
+      files.push(notLoaded(name, 'out_of_range', parsed));
+      continue;
+    }
+
+    const prices = await upsertEodPrices(DB, parsed.prices, parsed.format);
+    await recordIngestedFile(DB, {
+      fileName: name,
+      tradeDate: parsed.tradeDate,
+      format: parsed.format,
+      sizeBytes,
+      prices: parsed.prices.length
+    });
+    files.push({
+      file: name,
+      status: 'loaded',
+      format: parsed.format,
+      tradeDate: parsed.tradeDate,
+      prices,
+      skipped: parsed.skipped
+    });
+  }
+
+  return { files, holidays };
+}
+
+interface IngestPricesResponse extends IngestResult {
+  gaps: PriceGapReport;  // Over the last GAP_WINDOW_DAYS days
+}
+
+/**
+ * Load new or changed files in PRICE_DATA_DIR and report recent gaps
+ * Internal endpoint, triggered by cron
+ */
+export const ingest = api(
+  { expose: false, method: 'POST', path: '/portfolio/prices/ingest' },
+  async (): Promise<IngestPricesResponse> => {
+    const result = await ingestPriceFiles({});
+    const today = istToday();
+    const gaps = await findPriceGaps(DB, addDays(today, -GAP_WINDOW_DAYS), today);
+
+    if (gaps.missingDays.length > 0) {
+      console.warn('Trading days without prices:', { missingDays: gaps.missingDays });
+    }
+    return { ...result, gaps };
+  }
+);
+
+interface BackfillPricesRequest {
+  from: string;  // YYYY-MM-DD
+  to: string;
+  force?: boolean;  // Reload files already loaded
+}
+
+interface BackfillPricesResponse extends IngestResult {
+  gaps: PriceGapReport;  // Trading days in the range still without prices
+}
+
+/**
+ * Load the files in PRICE_DATA_DIR for a range of trade dates
+ * Drop the exchange's bhavcopies for the missing days in the directory first
+ * Internal endpoint, run from the Encore dashboard
+ */
+export const backfill = api(
+  { expose: false, method: 'POST', path: '/portfolio/prices/backfill' },
+  async ({ from, to, force }: BackfillPricesRequest): Promise<BackfillPricesResponse> => {
+    validateRange(from, to);
+
+    const result = await ingestPriceFiles({ from, to, force });
+    return { ...result, gaps: await findPriceGaps(DB, from, to) };
+  }
+);
+
+interface GetPriceGapsRequest {
+  from?: string;  // YYYY-MM-DD, default GAP_WINDOW_DAYS before `to`
+  to?: string;  // Default today (IST)
+  isins?: string[];  // Also report days these ISINs have no close
+}
+
+/**
+ * Trading days (and ISINs) without prices
+ * Internal endpoint
+ */
+export const gaps = api(
+  { expose: false, method: 'GET', path: '/portfolio/prices/gaps' },
+  async ({ from, to, isins }: GetPriceGapsRequest): Promise<PriceGapReport> => {
+    validateDates({ from, to });
+    const end = to ?? istToday();
+    const start = from ?? addDays(end, -GAP_WINDOW_DAYS);
+    validateRange(start, end);
+
+    if ((isins?.length ?? 0) > MAX_GAP_ISINS) {
+      throw invalidArgument(`At most ${MAX_GAP_ISINS} ISINs per request`, { count: isins!.length });
+    }
+    return findPriceGaps(DB, start, end, isins);
+  }
+);
+
+export const ingestPricesJob = new CronJob('ingest-eod-prices', {
+  title: 'Load end-of-day bhavcopy files',
+  schedule: '0 14 * * 1-5',  // 19:30 IST, after the exchanges publish the bhavcopy
+  endpoint: ingest
+});
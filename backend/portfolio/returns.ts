@@ -0,0 +1,398 @@
+/**
+ * Portfolio return calculations
+ *
+ * Why this exists:
+ * - Value change alone mixes market moves with money added or withdrawn;
+ *   comparing against an index needs flow-adjusted returns
+ * - Time-weighted return (TWR) measures the holdings, money-weighted return
+ *   (XIRR) measures the investor's actual experience
+ * - Alpha, beta and tracking error describe how the portfolio moves
+ *   relative to a benchmark over the same periods
+ * - Per-holding and per-sector returns for the widget `returns` field
+ *
+ * Snapshots carry no cash flows, so the net flow between two snapshots is
+ * taken as the change in invested amount (cost basis). Buys and sells at
+ * cost are flows; price moves are returns. Each snapshot-to-snapshot period
+ * uses the Modified Dietz return with flows assumed mid-period.
+ *
+ * Inputs the math cannot handle (a single valuation, flows without an
+ * investment or without proceeds, less than a year for an annualized
+ * figure) throw a ReturnsError naming the problem.
+ */
+
+import type { BenchmarkComparison, BenchmarkPrice, NormalizedHolding } from '../shared/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Shortest range with annualized returns (XIRR); shorter ranges report
+ * absolute returns only, as Indian fund factsheets do
+ */
+const MIN_ANNUALIZED_DAYS = 365;
+
+/**
+ * Fewest periods for beta, alpha and tracking error
+ */
+const MIN_RISK_PERIODS = 3;
+
+const XIRR_MAX_ITERATIONS = 100;
+const XIRR_TOLERANCE = 1e-7;
+
+/**
+ * Portfolio state on one day
+ */
+export interface ValuationPoint {
+  date: string;  // YYYY-MM-DD
+  value: number;  // Market value
+  invested: number;  // Cost basis
+}
+
+/**
+ * Dated cash flow from the investor's side (negative = money put in)
+ */
+export interface CashFlow {
+  date: string;
+  amount: number;
+}
+
+/**
+ * One day of a portfolio vs benchmark chart, cumulative percentages since the first day
+ */
+export interface ComparisonPoint {
+  date: string;
+  portfolio: number;
+  benchmark: number;
+}
+
+/**
+ * Holdings held on one day, e.g. one entry per snapshot date
+ */
+export interface DatedHoldings {
+  date: string;  // YYYY-MM-DD
+  holdings: NormalizedHolding[];
+}
+
+/**
+ * Returns of one valuation series
+ */
+export interface ReturnSummary {
+  from: string;
+  to: string;
+  days: number;
+  twr: number;  // Cumulative time-weighted return, decimal
+  xirr?: number;  // Annualized money-weighted return, decimal; set when xirrError is not
+  xirrError?: ReturnsErrorKind;  // Why XIRR is missing
+}
+
+/**
+ * Why a return could not be computed
+ * - insufficient_data: fewer than two valuations or cash flows
+ * - no_investment: no negative flow (nothing was put in)
+ * - no_proceeds: no positive flow (every flow is money put in)
+ * - period_too_short: an annualized figure over less than a year
+ * - no_solution: no rate makes the flows' net present value zero
+ */
+export type ReturnsErrorKind = 'insufficient_data' | 'no_investment' | 'no_proceeds' | 'period_too_short' | 'no_solution';
+
+export class ReturnsError extends Error {
+  constructor(readonly kind: ReturnsErrorKind, message: string) {
+    super(message);
+    this.name = 'ReturnsError';
+  }
+}
+
+export type ReturnComparison = Omit<BenchmarkComparison, 'benchmarkId' | 'benchmarkName'> & {
+  series: ComparisonPoint[];
+};
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Sample covariance (n - 1)
+ */
+function covariance(a: number[], b: number[]): number {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, value, i) => sum + (value - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+}
+
+/**
+ * Modified Dietz return between two valuations
+ * An empty starting portfolio has no return for the period
+ */
+export function periodReturn(start: ValuationPoint, end: ValuationPoint): number {
+  const flow = end.invested - start.invested;
+  const base = start.value + flow / 2;
+  return base > 0 ? (end.value - start.value - flow) / base : 0;
+}
+
+/**
+ * Cumulative time-weighted return (decimal) of a valuation series (sorted by date)
+ * @throws ReturnsError insufficient_data for fewer than two valuations
+ */
+export function timeWeightedReturn(points: ValuationPoint[]): number {
+  if (points.length < 2) {
+    throw new ReturnsError('insufficient_data', `A time-weighted return needs at least two valuations, got ${points.length}`);
+  }
+
+  let growth = 1;
+  for (let i = 1; i < points.length; i++) {
+    growth *= 1 + periodReturn(points[i - 1], points[i]);
+  }
+  return growth - 1;
+}
+
+/**
+ * Cash flows implied by a valuation series: the opening value is invested,
+ * each change in cost basis is a flow, and the closing value is withdrawn
+ */
+export function impliedCashFlows(points: ValuationPoint[]): CashFlow[] {
+  if (points.length < 2) {
+    return [];
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  const flows: CashFlow[] = [{ date: first.date, amount: -first.value }];
+  for (let i = 1; i < points.length; i++) {
+    const flow = points[i].invested - points[i - 1].invested;
+    if (flow !== 0) {
+      flows.push({ date: points[i].date, amount: -flow });
+    }
+  }
+  flows.push({ date: last.date, amount: last.value });
+  return flows;
+}
+
+/**
+ * Annualized money-weighted return (decimal) of dated cash flows
+ * Newton's method, falling back to bisection when it does not converge
+ * @throws ReturnsError when the flows cannot give a meaningful annual rate
+ */
+export function xirr(flows: CashFlow[]): number {
+  if (flows.length < 2) {
+    throw new ReturnsError('insufficient_data', `XIRR needs at least two cash flows, got ${flows.length}`);
+  }
+  if (!flows.some((flow) => flow.amount < 0)) {
+    throw new ReturnsError('no_investment', 'XIRR needs at least one investment (a negative cash flow)');
+  }
+  if (!flows.some((flow) => flow.amount > 0)) {
+    throw new ReturnsError('no_proceeds', 'XIRR needs a redemption or closing value (a positive cash flow); every flow is an investment');
+  }
+
+  const start = flows.reduce((min, flow) => (flow.date < min ? flow.date : min), flows[0].date);
+  const end = flows.reduce((max, flow) => (flow.date > max ? flow.date : max), flows[0].date);
+  const span = daysBetween(start, end);
+  if (span < MIN_ANNUALIZED_DAYS) {
+    throw new ReturnsError(
+      'period_too_short',
+      `XIRR needs at least ${MIN_ANNUALIZED_DAYS} days of cash flows, got ${span}; use the absolute return instead`
+    );
+  }
+
+  const years = flows.map((flow) => daysBetween(start, flow.date) / DAYS_PER_YEAR);
+  const npv = (rate: number) => flows.reduce((sum, flow, i) => sum + flow.amount / (1 + rate) ** years[i], 0);
+  const slope = (rate: number) =>
+    flows.reduce((sum, flow, i) => sum - (years[i] * flow.amount) / (1 + rate) ** (years[i] + 1), 0);
+
+  let rate = 0.1;
+  for (let i = 0; i < XIRR_MAX_ITERATIONS; i++) {
+    const value = npv(rate);
+    const derivative = slope(rate);
+    if (!Number.isFinite(value) || !Number.isFinite(derivative) || derivative === 0) break;
+
+    const next = rate - value / derivative;
+    if (next <= -1 || !Number.isFinite(next)) break;
+    if (Math.abs(next - rate) < XIRR_TOLERANCE) return next;
+    rate = next;
+  }
+
+  // Bisection over a wide bracket (-99.99% to +100000%)
+  let low = -0.9999;
+  let high = 1000;
+  if (Math.sign(npv(low)) === Math.sign(npv(high))) {
+    throw new ReturnsError('no_solution', 'No annual rate between -99.99% and +100000% fits these cash flows');
+  }
+  for (let i = 0; i < 200 && high - low > XIRR_TOLERANCE; i++) {
+    const middle = (low + high) / 2;
+    if (Math.sign(npv(middle)) === Math.sign(npv(low))) {
+      low = middle;
+    } else {
+      high = middle;
+    }
+  }
+  return (low + high) / 2;
+}
+
+/**
+ * Returns of a valuation series (sorted by date): TWR always, XIRR when it applies
+ * @throws ReturnsError insufficient_data for fewer than two valuations
+ */
+export function summarizeReturns(points: ValuationPoint[]): ReturnSummary {
+  const twr = timeWeightedReturn(points);
+  const from = points[0].date;
+  const to = points[points.length - 1].date;
+  const summary: ReturnSummary = { from, to, days: daysBetween(from, to), twr };
+
+  try {
+    summary.xirr = xirr(impliedCashFlows(points));
+  } catch (error) {
+    if (!(error instanceof ReturnsError)) throw error;
+    summary.xirrError = error.kind;
+  }
+  return summary;
+}
+
+/**
+ * Valuation series per key (symbol, sector, ...) from dated holdings
+ * Days a key has no holdings are skipped, so a position sold and bought back
+ * later is bridged, with the repurchase counted as a cash flow
+ */
+export function valuationSeries(
+  days: DatedHoldings[],
+  keyOf: (holding: NormalizedHolding) => string
+): Map<string, ValuationPoint[]> {
+  const series = new Map<string, ValuationPoint[]>();
+  const ordered = [...days].sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+
+  for (const day of ordered) {
+    const totals = new Map<string, ValuationPoint>();
+    for (const holding of day.holdings) {
+      const key = keyOf(holding);
+      const point = totals.get(key) ?? { date: day.date, value: 0, invested: 0 };
+      point.value += holding.quantity * holding.currentPrice;
+      point.invested += holding.quantity * holding.avgPrice;
+      totals.set(key, point);
+    }
+    for (const [key, point] of totals) {
+      series.set(key, [...(series.get(key) ?? []), point]);
+    }
+  }
+
+  return series;
+}
+
+/**
+ * Returns per key (per holding with keyOf = symbol, per sector with keyOf = sector)
+ * Keys seen on only one day have no return and are left out
+ */
+export function groupReturns(
+  days: DatedHoldings[],
+  keyOf: (holding: NormalizedHolding) => string
+): Map<string, ReturnSummary> {
+  const returns = new Map<string, ReturnSummary>();
+  for (const [key, points] of valuationSeries(days, keyOf)) {
+    if (points.length >= 2) {
+      returns.set(key, summarizeReturns(points));
+    }
+  }
+  return returns;
+}
+
+/**
+ * Latest close on or before a date (prices sorted by date)
+ */
+export function closeOnOrBefore(prices: BenchmarkPrice[], date: string): number | undefined {
+  let low = 0;
+  let high = prices.length - 1;
+  let found: number | undefined;
+  while (low <= high) {
+    const middle = (low + high) >> 1;
+    if (prices[middle].date <= date) {
+      found = prices[middle].close;
+      low = middle + 1;
+    } else {
+      high = middle - 1;
+    }
+  }
+  return found;
+}
+
+/**
+ * Compare a portfolio valuation series with a benchmark over the same dates
+ * Each valuation date is matched with the benchmark's latest close on or before it;
+ * dates before the benchmark's history starts are skipped
+ * @param riskFreeRate - Annual rate (decimal) for alpha
+ */
+export function compareWithBenchmark(
+  points: ValuationPoint[],
+  prices: BenchmarkPrice[],
+  riskFreeRate: number = 0
+): ReturnComparison | undefined {
+  const sortedPrices = [...prices].sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+  const aligned = [...points]
+    .sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0))
+    .map((point) => ({ point, close: closeOnOrBefore(sortedPrices, point.date) }))
+    .filter((entry): entry is { point: ValuationPoint; close: number } => entry.close !== undefined && entry.close > 0);
+
+  if (aligned.length < 2) {
+    return undefined;
+  }
+
+  const portfolioReturns: number[] = [];
+  const benchmarkReturns: number[] = [];
+  const series: ComparisonPoint[] = [{ date: aligned[0].point.date, portfolio: 0, benchmark: 0 }];
+  let growth = 1;
+
+  for (let i = 1; i < aligned.length; i++) {
+    const portfolio = periodReturn(aligned[i - 1].point, aligned[i].point);
+    const benchmark = aligned[i].close / aligned[i - 1].close - 1;
+    portfolioReturns.push(portfolio);
+    benchmarkReturns.push(benchmark);
+
+    growth *= 1 + portfolio;
+    series.push({
+      date: aligned[i].point.date,
+      portfolio: round((growth - 1) * 100, 2),
+      benchmark: round((aligned[i].close / aligned[0].close - 1) * 100, 2)
+    });
+  }
+
+  const from = aligned[0].point.date;
+  const to = aligned[aligned.length - 1].point.date;
+  const days = daysBetween(from, to);
+  const portfolioReturn = growth - 1;
+  const benchmarkReturn = aligned[aligned.length - 1].close / aligned[0].close - 1;
+  const annualized = days >= MIN_ANNUALIZED_DAYS;
+  const { xirr: portfolioXirr } = summarizeReturns(aligned.map((entry) => entry.point));
+
+  const comparison: ReturnComparison = {
+    from,
+    to,
+    periods: portfolioReturns.length,
+    portfolioReturn: round(portfolioReturn * 100, 2),
+    portfolioXirr: portfolioXirr === undefined ? undefined : round(portfolioXirr * 100, 2),
+    benchmarkReturn: round(benchmarkReturn * 100, 2),
+    benchmarkAnnualized: annualized ? round(((1 + benchmarkReturn) ** (DAYS_PER_YEAR / days) - 1) * 100, 2) : undefined,
+    excessReturn: round((portfolioReturn - benchmarkReturn) * 100, 2),
+    series
+  };
+
+  // Periods follow the snapshot schedule, which need not be daily
+  const benchmarkVariance = portfolioReturns.length >= MIN_RISK_PERIODS ? covariance(benchmarkReturns, benchmarkReturns) : 0;
+  if (benchmarkVariance > 0 && days > 0) {
+    const periodsPerYear = (DAYS_PER_YEAR * portfolioReturns.length) / days;
+    const riskFree = (1 + riskFreeRate) ** (1 / periodsPerYear) - 1;
+    const beta = covariance(portfolioReturns, benchmarkReturns) / benchmarkVariance;
+    const alpha = (mean(portfolioReturns) - riskFree) - beta * (mean(benchmarkReturns) - riskFree);
+    const active = portfolioReturns.map((value, i) => value - benchmarkReturns[i]);
+
+    comparison.beta = round(beta, 3);
+    comparison.alpha = round(alpha * periodsPerYear * 100, 2);
+    comparison.trackingError = round(Math.sqrt(covariance(active, active) * periodsPerYear) * 100, 2);
+  }
+
+  return comparison;
+}
@@ -0,0 +1,198 @@
+/**
+ * Portfolio risk calculations
+ *
+ * Why this exists:
+ * - The summary shows what the portfolio earned, not how bumpy the ride was
+ *   or how much rides on a few positions
+ * - Volatility, drawdown, concentration and correlation for the widget DSL
+ *   risk fields, computed from stored daily closes (eod_prices)
+ *
+ * Closes exist only on trading days, so annualization uses the observed
+ * number of periods per year (as in returns.ts). Portfolio and group series are first
+ * turned into a time-weighted index, so money added or withdrawn is not
+ * mistaken for a price move. Too little history gives undefined, not zero.
+ */
+
+import { periodReturn, type ValuationPoint } from './returns';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Fewest periods for volatility and correlation
+ */
+export const MIN_RISK_PERIODS = 3;
+
+/**
+ * One price (or index level) on one day
+ */
+export interface PricePoint {
+  date: string;  // YYYY-MM-DD
+  price: number;
+}
+
+/**
+ * Distance below the running peak on one day, decimal (0 at a new high)
+ */
+export interface DrawdownPoint {
+  date: string;
+  drawdown: number;
+}
+
+/**
+ * Correlation of one pair of series
+ */
+export interface CorrelationPair {
+  a: string;
+  b: string;
+  correlation: number;  // -1 to 1
+  periods: number;  // Common periods behind it
+}
+
+function daysBetween(from: string, to: string): number {
+  return (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / DAY_MS;
+}
+
+function mean(values: number[]): number {
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+}
+
+/**
+ * Sample covariance (n - 1)
+ */
+function covariance(a: number[], b: number[]): number {
+  const meanA = mean(a);
+  const meanB = mean(b);
+  return a.reduce((sum, value, i) => sum + (value - meanA) * (b[i] - meanB), 0) / (a.length - 1);
+}
+
+function byDate<T extends { date: string }>(points: T[]): T[] {
+  return [...points].sort((a, b) => (a.date < b.date ? -1 : a.date > b.date ? 1 : 0));
+}
+
+/**
+ * Period returns of a price series (sorted by date); non-positive prices are skipped
+ */
+export function priceReturns(prices: PricePoint[]): number[] {
+  const valid = prices.filter((point) => point.price > 0);
+  return valid.slice(1).map((point, i) => point.price / valid[i].price - 1);
+}
+
+/**
+ * Time-weighted index of a valuation series, starting at 1
+ */
+export function wealthIndex(points: ValuationPoint[]): PricePoint[] {
+  const ordered = byDate(points);
+  let level = 1;
+  return ordered.map((point, i) => {
+    if (i > 0) {
+      level *= 1 + periodReturn(ordered[i - 1], point);
+    }
+    return { date: point.date, price: level };
+  });
+}
+
+/**
+ * Annualized volatility (decimal) of a price series
+ * @returns undefined with fewer than MIN_RISK_PERIODS periods
+ */
+export function annualizedVolatility(prices: PricePoint[]): number | undefined {
+  const ordered = byDate(prices.filter((point) => point.price > 0));
+  const returns = priceReturns(ordered);
+  if (returns.length < MIN_RISK_PERIODS) {
+    return undefined;
+  }
+
+  const days = daysBetween(ordered[0].date, ordered[ordered.length - 1].date);
+  const periodsPerYear = (DAYS_PER_YEAR * returns.length) / days;
+  return Math.sqrt(covariance(returns, returns) * periodsPerYear);
+}
+
+/**
+ * Drawdown on every day of a price series
+ */
+export function drawdownSeries(prices: PricePoint[]): DrawdownPoint[] {
+  let peak = 0;
+  return byDate(prices)
+    .filter((point) => point.price > 0)
+    .map((point) => {
+      peak = Math.max(peak, point.price);
+      return { date: point.date, drawdown: point.price / peak - 1 };
+    });
+}
+
+/**
+ * Largest fall from a peak (decimal, 0 or negative)
+ * @returns undefined with fewer than two prices
+ */
+export function maxDrawdown(prices: PricePoint[]): number | undefined {
+  const series = drawdownSeries(prices);
+  return series.length < 2 ? undefined : Math.min(...series.map((point) => point.drawdown));
+}
+
+/**
+ * Herfindahl-Hirschman index of position sizes: the sum of squared weights,
+ * from 1/n (n equal positions) to 1 (a single position)
+ * @param values - Market values; non-positive values are ignored
+ * @returns undefined when nothing is held
+ */
+export function herfindahl(values: number[]): number | undefined {
+  const positive = values.filter((value) => value > 0);
+  const total = positive.reduce((sum, value) => sum + value, 0);
+  if (total === 0) {
+    return undefined;
+  }
+  return positive.reduce((sum, value) => sum + (value / total) ** 2, 0);
+}
+
+/**
+ * Pearson correlation of two price series' period returns over their common dates
+ * @returns undefined with fewer than MIN_RISK_PERIODS common periods or a flat series
+ */
+export function correlation(a: PricePoint[], b: PricePoint[]): { correlation: number; periods: number } | undefined {
+  const other = new Map(b.filter((point) => point.price > 0).map((point) => [point.date, point.price]));
+  const common = byDate(a).filter((point) => point.price > 0 && other.has(point.date));
+
+  const returnsA = priceReturns(common);
+  const returnsB = priceReturns(common.map((point) => ({ date: point.date, price: other.get(point.date)! })));
+  if (returnsA.length < MIN_RISK_PERIODS) {
+    return undefined;
+  }
+
+  const varianceA = covariance(returnsA, returnsA);
+  const varianceB = covariance(returnsB, returnsB);
+  if (varianceA === 0 || varianceB === 0) {
+    return undefined;
+  }
+  return {
+    correlation: covariance(returnsA, returnsB) / Math.sqrt(varianceA * varianceB),
+    periods: returnsA.length
+  };
+}
+
+/**
+ * Pairwise correlation matrix, both orders of every pair (the diagonal is
+ * always 1 and left out), in the order the series are given; pairs without
+ * enough overlap are left out
+ */
+export function correlationMatrix(series: Map<string, PricePoint[]>): CorrelationPair[] {
+  const keys = [...series.keys()];
+  const computed = new Map<string, { correlation: number; periods: number } | undefined>();
+  const pairs: CorrelationPair[] = [];
+
+  for (const a of keys) {
+    for (const b of keys) {
+      if (a === b) continue;
+      const id = a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+      if (!computed.has(id)) {
+        computed.set(id, correlation(series.get(a)!, series.get(b)!));
+      }
+      const result = computed.get(id);
+      if (result) {
+        pairs.push({ a, b, ...result });
+      }
+    }
+  }
+
+  return pairs;
+}
@@ -9,9 +9,20 @@
  */
 
 import { z } from 'zod';
-import type { NormalizedHolding, Portfolio, PortfolioSource } from '../shared/types';
+import type {
+  NormalizedHolding,
+  NormalizedTransaction,
+  Portfolio,
+  PortfolioSource,
+  PortfolioSummary
+} from '../shared/types';
 import { validationError } from '../shared/errors';
 
+/**
+ * Name given to a user's portfolio when none is chosen
+ */
+export const DEFAULT_PORTFOLIO_NAME = 'Primary';
+
 /**
  * Zod schema for NormalizedHolding
  * Used for validation during import and API responses
@@ -26,11 +37,42 @@ export const NormalizedHoldingSchema = z.object({
   assetType: z.enum(['equity', 'mutual_fund', 'etf', 'bond']),
   sector: z.string().optional(),
   exchange: z.string().optional(),
+  marketCap: z.enum(['large', 'mid', 'small']).optional(),
   purchaseDate: z.string().optional(),
   lastTradeDate: z.string().optional(),
   _metadata: z.record(z.any()).optional()
 });
 
+/**
+ * Zod schema for NormalizedTransaction
+ * Used for validation of tradebook imports and connector trade fetches
+ */
+export const NormalizedTransactionSchema = z.object({
+  tradeId: z.string().optional(),
+  symbol: z.string().min(1, 'Symbol is required'),
+  isin: z.string().optional(),
+  type: z.enum(['buy', 'sell', 'bonus', 'split', 'dividend']),
+  quantity: z.number().nonnegative('Quantity must be non-negative'),
+  price: z.number().nonnegative('Price must be non-negative'),
+  charges: z.number().nonnegative('Charges must be non-negative').default(0),
+  tradeDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Trade date must be YYYY-MM-DD'),
+  exchange: z.string().optional(),
+  assetType: z.enum(['equity', 'mutual_fund', 'etf', 'bond']),
+  splitRatio: z.object({
+    from: z.number().positive('Split ratio must be positive'),
+    to: z.number().positive('Split ratio must be positive')
+  }).optional(),
+  _metadata: z.record(z.any()).optional()
+}).superRefine((tx, ctx) => {
+  // Splits are defined by their ratio; everything else moves a quantity
+  if (tx.type === 'split' && !tx.splitRatio) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['splitRatio'], message: 'Split requires splitRatio' });
+  }
+  if (tx.type !== 'split' && tx.quantity <= 0) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['quantity'], message: 'Quantity must be positive' });
+  }
+});
+
 /**
  * Calculate unrealized P&L for a holding
  * Formula: (currentPrice - avgPrice) * quantity
@@ -40,13 +82,90 @@ export function calculateUnrealizedPnL(holding: NormalizedHolding): number {
 }
 
 /**
- * Validate a single holding
- * Ensures all invariants are met
+ * How derived-field mismatches in incoming holdings are handled
+ * - strict: reject the holding (original behavior)
+ * - repair: recompute derived fields, keep the reported value in _metadata.reported
+ * - warn: keep the reported value, only report the mismatch
  */
-export function validateHolding(holding: any): NormalizedHolding {
+export type NormalizationPolicy = 'strict' | 'repair' | 'warn';
+
+/**
+ * Why a reported value differs from the computed one
+ * - rounding: within what 2-decimal price rounding can explain
+ * - excluded_quantity: matches once T1/pledged/collateral units are left out
+ * - mismatch: no known explanation
+ */
+export type NormalizationReason = 'rounding' | 'excluded_quantity' | 'mismatch';
+
+/**
+ * One derived-field difference found during normalization
+ */
+export interface NormalizationAdjustment {
+  index: number;  // Position in the input holdings
+  symbol: string;
+  field: 'unrealizedPnL';
+  reported: number;
+  computed: number;
+  reason: NormalizationReason;
+  action: 'repaired' | 'flagged';
+}
+
+/**
+ * Everything normalization changed or flagged for one batch of holdings
+ */
+export interface NormalizationReport {
+  policy: NormalizationPolicy;
+  holdingsChecked: number;
+  repaired: number;
+  flagged: number;
+  adjustments: NormalizationAdjustment[];
+}
+
+/**
+ * Allowed floating point difference for derived fields
+ */
+const PNL_TOLERANCE = 0.01;
+
+/**
+ * Quantities brokers commonly leave out of their own P&L figures
+ */
+const EXCLUDABLE_QUANTITY_KEYS = ['t1Quantity', 'pledgedQuantity', 'collateralQuantity'];
+
+/**
+ * Explain the gap between a reported and computed P&L
+ */
+function explainPnLDifference(holding: NormalizedHolding, reported: number): NormalizationReason {
+  const priceDiff = holding.currentPrice - holding.avgPrice;
+  const roundingAllowance = 0.005 * holding.quantity + PNL_TOLERANCE;
+
+  if (Math.abs(reported - priceDiff * holding.quantity) <= roundingAllowance) {
+    return 'rounding';
+  }
+
+  for (const key of EXCLUDABLE_QUANTITY_KEYS) {
+    const excluded = Number(holding._metadata?.[key] ?? 0);
+    if (excluded > 0 && Math.abs(reported - priceDiff * (holding.quantity - excluded)) <= roundingAllowance) {
+      return 'excluded_quantity';
+    }
+  }
+
+  return 'mismatch';
+}
+
+/**
+ * Validate a single holding under a normalization policy
+ *
+ * @returns The (possibly repaired) holding and the adjustment made, if any
+ * @throws APIError on schema violations, or on a P&L mismatch under 'strict'
+ */
+export function normalizeHolding(
+  holding: any,
+  policy: NormalizationPolicy = 'strict',
+  index: number = 0
+): { holding: NormalizedHolding; adjustment?: NormalizationAdjustment } {
   // Validate with Zod schema
   const result = NormalizedHoldingSchema.safeParse(holding);
-  
+
   if (!result.success) {
     const firstError = result.error.errors[0];
     throw validationError(
@@ -61,9 +180,13 @@ export function validateHolding(holding: any): NormalizedHolding {
   // Verify P&L calculation (invariant)
   const expectedPnL = calculateUnrealizedPnL(validated);
   const actualPnL = validated.unrealizedPnL;
-  
+
   // Allow small floating point differences (within 0.01)
-  if (Math.abs(expectedPnL - actualPnL) > 0.01) {
+  if (Math.abs(expectedPnL - actualPnL) <= PNL_TOLERANCE) {
+    return { holding: validated };
+  }
+
+  if (policy === 'strict') {
     throw validationError(
       'unrealizedPnL',
       `P&L mismatch: expected ${expectedPnL.toFixed(2)}, got ${actualPnL.toFixed(2)}`,
@@ -71,21 +194,61 @@ export function validateHolding(holding: any): NormalizedHolding {
     );
   }
 
-  return validated;
+  const adjustment: NormalizationAdjustment = {
+    index,
+    symbol: validated.symbol,
+    field: 'unrealizedPnL',
+    reported: actualPnL,
+    computed: expectedPnL,
+    reason: explainPnLDifference(validated, actualPnL),
+    action: policy === 'repair' ? 'repaired' : 'flagged'
+  };
+
+  if (policy === 'warn') {
+    return { holding: validated, adjustment };
+  }
+
+  return {
+    holding: {
+      ...validated,
+      unrealizedPnL: expectedPnL,
+      _metadata: {
+        ...validated._metadata,
+        reported: { ...validated._metadata?.reported, unrealizedPnL: actualPnL }
+      }
+    },
+    adjustment
+  };
 }
 
 /**
- * Validate array of holdings
- * Ensures all holdings meet schema requirements
+ * Validate a single holding
+ * Ensures all invariants are met
  */
-export function validateHoldings(holdings: any[]): NormalizedHolding[] {
+export function validateHolding(holding: any): NormalizedHolding {
+  return normalizeHolding(holding, 'strict').holding;
+}
+
+/**
+ * Validate an array of holdings under a normalization policy
+ * Schema violations always reject; derived-field mismatches follow the policy
+ */
+export function normalizeHoldings(
+  holdings: any[],
+  policy: NormalizationPolicy = 'strict'
+): { holdings: NormalizedHolding[]; report: NormalizationReport } {
   if (!Array.isArray(holdings)) {
     throw validationError('holdings', 'Holdings must be an array', holdings);
   }
 
-  return holdings.map((holding, index) => {
+  const adjustments: NormalizationAdjustment[] = [];
+  const normalized = holdings.map((holding, index) => {
     try {
-      return validateHolding(holding);
+      const result = normalizeHolding(holding, policy, index);
+      if (result.adjustment) {
+        adjustments.push(result.adjustment);
+      }
+      return result.holding;
     } catch (error) {
       throw validationError(
         `holdings[${index}]`,
@@ -94,6 +257,50 @@ export function validateHoldings(holdings: any[]): NormalizedHolding[] {
       );
     }
   });
+
+  return {
+    holdings: normalized,
+    report: {
+      policy,
+      holdingsChecked: holdings.length,
+      repaired: adjustments.filter((adjustment) => adjustment.action === 'repaired').length,
+      flagged: adjustments.filter((adjustment) => adjustment.action === 'flagged').length,
+      adjustments
+    }
+  };
+}
+
+/**
+ * Validate array of holdings
+ * Ensures all holdings meet schema requirements
+ */
+export function validateHoldings(holdings: any[]): NormalizedHolding[] {
+  return normalizeHoldings(holdings, 'strict').holdings;
+}
+
+/**
+ * Validate array of transactions
+ * Ensures all ledger entries meet schema requirements
+ */
+export function validateTransactions(transactions: any[]): NormalizedTransaction[] {
+  if (!Array.isArray(transactions)) {
+    throw validationError('transactions', 'Transactions must be an array', transactions);
+  }
+
+  return transactions.map((transaction, index) => {
+    const result = NormalizedTransactionSchema.safeParse(transaction);
+
+    if (!result.success) {
+      const firstError = result.error.errors[0];
+      throw validationError(
+        `transactions[${index}].${firstError.path.join('.')}`,
+        firstError.message,
+        transaction
+      );
+    }
+
+    return result.data;
+  });
 }
 
 /**
@@ -125,22 +332,42 @@ export function normalizePortfolio(
   userId: string,
   source: PortfolioSource,
   holdings: any[],
-  currency: string = 'INR'
+  currency: string = 'INR',
+  name: string = DEFAULT_PORTFOLIO_NAME,
+  policy: NormalizationPolicy = 'strict'
 ): Omit<Portfolio, 'id' | 'createdAt'> {
+  return normalizePortfolioWithReport(userId, source, holdings, currency, name, policy).portfolio;
+}
+
+/**
+ * Same as normalizePortfolio, also returning the normalization report
+ */
+export function normalizePortfolioWithReport(
+  userId: string,
+  source: PortfolioSource,
+  holdings: any[],
+  currency: string = 'INR',
+  name: string = DEFAULT_PORTFOLIO_NAME,
+  policy: NormalizationPolicy = 'strict'
+): { portfolio: Omit<Portfolio, 'id' | 'createdAt'>; report: NormalizationReport } {
   // Validate all holdings
-  const validatedHoldings = validateHoldings(holdings);
+  const { holdings: validatedHoldings, report } = normalizeHoldings(holdings, policy);
 
   // Calculate totals
   const { totalValue, totalPnL } = calculatePortfolioTotals(validatedHoldings);
 
   return {
-    userId,
-    source,
-    lastSync: new Date(),
-    totalValue,
-    totalPnL,
-    currency,
-    holdings: validatedHoldings
+    portfolio: {
+      userId,
+      name,
+      source,
+      lastSync: new Date(),
+      totalValue,
+      totalPnL,
+      currency,
+      holdings: validatedHoldings
+    },
+    report
   };
 }
 
@@ -178,3 +405,21 @@ export function getTopLosers(holdings: NormalizedHolding[], limit: number = 5):
     .slice(0, limit);
 }
 
+/**
+ * Headline figures for a set of holdings
+ * pnlPercentage is total P&L as a percentage of the invested amount
+ */
+export function calculatePortfolioSummary(holdings: NormalizedHolding[], topLimit: number = 5): PortfolioSummary {
+  const { totalValue, totalPnL } = calculatePortfolioTotals(holdings);
+  const invested = holdings.reduce((sum, holding) => sum + holding.avgPrice * holding.quantity, 0);
+
+  return {
+    totalValue,
+    totalPnL,
+    pnlPercentage: invested === 0 ? 0 : (totalPnL / invested) * 100,
+    holdingsCount: holdings.length,
+    topGainers: getTopGainers(holdings, topLimit),
+    topLosers: getTopLosers(holdings, topLimit),
+    sectorAllocation: getSectorAllocation(holdings)
+  };
+}
@@ -0,0 +1,62 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { DB } from './db';
+import { getValueSeries, sumSeries } from './snapshots';
+
+vi.mock('./db', () => ({
+  DB: { queryAll: vi.fn() }
+}));
+
+const FROM = new Date('2024-06-03T00:00:00+05:30');
+const TO = new Date('2024-06-06T23:59:59+05:30');
+
+function row(portfolioId: number, syncedAt: string, totalValue: number, totalPnL = 0) {
+  return { portfolio_id: portfolioId, synced_at: new Date(syncedAt), total_value: totalValue, total_pnl: totalPnL };
+}
+
+describe('sumSeries', () => {
+  it('carries each portfolio forward until its next snapshot', () => {
+    const summed = sumSeries([
+      [{ syncedAt: new Date('2024-06-03T10:00:00Z'), totalValue: 100, totalPnL: 10 }],
+      [{ syncedAt: new Date('2024-06-04T10:00:00Z'), totalValue: 200, totalPnL: 20 }]
+    ]);
+
+    expect(summed.map((point) => point.totalValue)).toEqual([100, 300]);
+    expect(summed.map((point) => point.totalPnL)).toEqual([10, 30]);
+  });
+});
+
+describe('getValueSeries', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('seeds each portfolio with its latest snapshot before the range', async () => {
+    // Rows as the query returns them: portfolio 1 last synced before the range, portfolio 2 inside it
+    vi.mocked(DB.queryAll).mockResolvedValueOnce([
+      row(1, FROM.toISOString(), 100_000, 5_000),
+      row(2, '2024-06-04T10:00:00Z', 50_000, 1_000),
+      row(2, '2024-06-05T10:00:00Z', 52_000, 3_000)
+    ]);
+
+    const series = await getValueSeries('user-1', FROM, TO, 'daily');
+
+    expect(series.map((point) => point.totalValue)).toEqual([100_000, 150_000, 152_000]);
+    expect(series.map((point) => point.totalPnL)).toEqual([5_000, 6_000, 8_000]);
+    expect(series[0].syncedAt).toEqual(FROM);
+
+    const [strings, ...values] = vi.mocked(DB.queryAll).mock.calls[0];
+    expect((strings as TemplateStringsArray).join('?')).toMatch(/DISTINCT ON \(s\.portfolio_id\)[\s\S]+synced_at < \?/);
+    expect(values).toContain(FROM);
+  });
+
+  it('lets a snapshot taken exactly at the start replace the seed', async () => {
+    vi.mocked(DB.queryAll).mockResolvedValueOnce([
+      row(1, FROM.toISOString(), 100_000),
+      row(1, FROM.toISOString(), 101_000)
+    ]);
+
+    const series = await getValueSeries('user-1', FROM, TO, 'raw', 1);
+
+    expect(series).toEqual([{ syncedAt: FROM, totalValue: 101_000, totalPnL: 0 }]);
+  });
+});
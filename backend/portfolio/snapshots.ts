@@ -0,0 +1,370 @@
+/**
+ * Portfolio snapshot store and retention rules
+ *
+ * Why this exists:
+ * - The portfolios table only holds the latest state, so history is kept here
+ * - Appends one immutable snapshot per sync (keyed by portfolio and sync time)
+ * - Compacts old snapshots so storage grows with months, not with syncs
+ * - Powers "portfolio at a date" lookups and value time series
+ */
+
+import { DB, type Transaction } from './db';
+import type {
+  NormalizedHolding,
+  Portfolio,
+  PortfolioSnapshot,
+  PortfolioSource,
+  PortfolioValuePoint,
+  SnapshotInterval
+} from '../shared/types';
+
+/**
+ * IST is a fixed UTC+05:30 offset (no DST), used for day/week/month boundaries
+ */
+const IST_OFFSET_MS = 330 * 60 * 1000;
+const DAY_MS = 86400 * 1000;
+
+/**
+ * Retention tiers, measured by snapshot age in days
+ * - Younger than keepAllDays: every snapshot is kept
+ * - Up to keepDailyDays: last snapshot of each day is kept
+ * - Up to keepWeeklyDays: last snapshot of each week is kept
+ * - Older: last snapshot of each month is kept
+ */
+export interface SnapshotRetentionPolicy {
+  keepAllDays: number;
+  keepDailyDays: number;
+  keepWeeklyDays: number;
+}
+
+export const DEFAULT_RETENTION_POLICY: SnapshotRetentionPolicy = {
+  keepAllDays: 7,
+  keepDailyDays: 90,
+  keepWeeklyDays: 365
+};
+
+/**
+ * Raw snapshot row as stored in PostgreSQL
+ */
+interface SnapshotRow {
+  id: number;
+  portfolio_id: number;
+  user_id: string;
+  source: PortfolioSource;
+  synced_at: Date;
+  total_value: number;
+  total_pnl: number;
+  currency: string;
+  data: NormalizedHolding[];
+  created_at: Date;
+}
+
+function toSnapshot(row: SnapshotRow): PortfolioSnapshot {
+  return {
+    id: Number(row.id),
+    portfolioId: Number(row.portfolio_id),
+    userId: row.user_id,
+    source: row.source,
+    syncedAt: row.synced_at,
+    totalValue: Number(row.total_value),
+    totalPnL: Number(row.total_pnl),
+    currency: row.currency,
+    holdings: row.data,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Bucket key for a timestamp at the given interval (IST calendar)
+ * Examples: daily -> '2024-03-15', weekly -> 'w2024-03-11', monthly -> '2024-03'
+ */
+export function bucketKey(date: Date, interval: Exclude<SnapshotInterval, 'raw'>): string {
+  const ist = new Date(date.getTime() + IST_OFFSET_MS);
+  const day = ist.toISOString().slice(0, 10);
+
+  if (interval === 'daily') {
+    return day;
+  }
+
+  if (interval === 'monthly') {
+    return day.slice(0, 7);
+  }
+
+  // Weeks start on Monday
+  const weekday = (ist.getUTCDay() + 6) % 7;
+  const monday = new Date(ist.getTime() - weekday * DAY_MS);
+  return `w${monday.toISOString().slice(0, 10)}`;
+}
+
+/**
+ * Decide which snapshots the retention policy allows us to delete
+ * Within each bucket the latest snapshot wins (end-of-period state)
+ *
+ * @param snapshots - Snapshots of a single portfolio (any order)
+ * @param now - Reference time for ages
+ * @param policy - Retention tiers
+ * @returns IDs of snapshots to delete
+ */
+export function selectSnapshotsToPrune(
+  snapshots: Array<Pick<PortfolioSnapshot, 'id' | 'syncedAt'>>,
+  now: Date = new Date(),
+  policy: SnapshotRetentionPolicy = DEFAULT_RETENTION_POLICY
+): number[] {
+  const keepers = new Map<string, Pick<PortfolioSnapshot, 'id' | 'syncedAt'>>();
+  const prune: number[] = [];
+
+  for (const snapshot of snapshots) {
+    const ageDays = (now.getTime() - snapshot.syncedAt.getTime()) / DAY_MS;
+    if (ageDays <= policy.keepAllDays) {
+      continue;
+    }
+
+    const interval =
+      ageDays <= policy.keepDailyDays ? 'daily' :
+      ageDays <= policy.keepWeeklyDays ? 'weekly' :
+      'monthly';
+
+    // Prefix with the tier so buckets from different tiers never merge
+    const key = `${interval}:${bucketKey(snapshot.syncedAt, interval)}`;
+    const current = keepers.get(key);
+
+    if (!current) {
+      keepers.set(key, snapshot);
+    } else if (snapshot.syncedAt > current.syncedAt) {
+      prune.push(current.id);
+      keepers.set(key, snapshot);
+    } else {
+      prune.push(snapshot.id);
+    }
+  }
+
+  return prune;
+}
+
+/**
+ * Sum several portfolios' value series into one
+ * Each portfolio's value is carried forward until its next snapshot
+ */
+export function sumSeries(seriesByPortfolio: PortfolioValuePoint[][]): PortfolioValuePoint[] {
+  const events = seriesByPortfolio
+    .flatMap((series, index) => series.map((point) => ({ index, point })))
+    .sort((a, b) => a.point.syncedAt.getTime() - b.point.syncedAt.getTime());
+
+  const latest = new Map<number, PortfolioValuePoint>();
+  const summed: PortfolioValuePoint[] = [];
+
+  for (const { index, point } of events) {
+    latest.set(index, point);
+
+    let totalValue = 0;
+    let totalPnL = 0;
+    for (const current of latest.values()) {
+      totalValue += current.totalValue;
+      totalPnL += current.totalPnL;
+    }
+
+    // Collapse portfolios synced at the same instant into one point
+    const previous = summed[summed.length - 1];
+    if (previous && previous.syncedAt.getTime() === point.syncedAt.getTime()) {
+      summed.pop();
+    }
+    summed.push({ syncedAt: point.syncedAt, totalValue, totalPnL });
+  }
+
+  return summed;
+}
+
+/**
+ * Downsample a value series to one point (the latest) per bucket
+ */
+export function downsampleSeries(
+  points: PortfolioValuePoint[],
+  interval: SnapshotInterval
+): PortfolioValuePoint[] {
+  if (interval === 'raw') {
+    return points;
+  }
+
+  const buckets = new Map<string, PortfolioValuePoint>();
+  for (const point of points) {
+    const key = bucketKey(point.syncedAt, interval);
+    const current = buckets.get(key);
+    if (!current || point.syncedAt > current.syncedAt) {
+      buckets.set(key, point);
+    }
+  }
+
+  return [...buckets.values()].sort((a, b) => a.syncedAt.getTime() - b.syncedAt.getTime());
+}
+
+const SNAPSHOT_COLUMNS = `
+  id, portfolio_id, user_id, source, synced_at, total_value::float8 AS total_value,
+  total_pnl::float8 AS total_pnl, currency, data, created_at
+`;
+
+/**
+ * Append a snapshot for a freshly synced portfolio
+ * Re-recording the same sync (same portfolio and lastSync) is a no-op
+ *
+ * @param tx - Transaction that also writes the portfolio row
+ * @param portfolioId - Portfolio row the snapshot belongs to
+ * @param portfolio - Normalized portfolio (output of normalizePortfolio)
+ * @returns The stored snapshot
+ */
+export async function recordSnapshot(
+  tx: Transaction,
+  portfolioId: number,
+  portfolio: Omit<Portfolio, 'id' | 'createdAt'>
+): Promise<PortfolioSnapshot> {
+  await tx.exec`
+    INSERT INTO portfolio_snapshots (portfolio_id, user_id, source, synced_at, total_value, total_pnl, currency, data)
+    VALUES (
+      ${portfolioId}, ${portfolio.userId}, ${portfolio.source}, ${portfolio.lastSync},
+      ${portfolio.totalValue}, ${portfolio.totalPnL}, ${portfolio.currency},
+      ${JSON.stringify(portfolio.holdings)}::jsonb
+    )
+    ON CONFLICT (portfolio_id, synced_at) DO NOTHING
+  `;
+
+  const row = await tx.rawQueryRow<SnapshotRow>(
+    `SELECT ${SNAPSHOT_COLUMNS} FROM portfolio_snapshots WHERE portfolio_id = $1 AND synced_at = $2`,
+    portfolioId,
+    portfolio.lastSync
+  );
+  return toSnapshot(row!);
+}
+
+/**
+ * Get the snapshot that describes a portfolio as of a point in time
+ * (the latest snapshot synced at or before `at`)
+ */
+export async function getSnapshotAt(portfolioId: number, at: Date): Promise<PortfolioSnapshot | null> {
+  const row = await DB.rawQueryRow<SnapshotRow>(
+    `SELECT ${SNAPSHOT_COLUMNS} FROM portfolio_snapshots
+     WHERE portfolio_id = $1 AND synced_at <= $2
+     ORDER BY synced_at DESC
+     LIMIT 1`,
+    portfolioId,
+    at
+  );
+
+  return row ? toSnapshot(row) : null;
+}
+
+/**
+ * Get the latest snapshot at or before `at` for every portfolio of a user
+ */
+export async function getUserSnapshotsAt(userId: string, at: Date): Promise<PortfolioSnapshot[]> {
+  const rows = await DB.rawQueryAll<SnapshotRow>(
+    `SELECT DISTINCT ON (portfolio_id) ${SNAPSHOT_COLUMNS} FROM portfolio_snapshots
+     WHERE user_id = $1 AND synced_at <= $2
+     ORDER BY portfolio_id, synced_at DESC`,
+    userId,
+    at
+  );
+
+  return rows.map(toSnapshot);
+}
+
+/**
+ * List full snapshots in a time range, oldest first
+ * Covers all of the user's portfolios unless portfolioId is given
+ */
+export async function listSnapshots(
+  userId: string,
+  from: Date,
+  to: Date,
+  portfolioId?: number
+): Promise<PortfolioSnapshot[]> {
+  const rows = await DB.rawQueryAll<SnapshotRow>(
+    `SELECT ${SNAPSHOT_COLUMNS} FROM portfolio_snapshots
+     WHERE user_id = $1 AND synced_at BETWEEN $2 AND $3
+       AND ($4::bigint IS NULL OR portfolio_id = $4)
+     ORDER BY synced_at ASC`,
+    userId,
+    from,
+    to,
+    portfolioId ?? null
+  );
+
+  return rows.map(toSnapshot);
+}
+
+/**
+ * Get the value series in a time range (without holdings payloads)
+ * Without portfolioId, the user's portfolios are summed into one series
+ * Each portfolio is seeded at `from` with its latest earlier snapshot, so a
+ * portfolio not synced inside the range still counts toward the sum
+ */
+export async function getValueSeries(
+  userId: string,
+  from: Date,
+  to: Date,
+  interval: SnapshotInterval = 'daily',
+  portfolioId?: number
+): Promise<PortfolioValuePoint[]> {
+  // seed = 0 sorts the carried-forward value before a snapshot taken exactly at `from`
+  const rows = await DB.queryAll<{ portfolio_id: number; synced_at: Date; total_value: number; total_pnl: number }>`
+    SELECT portfolio_id, synced_at, total_value, total_pnl
+    FROM (
+      (
+        SELECT DISTINCT ON (s.portfolio_id)
+          s.portfolio_id, ${from}::timestamptz AS synced_at, s.total_value::float8 AS total_value,
+          s.total_pnl::float8 AS total_pnl, 0 AS seed
+        FROM portfolio_snapshots s
+        WHERE s.user_id = ${userId} AND s.synced_at < ${from}
+          AND (${portfolioId ?? null}::bigint IS NULL OR s.portfolio_id = ${portfolioId ?? null})
+        ORDER BY s.portfolio_id, s.synced_at DESC
+      )
+      UNION ALL
+      (
+        SELECT portfolio_id, synced_at, total_value::float8, total_pnl::float8, 1
+        FROM portfolio_snapshots
+        WHERE user_id = ${userId} AND synced_at BETWEEN ${from} AND ${to}
+          AND (${portfolioId ?? null}::bigint IS NULL OR portfolio_id = ${portfolioId ?? null})
+      )
+    ) AS points
+    ORDER BY synced_at ASC, seed ASC
+  `;
+
+  const byPortfolio = new Map<number, PortfolioValuePoint[]>();
+  for (const row of rows) {
+    const id = Number(row.portfolio_id);
+    const series = byPortfolio.get(id) ?? [];
+    series.push({
+      syncedAt: row.synced_at,
+      totalValue: Number(row.total_value),
+      totalPnL: Number(row.total_pnl)
+    });
+    byPortfolio.set(id, series);
+  }
+
+  return downsampleSeries(sumSeries([...byPortfolio.values()]), interval);
+}
+
+/**
+ * Apply the retention policy to one portfolio's snapshots
+ *
+ * @returns Number of snapshots deleted
+ */
+export async function compactSnapshots(
+  portfolioId: number,
+  now: Date = new Date(),
+  policy: SnapshotRetentionPolicy = DEFAULT_RETENTION_POLICY
+): Promise<number> {
+  const rows = await DB.queryAll<{ id: number; synced_at: Date }>`
+    SELECT id, synced_at FROM portfolio_snapshots WHERE portfolio_id = ${portfolioId}
+  `;
+
+  const prune = selectSnapshotsToPrune(
+    rows.map((row) => ({ id: Number(row.id), syncedAt: row.synced_at })),
+    now,
+    policy
+  );
+
+  if (prune.length > 0) {
+    await DB.exec`DELETE FROM portfolio_snapshots WHERE id = ANY(${prune})`;
+  }
+
+  return prune.length;
+}
@@ -0,0 +1,149 @@
+/**
+ * Portfolio persistence
+ * 
+ * Why this exists:
+ * - Single write path for synced/imported portfolios
+ * - Keeps the "current state" row and the snapshot history in step
+ * - Ensures every sync is captured in history, never only overwritten
+ */
+
+import { DB, type Transaction } from './db';
+import type { NormalizedHolding, Portfolio, PortfolioSnapshot } from '../shared/types';
+import { invalidArgument, notFound } from '../shared/errors';
+import { recordSnapshot } from './snapshots';
+
+/**
+ * Raw portfolio row as stored in PostgreSQL
+ */
+interface PortfolioRow {
+  id: number;
+  user_id: string;
+  name: string;
+  source: string;
+  last_sync: Date;
+  total_value: number;
+  total_pnl: number;
+  currency: string;
+  data: NormalizedHolding[];
+  created_at: Date;
+}
+
+function toPortfolio(row: PortfolioRow): Portfolio {
+  return {
+    id: Number(row.id),
+    userId: row.user_id,
+    name: row.name,
+    source: row.source,
+    lastSync: row.last_sync,
+    totalValue: Number(row.total_value),
+    totalPnL: Number(row.total_pnl),
+    currency: row.currency,
+    holdings: row.data,
+    createdAt: row.created_at
+  };
+}
+
+/**
+ * Persist a normalized portfolio
+ * Overwrites the named portfolio's current row (creating it on first sync)
+ * and appends a snapshot. A portfolio is only ever overwritten from its own
+ * source, so a second broker cannot silently replace the first one's holdings
+ * 
+ * The row and the snapshot are written in one transaction, so a portfolio
+ * never changes without a history entry
+ * 
+ * @param portfolio - Output of normalizePortfolio
+ * @returns The portfolio ID and the appended snapshot
+ * @throws APIError (400) if the name is taken by a portfolio from another source
+ */
+export async function savePortfolio(
+  portfolio: Omit<Portfolio, 'id' | 'createdAt'>
+): Promise<{ portfolioId: number; snapshot: PortfolioSnapshot }> {
+  const tx = await DB.begin();
+
+  try {
+    const saved = await writePortfolio(tx, portfolio);
+    await tx.commit();
+    return saved;
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+}
+
+/**
+ * Upsert the portfolio row and append its snapshot on the caller's
+ * transaction (see savePortfolio)
+ */
+export async function writePortfolio(
+  tx: Transaction,
+  portfolio: Omit<Portfolio, 'id' | 'createdAt'>
+): Promise<{ portfolioId: number; snapshot: PortfolioSnapshot }> {
+  const row = await tx.queryRow<{ id: number }>`
+    INSERT INTO portfolios (user_id, name, source, last_sync, total_value, total_pnl, currency, data)
+    VALUES (
+      ${portfolio.userId}, ${portfolio.name}, ${portfolio.source}, ${portfolio.lastSync},
+      ${portfolio.totalValue}, ${portfolio.totalPnL}, ${portfolio.currency},
+      ${JSON.stringify(portfolio.holdings)}::jsonb
+    )
+    ON CONFLICT (user_id, name) DO UPDATE SET
+      source = EXCLUDED.source,
+      last_sync = EXCLUDED.last_sync,
+      total_value = EXCLUDED.total_value,
+      total_pnl = EXCLUDED.total_pnl,
+      currency = EXCLUDED.currency,
+      data = EXCLUDED.data
+    WHERE portfolios.source = EXCLUDED.source
+    RETURNING id
+  `;
+
+  if (!row) {
+    const existing = await tx.queryRow<{ source: string }>`
+      SELECT source FROM portfolios WHERE user_id = ${portfolio.userId} AND name = ${portfolio.name}
+    `;
+    const owner = existing?.source ?? 'another source';
+    throw invalidArgument(`Portfolio '${portfolio.name}' is synced from ${owner}; choose another portfolio name`, {
+      name: portfolio.name,
+      source: portfolio.source,
+      existingSource: existing?.source
+    });
+  }
+
+  const portfolioId = Number(row.id);
+  const snapshot = await recordSnapshot(tx, portfolioId, portfolio);
+  return { portfolioId, snapshot };
+}
+
+/**
+ * Load all of a user's portfolios (with holdings), oldest first
+ */
+export async function listPortfolios(userId: string): Promise<Portfolio[]> {
+  const rows = await DB.queryAll<PortfolioRow>`
+    SELECT id, user_id, name, source, last_sync, total_value::float8 AS total_value,
+      total_pnl::float8 AS total_pnl, currency, data, created_at
+    FROM portfolios
+    WHERE user_id = ${userId}
+    ORDER BY created_at ASC, id ASC
+  `;
+
+  return rows.map(toPortfolio);
+}
+
+/**
+ * Load one of a user's portfolios
+ * @throws APIError (404) if it does not exist or belongs to someone else
+ */
+export async function getPortfolio(userId: string, portfolioId: number): Promise<Portfolio> {
+  const row = await DB.queryRow<PortfolioRow>`
+    SELECT id, user_id, name, source, last_sync, total_value::float8 AS total_value,
+      total_pnl::float8 AS total_pnl, currency, data, created_at
+    FROM portfolios
+    WHERE user_id = ${userId} AND id = ${portfolioId}
+  `;
+
+  if (!row) {
+    throw notFound('Portfolio not found', { userId, portfolioId });
+  }
+
+  return toPortfolio(row);
+}
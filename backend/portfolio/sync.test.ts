@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { ErrCode } from 'encore.dev/api';
+import type { NormalizedHolding, NormalizedTransaction } from '../shared/types';
+import { DEFAULT_MOCK_FIXTURE, MOCK_INVALID_PASSWORD } from './connectors/mock.connector';
+import { listConnectors } from './connectors';
+import { savePortfolio } from './store';
+import { insertTransactions } from './transactions';
+import { publishSyncProgress } from '../events/topic';
+import { syncFromConnector } from './sync';
+
+// Persistence and enrichment are covered elsewhere; here only the connector path runs for real
+vi.mock('./store', () => ({
+  savePortfolio: vi.fn(async () => ({ portfolioId: 7 }))
+}));
+vi.mock('./enrichment', () => ({
+  enrichHoldings: vi.fn(async (holdings: NormalizedHolding[]) => ({ holdings, unresolved: [] }))
+}));
+vi.mock('./transactions', () => ({
+  insertTransactions: vi.fn(async (_userId: string, _source: string, trades: NormalizedTransaction[]) => trades.length)
+}));
+vi.mock('../events/topic', () => ({
+  publishSyncProgress: vi.fn(async () => undefined)
+}));
+
+describe('syncFromConnector with the mock connector', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('is registered outside production', () => {
+    expect(listConnectors().map((connector) => connector.id)).toContain('mock');
+  });
+
+  it('maps, normalizes and saves the mock holdings under the connector id', async () => {
+    const result = await syncFromConnector('user-1', 'mock', { accountId: 'ACC1' }, 'Mock account');
+
+    expect(result.portfolioId).toBe(7);
+    expect(result.portfolio).toMatchObject({ userId: 'user-1', name: 'Mock account', source: 'mock' });
+    expect(result.portfolio.holdings.map((holding) => holding.symbol)).toEqual(['RELIANCE', 'INFY', 'HDFCBANK']);
+    expect(result.portfolio.totalValue).toBeCloseTo(10 * 2950.5 + 25 * 1480.25 + 15 * 1675, 2);
+    expect(result.tradesImported).toBe(0);
+    expect(savePortfolio).toHaveBeenCalledOnce();
+    expect(insertTransactions).not.toHaveBeenCalled();
+  });
+
+  it('imports trades from the requested date', async () => {
+    const result = await syncFromConnector('user-1', 'mock', {}, undefined, '2023-08-01');
+
+    const expected = DEFAULT_MOCK_FIXTURE.trades.filter((trade) => trade.date >= '2023-08-01').map((trade) => trade.id);
+    expect(result.tradesImported).toBe(expected.length);
+    const trades = vi.mocked(insertTransactions).mock.calls[0][2];
+    expect(trades.map((trade) => trade.tradeId)).toEqual(expected);
+    expect(trades.find((trade) => trade.tradeId === 'MOCK-3')).toMatchObject({ type: 'sell', quantity: 5 });
+  });
+
+  it('reports every stage of a successful sync', async () => {
+    const result = await syncFromConnector('user-1', 'mock', {}, 'Primary', '2023-01-01');
+
+    const stages = vi.mocked(publishSyncProgress).mock.calls.map(([, progress]) => progress.stage);
+    expect(stages).toEqual(['started', 'fetching_holdings', 'saved', 'importing_trades', 'completed']);
+    expect(vi.mocked(publishSyncProgress).mock.calls.every(([, progress]) => progress.syncId === result.syncId)).toBe(
+      true
+    );
+  });
+
+  it('fails without saving when the mock broker rejects the credentials', async () => {
+    await expect(syncFromConnector('user-1', 'mock', { password: MOCK_INVALID_PASSWORD })).rejects.toMatchObject({
+      code: ErrCode.Unauthenticated
+    });
+
+    expect(savePortfolio).not.toHaveBeenCalled();
+    expect(vi.mocked(publishSyncProgress).mock.calls.at(-1)?.[1]).toMatchObject({ stage: 'failed' });
+  });
+
+  it('rejects an unknown connector', async () => {
+    await expect(syncFromConnector('user-1', 'no_such_broker', {})).rejects.toMatchObject({
+      code: ErrCode.NotFound
+    });
+  });
+});
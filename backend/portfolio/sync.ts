@@ -0,0 +1,195 @@
+/**
+ * Portfolio sync through registered connectors
+ * 
+ * Why this exists:
+ * - Source-agnostic sync core: authenticate, fetch, map, validate, persist
+ * - Works for any connector in the registry (brokers, statements, mock)
+ * - Exposes the list of available sources to the frontend
+ * - Reports each stage on the owner's event channel (see events/topic.ts)
+ */
+
+import { randomUUID } from 'crypto';
+import { api } from 'encore.dev/api';
+import { requireAuth } from '../shared/auth';
+import { wrapError } from '../shared/errors';
+import type { Portfolio, SyncProgress, SyncStage } from '../shared/types';
+import { publishSyncProgress } from '../events/topic';
+import { getConnector, listConnectors, type ConnectorCredentials, type ConnectorInfo } from './connectors';
+import {
+  DEFAULT_PORTFOLIO_NAME,
+  normalizePortfolioWithReport,
+  validateTransactions,
+  type NormalizationPolicy,
+  type NormalizationReport
+} from './schema';
+import { savePortfolio } from './store';
+import { DB } from './db';
+import { istToday } from './calendar';
+import { upsertEodPrices } from './price-store';
+import { enrichHoldings } from './enrichment';
+import { insertTransactions } from './transactions';
+
+export interface SyncResult {
+  syncId: string;  // Identifies this sync's progress events
+  portfolioId: number;
+  portfolio: Omit<Portfolio, 'id' | 'createdAt'>;
+  tradesImported: number;
+  pricesImported: number;
+  normalization: NormalizationReport;
+  unresolvedInstruments: string[];  // Symbols missing from the instrument master
+}
+
+/**
+ * Sync a user's portfolio from a connector
+ * 
+ * @param userId - Portfolio owner
+ * @param connectorId - Registered connector ID (becomes the portfolio source)
+ * @param credentials - Connector-specific credentials
+ * @param portfolioName - Named portfolio to sync into (created on first sync)
+ * @param tradesSince - Also import trades from this date (YYYY-MM-DD) when supported
+ * @param policy - How broker P&L that disagrees with prices is handled (repaired by default)
+ * @param pricesSince - Also store daily closes of the holdings from this date (YYYY-MM-DD) when supported
+ */
+export async function syncFromConnector(
+  userId: string,
+  connectorId: string,
+  credentials: ConnectorCredentials,
+  portfolioName: string = DEFAULT_PORTFOLIO_NAME,
+  tradesSince?: string,
+  policy: NormalizationPolicy = 'repair',
+  pricesSince?: string
+): Promise<SyncResult> {
+  const connector = getConnector(connectorId);
+  const syncId = randomUUID();
+  const progress = (stage: SyncStage, details?: Pick<SyncProgress, 'portfolioId' | 'error'>) =>
+    publishSyncProgress(userId, { syncId, connectorId, portfolioName, stage, ...details });
+
+  try {
+    await progress('started');
+    const session = await connector.authenticate(credentials);
+    await progress('fetching_holdings');
+    const rawHoldings = await connector.fetchHoldings(session);
+    const { holdings, unresolved } = await enrichHoldings(rawHoldings.map((raw) => connector.mapHolding(raw)));
+    const { portfolio, report } = normalizePortfolioWithReport(
+      userId,
+      connector.id,
+      holdings,
+      'INR',
+      portfolioName,
+      policy
+    );
+    const { portfolioId } = await savePortfolio(portfolio);
+    await progress('saved', { portfolioId });
+
+    let tradesImported = 0;
+    if (tradesSince && connector.capabilities.trades) {
+      await progress('importing_trades', { portfolioId });
+      const today = new Date().toISOString().slice(0, 10);
+      const rawTrades = await connector.fetchTrades(session, { from: tradesSince, to: today });
+      const trades = validateTransactions(rawTrades.map((raw) => connector.mapTrade(raw)));
+      tradesImported = await insertTransactions(userId, connector.id, trades, portfolioId);
+    }
+
+    // Price history is a bonus: a failed download must not fail the sync
+    let pricesImported = 0;
+    if (pricesSince && connector.capabilities.prices && connector.fetchDailyCloses) {
+      await progress('importing_prices', { portfolioId });
+      try {
+        const prices = await connector.fetchDailyCloses(session, holdings, { from: pricesSince, to: istToday() });
+        pricesImported = await upsertEodPrices(DB, prices, connector.id);
+      } catch (error) {
+        console.warn('Price history download failed:', { connectorId, error });
+      }
+    }
+
+    await progress('completed', { portfolioId });
+    return {
+      syncId,
+      portfolioId,
+      portfolio,
+      tradesImported,
+      pricesImported,
+      normalization: report,
+      unresolvedInstruments: unresolved
+    };
+  } catch (error) {
+    const apiError = wrapError(error, `sync:${connectorId}`);
+    await progress('failed', { error: apiError.message });
+    throw apiError;
+  }
+}
+
+interface ListConnectorsResponse {
+  connectors: ConnectorInfo[];
+}
+
+/**
+ * List available portfolio sources
+ * GET /portfolio/connectors
+ */
+export const connectors = api(
+  { expose: true, auth: true, method: 'GET', path: '/portfolio/connectors' },
+  async (): Promise<ListConnectorsResponse> => {
+    return { connectors: listConnectors() };
+  }
+);
+
+interface SyncRequest {
+  connectorId: string;
+  credentials: ConnectorCredentials;
+  portfolioName?: string;
+  tradesSince?: string;  // YYYY-MM-DD
+  normalization?: NormalizationPolicy;
+  pricesSince?: string;  // YYYY-MM-DD, store daily closes of the holdings
+}
+
+interface SyncResponse {
+  success: boolean;
+  syncId: string;  // Matches the sync events on GET /events
+  portfolioId: number;
+  portfolio: Omit<Portfolio, 'id' | 'createdAt'>;
+  tradesImported: number;
+  pricesImported: number;
+  normalization: NormalizationReport;
+  unresolvedInstruments: string[];
+  syncedAt: string;  // ISO 8601
+}
+
+/**
+ * Sync the caller's portfolio from a connector
+ * POST /portfolio/sync/:connectorId
+ */
+export const sync = api(
+  { expose: true, auth: true, method: 'POST', path: '/portfolio/sync/:connectorId' },
+  async ({
+    connectorId,
+    credentials,
+    portfolioName,
+    tradesSince,
+    normalization,
+    pricesSince
+  }: SyncRequest): Promise<SyncResponse> => {
+    const { userId } = requireAuth();
+    const result = await syncFromConnector(
+      userId,
+      connectorId,
+      credentials,
+      portfolioName,
+      tradesSince,
+      normalization,
+      pricesSince
+    );
+
+    return {
+      success: true,
+      syncId: result.syncId,
+      portfolioId: result.portfolioId,
+      portfolio: result.portfolio,
+      tradesImported: result.tradesImported,
+      pricesImported: result.pricesImported,
+      normalization: result.normalization,
+      unresolvedInstruments: result.unresolvedInstruments,
+      syncedAt: result.portfolio.lastSync.toISOString()
+    };
+  }
+);
@@ -0,0 +1,218 @@
+/**
+ * Tax-lot matching engine
+ *
+ * Why this exists:
+ * - Realized P&L needs to know which purchase each sale consumed
+ * - Supports FIFO (the Indian default for demat holdings) and specific-lot selection
+ * - Produces per-lot realized gains that capital-gains classification builds on
+ */
+
+import type { AssetType, NormalizedTransaction } from '../shared/types';
+import { instrumentKey } from './ledger';
+
+/**
+ * Lot matching method
+ * - fifo: oldest lots are sold first
+ * - specific: the caller names lots per sale (falls back to FIFO for any remainder)
+ */
+export type LotMatchingMethod = 'fifo' | 'specific';
+
+/**
+ * An open purchase lot
+ * costPerUnit includes buy-side charges
+ */
+export interface TaxLot {
+  lotId: string;  // Purchase trade ID, or instrument:date:n for untagged purchases
+  key: string;
+  symbol: string;
+  isin?: string;
+  assetType: AssetType;
+  acquiredOn: string;  // YYYY-MM-DD
+  originalQuantity: number;
+  quantity: number;
+  costPerUnit: number;
+}
+
+/**
+ * A (partial) lot consumed by a sale
+ */
+export interface RealizedLot {
+  lotId: string;
+  saleTradeId?: string;
+  key: string;
+  symbol: string;
+  isin?: string;
+  assetType: AssetType;
+  quantity: number;
+  acquiredOn: string;
+  soldOn: string;
+  costPerUnit: number;
+  salePricePerUnit: number;  // Net of sell-side charges
+  costBasis: number;
+  saleProceeds: number;
+  gain: number;
+}
+
+/**
+ * Explicit lot choice for one sale (specific-lot method)
+ */
+export interface LotSelection {
+  saleTradeId: string;
+  lots: Array<{ lotId: string; quantity: number }>;
+}
+
+export interface LotMatchingOptions {
+  method: LotMatchingMethod;
+  selections?: LotSelection[];
+}
+
+export interface LotMatchingResult {
+  realized: RealizedLot[];
+  openLots: TaxLot[];
+  warnings: string[];
+}
+
+const EPSILON = 1e-9;
+
+/**
+ * Id of a lot whose purchase has no broker trade ID: instrument, date and
+ * the purchase's position among that day's untagged purchases, e.g.
+ * 'INE002A01018:2023-05-10:1'. Stable as long as the ledger keeps its order
+ */
+function untaggedLotId(counters: Map<string, number>, key: string, tradeDate: string): string {
+  const prefix = `${key}:${tradeDate}`;
+  const n = (counters.get(prefix) ?? 0) + 1;
+  counters.set(prefix, n);
+  return `${prefix}:${n}`;
+}
+
+/**
+ * Replay the ledger and match every sale against purchase lots
+ *
+ * - buy: opens a lot at price + charges per unit
+ * - bonus: opens a zero-cost lot acquired on the allotment date
+ * - split: rescales every open lot (quantity up, cost per unit down, dates kept)
+ * - sell: closes lots per the matching method; sell charges reduce proceeds
+ *
+ * @param transactions - Normalized ledger (any order)
+ * @param options - Matching method and specific-lot selections
+ */
+export function matchLots(
+  transactions: NormalizedTransaction[],
+  options: LotMatchingOptions = { method: 'fifo' }
+): LotMatchingResult {
+  const lotsByKey = new Map<string, TaxLot[]>();
+  const realized: RealizedLot[] = [];
+  const warnings: string[] = [];
+  const selections = new Map((options.selections ?? []).map((s) => [s.saleTradeId, s]));
+
+  const untaggedLots = new Map<string, number>();
+
+  const ordered = transactions
+    .map((tx, index) => ({ tx, index }))
+    .sort((a, b) => a.tx.tradeDate.localeCompare(b.tx.tradeDate) || a.index - b.index);
+
+  for (const { tx } of ordered) {
+    const key = instrumentKey(tx);
+    const lots = lotsByKey.get(key) ?? [];
+    lotsByKey.set(key, lots);
+
+    switch (tx.type) {
+      case 'buy':
+      case 'bonus': {
+        const perUnitCharges = tx.quantity > 0 ? tx.charges / tx.quantity : 0;
+        lots.push({
+          lotId: tx.tradeId ?? untaggedLotId(untaggedLots, key, tx.tradeDate),
+          key,
+          symbol: tx.symbol,
+          isin: tx.isin,
+          assetType: tx.assetType,
+          acquiredOn: tx.tradeDate,
+          originalQuantity: tx.quantity,
+          quantity: tx.quantity,
+          costPerUnit: tx.type === 'bonus' ? 0 : tx.price + perUnitCharges
+        });
+        break;
+      }
+
+      case 'split': {
+        if (!tx.splitRatio) {
+          warnings.push(`${tx.symbol} ${tx.tradeDate}: split without splitRatio ignored`);
+          break;
+        }
+        const factor = tx.splitRatio.to / tx.splitRatio.from;
+        for (const lot of lots) {
+          lot.quantity *= factor;
+          lot.originalQuantity *= factor;
+          lot.costPerUnit /= factor;
+        }
+        break;
+      }
+
+      case 'sell': {
+        const netPrice = tx.price - (tx.quantity > 0 ? tx.charges / tx.quantity : 0);
+        let remaining = tx.quantity;
+
+        const consume = (lot: TaxLot, wanted: number) => {
+          const quantity = Math.min(wanted, lot.quantity);
+          if (quantity <= EPSILON) {
+            return 0;
+          }
+          lot.quantity -= quantity;
+          realized.push({
+            lotId: lot.lotId,
+            saleTradeId: tx.tradeId,
+            key,
+            symbol: tx.symbol,
+            isin: tx.isin ?? lot.isin,
+            assetType: lot.assetType,
+            quantity,
+            acquiredOn: lot.acquiredOn,
+            soldOn: tx.tradeDate,
+            costPerUnit: lot.costPerUnit,
+            salePricePerUnit: netPrice,
+            costBasis: quantity * lot.costPerUnit,
+            saleProceeds: quantity * netPrice,
+            gain: quantity * (netPrice - lot.costPerUnit)
+          });
+          return quantity;
+        };
+
+        const selection = options.method === 'specific' && tx.tradeId ? selections.get(tx.tradeId) : undefined;
+        if (options.method === 'specific' && !selection) {
+          warnings.push(`${tx.symbol} ${tx.tradeDate}: no lot selection for sale, using FIFO`);
+        }
+
+        for (const choice of selection?.lots ?? []) {
+          const lot = lots.find((candidate) => candidate.lotId === choice.lotId);
+          if (!lot) {
+            warnings.push(`${tx.symbol} ${tx.tradeDate}: selected lot ${choice.lotId} does not exist`);
+            continue;
+          }
+          remaining -= consume(lot, Math.min(choice.quantity, remaining));
+        }
+
+        // FIFO: lots are kept in acquisition order
+        for (const lot of lots) {
+          if (remaining <= EPSILON) {
+            break;
+          }
+          remaining -= consume(lot, remaining);
+        }
+
+        if (remaining > EPSILON) {
+          warnings.push(`${tx.symbol} ${tx.tradeDate}: ${remaining} units sold without a matching purchase lot`);
+        }
+
+        lotsByKey.set(key, lots.filter((lot) => lot.quantity > EPSILON));
+        break;
+      }
+
+      case 'dividend':
+        break;
+    }
+  }
+
+  const openLots = [...lotsByKey.values()].flat().filter((lot) => lot.quantity > EPSILON);
+  return { realized, openLots, warnings };
+}
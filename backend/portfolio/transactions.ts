@@ -0,0 +1,290 @@
+/**
+ * Transaction ledger endpoints
+ *
+ * Why this exists:
+ * - Imports normalized trades (tradebook, connector fetch) into the ledger
+ * - Exposes ledger-derived positions and the reconciliation against holdings
+ * - Serves realized P&L as a per-financial-year capital gains report
+ */
+
+import { api } from 'encore.dev/api';
+import { DB, type Transaction } from './db';
+import { requireAuth } from '../shared/auth';
+import { invalidArgument } from '../shared/errors';
+import type { NormalizedTransaction, PortfolioSource } from '../shared/types';
+import { validateTransactions } from './schema';
+import { getPortfolio } from './store';
+import { reapplyCorporateActions } from './adjustments';
+import {
+  rebuildHoldingsFromLedger,
+  reconcileHoldings,
+  type LedgerPosition,
+  type LedgerWarning,
+  type ReconciliationReport
+} from './ledger';
+import {
+  buildCapitalGainsReport,
+  capitalGainsReportToCsv,
+  isFinancialYear,
+  mergeCapitalGainsReports,
+  type CapitalGainsReport,
+  type TaxClass
+} from './capital-gains';
+import type { LotMatchingMethod, LotSelection } from './tax-lots';
+
+/**
+ * Raw transaction row as stored in PostgreSQL
+ */
+interface TransactionRow {
+  trade_id: string | null;
+  symbol: string;
+  isin: string | null;
+  type: NormalizedTransaction['type'];
+  quantity: number;
+  price: number;
+  charges: number;
+  split_from: number | null;
+  split_to: number | null;
+  trade_date: string;
+  exchange: string | null;
+  asset_type: NormalizedTransaction['assetType'];
+  metadata: Record<string, any> | null;
+}
+
+function toTransaction(row: TransactionRow): NormalizedTransaction {
+  return {
+    tradeId: row.trade_id ?? undefined,
+    symbol: row.symbol,
+    isin: row.isin ?? undefined,
+    type: row.type,
+    quantity: Number(row.quantity),
+    price: Number(row.price),
+    charges: Number(row.charges),
+    tradeDate: row.trade_date,
+    exchange: row.exchange ?? undefined,
+    assetType: row.asset_type,
+    splitRatio: row.split_from && row.split_to
+      ? { from: Number(row.split_from), to: Number(row.split_to) }
+      : undefined,
+    _metadata: row.metadata ?? undefined
+  };
+}
+
+async function loadTransactionRows(
+  userId: string,
+  portfolioId?: number
+): Promise<Array<TransactionRow & { portfolio_id: string | null }>> {
+  return DB.queryAll<TransactionRow & { portfolio_id: string | null }>`
+    SELECT portfolio_id, trade_id, symbol, isin, type, quantity::float8 AS quantity, price::float8 AS price,
+      charges::float8 AS charges, split_from::float8 AS split_from, split_to::float8 AS split_to,
+      to_char(trade_date, 'YYYY-MM-DD') AS trade_date, exchange, asset_type, metadata
+    FROM transactions
+    WHERE user_id = ${userId}
+      AND (${portfolioId ?? null}::bigint IS NULL OR portfolio_id = ${portfolioId ?? null})
+    ORDER BY trade_date ASC, id ASC
+  `;
+}
+
+/**
+ * Load a user's ledger, oldest first
+ * Covers all of the user's portfolios unless portfolioId is given
+ */
+export async function listTransactions(userId: string, portfolioId?: number): Promise<NormalizedTransaction[]> {
+  return (await loadTransactionRows(userId, portfolioId)).map(toTransaction);
+}
+
+/**
+ * Load a user's ledger per portfolio, oldest first
+ * Trades imported without a portfolio are grouped under null
+ */
+export async function listTransactionsByPortfolio(
+  userId: string
+): Promise<Map<number | null, NormalizedTransaction[]>> {
+  const ledgers = new Map<number | null, NormalizedTransaction[]>();
+  for (const row of await loadTransactionRows(userId)) {
+    const portfolioId = row.portfolio_id === null ? null : Number(row.portfolio_id);
+    const ledger = ledgers.get(portfolioId) ?? [];
+    ledger.push(toTransaction(row));
+    ledgers.set(portfolioId, ledger);
+  }
+  return ledgers;
+}
+
+/**
+ * Append validated transactions to a user's ledger
+ * Rows whose broker trade ID was already imported are skipped; corporate
+ * actions already applied are re-run for rows dated before their ex-date
+ *
+ * @returns Number of rows inserted
+ */
+export async function insertTransactions(
+  userId: string,
+  source: PortfolioSource,
+  transactions: NormalizedTransaction[],
+  portfolioId?: number
+): Promise<number> {
+  const tx = await DB.begin();
+
+  try {
+    const inserted = await writeTransactions(tx, userId, source, transactions, portfolioId);
+    await tx.commit();
+    return inserted;
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+}
+
+/**
+ * Insert transactions and re-apply corporate actions on the caller's
+ * transaction (see insertTransactions)
+ *
+ * @returns Number of rows inserted
+ */
+export async function writeTransactions(
+  tx: Transaction,
+  userId: string,
+  source: PortfolioSource,
+  transactions: NormalizedTransaction[],
+  portfolioId?: number
+): Promise<number> {
+  let inserted = 0;
+
+  for (const trade of transactions) {
+    const row = await tx.queryRow<{ id: number }>`
+      INSERT INTO transactions (
+        user_id, portfolio_id, source, trade_id, symbol, isin, type, quantity, price, charges,
+        split_from, split_to, trade_date, exchange, asset_type, metadata
+      )
+      VALUES (
+        ${userId}, ${portfolioId ?? null}, ${source}, ${trade.tradeId ?? null}, ${trade.symbol}, ${trade.isin ?? null},
+        ${trade.type}, ${trade.quantity}, ${trade.price}, ${trade.charges},
+        ${trade.splitRatio?.from ?? null}, ${trade.splitRatio?.to ?? null},
+        ${trade.tradeDate}::date, ${trade.exchange ?? null}, ${trade.assetType},
+        ${trade._metadata ? JSON.stringify(trade._metadata) : null}::jsonb
+      )
+      ON CONFLICT (user_id, source, trade_id) WHERE trade_id IS NOT NULL DO NOTHING
+      RETURNING id
+    `;
+
+    if (row) {
+      inserted++;
+    }
+  }
+
+  if (inserted > 0) {
+    await reapplyCorporateActions(tx, userId, transactions);
+  }
+  return inserted;
+}
+
+interface ImportTransactionsRequest {
+  source: PortfolioSource;
+  portfolioId?: number;
+  transactions: NormalizedTransaction[];
+}
+
+interface ImportTransactionsResponse {
+  received: number;
+  inserted: number;
+  duplicates: number;
+}
+
+/**
+ * Import normalized transactions into the ledger
+ * POST /portfolio/transactions
+ */
+export const importTransactions = api(
+  { expose: true, auth: true, method: 'POST', path: '/portfolio/transactions' },
+  async ({ source, portfolioId, transactions }: ImportTransactionsRequest): Promise<ImportTransactionsResponse> => {
+    const { userId } = requireAuth();
+    if (portfolioId !== undefined) {
+      await getPortfolio(userId, portfolioId);
+    }
+
+    const validated = validateTransactions(transactions);
+    const inserted = await insertTransactions(userId, source, validated, portfolioId);
+
+    return {
+      received: validated.length,
+      inserted,
+      duplicates: validated.length - inserted
+    };
+  }
+);
+
+interface ReconcileRequest {
+  portfolioId: number;
+}
+
+interface ReconcileResponse {
+  positions: LedgerPosition[];
+  warnings: LedgerWarning[];
+  reconciliation: ReconciliationReport;
+}
+
+/**
+ * Rebuild a portfolio's positions from its ledger and compare them with the synced holdings
+ * GET /portfolio/reconcile?portfolioId=1
+ */
+export const reconcile = api(
+  { expose: true, auth: true, method: 'GET', path: '/portfolio/reconcile' },
+  async ({ portfolioId }: ReconcileRequest): Promise<ReconcileResponse> => {
+    const { userId } = requireAuth();
+    const portfolio = await getPortfolio(userId, portfolioId);
+    const { positions, warnings } = rebuildHoldingsFromLedger(await listTransactions(userId, portfolioId));
+
+    return {
+      positions,
+      warnings,
+      reconciliation: reconcileHoldings(positions, portfolio.holdings)
+    };
+  }
+);
+
+interface CapitalGainsRequest {
+  financialYear: string;  // e.g. '2024-25'
+  portfolioId?: number;  // Omit for all portfolios (lots are still matched within each portfolio)
+  method?: LotMatchingMethod;
+  selections?: LotSelection[];
+  taxClassOverrides?: Record<string, TaxClass>;
+  grandfatheredFmv?: Record<string, number>;
+}
+
+interface CapitalGainsResponse {
+  report: CapitalGainsReport;
+  csv: string;
+}
+
+/**
+ * Realized capital gains for a financial year, split into STCG/LTCG
+ * POST /portfolio/capital-gains
+ */
+export const capitalGains = api(
+  { expose: true, auth: true, method: 'POST', path: '/portfolio/capital-gains' },
+  async (req: CapitalGainsRequest): Promise<CapitalGainsResponse> => {
+    const { userId } = requireAuth();
+
+    if (!isFinancialYear(req.financialYear)) {
+      throw invalidArgument("'financialYear' must look like 2024-25", { financialYear: req.financialYear });
+    }
+
+    const options = {
+      method: req.method ?? 'fifo',
+      selections: req.selections,
+      taxClassOverrides: req.taxClassOverrides,
+      grandfatheredFmv: req.grandfatheredFmv
+    };
+
+    // A sale only consumes lots of its own portfolio (account, or taxpayer)
+    const ledgers = req.portfolioId !== undefined
+      ? [await listTransactions(userId, req.portfolioId)]
+      : [...(await listTransactionsByPortfolio(userId)).values()];
+    const report = mergeCapitalGainsReports(
+      req.financialYear,
+      ledgers.map((ledger) => buildCapitalGainsReport(ledger, req.financialYear, options))
+    );
+
+    return { report, csv: capitalGainsReportToCsv(report) };
+  }
+);
@@ -0,0 +1,30 @@
+/**
+ * Auth data access for authenticated endpoints
+ * 
+ * Why this exists:
+ * - Maps Encore's auth data (userID) back to our AuthData shape (userId)
+ * - Gives every service one place to read the caller's identity
+ * - Fails loudly if an endpoint forgot to set auth: true
+ */
+
+import { getAuthData } from '~encore/auth';
+import type { AuthData } from './types';
+import { unauthenticated } from './errors';
+
+/**
+ * Get the authenticated caller for the current request
+ * 
+ * @returns AuthData with userId and tier
+ * @throws APIError if the request is not authenticated
+ */
+export function requireAuth(): AuthData {
+  const data = getAuthData();
+  if (!data) {
+    throw unauthenticated();
+  }
+
+  return {
+    userId: data.userID,
+    tier: data.tier
+  };
+}
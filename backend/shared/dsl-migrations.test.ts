@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { CURRENT_DSL_VERSION, configVersion, migrateWidgetConfig } from './dsl-migrations';
+
+function v1(query: Record<string, unknown>, visualization: Record<string, unknown> = {}) {
+  return {
+    query: { operation: 'aggregate', field: 'holdings', ...query },
+    visualization,
+    refresh: { automatic: true }
+  };
+}
+
+describe('migrateWidgetConfig', () => {
+  it('maps version 1 field names to result columns', () => {
+    const { config, fromVersion, migrated } = migrateWidgetConfig(
+      v1({ groupBy: 'sector', sortBy: 'returns' }, { xAxis: 'sector', yAxis: 'holdings' })
+    );
+
+    expect({ fromVersion, migrated }).toEqual({ fromVersion: 1, migrated: true });
+    expect(config.version).toBe(CURRENT_DSL_VERSION);
+    expect(config.query.sortBy).toBe('returnPct');
+    expect(config.visualization).toEqual({ xAxis: 'key', yAxis: 'marketValue' });
+    expect(config.refresh).toEqual({ automatic: true, frequency: 'daily' });
+  });
+
+  it.each(['constructor', 'toString', '__proto__', 'hasOwnProperty'])(
+    'leaves the inherited property name %s alone',
+    (name) => {
+      const { config } = migrateWidgetConfig(v1({ sortBy: name }, { xAxis: name }));
+
+      expect(config.query.sortBy).toBe(name);
+      expect(config.visualization.xAxis).toBe(name);
+    }
+  );
+
+  it('migrates a config with missing sections', () => {
+    const { config } = migrateWidgetConfig({ query: { operation: 'sort', field: 'pnl' } });
+
+    expect(config).toMatchObject({ version: 2, visualization: {}, refresh: {} });
+  });
+
+  it('returns current configs unchanged', () => {
+    const current = { ...v1({ sortBy: 'value' }), version: CURRENT_DSL_VERSION };
+
+    expect(migrateWidgetConfig(current)).toEqual({
+      config: current,
+      fromVersion: CURRENT_DSL_VERSION,
+      migrated: false
+    });
+  });
+});
+
+describe('configVersion', () => {
+  it.each([[{}, 1], [{ version: null }, 1], [{ version: 2 }, 2]])('reads %j as version %s', (config, version) => {
+    expect(configVersion(config)).toBe(version);
+  });
+
+  it.each([[[]], [null], [{ version: '2' }], [{ version: 1.5 }], [{ version: CURRENT_DSL_VERSION + 1 }]])(
+    'rejects %j',
+    (config) => {
+      expect(() => configVersion(config)).toThrow();
+    }
+  );
+});
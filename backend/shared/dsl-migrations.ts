@@ -0,0 +1,136 @@
+/**
+ * Widget DSL versioning and up-migrations
+ *
+ * Why this exists:
+ * - WidgetConfig is stored in widget rows and copied across users by forks,
+ *   so old configs outlive the code that wrote them
+ * - Every stored config is migrated to CURRENT_DSL_VERSION on read, and a
+ *   batch job rewrites rows so reads stay cheap
+ *
+ * Adding a version: bump CURRENT_DSL_VERSION and append one migration whose
+ * `from` is the previous version. Migrations are pure and never downgrade.
+ */
+
+import type { WidgetConfig } from './types';
+import { invalidArgument } from './errors';
+
+/**
+ * Latest DSL version; configs without a version field are version 1
+ */
+export const CURRENT_DSL_VERSION = 2;
+
+/**
+ * Stored config of any version (shape not yet known)
+ */
+export type RawWidgetConfig = Record<string, unknown>;
+
+export interface DslMigration {
+  from: number;  // Upgrades from this version to from + 1
+  description: string;
+  up: (config: RawWidgetConfig) => RawWidgetConfig;
+}
+
+/**
+ * Version 1 configs named fields (and a few aliases) where result columns
+ * are expected, e.g. sortBy: 'returns'
+ */
+const V1_COLUMN_ALIASES: Record<string, string> = {
+  returns: 'returnPct',
+  return: 'returnPct',
+  allocation: 'allocationPct',
+  holdings: 'marketValue',
+  value: 'value',
+  performance: 'value',
+  currentValue: 'marketValue',
+  symbol: 'key',
+  date: 'key',
+  label: 'key',
+  name: 'key'
+};
+
+/**
+ * Result column a version 1 name maps to (own keys only, so 'constructor' is not a column)
+ */
+function v1Column(name: string): string | undefined {
+  return Object.hasOwn(V1_COLUMN_ALIASES, name) ? V1_COLUMN_ALIASES[name] : undefined;
+}
+
+/**
+ * A nested config section, or an empty one if it is missing or not an object
+ */
+function section(value: unknown): RawWidgetConfig {
+  return value && typeof value === 'object' && !Array.isArray(value) ? { ...(value as RawWidgetConfig) } : {};
+}
+
+/**
+ * Registry of up-migrations, in version order
+ */
+export const DSL_MIGRATIONS: DslMigration[] = [
+  {
+    from: 1,
+    description: 'Add version; map field names in sortBy/axes to result columns; default automatic refresh to daily',
+    up: (config) => {
+      const query = section(config.query);
+      const visualization = section(config.visualization);
+      const refresh = section(config.refresh);
+
+      if (typeof query.sortBy === 'string') {
+        query.sortBy = v1Column(query.sortBy) ?? query.sortBy;
+      }
+      for (const axis of ['xAxis', 'yAxis']) {
+        // A grouped axis is the group key ('sector' on an aggregate by sector)
+        const column = visualization[axis];
+        if (typeof column === 'string') {
+          visualization[axis] = column === query.groupBy ? 'key' : v1Column(column) ?? column;
+        }
+      }
+      if (refresh.automatic === true && refresh.frequency === undefined) {
+        refresh.frequency = 'daily';
+      }
+
+      return { ...config, version: 2, query, visualization, refresh };
+    }
+  }
+];
+
+/**
+ * Version of a stored config (missing = 1)
+ * @throws APIError (400) if the version is not a known integer
+ */
+export function configVersion(config: unknown): number {
+  if (!config || typeof config !== 'object' || Array.isArray(config)) {
+    throw invalidArgument('Widget config must be an object');
+  }
+
+  const version = (config as RawWidgetConfig).version ?? 1;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1 || version > CURRENT_DSL_VERSION) {
+    throw invalidArgument(`Unsupported widget config version '${version}'`, { latest: CURRENT_DSL_VERSION });
+  }
+  return version;
+}
+
+export interface DslMigrationResult {
+  config: WidgetConfig;
+  fromVersion: number;
+  migrated: boolean;
+}
+
+/**
+ * Upgrade a stored config to CURRENT_DSL_VERSION
+ * The result is not validated; run it through the DSL validator before execution
+ * @throws APIError (400) if the version is unknown or a migration is missing
+ */
+export function migrateWidgetConfig(config: unknown): DslMigrationResult {
+  const fromVersion = configVersion(config);
+  let current = config as RawWidgetConfig;
+
+  for (let version = fromVersion; version < CURRENT_DSL_VERSION; version++) {
+    const migration = DSL_MIGRATIONS.find((candidate) => candidate.from === version);
+    if (!migration) {
+      throw invalidArgument(`No migration from widget config version ${version}`);
+    }
+    current = migration.up(current);
+  }
+
+  return { config: current as unknown as WidgetConfig, fromVersion, migrated: fromVersion < CURRENT_DSL_VERSION };
+}
@@ -25,15 +25,44 @@ export const env = cleanEnv(process.env, {
     example: 'your_api_secret_here'
   }),
 
-  // LLM Integration (OpenAI)
+  // LLM Integration (see chat/llm)
+  LLM_PROVIDER: str({
+    desc: 'LLM provider for NL queries (local = any OpenAI-compatible server, stub = offline fixtures)',
+    default: 'openai',
+    choices: ['openai', 'anthropic', 'local', 'stub']
+  }),
   LLM_API_KEY: str({
-    desc: 'OpenAI API Key for GPT-4o',
-    example: 'sk-...'
+    desc: 'API key for the LLM provider (not needed for local or stub)',
+    example: 'sk-...',
+    default: ''
   }),
   LLM_MODEL: str({
-    desc: 'LLM model to use for NL queries',
-    default: 'gpt-4o',
-    choices: ['gpt-4o', 'gpt-4-turbo', 'gpt-3.5-turbo']
+    desc: 'Model name for the provider (empty = provider default, e.g. gpt-4o)',
+    default: ''
+  }),
+  LLM_BASE_URL: str({
+    desc: 'Base URL override, e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp',
+    default: ''
+  }),
+  LLM_TIMEOUT_MS: num({
+    desc: 'Timeout for a single LLM request',
+    default: 30000
+  }),
+  LLM_CIRCUIT_FAILURE_THRESHOLD: num({
+    desc: 'Consecutive provider failures (timeouts, outages, rate limits) before LLM calls are skipped',
+    default: 3
+  }),
+  LLM_CIRCUIT_COOLDOWN_MS: num({
+    desc: 'How long LLM calls are skipped after the failure threshold is hit',
+    default: 60000
+  }),
+  CHAT_LLM_EXPLANATIONS: bool({
+    desc: 'Let the LLM write explanations for LLM-answered turns (one extra call); otherwise a data template is used',
+    default: true
+  }),
+  CHAT_HISTORY_TOKEN_BUDGET: num({
+    desc: 'Approximate tokens of chat history sent per turn; older turns are summarized',
+    default: 2000
   }),
 
   // Payment Integration (Razorpay)
@@ -81,6 +110,51 @@ export const env = cleanEnv(process.env, {
     default: ''
   }),
 
+  // Instrument Master
+  INSTRUMENT_DATA_DIR: str({
+    desc: 'Directory with NSE/BSE instrument lists and AMFI scheme files (see instruments/parsers.ts)',
+    default: './data/instruments'
+  }),
+
+  // Benchmarks
+  BENCHMARK_DATA_DIR: str({
+    desc: 'Directory with index price histories, one CSV per benchmark (see benchmarks/parsers.ts)',
+    default: './data/benchmarks'
+  }),
+  BENCHMARK_RISK_FREE_RATE: num({
+    desc: 'Annual risk-free rate (decimal, e.g. 0.065) used for alpha against a benchmark',
+    default: 0
+  }),
+
+  // EOD Prices
+  PRICE_DATA_DIR: str({
+    desc: 'Directory with NSE/BSE bhavcopy files and the exchange holiday list (see portfolio/bhavcopy.ts)',
+    default: './data/prices'
+  }),
+
+  // Market Data (see marketdata/feeds)
+  MARKET_DATA_FEED: str({
+    desc: 'Live quote feed (kite = Kite WebSocket ticker, replay = recorded ticks, none = stored prices only)',
+    default: 'none',
+    choices: ['kite', 'replay', 'none']
+  }),
+  MARKET_DATA_ACCESS_TOKEN: str({
+    desc: 'Kite Connect access token for the ticker (expires daily, renew after login)',
+    default: ''
+  }),
+  MARKET_DATA_REPLAY_FILE: str({
+    desc: 'Recorded ticks (JSON lines) for the replay feed',
+    default: './marketdata/fixtures/mock-session.jsonl'
+  }),
+  MARKET_DATA_REPLAY_SPEED: num({
+    desc: 'Replay speed multiplier (1 = as recorded, 0 = as fast as possible)',
+    default: 1
+  }),
+  MARKET_DATA_PUSH_INTERVAL_MS: num({
+    desc: 'Shortest interval between pushes to one dashboard',
+    default: 5000
+  }),
+
   // Subscription Tiers
   FREE_TIER_QUERY_LIMIT: num({
     desc: 'Monthly query limit for free tier users',
@@ -186,22 +186,31 @@ export function zerodhaError(error: any): APIError {
 }
 
 /**
- * LLM API error helper
- * @param error - Error from LLM API (OpenAI, etc.)
+ * LLM provider error helper
+ * @param error - Error from an LLM provider; providers classify failures
+ *   as error.kind (see chat/llm/types.ts), so no vendor strings are parsed here
  */
 export function llmError(error: any): APIError {
-  const message = error?.message || 'LLM API error';
-  
-  // Check for common LLM API errors
-  if (message.includes('rate limit') || message.includes('quota')) {
-    return resourceExhausted('AI service rate limit reached. Please try again later.');
+  if (error instanceof APIError) {
+    return error;
   }
 
-  if (message.includes('timeout')) {
-    return unavailable('AI service', 'AI service request timed out');
+  switch (error?.kind) {
+    case 'rate_limit':
+      return resourceExhausted('AI service rate limit reached. Please try again later.', {
+        provider: error.provider
+      });
+    case 'timeout':
+      return unavailable('AI service', 'AI service request timed out');
+    case 'unavailable':
+      return unavailable('AI service');
+    case 'auth':
+      return internal('AI service is not configured correctly', { provider: error.provider, message: error.message });
+    case 'invalid_output':
+      return internal('AI service returned an unusable answer', { provider: error.provider, message: error.message });
+    default:
+      return internal('Failed to process query with AI', { originalError: error });
   }
-
-  return internal('Failed to process query with AI', { originalError: error });
 }
 
 /**
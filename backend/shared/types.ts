@@ -50,18 +50,25 @@ export interface AuthData {
 // ============================================
 
 /**
- * Portfolio data source types
+ * Portfolio data source
+ * The ID of a registered connector (see portfolio/connectors), e.g. 'zerodha', 'csv'
  */
-export type PortfolioSource = 'zerodha' | 'csv';
+export type PortfolioSource = string;
 
 /**
  * Asset types supported by KiteMate
  */
 export type AssetType = 'equity' | 'mutual_fund' | 'etf' | 'bond';
 
+/**
+ * SEBI market-cap category (AMFI half-yearly list)
+ * large: top 100, mid: 101-250, small: the rest
+ */
+export type MarketCapBucket = 'large' | 'mid' | 'small';
+
 /**
  * Normalized holding structure (single source of truth)
- * All connectors (Zerodha, CSV) must normalize to this schema
+ * All connectors (see portfolio/connectors) must normalize to this schema
  */
 export interface NormalizedHolding {
   symbol: string;
@@ -73,17 +80,50 @@ export interface NormalizedHolding {
   assetType: AssetType;
   sector?: string;
   exchange?: string;
+  marketCap?: MarketCapBucket;
   purchaseDate?: string;
   lastTradeDate?: string;
   _metadata?: Record<string, any>;
 }
 
+/**
+ * Ledger transaction types
+ * - buy/sell: trades
+ * - bonus: free shares credited (price 0)
+ * - split: share count multiplied by splitRatio, cost unchanged
+ * - dividend: cash income, no effect on quantity or cost
+ */
+export type TransactionType = 'buy' | 'sell' | 'bonus' | 'split' | 'dividend';
+
+/**
+ * Normalized transaction (tradebook entry or corporate action credit)
+ * All connectors must normalize trades to this schema
+ */
+export interface NormalizedTransaction {
+  tradeId?: string;
+  symbol: string;
+  isin?: string;
+  type: TransactionType;
+  quantity: number;
+  price: number;
+  charges: number;
+  tradeDate: string;  // YYYY-MM-DD
+  exchange?: string;
+  assetType: AssetType;
+  splitRatio?: {
+    from: number;
+    to: number;
+  };
+  _metadata?: Record<string, any>;
+}
+
 /**
  * Portfolio entity containing all user holdings
  */
 export interface Portfolio {
   id: number;
   userId: string;
+  name: string;
   source: PortfolioSource;
   lastSync: Date;
   totalValue: number;
@@ -106,6 +146,198 @@ export interface PortfolioSummary {
   sectorAllocation: Record<string, number>;
 }
 
+/**
+ * Lightweight portfolio listing entry (no holdings)
+ */
+export interface PortfolioInfo {
+  id: number;
+  name: string;
+  source: PortfolioSource;
+  lastSync: Date;
+  totalValue: number;
+  totalPnL: number;
+  holdingsCount: number;
+}
+
+/**
+ * All of a user's portfolios merged into one view
+ * Holdings are merged by ISIN (or symbol when no ISIN is known)
+ */
+export interface ConsolidatedPortfolio {
+  userId: string;
+  portfolios: PortfolioInfo[];
+  totalValue: number;
+  totalPnL: number;
+  currency: string;
+  holdings: NormalizedHolding[];
+  sectorAllocation: Record<string, number>;
+}
+
+/**
+ * Immutable point-in-time copy of a portfolio, appended on every sync
+ */
+export interface PortfolioSnapshot {
+  id: number;
+  portfolioId: number;
+  userId: string;
+  source: PortfolioSource;
+  syncedAt: Date;
+  totalValue: number;
+  totalPnL: number;
+  currency: string;
+  holdings: NormalizedHolding[];
+  createdAt: Date;
+}
+
+/**
+ * Bucket size used when downsampling snapshot history
+ */
+export type SnapshotInterval = 'raw' | 'daily' | 'weekly' | 'monthly';
+
+/**
+ * Single point in a portfolio value time series
+ */
+export interface PortfolioValuePoint {
+  syncedAt: Date;
+  totalValue: number;
+  totalPnL: number;
+}
+
+/**
+ * Exchange end-of-day price of one security, keyed by ISIN and trade date
+ */
+export interface EodPrice {
+  isin: string;
+  date: string;  // YYYY-MM-DD (trade date)
+  symbol: string;
+  exchange: 'NSE' | 'BSE';
+  open?: number;
+  high?: number;
+  low?: number;
+  close: number;
+  volume?: number;
+}
+
+/**
+ * Trading days without prices in a date range
+ */
+export interface PriceGapReport {
+  from: string;  // YYYY-MM-DD
+  to: string;
+  tradingDays: number;
+  missingDays: string[];  // Trading days without any price (no bhavcopy loaded)
+  isinGaps: Array<{ isin: string; missingDays: string[] }>;  // Loaded days without a requested ISIN's close
+}
+
+// ============================================
+// Benchmarks
+// ============================================
+
+/**
+ * Market index (or custom series) a portfolio can be compared against
+ * id is the upper-case file name without extension, e.g. NIFTY50, SENSEX
+ */
+export interface Benchmark {
+  id: string;
+  name: string;
+  firstDate: string;  // YYYY-MM-DD
+  lastDate: string;
+  points: number;
+  updatedAt: Date;
+}
+
+/**
+ * Daily closing level of a benchmark
+ */
+export interface BenchmarkPrice {
+  date: string;  // YYYY-MM-DD
+  close: number;
+}
+
+/**
+ * Portfolio return against a benchmark over the same dates
+ * Returns, alpha and tracking error are percentages; excessReturn is in percentage points
+ * Annualized returns need a range of a year or more, risk statistics at least three periods
+ */
+export interface BenchmarkComparison {
+  benchmarkId: string;
+  benchmarkName: string;
+  from: string;  // First date both series have (YYYY-MM-DD)
+  to: string;
+  periods: number;  // Snapshot-to-snapshot periods compared
+  portfolioReturn: number;  // Time-weighted, cumulative
+  portfolioXirr?: number;  // Money-weighted, annualized
+  benchmarkReturn: number;  // Cumulative
+  benchmarkAnnualized?: number;
+  excessReturn: number;
+  alpha?: number;  // Jensen's alpha, annualized
+  beta?: number;
+  trackingError?: number;  // Annualized
+}
+
+// ============================================
+// Instruments
+// ============================================
+
+/**
+ * Instrument master entry (listed security or mutual fund scheme), keyed by ISIN
+ */
+export interface Instrument {
+  isin: string;
+  name: string;
+  assetType: AssetType;
+  symbol?: string;  // NSE symbol
+  bseCode?: string;
+  bseSymbol?: string;
+  exchange?: string;  // Primary listing: 'NSE' or 'BSE'
+  sector?: string;  // NSE industry; scheme category for mutual funds
+  marketCap?: MarketCapBucket;
+  amfiCode?: string;
+  fundHouse?: string;
+}
+
+// ============================================
+// Market Data
+// ============================================
+
+/**
+ * Latest traded price of one security from the live feed
+ */
+export interface Quote {
+  isin: string;
+  symbol: string;
+  lastPrice: number;
+  previousClose?: number;  // Last session's close, for the day change
+  timestamp: Date;  // Exchange time of the last trade
+}
+
+/**
+ * One holding marked to its latest quote
+ */
+export interface MarkedHolding {
+  symbol: string;
+  isin?: string;
+  quantity: number;
+  currentPrice: number;
+  currentValue: number;
+  unrealizedPnL: number;
+  dayChange?: number;  // Value change since the previous close
+  quotedAt?: Date;  // Undefined when no quote arrived (stored price kept)
+}
+
+/**
+ * Portfolio valued at live prices
+ */
+export interface PortfolioMark {
+  portfolioId?: number;  // Undefined for all portfolios merged
+  marketOpen: boolean;
+  asOf: Date;
+  totalValue: number;
+  totalPnL: number;
+  dayChange: number;  // Sum over holdings with a previous close
+  holdings: MarkedHolding[];
+}
+
 // ============================================
 // Widgets & Dashboard
 // ============================================
@@ -128,11 +360,22 @@ export type ChartType = 'line' | 'bar' | 'pie' | 'scatter' | 'area';
 /**
  * Widget configuration DSL (Domain Specific Language)
  * Generated by LLM from natural language queries
+ * Stored configs are migrated to the latest version on read (see shared/dsl-migrations.ts)
  */
 export interface WidgetConfig {
+  version: number;
   query: {
     operation: 'aggregate' | 'filter' | 'sort' | 'timeseries';
-    field: 'pnl' | 'allocation' | 'returns' | 'holdings' | 'performance';
+    field:
+      | 'pnl'
+      | 'allocation'
+      | 'returns'
+      | 'holdings'
+      | 'performance'
+      | 'volatility'
+      | 'drawdown'
+      | 'concentration'
+      | 'correlation';
     filters?: {
       symbol?: string[];
       sector?: string[];
@@ -148,6 +391,7 @@ export interface WidgetConfig {
     sortBy?: string;
     sortOrder?: 'asc' | 'desc';
     limit?: number;
+    benchmark?: string;  // Benchmark id (e.g. NIFTY50); plots the portfolio's return against it
   };
   visualization: {
     chartType?: ChartType;
@@ -159,7 +403,7 @@ export interface WidgetConfig {
   };
   refresh: {
     automatic: boolean;
-    frequency?: 'daily' | 'hourly' | 'manual';
+    frequency?: 'daily' | 'hourly' | 'live' | 'manual';  // live: pushed on every quote update while the market is open
   };
 }
 
@@ -250,6 +494,45 @@ export interface PublicProfile {
   joinedAt: Date;
 }
 
+// ============================================
+// Live Events
+// ============================================
+
+/**
+ * What a notification says, as published by the service that raises it
+ */
+export type NotificationContent = Pick<Notification, 'type' | 'title' | 'message' | 'metadata'>;
+
+/**
+ * Stages of a connector sync, in order
+ * Every sync ends in completed or failed; optional stages may be skipped
+ */
+export type SyncStage =
+  | 'started'
+  | 'fetching_holdings'
+  | 'saved'
+  | 'importing_trades'
+  | 'importing_prices'
+  | 'completed'
+  | 'failed';
+
+/**
+ * Progress of one connector sync
+ */
+export interface SyncProgress {
+  syncId: string;  // Same for every stage of one sync, returned by the sync endpoint
+  connectorId: string;
+  portfolioName: string;
+  stage: SyncStage;
+  portfolioId?: number;  // Once the portfolio is saved
+  error?: string;  // When failed
+}
+
+/**
+ * Kinds of events kept for replay on the user's event channel
+ */
+export type UserEventKind = 'notification' | 'sync';
+
 // ============================================
 // Subscriptions
 // ============================================
@@ -298,8 +581,17 @@ export interface Subscription {
  */
 export type DSLValidationResult = 'valid' | 'invalid';
 
+/**
+ * DSL validation error, addressed by path into the config (e.g. 'query.sortBy')
+ */
+export interface DSLValidationError {
+  path: string;
+  message: string;
+}
+
 /**
  * DSL audit log entry
+ * dslCommand is stored as received, so invalid attempts keep their original shape
  */
 export interface DSLAuditLog {
   id: number;
@@ -307,29 +599,141 @@ export interface DSLAuditLog {
   widgetId?: string;
   dslCommand: WidgetConfig;
   validationResult: DSLValidationResult;
-  validationErrors?: string[];
+  validationErrors?: DSLValidationError[];
   executed: boolean;
   executedAt?: Date;
+  factCheck?: FactCheckResult;  // Set once the explanation for an executed command is verified
+  createdAt: Date;
+}
+
+/**
+ * Outcome of checking an explanation against the executed data
+ * - verified: every number and symbol matched the data
+ * - corrected: some numbers were wrong and were rewritten from the data
+ * - flagged: some claims could not be verified and are marked in the text
+ */
+export type FactCheckStatus = 'verified' | 'corrected' | 'flagged';
+
+/**
+ * One number or symbol found in an explanation
+ */
+export interface FactCheckClaim {
+  kind: 'number' | 'symbol';
+  text: string;  // As written, e.g. '₹1.2 lakh', '12.5%', 'HDFCBANK'
+  status: 'verified' | 'corrected' | 'flagged';
+  replacement?: string;  // Corrected text
+  source?: string;  // Fact it was checked against, e.g. 'TCS.pnl', 'summary.totalValue'
+  reason?: string;  // Why it was flagged
+}
+
+export interface FactCheckResult {
+  status: FactCheckStatus;
+  claims: FactCheckClaim[];
+}
+
+/**
+ * Chat message roles
+ * - system: notes added by KiteMate (e.g. a validation failure), never sent to the LLM as instructions
+ */
+export type ChatRole = 'user' | 'assistant' | 'system';
+
+/**
+ * What produced a widget config
+ * - rules: the keyword intent parser (no LLM call)
+ * - llm: the configured LLM provider
+ */
+export type AnsweredBy = 'rules' | 'llm';
+
+/**
+ * One turn of a chat session
+ */
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+  timestamp: Date;
+  config?: WidgetConfig;  // Assistant turns: the widget config after this turn
+  diff?: WidgetConfigChange[];  // Assistant follow-up turns: what changed
+  answeredBy?: AnsweredBy;  // Assistant and system turns
+}
+
+/**
+ * One changed leaf of a widget config (path like 'visualization.chartType')
+ * from is absent for additions, to is absent for removals
+ */
+export interface WidgetConfigChange {
+  path: string;
+  from?: unknown;
+  to?: unknown;
+}
+
+/**
+ * Persistent chat session refining one widget config over several turns
+ */
+export interface ChatSession {
+  id: string;
+  userId: string;
+  title: string;
+  portfolioId?: number;  // Unset = all portfolios merged
+  currentConfig?: WidgetConfig;
+  summary?: string;  // Condensed older turns (see chat/context.ts)
   createdAt: Date;
+  updatedAt: Date;
 }
 
 /**
  * Chat query request
+ * Without a sessionId a new session is started
  */
 export interface ChatQueryRequest {
   query: string;
-  portfolioContext?: Portfolio;
+  sessionId?: string;
+  portfolioId?: number;
 }
 
 /**
- * Chat query response with generated widget
+ * Chat query response
+ * config/diff/data/explanation are set when the turn produced a valid widget config
  */
 export interface ChatQueryResponse {
-  widget: Widget;
-  explanation: string;
+  sessionId: string;
+  message: ChatMessage;
+  config?: WidgetConfig;
+  diff?: WidgetConfigChange[];
+  explanation?: string;  // Plain-language answer, after fact checking
+  factCheck?: FactCheckResult;
+  validationErrors?: DSLValidationError[];
+  answeredBy: AnsweredBy;
   suggestedTitle: string;
 }
 
+/**
+ * Suggestion categories
+ * - performance: gains, losses, returns
+ * - allocation: sector, asset type and holding weights
+ * - analysis: data quality and trends (stale syncs, unclassified holdings)
+ */
+export type SuggestionCategory = 'performance' | 'allocation' | 'analysis';
+
+/**
+ * Suggested question derived from the user's holdings
+ * config runs as-is through /chat/execute-dsl, without an LLM call
+ */
+export interface ChatSuggestion {
+  id: string;  // Signal that produced it, e.g. 'sector-concentration'
+  text: string;  // Question as the user would ask it
+  reason: string;  // Why it is suggested, with the figure behind it
+  category: SuggestionCategory;
+  score: number;  // 0-1, higher ranks first
+  config: WidgetConfig;
+}
+
+/**
+ * Suggestions response (GET /chat/suggestions), ranked by score
+ */
+export interface GetSuggestionsResponse {
+  suggestions: ChatSuggestion[];
+}
+
 // ============================================
 // API Response Wrappers
 // ============================================
@@ -0,0 +1,17 @@
+/**
+ * Widgets Database Connection
+ * 
+ * Why this exists:
+ * - Stores widget configs and fork records
+ * - Follows Encore pattern: one database per service
+ */
+
+import { SQLDatabase } from 'encore.dev/storage/sqldb';
+
+/**
+ * Widgets service database
+ * Manages: widgets, forks
+ */
+export const DB = new SQLDatabase('widgets', {
+  migrations: './migrations'
+});
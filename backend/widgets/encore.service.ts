@@ -0,0 +1,12 @@
+/**
+ * Widgets Service Definition
+ * 
+ * Why this exists:
+ * - Stores widgets (a title plus a WidgetConfig DSL) and their fork genealogy
+ * - Migrates stored configs to the latest DSL version on read and in batch
+ * - Lets users fork public widgets into their own account
+ */
+
+import { Service } from 'encore.dev/service';
+
+export default new Service('widgets');
@@ -0,0 +1,35 @@
+-- Widgets and fork genealogy
+-- config holds a WidgetConfig of any DSL version; readers migrate it to the latest
+
+CREATE TABLE widgets (
+  id TEXT PRIMARY KEY DEFAULT gen_random_uuid()::text,
+  user_id TEXT NOT NULL,
+  title TEXT NOT NULL,
+  type TEXT NOT NULL CHECK (type IN ('chart', 'table', 'card', 'tile')),
+  visibility TEXT NOT NULL DEFAULT 'private' CHECK (visibility IN ('private', 'public')),
+  config JSONB NOT NULL,
+  fork_count INTEGER NOT NULL DEFAULT 0,
+  forked_from TEXT REFERENCES widgets(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_widgets_user_id ON widgets(user_id);
+CREATE INDEX idx_widgets_visibility ON widgets(visibility);
+CREATE INDEX idx_widgets_forked_from ON widgets(forked_from);
+CREATE INDEX idx_widgets_config_version ON widgets(((config->>'version')));
+
+CREATE TABLE forks (
+  id BIGSERIAL PRIMARY KEY,
+  original_widget_id TEXT NOT NULL REFERENCES widgets(id) ON DELETE CASCADE,
+  forked_widget_id TEXT NOT NULL UNIQUE REFERENCES widgets(id) ON DELETE CASCADE,
+  forking_user_id TEXT NOT NULL,
+  forked_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX idx_forks_original_widget_id ON forks(original_widget_id);
+CREATE INDEX idx_forks_forking_user_id ON forks(forking_user_id);
+
+-- Comments for documentation
+COMMENT ON COLUMN widgets.config IS 'WidgetConfig DSL; configs without a version field are version 1';
+COMMENT ON TABLE forks IS 'One row per fork: which widget was copied, by whom, into which new widget';
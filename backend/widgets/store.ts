@@ -0,0 +1,266 @@
+/**
+ * Widget persistence with migrate-on-read
+ *
+ * Why this exists:
+ * - Every read path (get, list, fork) hands out configs at the latest DSL version
+ * - Forks copy the migrated config, so old versions never spread to new rows
+ * - The batch rewrite lives here too, next to the row mapping it shares
+ */
+
+import { DB } from './db';
+import type { Widget, WidgetConfig, WidgetType, WidgetVisibility } from '../shared/types';
+import { internal, invalidArgument, notFound, permissionDenied } from '../shared/errors';
+import { CURRENT_DSL_VERSION, migrateWidgetConfig } from '../shared/dsl-migrations';
+import { validateWidgetConfig } from '../chat/dsl';
+import { notifyUser } from '../events/topic';
+
+/**
+ * Raw widget row as stored in PostgreSQL
+ */
+interface WidgetRow {
+  id: string;
+  user_id: string;
+  title: string;
+  type: WidgetType;
+  visibility: WidgetVisibility;
+  config: unknown;  // Any DSL version
+  fork_count: number;
+  forked_from: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * Map a row to a Widget, migrating its config to the latest DSL version
+ * @throws APIError if the stored config cannot be migrated
+ */
+function toWidget(row: WidgetRow): Widget {
+  let config: WidgetConfig;
+  try {
+    config = migrateWidgetConfig(row.config).config;
+  } catch (error) {
+    throw internal('Widget config could not be upgraded', { widgetId: row.id, error });
+  }
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    title: row.title,
+    type: row.type,
+    visibility: row.visibility,
+    config,
+    forkCount: Number(row.fork_count),
+    forkedFrom: row.forked_from ?? undefined,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
+
+/**
+ * Validate a config (after migration) or throw with path-addressed errors
+ */
+function validConfig(config: unknown): WidgetConfig {
+  const { config: parsed, errors } = validateWidgetConfig(config);
+  if (!parsed) {
+    throw invalidArgument('Invalid widget config', { errors });
+  }
+  return parsed;
+}
+
+export interface NewWidget {
+  title: string;
+  type: WidgetType;
+  visibility: WidgetVisibility;
+  config: unknown;
+}
+
+/**
+ * Create a widget; the config is validated and stored at the latest version
+ */
+export async function createWidget(userId: string, widget: NewWidget): Promise<Widget> {
+  const config = validConfig(widget.config);
+
+  const row = await DB.queryRow<WidgetRow>`
+    INSERT INTO widgets (user_id, title, type, visibility, config)
+    VALUES (${userId}, ${widget.title}, ${widget.type}, ${widget.visibility}, ${JSON.stringify(config)}::jsonb)
+    RETURNING *
+  `;
+
+  return toWidget(row!);
+}
+
+/**
+ * Get a widget the user may see (their own, or anyone's public widget)
+ * @throws APIError (404) otherwise, without revealing that a private widget exists
+ */
+export async function getWidget(userId: string, widgetId: string): Promise<Widget> {
+  const row = await DB.queryRow<WidgetRow>`
+    SELECT * FROM widgets
+    WHERE id = ${widgetId} AND (user_id = ${userId} OR visibility = 'public')
+  `;
+
+  if (!row) {
+    throw notFound('Widget not found', { widgetId });
+  }
+
+  return toWidget(row);
+}
+
+/**
+ * SQL condition for configs migrateWidgetConfig accepts: an object whose
+ * version is missing or a supported integer ($1 is CURRENT_DSL_VERSION)
+ */
+const READABLE_CONFIG = `
+  jsonb_typeof(config) = 'object' AND CASE coalesce(jsonb_typeof(config->'version'), 'null')
+    WHEN 'null' THEN true
+    WHEN 'number' THEN (config->>'version')::numeric BETWEEN 1 AND $1 AND (config->>'version')::numeric % 1 = 0
+    ELSE false
+  END
+`;
+
+/**
+ * List a user's widgets, newest first
+ * Widgets whose config cannot be upgraded are left out and not counted in
+ * total; the batch migration reports them
+ */
+export async function listWidgets(
+  userId: string,
+  visibility: WidgetVisibility | 'all',
+  limit: number,
+  offset: number
+): Promise<{ widgets: Widget[]; total: number }> {
+  // Unreadable configs are filtered in SQL so pages and total agree
+  const rows = await DB.rawQueryAll<WidgetRow & { total: number }>(
+    `SELECT *, COUNT(*) OVER () AS total FROM widgets
+     WHERE user_id = $2 AND ($3 = 'all' OR visibility = $3) AND ${READABLE_CONFIG}
+     ORDER BY created_at DESC, id ASC
+     LIMIT $4 OFFSET $5`,
+    CURRENT_DSL_VERSION,
+    userId,
+    visibility,
+    limit,
+    offset
+  );
+
+  const widgets: Widget[] = [];
+  let skipped = 0;
+  for (const row of rows) {
+    try {
+      widgets.push(toWidget(row));
+    } catch {
+      // Passed the SQL check but still failed; toWidget already logged the details
+      skipped++;
+    }
+  }
+
+  return { widgets, total: rows.length > 0 ? Number(rows[0].total) - skipped : 0 };
+}
+
+/**
+ * Fork a public widget into the user's account
+ * The copy gets the migrated (latest-version) config of the original
+ * @throws APIError (404/403) if the widget is not visible or is the user's own
+ */
+export async function forkWidget(userId: string, widgetId: string): Promise<Widget> {
+  const original = await getWidget(userId, widgetId);
+  if (original.userId === userId) {
+    throw permissionDenied('You cannot fork your own widget', { widgetId });
+  }
+  if (original.visibility !== 'public') {
+    throw notFound('Widget not found', { widgetId });
+  }
+
+  const config = validConfig(original.config);
+  const tx = await DB.begin();
+
+  try {
+    const row = await tx.queryRow<WidgetRow>`
+      INSERT INTO widgets (user_id, title, type, visibility, config, forked_from)
+      VALUES (${userId}, ${original.title}, ${original.type}, 'private', ${JSON.stringify(config)}::jsonb, ${original.id})
+      RETURNING *
+    `;
+
+    await tx.exec`UPDATE widgets SET fork_count = fork_count + 1 WHERE id = ${original.id}`;
+    await tx.exec`
+      INSERT INTO forks (original_widget_id, forked_widget_id, forking_user_id)
+      VALUES (${original.id}, ${row!.id}, ${userId})
+    `;
+
+    await tx.commit();
+
+    // Never throws: a fork succeeds even if the owner cannot be notified
+    await notifyUser(original.userId, {
+      type: 'fork',
+      title: 'Your widget was forked',
+      message: `"${original.title}" was forked`,
+      metadata: { widgetId: original.id, forkedWidgetId: row!.id, forkedBy: userId }
+    });
+    return toWidget(row!);
+  } catch (error) {
+    await tx.rollback();
+    throw error;
+  }
+}
+
+export interface ConfigMigrationFailure {
+  widgetId: string;
+  fromVersion?: number;
+  errors: string[];
+}
+
+export interface ConfigMigrationReport {
+  scanned: number;
+  migrated: number;
+  failed: ConfigMigrationFailure[];
+}
+
+/**
+ * Rewrite stored configs older than CURRENT_DSL_VERSION
+ *
+ * A config is only written back if it migrates and the result validates;
+ * anything else is reported and left untouched for a manual fix.
+ */
+export async function migrateStoredConfigs(batchSize: number): Promise<ConfigMigrationReport> {
+  const report: ConfigMigrationReport = { scanned: 0, migrated: 0, failed: [] };
+  const current = String(CURRENT_DSL_VERSION);
+  let cursor = '';
+
+  for (;;) {
+    const rows = await DB.queryAll<{ id: string; config: unknown }>`
+      SELECT id, config FROM widgets
+      WHERE (config->>'version') IS DISTINCT FROM ${current} AND id > ${cursor}
+      ORDER BY id ASC
+      LIMIT ${batchSize}
+    `;
+    if (rows.length === 0) break;
+
+    for (const row of rows) {
+      report.scanned += 1;
+      let fromVersion: number | undefined;
+
+      try {
+        const migration = migrateWidgetConfig(row.config);
+        fromVersion = migration.fromVersion;
+
+        const { config, errors } = validateWidgetConfig(migration.config);
+        if (!config) {
+          report.failed.push({
+            widgetId: row.id,
+            fromVersion,
+            errors: errors.map((error) => `${error.path}: ${error.message}`)
+          });
+          continue;
+        }
+
+        await DB.exec`UPDATE widgets SET config = ${JSON.stringify(config)}::jsonb WHERE id = ${row.id}`;
+        report.migrated += 1;
+      } catch (error) {
+        report.failed.push({ widgetId: row.id, fromVersion, errors: [(error as Error).message] });
+      }
+    }
+
+    cursor = rows[rows.length - 1].id;
+  }
+
+  return report;
+}
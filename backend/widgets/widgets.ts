@@ -0,0 +1,121 @@
+/**
+ * Widget endpoints
+ *
+ * Why this exists:
+ * - CRUD-lite for widgets (create, get, list) and forking
+ * - Batch job that upgrades stored configs to the latest DSL version
+ */
+
+import { api } from 'encore.dev/api';
+import { CronJob } from 'encore.dev/cron';
+import { requireAuth } from '../shared/auth';
+import type { Widget, WidgetConfig, WidgetType, WidgetVisibility } from '../shared/types';
+import { createWidget, forkWidget, getWidget, listWidgets, migrateStoredConfigs, type ConfigMigrationReport } from './store';
+
+const MAX_LIST_LIMIT = 100;
+const MIGRATION_BATCH_SIZE = 500;
+
+interface CreateWidgetRequest {
+  title: string;
+  type: WidgetType;
+  config: WidgetConfig;
+  visibility?: WidgetVisibility;
+}
+
+interface WidgetResponse {
+  widget: Widget;
+}
+
+/**
+ * Create a widget from a (validated) DSL config
+ * POST /widgets
+ */
+export const create = api(
+  { expose: true, auth: true, method: 'POST', path: '/widgets' },
+  async ({ title, type, config, visibility }: CreateWidgetRequest): Promise<WidgetResponse> => {
+    const { userId } = requireAuth();
+    const widget = await createWidget(userId, { title, type, config, visibility: visibility ?? 'private' });
+    return { widget };
+  }
+);
+
+interface GetWidgetRequest {
+  id: string;
+}
+
+/**
+ * Get a widget (own, or public)
+ * GET /widgets/:id
+ */
+export const get = api(
+  { expose: true, auth: true, method: 'GET', path: '/widgets/:id' },
+  async ({ id }: GetWidgetRequest): Promise<WidgetResponse> => {
+    const { userId } = requireAuth();
+    return { widget: await getWidget(userId, id) };
+  }
+);
+
+interface ListWidgetsRequest {
+  visibility?: WidgetVisibility | 'all';
+  limit?: number;
+  offset?: number;
+}
+
+interface ListWidgetsResponse {
+  widgets: Widget[];
+  total: number;
+}
+
+/**
+ * List the caller's widgets
+ * GET /widgets
+ */
+export const list = api(
+  { expose: true, auth: true, method: 'GET', path: '/widgets' },
+  async ({ visibility, limit, offset }: ListWidgetsRequest): Promise<ListWidgetsResponse> => {
+    const { userId } = requireAuth();
+    return listWidgets(userId, visibility ?? 'all', Math.min(limit ?? 50, MAX_LIST_LIMIT), offset ?? 0);
+  }
+);
+
+interface ForkWidgetRequest {
+  id: string;
+}
+
+interface ForkWidgetResponse {
+  forkedWidget: Widget;
+}
+
+/**
+ * Fork a public widget
+ * POST /widgets/:id/fork
+ */
+export const fork = api(
+  { expose: true, auth: true, method: 'POST', path: '/widgets/:id/fork' },
+  async ({ id }: ForkWidgetRequest): Promise<ForkWidgetResponse> => {
+    const { userId } = requireAuth();
+    return { forkedWidget: await forkWidget(userId, id) };
+  }
+);
+
+/**
+ * Upgrade every stored widget config to the latest DSL version
+ * Configs that fail to migrate or validate are reported, not written
+ * Internal endpoint, triggered by cron
+ */
+export const migrateConfigs = api(
+  { expose: false, method: 'POST', path: '/widgets/migrate-configs' },
+  async (): Promise<ConfigMigrationReport> => {
+    const report = await migrateStoredConfigs(MIGRATION_BATCH_SIZE);
+    if (report.failed.length > 0) {
+      console.error('Widget configs that could not be migrated:', report.failed);
+    }
+    return report;
+  }
+);
+
+export const migrateConfigsJob = new CronJob('migrate-widget-configs', {
+  title: 'Upgrade stored widget configs to the latest DSL version',
+  schedule: '0 22 * * *',  // 03:30 IST
+  endpoint: migrateConfigs
+});